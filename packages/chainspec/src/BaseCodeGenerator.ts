@@ -47,12 +47,27 @@ class Module {
     private readonly name: string,
     private readonly exports: Map<string, CodegenResult>,
     private readonly pallet?: string,
+    private readonly dir?: string,
+    readonly item?: string,
   ) {}
 
   isCommon() {
     return this.name === 'common';
   }
 
+  getExportNames() {
+    return [...this.exports.keys()];
+  }
+
+  private getDir() {
+    return path.posix.join(this.pallet ? uncapitalize(this.pallet) : '', this.dir ?? '');
+  }
+
+  // the path of the module relative to the spec directory without the file extension
+  getPath() {
+    return path.posix.join(this.getDir(), uncapitalize(this.name));
+  }
+
   toString() {
     const generated: string[] = [];
 
@@ -75,7 +90,8 @@ class Module {
     return [
       "import { z } from 'zod';",
       ...Object.entries(dependencies).map(([pkg, depsSet]) => {
-        const pkgPath = pkg === 'common' ? '../common' : pkg;
+        const commonPath = this.dir ? `../../${this.dir}/common` : '../common';
+        const pkgPath = pkg === 'common' ? commonPath : pkg;
 
         const deps = [...depsSet];
 
@@ -94,10 +110,10 @@ class Module {
   }
 
   async writeFile(specDir: string, changelog?: string) {
-    const outDir = this.pallet ? path.join(specDir, uncapitalize(this.pallet)) : specDir;
+    const outDir = path.join(specDir, this.getDir());
     await fs.mkdir(outDir, { recursive: true });
     await fs.writeFile(
-      path.join(outDir, uncapitalize(`${this.name}.ts`)),
+      path.join(specDir, `${this.getPath()}.ts`),
       await this.toFormattedString(),
       'utf8',
     );
@@ -112,6 +128,9 @@ export default abstract class CodeGenerator<T> {
 
   private trackedItems?: Set<string>;
 
+  // the directory inside of the pallet directory that the modules are written to
+  protected readonly moduleDir?: string;
+
   constructor({ trackedItems }: { trackedItems?: Set<string> } = {}) {
     if (trackedItems) this.trackedItems = new Set(trackedItems);
   }
@@ -120,6 +139,10 @@ export default abstract class CodeGenerator<T> {
 
   protected abstract getName(palletName: string, itemName: string): string;
 
+  protected getModuleName(itemName: string): string {
+    return itemName;
+  }
+
   *generate(def: ParsedMetadata<T>) {
     const unhandledEvents = new Set(this.trackedItems);
     const generatedEvents = new Set<string>();
@@ -143,7 +166,13 @@ export default abstract class CodeGenerator<T> {
 
         const parserName = nameToIdentifier(`${palletName}::${itemName}`);
 
-        yield new Module(itemName, new Map([[parserName, generatedCode]]), palletName);
+        yield new Module(
+          this.getModuleName(itemName),
+          new Map([[parserName, generatedCode]]),
+          palletName,
+          this.moduleDir,
+          this.getName(palletName, itemName),
+        );
       }
     }
 
@@ -154,6 +183,6 @@ export default abstract class CodeGenerator<T> {
 
     if (generatedEvents.size === 0) return;
 
-    yield new Module('common', new Map(this.registry.types));
+    yield new Module('common', new Map(this.registry.types), undefined, this.moduleDir);
   }
 }
@@ -26,6 +26,8 @@ export default abstract class BaseParser<T> {
   protected readonly hash?: string;
   protected readonly network: Network;
   protected readonly generatedDir: string;
+  // the prefix of the file the parsed metadata is cached in
+  protected readonly cacheName: string = 'types';
 
   private metadata?: Metadata;
   private specVersion?: number;
@@ -41,6 +43,12 @@ export default abstract class BaseParser<T> {
 
   protected abstract resolveType(call: TypeDef): T;
 
+  // whether the variant of the pallet's enum is an actual item and not just a placeholder
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected isItem(_name: string): boolean {
+    return true;
+  }
+
   protected getPalletName(): string {
     assert(this.currentPallet, 'Pallet not set');
     return this.currentPallet;
@@ -94,10 +102,13 @@ export default abstract class BaseParser<T> {
             [
               palletName,
               Object.fromEntries(
-                items.sub.filter(hasName).map((item) => {
-                  this.currentPallet = palletName;
-                  return [item.name, this.tryResolveType(item)] as const;
-                }),
+                items.sub
+                  .filter(hasName)
+                  .filter((item) => this.isItem(item.name))
+                  .map((item) => {
+                    this.currentPallet = palletName;
+                    return [item.name, this.tryResolveType(item)] as const;
+                  }),
               ),
             ] as const,
         ),
@@ -144,7 +155,7 @@ export default abstract class BaseParser<T> {
   async fetchAndParseSpec(): Promise<{ metadata: ParsedMetadata<T>; specVersion: number }> {
     const specVersion = await this.getSpecVersion();
 
-    const outfile = path.join(this.generatedDir, `types-${specVersion}.json`);
+    const outfile = path.join(this.generatedDir, `${this.cacheName}-${specVersion}.json`);
 
     let parsedMetadata = await fs
       .readFile(outfile, 'utf8')
@@ -3,12 +3,37 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import BaseParser, { MetadataOpts } from './BaseParser';
 import BaseCodeGenerator from './BaseCodeGenerator';
-import { diffSpecs } from './utils';
+import { diffSpecs, formatCode } from './utils';
+
+type IndexEntry = { specVersion: number; path: string; identifier: string };
+
+// writes a module that maps every item to its parsers by spec version
+const writeIndex = async (generatedDir: string, name: string, index: Map<string, IndexEntry[]>) => {
+  const imports: string[] = [];
+  const entries: string[] = [];
+
+  for (const [item, parsers] of [...index].sort(([a], [b]) => a.localeCompare(b))) {
+    const specs: string[] = [];
+
+    for (const { specVersion, path: modulePath, identifier } of parsers) {
+      const alias = `${identifier}${specVersion}`;
+      imports.push(`import { ${identifier} as ${alias} } from './${specVersion}/${modulePath}';`);
+      specs.push(`${specVersion}: ${alias}`);
+    }
+
+    entries.push(`'${item}': { ${specs.join(', ')} },`);
+  }
+
+  const code = [...imports, '', `export const ${name} = {`, ...entries, '};', ''].join('\n');
+
+  await fs.writeFile(path.join(generatedDir, `${name}.ts`), await formatCode(code), 'utf8');
+};
 
 const generateAllCode = async (
   Parser: { new (opts: MetadataOpts): BaseParser<unknown> },
   CodeGenerator: { new (opts?: { trackedItems: Set<string> }): BaseCodeGenerator<unknown> },
   generatedDir: string,
+  { clean = true, index }: { clean?: boolean; index?: string } = {},
 ) => {
   const info = await specVersionCache.read();
 
@@ -19,17 +44,30 @@ const generateAllCode = async (
   ).sort((a, b) => a.specVersion - b.specVersion);
 
   let previousMetadata = {};
+  const indexEntries = new Map<string, IndexEntry[]>();
 
   for (const { metadata, specVersion } of metadataForHashes) {
     const specDir = path.join(generatedDir, `${specVersion}`);
-    await fs.rm(specDir, { recursive: true, force: true });
+    // only the first of several generators writing to the same directory should clean it
+    if (clean) await fs.rm(specDir, { recursive: true, force: true });
     const { changedOrAddedEvents, changelog } = diffSpecs(previousMetadata, metadata);
     const generator = new CodeGenerator({ trackedItems: changedOrAddedEvents });
     for (const module of generator.generate(metadata)) {
       await module.writeFile(specDir, module.isCommon() ? changelog : undefined);
+
+      if (!module.item) continue;
+      const entries = indexEntries.get(module.item) ?? [];
+      entries.push(
+        ...module
+          .getExportNames()
+          .map((identifier) => ({ specVersion, path: module.getPath(), identifier })),
+      );
+      indexEntries.set(module.item, entries);
     }
     previousMetadata = metadata;
   }
+
+  if (index) await writeIndex(generatedDir, index, indexEntries);
 };
 
 export default generateAllCode;
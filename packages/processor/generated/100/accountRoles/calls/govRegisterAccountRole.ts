@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { accountId, cfPrimitivesAccountRole } from '../../calls/common';
+
+export const accountRolesGovRegisterAccountRole = z.object({
+  account: accountId,
+  role: cfPrimitivesAccountRole,
+});
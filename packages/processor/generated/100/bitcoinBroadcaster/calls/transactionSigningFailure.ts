@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfBroadcastBroadcastAttemptId } from '../../calls/common';
+
+export const bitcoinBroadcasterTransactionSigningFailure = z.object({
+  broadcastAttemptId: palletCfBroadcastBroadcastAttemptId,
+});
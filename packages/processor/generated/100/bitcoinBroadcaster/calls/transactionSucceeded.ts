@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfChainsBtcScriptPubkey, hexString, numberOrHex } from '../../calls/common';
+
+export const bitcoinBroadcasterTransactionSucceeded = z.object({
+  txOutId: hexString,
+  signerId: cfChainsBtcScriptPubkey,
+  txFee: numberOrHex,
+});
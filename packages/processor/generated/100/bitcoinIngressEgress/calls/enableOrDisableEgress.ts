@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsBtcAsset } from '../../calls/common';
+
+export const bitcoinIngressEgressEnableOrDisableEgress = z.object({
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  setDisabled: z.boolean(),
+});
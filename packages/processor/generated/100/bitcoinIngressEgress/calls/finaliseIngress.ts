@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsBtcScriptPubkey } from '../../calls/common';
+
+export const bitcoinIngressEgressFinaliseIngress = z.object({
+  addresses: z.array(cfChainsBtcScriptPubkey),
+});
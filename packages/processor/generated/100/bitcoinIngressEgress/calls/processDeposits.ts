@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { numberOrHex, palletCfIngressEgressDepositWitnessBitcoin } from '../../calls/common';
+
+export const bitcoinIngressEgressProcessDeposits = z.object({
+  depositWitnesses: z.array(palletCfIngressEgressDepositWitnessBitcoin),
+  blockHeight: numberOrHex,
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsBtcAsset, numberOrHex } from '../../calls/common';
+
+export const bitcoinIngressEgressSetMinimumDeposit = z.object({
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  minimumDeposit: numberOrHex,
+});
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import {
+  cfChainsBtcScriptPubkey,
+  cfPrimitivesChainsAssetsBtcAsset,
+  numberOrHex,
+} from '../../calls/common';
+
+export const bitcoinIngressEgressVaultTransferFailed = z.object({
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  amount: numberOrHex,
+  destinationAddress: cfChainsBtcScriptPubkey,
+});
@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+export const bitcoinThresholdSignerSetThresholdSignatureTimeout = z.object({
+  newTimeout: z.number(),
+});
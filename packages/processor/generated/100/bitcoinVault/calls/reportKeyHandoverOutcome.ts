@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { keygenOutcomeFor, numberOrHex } from '../../calls/common';
+
+export const bitcoinVaultReportKeyHandoverOutcome = z.object({
+  ceremonyId: numberOrHex,
+  reportedOutcome: keygenOutcomeFor,
+});
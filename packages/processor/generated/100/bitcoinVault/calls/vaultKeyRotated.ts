@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const bitcoinVaultVaultKeyRotated = z.object({ blockNumber: numberOrHex, txId: hexString });
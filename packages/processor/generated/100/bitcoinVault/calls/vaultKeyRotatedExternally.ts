@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfChainsBtcAggKey, hexString, numberOrHex } from '../../calls/common';
+
+export const bitcoinVaultVaultKeyRotatedExternally = z.object({
+  newPublicKey: cfChainsBtcAggKey,
+  blockNumber: numberOrHex,
+  txId: hexString,
+});
@@ -0,0 +1,571 @@
+import { z } from 'zod';
+import * as ss58 from '@chainflip/utils/ss58';
+
+export const hexString = z
+  .string()
+  .refine((v): v is `0x${string}` => /^0x[\da-f]*$/i.test(v), { message: 'Invalid hex string' });
+
+export const numericString = z
+  .string()
+  .refine((v) => /^\d+$/.test(v), { message: 'Invalid numeric string' });
+
+export const numberOrHex = z
+  .union([z.number(), hexString, numericString])
+  .transform((n) => BigInt(n));
+
+export const cfPrimitivesTxId = z.object({ blockNumber: z.number(), extrinsicIndex: z.number() });
+
+export const cfChainsBtcAggKey = z.object({ previous: hexString.nullish(), current: hexString });
+
+export const palletCfEmissionsPalletSafeMode = z.object({ emissionsSyncEnabled: z.boolean() });
+
+export const palletCfFundingPalletSafeMode = z.object({
+  redeemEnabled: z.boolean(),
+  startBiddingEnabled: z.boolean(),
+  stopBiddingEnabled: z.boolean(),
+});
+
+export const palletCfSwappingPalletSafeMode = z.object({
+  swapsEnabled: z.boolean(),
+  withdrawalsEnabled: z.boolean(),
+  depositsEnabled: z.boolean(),
+  brokerRegistrationEnabled: z.boolean(),
+});
+
+export const palletCfLpPalletSafeMode = z.object({
+  depositEnabled: z.boolean(),
+  withdrawalEnabled: z.boolean(),
+});
+
+export const palletCfValidatorPalletSafeMode = z.object({ authorityRotationEnabled: z.boolean() });
+
+export const palletCfPoolsPalletSafeMode = z.object({
+  rangeOrderUpdateEnabled: z.boolean(),
+  limitOrderUpdateEnabled: z.boolean(),
+});
+
+export const palletCfReputationPalletSafeMode = z.object({ reportingEnabled: z.boolean() });
+
+export const palletCfVaultsPalletSafeMode = z.object({ slashingEnabled: z.boolean() });
+
+export const palletCfBroadcastPalletSafeMode = z.object({ retryEnabled: z.boolean() });
+
+export const stateChainRuntimeSafeModeWitnesserCallPermission = z.object({
+  governance: z.boolean(),
+  funding: z.boolean(),
+  swapping: z.boolean(),
+  ethereumBroadcast: z.boolean(),
+  ethereumChainTracking: z.boolean(),
+  ethereumIngressEgress: z.boolean(),
+  ethereumVault: z.boolean(),
+  polkadotBroadcast: z.boolean(),
+  polkadotChainTracking: z.boolean(),
+  polkadotIngressEgress: z.boolean(),
+  polkadotVault: z.boolean(),
+  bitcoinBroadcast: z.boolean(),
+  bitcoinChainTracking: z.boolean(),
+  bitcoinIngressEgress: z.boolean(),
+  bitcoinVault: z.boolean(),
+});
+
+export const palletCfWitnesserPalletSafeMode = z.union([
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeWitnesserCallPermission,
+  }),
+]);
+
+export const stateChainRuntimeSafeModeInnerRuntimeSafeMode = z.object({
+  emissions: palletCfEmissionsPalletSafeMode,
+  funding: palletCfFundingPalletSafeMode,
+  swapping: palletCfSwappingPalletSafeMode,
+  liquidityProvider: palletCfLpPalletSafeMode,
+  validator: palletCfValidatorPalletSafeMode,
+  pools: palletCfPoolsPalletSafeMode,
+  reputation: palletCfReputationPalletSafeMode,
+  vaultEthereum: palletCfVaultsPalletSafeMode,
+  vaultBitcoin: palletCfVaultsPalletSafeMode,
+  vaultPolkadot: palletCfVaultsPalletSafeMode,
+  broadcastEthereum: palletCfBroadcastPalletSafeMode,
+  broadcastBitcoin: palletCfBroadcastPalletSafeMode,
+  broadcastPolkadot: palletCfBroadcastPalletSafeMode,
+  witnesser: palletCfWitnesserPalletSafeMode,
+});
+
+export const palletCfEnvironmentSafeModeUpdate = z.union([
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeInnerRuntimeSafeMode,
+  }),
+]);
+
+export const accountId = z
+  .union([
+    hexString,
+    z
+      .string()
+      .regex(/^[0-9a-f]+$/)
+      .transform<`0x${string}`>((v) => `0x${v}`),
+  ])
+  .transform((value) => ss58.encode({ data: value, ss58Format: 2112 }));
+
+export const palletCfFundingRedemptionAmount = z.union([
+  z.object({ __kind: z.literal('Max') }),
+  z.object({ __kind: z.literal('Exact'), value: numberOrHex }),
+]);
+
+export const simpleEnum = <U extends string, T extends readonly [U, ...U[]]>(values: T) =>
+  z.object({ __kind: z.enum(values) }).transform(({ __kind }) => __kind!);
+
+export const cfPrimitivesAccountRole = simpleEnum([
+  'None',
+  'Validator',
+  'LiquidityProvider',
+  'Broker',
+]);
+
+export const palletCfValidatorAuctionResolverSetSizeParameters = z.object({
+  minSize: z.number(),
+  maxSize: z.number(),
+  maxExpansion: z.number(),
+});
+
+export const cfPrimitivesSemVer = z.object({
+  major: z.number(),
+  minor: z.number(),
+  patch: z.number(),
+});
+
+export const palletCfValidatorPalletConfigUpdate = z.union([
+  z.object({ __kind: z.literal('RegistrationBondPercentage'), percentage: z.number() }),
+  z.object({ __kind: z.literal('AuctionBidCutoffPercentage'), percentage: z.number() }),
+  z.object({ __kind: z.literal('RedemptionPeriodAsPercentage'), percentage: z.number() }),
+  z.object({ __kind: z.literal('BackupRewardNodePercentage'), percentage: z.number() }),
+  z.object({ __kind: z.literal('EpochDuration'), blocks: z.number() }),
+  z.object({ __kind: z.literal('AuthoritySetMinSize'), minSize: z.number() }),
+  z.object({
+    __kind: z.literal('AuctionParameters'),
+    parameters: palletCfValidatorAuctionResolverSetSizeParameters,
+  }),
+  z.object({ __kind: z.literal('MinimumReportedCfeVersion'), version: cfPrimitivesSemVer }),
+]);
+
+export const stateChainRuntimeOpaqueSessionKeys = z.object({ aura: hexString, grandpa: hexString });
+
+export const finalityGrandpaPrevote = z.object({ targetHash: hexString, targetNumber: z.number() });
+
+export const finalityGrandpaEquivocationPrevote = z.object({
+  roundNumber: numberOrHex,
+  identity: hexString,
+  first: z.tuple([finalityGrandpaPrevote, hexString]),
+  second: z.tuple([finalityGrandpaPrevote, hexString]),
+});
+
+export const finalityGrandpaPrecommit = z.object({
+  targetHash: hexString,
+  targetNumber: z.number(),
+});
+
+export const finalityGrandpaEquivocationPrecommit = z.object({
+  roundNumber: numberOrHex,
+  identity: hexString,
+  first: z.tuple([finalityGrandpaPrecommit, hexString]),
+  second: z.tuple([finalityGrandpaPrecommit, hexString]),
+});
+
+export const spConsensusGrandpaEquivocation = z.union([
+  z.object({ __kind: z.literal('Prevote'), value: finalityGrandpaEquivocationPrevote }),
+  z.object({ __kind: z.literal('Precommit'), value: finalityGrandpaEquivocationPrecommit }),
+]);
+
+export const spConsensusGrandpaEquivocationProof = z.object({
+  setId: numberOrHex,
+  equivocation: spConsensusGrandpaEquivocation,
+});
+
+export const spSessionMembershipProof = z.object({
+  session: z.number(),
+  trieNodes: z.array(hexString),
+  validatorCount: z.number(),
+});
+
+export const palletCfGovernanceExecutionMode = simpleEnum(['Automatic', 'Manual']);
+
+export const cfPrimitivesChainsForeignChain = simpleEnum(['Ethereum', 'Polkadot', 'Bitcoin']);
+
+export const palletCfTokenholderGovernanceProposal = z.union([
+  z.object({
+    __kind: z.literal('SetGovernanceKey'),
+    value: z.tuple([cfPrimitivesChainsForeignChain, hexString]),
+  }),
+  z.object({ __kind: z.literal('SetCommunityKey'), value: hexString }),
+]);
+
+export const stateChainRuntimeChainflipOffencesOffence = simpleEnum([
+  'ParticipateSigningFailed',
+  'ParticipateKeygenFailed',
+  'FailedToBroadcastTransaction',
+  'MissedAuthorshipSlot',
+  'MissedHeartbeat',
+  'GrandpaEquivocation',
+  'ParticipateKeyHandoverFailed',
+]);
+
+export const palletCfReputationPenalty = z.object({
+  reputation: z.number(),
+  suspension: z.number(),
+});
+
+export const cfChainsEthEthereumTrackedData = z.object({
+  baseFee: numberOrHex,
+  priorityFee: numberOrHex,
+});
+
+export const cfChainsChainStateEthereum = z.object({
+  blockHeight: numberOrHex,
+  trackedData: cfChainsEthEthereumTrackedData,
+});
+
+export const cfChainsDotRuntimeVersion = z.object({
+  specVersion: z.number(),
+  transactionVersion: z.number(),
+});
+
+export const cfChainsDotPolkadotTrackedData = z.object({
+  medianTip: numberOrHex,
+  runtimeVersion: cfChainsDotRuntimeVersion,
+});
+
+export const cfChainsChainStatePolkadot = z.object({
+  blockHeight: z.number(),
+  trackedData: cfChainsDotPolkadotTrackedData,
+});
+
+export const cfChainsBtcBitcoinFeeInfo = z.object({
+  feePerInputUtxo: numberOrHex,
+  feePerOutputUtxo: numberOrHex,
+  minFeeRequiredPerTx: numberOrHex,
+});
+
+export const cfChainsBtcBitcoinTrackedData = z.object({ btcFeeInfo: cfChainsBtcBitcoinFeeInfo });
+
+export const cfChainsChainStateBitcoin = z.object({
+  blockHeight: numberOrHex,
+  trackedData: cfChainsBtcBitcoinTrackedData,
+});
+
+export const cfChainsEvmParityBit = simpleEnum(['Odd', 'Even']);
+
+export const cfChainsEvmAggKey = z.object({
+  pubKeyX: hexString,
+  pubKeyYParity: cfChainsEvmParityBit,
+});
+
+export const keygenOutcomeFor = z.union([
+  z.object({ __kind: z.literal('Ok'), value: cfChainsEvmAggKey }),
+  z.object({ __kind: z.literal('Err'), value: z.array(accountId) }),
+]);
+
+export const cfChainsEvmSchnorrVerificationComponents = z.object({
+  s: hexString,
+  kTimesGAddress: hexString,
+});
+
+export const palletCfBroadcastBroadcastAttemptId = z.object({
+  broadcastId: z.number(),
+  attemptCount: z.number(),
+});
+
+export const cfChainsEvmApiSigData = z.object({
+  sig: numberOrHex,
+  nonce: numberOrHex,
+  kTimesGAddress: hexString,
+});
+
+export const cfChainsEvmApiEvmReplayProtection = z.object({
+  nonce: numberOrHex,
+  chainId: numberOrHex,
+  keyManagerAddress: hexString,
+  contractAddress: hexString,
+});
+
+export const cfChainsEvmApiSetAggKeyWithAggKey = z.object({ newKey: cfChainsEvmAggKey });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetAggKeyWithAggKey,
+});
+
+export const cfChainsEthApiRegisterRedemptionRedemptionExecutor = z.union([
+  z.object({ __kind: z.literal('AnyAddress') }),
+  z.object({ __kind: z.literal('OnlyAddress'), value: hexString }),
+]);
+
+export const cfChainsEthApiRegisterRedemption = z.object({
+  nodeId: hexString,
+  amount: numberOrHex,
+  address: hexString,
+  expiry: numberOrHex,
+  executor: cfChainsEthApiRegisterRedemptionRedemptionExecutor,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderRegisterRedemption = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEthApiRegisterRedemption,
+});
+
+export const cfChainsEthApiUpdateFlipSupply = z.object({
+  newTotalSupply: numberOrHex,
+  stateChainBlockNumber: numberOrHex,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderUpdateFlipSupply = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEthApiUpdateFlipSupply,
+});
+
+export const cfChainsEvmApiSetGovKeyWithAggKey = z.object({ newGovKey: hexString });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetGovKeyWithAggKey = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetGovKeyWithAggKey,
+});
+
+export const cfChainsEvmApiSetCommKeyWithAggKey = z.object({ newCommKey: hexString });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetCommKeyWithAggKey = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetCommKeyWithAggKey,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchDeployAssetParams = z.object({
+  channelId: numberOrHex,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchAssetParams = z.object({
+  contractAddress: hexString,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableTransferAssetParams = z.object({
+  asset: hexString,
+  to: hexString,
+  amount: numberOrHex,
+});
+
+export const cfChainsEvmApiAllBatch = z.object({
+  fetchDeployParams: z.array(cfChainsEvmApiCommonEncodableFetchDeployAssetParams),
+  fetchParams: z.array(cfChainsEvmApiCommonEncodableFetchAssetParams),
+  transferParams: z.array(cfChainsEvmApiCommonEncodableTransferAssetParams),
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderAllBatch = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiAllBatch,
+});
+
+export const cfChainsEthApiEthereumApi = z.union([
+  z.object({
+    __kind: z.literal('SetAggKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey,
+  }),
+  z.object({
+    __kind: z.literal('RegisterRedemption'),
+    value: cfChainsEvmApiEvmTransactionBuilderRegisterRedemption,
+  }),
+  z.object({
+    __kind: z.literal('UpdateFlipSupply'),
+    value: cfChainsEvmApiEvmTransactionBuilderUpdateFlipSupply,
+  }),
+  z.object({
+    __kind: z.literal('SetGovKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetGovKeyWithAggKey,
+  }),
+  z.object({
+    __kind: z.literal('SetCommKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetCommKeyWithAggKey,
+  }),
+  z.object({ __kind: z.literal('AllBatch'), value: cfChainsEvmApiEvmTransactionBuilderAllBatch }),
+  z.object({ __kind: z.literal('ExecutexSwapAndCall'), value: z.unknown() }),
+]);
+
+export const cfChainsEvmTransactionFee = z.object({
+  effectiveGasPrice: numberOrHex,
+  gasUsed: numberOrHex,
+});
+
+export const cfChainsEvmEvmTransactionMetadata = z.object({
+  maxFeePerGas: numberOrHex.nullish(),
+  maxPriorityFeePerGas: numberOrHex.nullish(),
+  contract: hexString,
+  gasLimit: numberOrHex.nullish(),
+});
+
+export const cfChainsDotPolkadotReplayProtection = z.object({
+  genesisHash: hexString,
+  signer: hexString,
+  nonce: z.number(),
+});
+
+export const cfChainsDotPolkadotExtrinsicBuilder = z.object({
+  extrinsicCall: z.unknown(),
+  replayProtection: cfChainsDotPolkadotReplayProtection,
+  signature: hexString.nullish(),
+});
+
+export const cfChainsDotApiPolkadotApi = z.union([
+  z.object({
+    __kind: z.literal('BatchFetchAndTransfer'),
+    value: cfChainsDotPolkadotExtrinsicBuilder,
+  }),
+  z.object({ __kind: z.literal('RotateVaultProxy'), value: cfChainsDotPolkadotExtrinsicBuilder }),
+  z.object({ __kind: z.literal('ChangeGovKey'), value: cfChainsDotPolkadotExtrinsicBuilder }),
+  z.object({
+    __kind: z.literal('ExecuteXSwapAndCall'),
+    value: cfChainsDotPolkadotExtrinsicBuilder,
+  }),
+]);
+
+export const cfChainsBtcPreviousOrCurrent = simpleEnum(['Previous', 'Current']);
+
+export const cfChainsBtcUtxoId = z.object({ txId: hexString, vout: z.number() });
+
+export const cfChainsBtcBitcoinScript = z.object({ bytes: hexString });
+
+export const cfChainsBtcDepositAddress = z.object({
+  pubkeyX: hexString,
+  salt: z.number(),
+  tweakedPubkeyBytes: hexString,
+  tapleafHash: hexString,
+  unlockScript: cfChainsBtcBitcoinScript,
+});
+
+export const cfChainsBtcUtxo = z.object({
+  id: cfChainsBtcUtxoId,
+  amount: numberOrHex,
+  depositAddress: cfChainsBtcDepositAddress,
+});
+
+export const cfChainsBtcScriptPubkey = z.union([
+  z.object({ __kind: z.literal('P2PKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2SH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WPKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WSH'), value: hexString }),
+  z.object({ __kind: z.literal('Taproot'), value: hexString }),
+  z.object({ __kind: z.literal('OtherSegwit'), version: z.number(), program: hexString }),
+]);
+
+export const cfChainsBtcBitcoinOutput = z.object({
+  amount: numberOrHex,
+  scriptPubkey: cfChainsBtcScriptPubkey,
+});
+
+export const cfChainsBtcBitcoinTransaction = z.object({
+  inputs: z.array(cfChainsBtcUtxo),
+  outputs: z.array(cfChainsBtcBitcoinOutput),
+  signatures: z.array(hexString),
+  transactionBytes: hexString,
+  oldUtxoInputIndices: z.array(z.number()),
+});
+
+export const cfChainsBtcApiBatchTransfer = z.object({
+  bitcoinTransaction: cfChainsBtcBitcoinTransaction,
+  changeUtxoKey: hexString,
+});
+
+export const cfChainsBtcApiBitcoinApi = z.object({
+  __kind: z.literal('BatchTransfer'),
+  value: cfChainsBtcApiBatchTransfer,
+});
+
+export const cfPrimitivesChainsAssetsAnyAsset = simpleEnum(['Eth', 'Flip', 'Usdc', 'Dot', 'Btc']);
+
+export const cfChainsAddressEncodedAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }).transform(({ value }) => ({
+    chain: 'Ethereum' as const,
+    address: value,
+  })),
+  z.object({ __kind: z.literal('Dot'), value: hexString }).transform(({ value }) => ({
+    chain: 'Polkadot' as const,
+    address: ss58.encode({ data: value, ss58Format: 0 }),
+  })),
+  z.object({ __kind: z.literal('Btc'), value: hexString }).transform(({ value }) => ({
+    chain: 'Bitcoin' as const,
+    address: Buffer.from(value.slice(2), 'hex').toString('utf8'),
+  })),
+]);
+
+export const cfChainsCcmChannelMetadata = z.object({
+  message: hexString,
+  gasBudget: numberOrHex,
+  cfParameters: hexString,
+});
+
+export const cfChainsAddressForeignChainAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }),
+  z.object({ __kind: z.literal('Dot'), value: hexString }),
+  z.object({ __kind: z.literal('Btc'), value: cfChainsBtcScriptPubkey }),
+]);
+
+export const cfChainsCcmDepositMetadata = z.object({
+  sourceChain: cfPrimitivesChainsForeignChain,
+  sourceAddress: cfChainsAddressForeignChainAddress.nullish(),
+  channelMetadata: cfChainsCcmChannelMetadata,
+});
+
+export const cfPrimitivesChainsAssetsEthAsset = simpleEnum(['Eth', 'Flip', 'Usdc']);
+
+export const palletCfIngressEgressDepositWitnessEthereum = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  amount: numberOrHex,
+});
+
+export const cfPrimitivesChainsAssetsDotAsset = simpleEnum(['Dot']);
+
+export const palletCfIngressEgressDepositWitnessPolkadot = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  amount: numberOrHex,
+});
+
+export const cfPrimitivesChainsAssetsBtcAsset = simpleEnum(['Btc']);
+
+export const palletCfIngressEgressDepositWitnessBitcoin = z.object({
+  depositAddress: cfChainsBtcScriptPubkey,
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  amount: numberOrHex,
+  depositDetails: cfChainsBtcUtxoId,
+});
+
+export const palletCfPoolsAssetsMap = z.object({ base: numberOrHex, pair: numberOrHex });
+
+export const palletCfPoolsRangeOrderSize = z.union([
+  z.object({
+    __kind: z.literal('AssetAmounts'),
+    maximum: palletCfPoolsAssetsMap,
+    minimum: palletCfPoolsAssetsMap,
+  }),
+  z.object({ __kind: z.literal('Liquidity'), liquidity: numberOrHex }),
+]);
+
+export const palletCfPoolsIncreaseOrDecreaseRangeOrderSize = z.union([
+  z.object({ __kind: z.literal('Increase'), value: palletCfPoolsRangeOrderSize }),
+  z.object({ __kind: z.literal('Decrease'), value: palletCfPoolsRangeOrderSize }),
+]);
+
+export const palletCfPoolsIncreaseOrDecreaseU128 = z.union([
+  z.object({ __kind: z.literal('Increase'), value: numberOrHex }),
+  z.object({ __kind: z.literal('Decrease'), value: numberOrHex }),
+]);
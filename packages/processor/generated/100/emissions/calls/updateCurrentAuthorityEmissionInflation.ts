@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const emissionsUpdateCurrentAuthorityEmissionInflation = z.object({ inflation: z.number() });
@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const emissionsUpdateSupplyUpdateInterval = z.object({ value: z.number() });
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfChainsBtcAggKey, numberOrHex } from '../../calls/common';
+
+export const environmentWitnessCurrentBitcoinBlockNumberForKey = z.object({
+  blockNumber: numberOrHex,
+  newPublicKey: cfChainsBtcAggKey,
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesTxId, hexString } from '../../calls/common';
+
+export const environmentWitnessPolkadotVaultCreation = z.object({
+  dotPureProxyVaultKey: hexString,
+  txId: cfPrimitivesTxId,
+});
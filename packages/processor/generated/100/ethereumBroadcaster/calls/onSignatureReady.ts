@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { cfChainsEthApiEthereumApi, hexString, numberOrHex } from '../../calls/common';
+
+export const ethereumBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: hexString,
+  apiCall: cfChainsEthApiEthereumApi,
+  broadcastId: z.number(),
+  initiatedAt: numberOrHex,
+});
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import {
+  cfChainsEvmEvmTransactionMetadata,
+  cfChainsEvmSchnorrVerificationComponents,
+  cfChainsEvmTransactionFee,
+  hexString,
+} from '../../calls/common';
+
+export const ethereumBroadcasterTransactionSucceeded = z.object({
+  txOutId: cfChainsEvmSchnorrVerificationComponents,
+  signerId: hexString,
+  txFee: cfChainsEvmTransactionFee,
+  txMetadata: cfChainsEvmEvmTransactionMetadata,
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsChainStateEthereum } from '../../calls/common';
+
+export const ethereumChainTrackingUpdateChainState = z.object({
+  newChainState: cfChainsChainStateEthereum,
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { numberOrHex, palletCfIngressEgressDepositWitnessEthereum } from '../../calls/common';
+
+export const ethereumIngressEgressProcessDeposits = z.object({
+  depositWitnesses: z.array(palletCfIngressEgressDepositWitnessEthereum),
+  blockHeight: numberOrHex,
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsEthAsset, numberOrHex } from '../../calls/common';
+
+export const ethereumIngressEgressSetMinimumDeposit = z.object({
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  minimumDeposit: numberOrHex,
+});
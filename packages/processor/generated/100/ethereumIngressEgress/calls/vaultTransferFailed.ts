@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsEthAsset, hexString, numberOrHex } from '../../calls/common';
+
+export const ethereumIngressEgressVaultTransferFailed = z.object({
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  amount: numberOrHex,
+  destinationAddress: hexString,
+});
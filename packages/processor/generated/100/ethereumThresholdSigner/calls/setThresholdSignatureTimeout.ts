@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+export const ethereumThresholdSignerSetThresholdSignatureTimeout = z.object({
+  newTimeout: z.number(),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfChainsEvmSchnorrVerificationComponents, numberOrHex } from '../../calls/common';
+
+export const ethereumThresholdSignerSignatureSuccess = z.object({
+  ceremonyId: numberOrHex,
+  signature: cfChainsEvmSchnorrVerificationComponents,
+});
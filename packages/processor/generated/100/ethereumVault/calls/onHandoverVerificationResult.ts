@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfChainsEvmAggKey, numberOrHex } from '../../calls/common';
+
+export const ethereumVaultOnHandoverVerificationResult = z.object({
+  handoverCeremonyId: numberOrHex,
+  thresholdRequestId: z.number(),
+  newPublicKey: cfChainsEvmAggKey,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfChainsEvmAggKey, numberOrHex } from '../../calls/common';
+
+export const ethereumVaultOnKeygenVerificationResult = z.object({
+  keygenCeremonyId: numberOrHex,
+  thresholdRequestId: z.number(),
+  newPublicKey: cfChainsEvmAggKey,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfChainsEvmAggKey, hexString, numberOrHex } from '../../calls/common';
+
+export const ethereumVaultVaultKeyRotatedExternally = z.object({
+  newPublicKey: cfChainsEvmAggKey,
+  blockNumber: numberOrHex,
+  txId: hexString,
+});
@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const flipSetSlashingRate = z.object({ slashingRate: z.number() });
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const fundingBindExecutorAddress = z.object({ executorAddress: hexString });
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { accountId, hexString, numberOrHex } from '../../calls/common';
+
+export const fundingFunded = z.object({
+  accountId,
+  amount: numberOrHex,
+  funder: hexString,
+  txHash: hexString,
+});
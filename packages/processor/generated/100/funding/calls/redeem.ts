@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { hexString, palletCfFundingRedemptionAmount } from '../../calls/common';
+
+export const fundingRedeem = z.object({
+  amount: palletCfFundingRedemptionAmount,
+  address: hexString,
+  executor: hexString.nullish(),
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { accountId, hexString, numberOrHex } from '../../calls/common';
+
+export const fundingRedeemed = z.object({
+  accountId,
+  redeemedAmount: numberOrHex,
+  txHash: hexString,
+});
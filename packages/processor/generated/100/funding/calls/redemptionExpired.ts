@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { accountId, numberOrHex } from '../../calls/common';
+
+export const fundingRedemptionExpired = z.object({ accountId, blockNumber: numberOrHex });
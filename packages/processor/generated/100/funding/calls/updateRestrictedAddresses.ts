@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const fundingUpdateRestrictedAddresses = z.object({
+  addressesToAdd: z.array(hexString),
+  addressesToRemove: z.array(hexString),
+});
@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const governanceApprove = z.object({ approvedId: z.number() });
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesSemVer, hexString } from '../../calls/common';
+
+export const governanceChainflipRuntimeUpgrade = z.object({
+  cfeVersionRestriction: z.tuple([cfPrimitivesSemVer, z.number()]).nullish(),
+  code: hexString,
+});
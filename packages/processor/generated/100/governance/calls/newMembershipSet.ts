@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { accountId } from '../../calls/common';
+
+export const governanceNewMembershipSet = z.object({ accounts: z.array(accountId) });
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { palletCfGovernanceExecutionMode } from '../../calls/common';
+
+export const governanceProposeGovernanceExtrinsic = z.object({
+  call: z.unknown(),
+  execution: palletCfGovernanceExecutionMode,
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+export const grandpaNoteStalled = z.object({
+  delay: z.number(),
+  bestFinalizedBlockNumber: z.number(),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { spConsensusGrandpaEquivocationProof, spSessionMembershipProof } from '../../calls/common';
+
+export const grandpaReportEquivocation = z.object({
+  equivocationProof: spConsensusGrandpaEquivocationProof,
+  keyOwnerProof: spSessionMembershipProof,
+});
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset, numberOrHex } from '../../calls/common';
+
+export const liquidityPoolsSetLimitOrder = z.object({
+  sellAsset: cfPrimitivesChainsAssetsAnyAsset,
+  buyAsset: cfPrimitivesChainsAssetsAnyAsset,
+  id: numberOrHex,
+  optionTick: z.number().nullish(),
+  sellAmount: numberOrHex,
+});
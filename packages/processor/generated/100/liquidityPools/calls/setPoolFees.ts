@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset } from '../../calls/common';
+
+export const liquidityPoolsSetPoolFees = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  pairAsset: cfPrimitivesChainsAssetsAnyAsset,
+  feeHundredthPips: z.number(),
+});
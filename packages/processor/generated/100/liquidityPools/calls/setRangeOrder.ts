@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import {
+  cfPrimitivesChainsAssetsAnyAsset,
+  numberOrHex,
+  palletCfPoolsRangeOrderSize,
+} from '../../calls/common';
+
+export const liquidityPoolsSetRangeOrder = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  pairAsset: cfPrimitivesChainsAssetsAnyAsset,
+  id: numberOrHex,
+  optionTickRange: z.object({ start: z.number(), end: z.number() }).nullish(),
+  size_: palletCfPoolsRangeOrderSize,
+});
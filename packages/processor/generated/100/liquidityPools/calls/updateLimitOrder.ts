@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import {
+  cfPrimitivesChainsAssetsAnyAsset,
+  numberOrHex,
+  palletCfPoolsIncreaseOrDecreaseU128,
+} from '../../calls/common';
+
+export const liquidityPoolsUpdateLimitOrder = z.object({
+  sellAsset: cfPrimitivesChainsAssetsAnyAsset,
+  buyAsset: cfPrimitivesChainsAssetsAnyAsset,
+  id: numberOrHex,
+  optionTick: z.number().nullish(),
+  amountChange: palletCfPoolsIncreaseOrDecreaseU128,
+});
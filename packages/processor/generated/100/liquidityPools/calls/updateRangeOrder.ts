@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import {
+  cfPrimitivesChainsAssetsAnyAsset,
+  numberOrHex,
+  palletCfPoolsIncreaseOrDecreaseRangeOrderSize,
+} from '../../calls/common';
+
+export const liquidityPoolsUpdateRangeOrder = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  pairAsset: cfPrimitivesChainsAssetsAnyAsset,
+  id: numberOrHex,
+  optionTickRange: z.object({ start: z.number(), end: z.number() }).nullish(),
+  sizeChange: palletCfPoolsIncreaseOrDecreaseRangeOrderSize,
+});
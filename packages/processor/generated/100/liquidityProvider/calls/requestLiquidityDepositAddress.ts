@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset } from '../../calls/common';
+
+export const liquidityProviderRequestLiquidityDepositAddress = z.object({
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+});
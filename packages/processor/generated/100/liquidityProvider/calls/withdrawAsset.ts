@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfPrimitivesChainsAssetsAnyAsset,
+  numberOrHex,
+} from '../../calls/common';
+
+export const liquidityProviderWithdrawAsset = z.object({
+  amount: numberOrHex,
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+});
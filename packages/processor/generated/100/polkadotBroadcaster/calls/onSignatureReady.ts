@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { cfChainsDotApiPolkadotApi, hexString } from '../../calls/common';
+
+export const polkadotBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: hexString,
+  apiCall: cfChainsDotApiPolkadotApi,
+  broadcastId: z.number(),
+  initiatedAt: z.number(),
+});
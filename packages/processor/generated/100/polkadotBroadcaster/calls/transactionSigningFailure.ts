@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfBroadcastBroadcastAttemptId } from '../../calls/common';
+
+export const polkadotBroadcasterTransactionSigningFailure = z.object({
+  broadcastAttemptId: palletCfBroadcastBroadcastAttemptId,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const polkadotBroadcasterTransactionSucceeded = z.object({
+  txOutId: hexString,
+  signerId: hexString,
+  txFee: numberOrHex,
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsChainStatePolkadot } from '../../calls/common';
+
+export const polkadotChainTrackingUpdateChainState = z.object({
+  newChainState: cfChainsChainStatePolkadot,
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsDotAsset } from '../../calls/common';
+
+export const polkadotIngressEgressEnableOrDisableEgress = z.object({
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  setDisabled: z.boolean(),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsDotAsset, numberOrHex } from '../../calls/common';
+
+export const polkadotIngressEgressSetMinimumDeposit = z.object({
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  minimumDeposit: numberOrHex,
+});
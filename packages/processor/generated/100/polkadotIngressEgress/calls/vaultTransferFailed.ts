@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsDotAsset, hexString, numberOrHex } from '../../calls/common';
+
+export const polkadotIngressEgressVaultTransferFailed = z.object({
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  amount: numberOrHex,
+  destinationAddress: hexString,
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { accountId, numberOrHex } from '../../calls/common';
+
+export const polkadotThresholdSignerReportSignatureFailed = z.object({
+  ceremonyId: numberOrHex,
+  offenders: z.array(accountId),
+});
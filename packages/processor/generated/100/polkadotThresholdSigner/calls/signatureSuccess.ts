@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const polkadotThresholdSignerSignatureSuccess = z.object({
+  ceremonyId: numberOrHex,
+  signature: hexString,
+});
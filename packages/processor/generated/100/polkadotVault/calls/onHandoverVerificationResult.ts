@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const polkadotVaultOnHandoverVerificationResult = z.object({
+  handoverCeremonyId: numberOrHex,
+  thresholdRequestId: z.number(),
+  newPublicKey: hexString,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const polkadotVaultOnKeygenVerificationResult = z.object({
+  keygenCeremonyId: numberOrHex,
+  thresholdRequestId: z.number(),
+  newPublicKey: hexString,
+});
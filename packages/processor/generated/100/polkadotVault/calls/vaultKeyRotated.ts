@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesTxId } from '../../calls/common';
+
+export const polkadotVaultVaultKeyRotated = z.object({
+  blockNumber: z.number(),
+  txId: cfPrimitivesTxId,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesTxId, hexString } from '../../calls/common';
+
+export const polkadotVaultVaultKeyRotatedExternally = z.object({
+  newPublicKey: hexString,
+  blockNumber: z.number(),
+  txId: cfPrimitivesTxId,
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+export const reputationUpdateAccrualRatio = z.object({
+  reputationPoints: z.number(),
+  numberOfBlocks: z.number(),
+});
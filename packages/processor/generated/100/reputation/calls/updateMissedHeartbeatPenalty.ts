@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+export const reputationUpdateMissedHeartbeatPenalty = z.object({
+  newReputationPenalty: z.number(),
+});
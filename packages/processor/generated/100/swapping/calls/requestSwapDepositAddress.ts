@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfChainsCcmChannelMetadata,
+  cfPrimitivesChainsAssetsAnyAsset,
+} from '../../calls/common';
+
+export const swappingRequestSwapDepositAddress = z.object({
+  sourceAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+  brokerCommissionBps: z.number(),
+  channelMetadata: cfChainsCcmChannelMetadata.nullish(),
+});
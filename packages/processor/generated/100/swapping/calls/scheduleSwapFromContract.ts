@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfPrimitivesChainsAssetsAnyAsset,
+  hexString,
+  numberOrHex,
+} from '../../calls/common';
+
+export const swappingScheduleSwapFromContract = z.object({
+  from: cfPrimitivesChainsAssetsAnyAsset,
+  to: cfPrimitivesChainsAssetsAnyAsset,
+  depositAmount: numberOrHex,
+  destinationAddress: cfChainsAddressEncodedAddress,
+  txHash: hexString,
+});
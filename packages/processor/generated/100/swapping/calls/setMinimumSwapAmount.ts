@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset, numberOrHex } from '../../calls/common';
+
+export const swappingSetMinimumSwapAmount = z.object({
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+  amount: numberOrHex,
+});
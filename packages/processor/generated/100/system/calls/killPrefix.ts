@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const systemKillPrefix = z.object({ prefix: hexString, subkeys: z.number() });
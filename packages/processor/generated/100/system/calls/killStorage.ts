@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const systemKillStorage = z.object({ keys_: z.array(hexString) });
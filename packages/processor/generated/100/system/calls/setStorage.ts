@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const systemSetStorage = z.object({ items: z.array(z.tuple([hexString, hexString])) });
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfTokenholderGovernanceProposal } from '../../calls/common';
+
+export const tokenholderGovernanceSubmitProposal = z.object({
+  proposal: palletCfTokenholderGovernanceProposal,
+});
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { cfPrimitivesSemVer } from '../../calls/common';
+
+export const validatorCfeVersion = z.object({ newVersion: cfPrimitivesSemVer });
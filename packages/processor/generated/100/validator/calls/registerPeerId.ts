@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const validatorRegisterPeerId = z.object({
+  peerId: hexString,
+  port: z.number(),
+  ipAddress: numberOrHex,
+  signature: hexString,
+});
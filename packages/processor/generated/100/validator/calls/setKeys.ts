@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { hexString, stateChainRuntimeOpaqueSessionKeys } from '../../calls/common';
+
+export const validatorSetKeys = z.object({
+  keys_: stateChainRuntimeOpaqueSessionKeys,
+  proof: hexString,
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfValidatorPalletConfigUpdate } from '../../calls/common';
+
+export const validatorUpdatePalletConfig = z.object({
+  update: palletCfValidatorPalletConfigUpdate,
+});
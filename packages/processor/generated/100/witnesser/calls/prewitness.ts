@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const witnesserPrewitness = z.object({ call: z.unknown() });
@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const witnesserWitnessAtEpoch = z.object({ call: z.unknown(), epochIndex: z.number() });
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import {
+  cfChainsBtcApiBitcoinApi,
+  cfChainsBtcPreviousOrCurrent,
+  hexString,
+  numberOrHex,
+  palletCfBroadcastBroadcastAttemptId,
+} from '../../calls/common';
+
+export const bitcoinBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: z.array(z.tuple([cfChainsBtcPreviousOrCurrent, hexString])),
+  apiCall: cfChainsBtcApiBitcoinApi,
+  broadcastAttemptId: palletCfBroadcastBroadcastAttemptId,
+  initiatedAt: numberOrHex,
+  shouldBroadcast: z.boolean(),
+});
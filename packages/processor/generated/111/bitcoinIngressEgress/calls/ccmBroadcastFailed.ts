@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const bitcoinIngressEgressCcmBroadcastFailed = z.object({ broadcastId: z.number() });
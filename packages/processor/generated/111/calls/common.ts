@@ -0,0 +1,264 @@
+import { z } from 'zod';
+
+export const hexString = z
+  .string()
+  .refine((v): v is `0x${string}` => /^0x[\da-f]*$/i.test(v), { message: 'Invalid hex string' });
+
+export const numericString = z
+  .string()
+  .refine((v) => /^\d+$/.test(v), { message: 'Invalid numeric string' });
+
+export const numberOrHex = z
+  .union([z.number(), hexString, numericString])
+  .transform((n) => BigInt(n));
+
+export const cfChainsEvmApiSigData = z.object({
+  sig: numberOrHex,
+  nonce: numberOrHex,
+  kTimesGAddress: hexString,
+});
+
+export const cfChainsEvmApiEvmReplayProtection = z.object({
+  nonce: numberOrHex,
+  chainId: numberOrHex,
+  keyManagerAddress: hexString,
+  contractAddress: hexString,
+});
+
+export const simpleEnum = <U extends string, T extends readonly [U, ...U[]]>(values: T) =>
+  z.object({ __kind: z.enum(values) }).transform(({ __kind }) => __kind!);
+
+export const cfChainsEvmParityBit = simpleEnum(['Odd', 'Even']);
+
+export const cfChainsEvmAggKey = z.object({
+  pubKeyX: hexString,
+  pubKeyYParity: cfChainsEvmParityBit,
+});
+
+export const cfChainsEvmApiSetAggKeyWithAggKey = z.object({ newKey: cfChainsEvmAggKey });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetAggKeyWithAggKey,
+});
+
+export const cfChainsEthApiRegisterRedemptionRedemptionExecutor = z.union([
+  z.object({ __kind: z.literal('AnyAddress') }),
+  z.object({ __kind: z.literal('OnlyAddress'), value: hexString }),
+]);
+
+export const cfChainsEthApiRegisterRedemption = z.object({
+  nodeId: hexString,
+  amount: numberOrHex,
+  address: hexString,
+  expiry: numberOrHex,
+  executor: cfChainsEthApiRegisterRedemptionRedemptionExecutor,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderRegisterRedemption = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEthApiRegisterRedemption,
+});
+
+export const cfChainsEthApiUpdateFlipSupply = z.object({
+  newTotalSupply: numberOrHex,
+  stateChainBlockNumber: numberOrHex,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderUpdateFlipSupply = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEthApiUpdateFlipSupply,
+});
+
+export const cfChainsEvmApiSetGovKeyWithAggKey = z.object({ newGovKey: hexString });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetGovKeyWithAggKey = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetGovKeyWithAggKey,
+});
+
+export const cfChainsEvmApiSetCommKeyWithAggKey = z.object({ newCommKey: hexString });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetCommKeyWithAggKey = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetCommKeyWithAggKey,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchDeployAssetParams = z.object({
+  channelId: numberOrHex,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchAssetParams = z.object({
+  contractAddress: hexString,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableTransferAssetParams = z.object({
+  asset: hexString,
+  to: hexString,
+  amount: numberOrHex,
+});
+
+export const cfChainsEvmApiAllBatch = z.object({
+  fetchDeployParams: z.array(cfChainsEvmApiCommonEncodableFetchDeployAssetParams),
+  fetchParams: z.array(cfChainsEvmApiCommonEncodableFetchAssetParams),
+  transferParams: z.array(cfChainsEvmApiCommonEncodableTransferAssetParams),
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderAllBatch = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiAllBatch,
+});
+
+export const cfChainsEvmApiTransferFallback = z.object({
+  transferParam: cfChainsEvmApiCommonEncodableTransferAssetParams,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderTransferFallback = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiTransferFallback,
+});
+
+export const cfChainsEthApiEthereumApi = z.union([
+  z.object({
+    __kind: z.literal('SetAggKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey,
+  }),
+  z.object({
+    __kind: z.literal('RegisterRedemption'),
+    value: cfChainsEvmApiEvmTransactionBuilderRegisterRedemption,
+  }),
+  z.object({
+    __kind: z.literal('UpdateFlipSupply'),
+    value: cfChainsEvmApiEvmTransactionBuilderUpdateFlipSupply,
+  }),
+  z.object({
+    __kind: z.literal('SetGovKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetGovKeyWithAggKey,
+  }),
+  z.object({
+    __kind: z.literal('SetCommKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetCommKeyWithAggKey,
+  }),
+  z.object({ __kind: z.literal('AllBatch'), value: cfChainsEvmApiEvmTransactionBuilderAllBatch }),
+  z.object({ __kind: z.literal('ExecutexSwapAndCall'), value: z.unknown() }),
+  z.object({
+    __kind: z.literal('TransferFallback'),
+    value: cfChainsEvmApiEvmTransactionBuilderTransferFallback,
+  }),
+]);
+
+export const palletCfBroadcastBroadcastAttemptId = z.object({
+  broadcastId: z.number(),
+  attemptCount: z.number(),
+});
+
+export const cfChainsDotPolkadotReplayProtection = z.object({
+  genesisHash: hexString,
+  signer: hexString,
+  nonce: z.number(),
+});
+
+export const cfChainsDotPolkadotExtrinsicBuilder = z.object({
+  extrinsicCall: z.unknown(),
+  replayProtection: cfChainsDotPolkadotReplayProtection,
+  signature: hexString.nullish(),
+});
+
+export const cfChainsDotApiPolkadotApi = z.union([
+  z.object({
+    __kind: z.literal('BatchFetchAndTransfer'),
+    value: cfChainsDotPolkadotExtrinsicBuilder,
+  }),
+  z.object({ __kind: z.literal('RotateVaultProxy'), value: cfChainsDotPolkadotExtrinsicBuilder }),
+  z.object({ __kind: z.literal('ChangeGovKey'), value: cfChainsDotPolkadotExtrinsicBuilder }),
+  z.object({
+    __kind: z.literal('ExecuteXSwapAndCall'),
+    value: cfChainsDotPolkadotExtrinsicBuilder,
+  }),
+]);
+
+export const cfChainsBtcPreviousOrCurrent = simpleEnum(['Previous', 'Current']);
+
+export const cfChainsBtcUtxoId = z.object({ txId: hexString, vout: z.number() });
+
+export const cfChainsBtcBitcoinScript = z.object({ bytes: hexString });
+
+export const cfChainsBtcDepositAddress = z.object({
+  pubkeyX: hexString,
+  salt: z.number(),
+  tweakedPubkeyBytes: hexString,
+  tapleafHash: hexString,
+  unlockScript: cfChainsBtcBitcoinScript,
+});
+
+export const cfChainsBtcUtxo = z.object({
+  id: cfChainsBtcUtxoId,
+  amount: numberOrHex,
+  depositAddress: cfChainsBtcDepositAddress,
+});
+
+export const cfChainsBtcScriptPubkey = z.union([
+  z.object({ __kind: z.literal('P2PKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2SH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WPKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WSH'), value: hexString }),
+  z.object({ __kind: z.literal('Taproot'), value: hexString }),
+  z.object({ __kind: z.literal('OtherSegwit'), version: z.number(), program: hexString }),
+]);
+
+export const cfChainsBtcBitcoinOutput = z.object({
+  amount: numberOrHex,
+  scriptPubkey: cfChainsBtcScriptPubkey,
+});
+
+export const cfChainsBtcBitcoinTransaction = z.object({
+  inputs: z.array(cfChainsBtcUtxo),
+  outputs: z.array(cfChainsBtcBitcoinOutput),
+  signatures: z.array(hexString),
+  transactionBytes: hexString,
+  oldUtxoInputIndices: z.array(z.number()),
+});
+
+export const cfChainsBtcApiBatchTransfer = z.object({
+  bitcoinTransaction: cfChainsBtcBitcoinTransaction,
+  changeUtxoKey: hexString,
+});
+
+export const cfChainsBtcApiBitcoinApi = z.object({
+  __kind: z.literal('BatchTransfer'),
+  value: cfChainsBtcApiBatchTransfer,
+});
+
+export const cfPrimitivesChainsAssetsAnyAsset = simpleEnum(['Eth', 'Flip', 'Usdc', 'Dot', 'Btc']);
+
+export const palletCfPoolsAssetsMapU128 = z.object({ base: numberOrHex, quote: numberOrHex });
+
+export const palletCfPoolsRangeOrderSize = z.union([
+  z.object({
+    __kind: z.literal('AssetAmounts'),
+    maximum: palletCfPoolsAssetsMapU128,
+    minimum: palletCfPoolsAssetsMapU128,
+  }),
+  z.object({ __kind: z.literal('Liquidity'), liquidity: numberOrHex }),
+]);
+
+export const palletCfPoolsIncreaseOrDecreaseRangeOrderSize = z.union([
+  z.object({ __kind: z.literal('Increase'), value: palletCfPoolsRangeOrderSize }),
+  z.object({ __kind: z.literal('Decrease'), value: palletCfPoolsRangeOrderSize }),
+]);
+
+export const cfAmmCommonOrder = simpleEnum(['Buy', 'Sell']);
+
+export const palletCfPoolsIncreaseOrDecreaseU128 = z.union([
+  z.object({ __kind: z.literal('Increase'), value: numberOrHex }),
+  z.object({ __kind: z.literal('Decrease'), value: numberOrHex }),
+]);
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import {
+  cfChainsEthApiEthereumApi,
+  hexString,
+  numberOrHex,
+  palletCfBroadcastBroadcastAttemptId,
+} from '../../calls/common';
+
+export const ethereumBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: hexString,
+  apiCall: cfChainsEthApiEthereumApi,
+  broadcastAttemptId: palletCfBroadcastBroadcastAttemptId,
+  initiatedAt: numberOrHex,
+  shouldBroadcast: z.boolean(),
+});
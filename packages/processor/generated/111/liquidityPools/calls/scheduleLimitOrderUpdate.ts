@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+export const liquidityPoolsScheduleLimitOrderUpdate = z.object({
+  call: z.unknown(),
+  dispatchAt: z.number(),
+});
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import {
+  cfAmmCommonOrder,
+  cfPrimitivesChainsAssetsAnyAsset,
+  numberOrHex,
+} from '../../calls/common';
+
+export const liquidityPoolsSetLimitOrder = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  quoteAsset: cfPrimitivesChainsAssetsAnyAsset,
+  side: cfAmmCommonOrder,
+  id: numberOrHex,
+  optionTick: z.number().nullish(),
+  sellAmount: numberOrHex,
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import {
+  cfAmmCommonOrder,
+  cfPrimitivesChainsAssetsAnyAsset,
+  numberOrHex,
+  palletCfPoolsIncreaseOrDecreaseU128,
+} from '../../calls/common';
+
+export const liquidityPoolsUpdateLimitOrder = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  quoteAsset: cfPrimitivesChainsAssetsAnyAsset,
+  side: cfAmmCommonOrder,
+  id: numberOrHex,
+  optionTick: z.number().nullish(),
+  amountChange: palletCfPoolsIncreaseOrDecreaseU128,
+});
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import {
+  cfChainsDotApiPolkadotApi,
+  hexString,
+  palletCfBroadcastBroadcastAttemptId,
+} from '../../calls/common';
+
+export const polkadotBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: hexString,
+  apiCall: cfChainsDotApiPolkadotApi,
+  broadcastAttemptId: palletCfBroadcastBroadcastAttemptId,
+  initiatedAt: z.number(),
+  shouldBroadcast: z.boolean(),
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import {
+  cfChainsBtcApiBitcoinApi,
+  cfChainsBtcPreviousOrCurrent,
+  hexString,
+  numberOrHex,
+} from '../../calls/common';
+
+export const bitcoinBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: z.array(z.tuple([cfChainsBtcPreviousOrCurrent, hexString])),
+  apiCall: cfChainsBtcApiBitcoinApi,
+  broadcastId: z.number(),
+  initiatedAt: numberOrHex,
+  shouldBroadcast: z.boolean(),
+});
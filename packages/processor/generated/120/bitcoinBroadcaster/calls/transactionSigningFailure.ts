@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+export const bitcoinBroadcasterTransactionSigningFailure = z.object({
+  broadcastAttemptId: z.tuple([z.number(), z.number()]),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsChainStateBitcoin } from '../../calls/common';
+
+export const bitcoinChainTrackingUpdateChainState = z.object({
+  newChainState: cfChainsChainStateBitcoin,
+});
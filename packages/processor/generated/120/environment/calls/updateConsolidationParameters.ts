@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsBtcConsolidationParameters } from '../../calls/common';
+
+export const environmentUpdateConsolidationParameters = z.object({
+  params: cfChainsBtcConsolidationParameters,
+});
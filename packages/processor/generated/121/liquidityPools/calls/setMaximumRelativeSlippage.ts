@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const liquidityPoolsSetMaximumRelativeSlippage = z.object({ ticks: z.number().nullish() });
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfIngressEgressPalletConfigUpdate } from '../../calls/common';
+
+export const bitcoinIngressEgressUpdatePalletConfig = z.object({
+  updates: z.array(palletCfIngressEgressPalletConfigUpdate),
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfChainsBtcAggKey, numberOrHex } from '../../calls/common';
+
+export const bitcoinThresholdSignerOnHandoverVerificationResult = z.object({
+  handoverCeremonyId: numberOrHex,
+  thresholdRequestId: z.number(),
+  newPublicKey: cfChainsBtcAggKey,
+});
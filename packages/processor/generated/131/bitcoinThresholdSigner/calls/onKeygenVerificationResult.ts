@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfChainsBtcAggKey, numberOrHex } from '../../calls/common';
+
+export const bitcoinThresholdSignerOnKeygenVerificationResult = z.object({
+  keygenCeremonyId: numberOrHex,
+  thresholdRequestId: z.number(),
+  newPublicKey: cfChainsBtcAggKey,
+});
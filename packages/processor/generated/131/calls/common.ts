@@ -0,0 +1,320 @@
+import { z } from 'zod';
+import * as ss58 from '@chainflip/utils/ss58';
+
+export const hexString = z
+  .string()
+  .refine((v): v is `0x${string}` => /^0x[\da-f]*$/i.test(v), { message: 'Invalid hex string' });
+
+export const palletCfEmissionsPalletSafeMode = z.object({ emissionsSyncEnabled: z.boolean() });
+
+export const palletCfFundingPalletSafeMode = z.object({
+  redeemEnabled: z.boolean(),
+  startBiddingEnabled: z.boolean(),
+  stopBiddingEnabled: z.boolean(),
+});
+
+export const palletCfSwappingPalletSafeMode = z.object({
+  swapsEnabled: z.boolean(),
+  withdrawalsEnabled: z.boolean(),
+  depositsEnabled: z.boolean(),
+  brokerRegistrationEnabled: z.boolean(),
+});
+
+export const palletCfLpPalletSafeMode = z.object({
+  depositEnabled: z.boolean(),
+  withdrawalEnabled: z.boolean(),
+});
+
+export const palletCfValidatorPalletSafeMode = z.object({ authorityRotationEnabled: z.boolean() });
+
+export const palletCfPoolsPalletSafeMode = z.object({
+  rangeOrderUpdateEnabled: z.boolean(),
+  limitOrderUpdateEnabled: z.boolean(),
+});
+
+export const palletCfReputationPalletSafeMode = z.object({ reportingEnabled: z.boolean() });
+
+export const palletCfThresholdSignaturePalletSafeMode = z.object({ slashingEnabled: z.boolean() });
+
+export const palletCfBroadcastPalletSafeMode = z.object({ retryEnabled: z.boolean() });
+
+export const stateChainRuntimeSafeModeWitnesserCallPermission = z.object({
+  governance: z.boolean(),
+  funding: z.boolean(),
+  swapping: z.boolean(),
+  ethereumBroadcast: z.boolean(),
+  ethereumChainTracking: z.boolean(),
+  ethereumIngressEgress: z.boolean(),
+  ethereumVault: z.boolean(),
+  polkadotBroadcast: z.boolean(),
+  polkadotChainTracking: z.boolean(),
+  polkadotIngressEgress: z.boolean(),
+  polkadotVault: z.boolean(),
+  bitcoinBroadcast: z.boolean(),
+  bitcoinChainTracking: z.boolean(),
+  bitcoinIngressEgress: z.boolean(),
+  bitcoinVault: z.boolean(),
+});
+
+export const palletCfWitnesserPalletSafeMode = z.union([
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeWitnesserCallPermission,
+  }),
+]);
+
+export const stateChainRuntimeSafeModeInnerRuntimeSafeMode = z.object({
+  emissions: palletCfEmissionsPalletSafeMode,
+  funding: palletCfFundingPalletSafeMode,
+  swapping: palletCfSwappingPalletSafeMode,
+  liquidityProvider: palletCfLpPalletSafeMode,
+  validator: palletCfValidatorPalletSafeMode,
+  pools: palletCfPoolsPalletSafeMode,
+  reputation: palletCfReputationPalletSafeMode,
+  thresholdSignatureEthereum: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignatureBitcoin: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignaturePolkadot: palletCfThresholdSignaturePalletSafeMode,
+  broadcastEthereum: palletCfBroadcastPalletSafeMode,
+  broadcastBitcoin: palletCfBroadcastPalletSafeMode,
+  broadcastPolkadot: palletCfBroadcastPalletSafeMode,
+  witnesser: palletCfWitnesserPalletSafeMode,
+});
+
+export const palletCfEnvironmentSafeModeUpdate = z.union([
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeInnerRuntimeSafeMode,
+  }),
+]);
+
+export const accountId = z
+  .union([
+    hexString,
+    z
+      .string()
+      .regex(/^[0-9a-f]+$/)
+      .transform<`0x${string}`>((v) => `0x${v}`),
+  ])
+  .transform((value) => ss58.encode({ data: value, ss58Format: 2112 }));
+
+export const simpleEnum = <U extends string, T extends readonly [U, ...U[]]>(values: T) =>
+  z.object({ __kind: z.enum(values) }).transform(({ __kind }) => __kind!);
+
+export const stateChainRuntimeChainflipOffencesOffence = simpleEnum([
+  'ParticipateSigningFailed',
+  'ParticipateKeygenFailed',
+  'FailedToBroadcastTransaction',
+  'MissedAuthorshipSlot',
+  'MissedHeartbeat',
+  'GrandpaEquivocation',
+  'ParticipateKeyHandoverFailed',
+  'FailedToWitnessInTime',
+]);
+
+export const palletCfReputationPenalty = z.object({
+  reputation: z.number(),
+  suspension: z.number(),
+});
+
+export const numericString = z
+  .string()
+  .refine((v) => /^\d+$/.test(v), { message: 'Invalid numeric string' });
+
+export const numberOrHex = z
+  .union([z.number(), hexString, numericString])
+  .transform((n) => BigInt(n));
+
+export const cfChainsBtcAggKey = z.object({ previous: hexString.nullish(), current: hexString });
+
+export const cfChainsEvmParityBit = simpleEnum(['Odd', 'Even']);
+
+export const cfChainsEvmAggKey = z.object({
+  pubKeyX: hexString,
+  pubKeyYParity: cfChainsEvmParityBit,
+});
+
+export const keygenOutcomeFor = z.union([
+  z.object({ __kind: z.literal('Ok'), value: cfChainsEvmAggKey }),
+  z.object({ __kind: z.literal('Err'), value: z.array(accountId) }),
+]);
+
+export const cfChainsEvmSchnorrVerificationComponents = z.object({
+  s: hexString,
+  kTimesGAddress: hexString,
+});
+
+export const cfChainsEvmTransactionFee = z.object({
+  effectiveGasPrice: numberOrHex,
+  gasUsed: numberOrHex,
+});
+
+export const cfChainsEvmEvmTransactionMetadata = z.object({
+  maxFeePerGas: numberOrHex.nullish(),
+  maxPriorityFeePerGas: numberOrHex.nullish(),
+  contract: hexString,
+  gasLimit: numberOrHex.nullish(),
+});
+
+export const cfChainsDotPolkadotTransactionId = z.object({
+  blockNumber: z.number(),
+  extrinsicIndex: z.number(),
+});
+
+export const cfChainsBtcPreviousOrCurrent = simpleEnum(['Previous', 'Current']);
+
+export const cfChainsBtcUtxoId = z.object({ txId: hexString, vout: z.number() });
+
+export const cfChainsBtcBitcoinScript = z.object({ bytes: hexString });
+
+export const cfChainsBtcDepositAddressTapscriptPath = z.object({
+  salt: z.number(),
+  tweakedPubkeyBytes: hexString,
+  tapleafHash: hexString,
+  unlockScript: cfChainsBtcBitcoinScript,
+});
+
+export const cfChainsBtcDepositAddress = z.object({
+  pubkeyX: hexString,
+  scriptPath: cfChainsBtcDepositAddressTapscriptPath.nullish(),
+});
+
+export const cfChainsBtcUtxo = z.object({
+  id: cfChainsBtcUtxoId,
+  amount: numberOrHex,
+  depositAddress: cfChainsBtcDepositAddress,
+});
+
+export const cfChainsBtcScriptPubkey = z.union([
+  z.object({ __kind: z.literal('P2PKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2SH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WPKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WSH'), value: hexString }),
+  z.object({ __kind: z.literal('Taproot'), value: hexString }),
+  z.object({ __kind: z.literal('OtherSegwit'), version: z.number(), program: hexString }),
+]);
+
+export const cfChainsBtcBitcoinOutput = z.object({
+  amount: numberOrHex,
+  scriptPubkey: cfChainsBtcScriptPubkey,
+});
+
+export const cfChainsBtcBitcoinTransaction = z.object({
+  inputs: z.array(cfChainsBtcUtxo),
+  outputs: z.array(cfChainsBtcBitcoinOutput),
+  signatures: z.array(hexString),
+  transactionBytes: hexString,
+  oldUtxoInputIndices: z.array(z.number()),
+});
+
+export const cfChainsBtcApiBatchTransfer = z.object({
+  bitcoinTransaction: cfChainsBtcBitcoinTransaction,
+  changeUtxoKey: hexString,
+});
+
+export const cfChainsBtcApiBitcoinApi = z.object({
+  __kind: z.literal('BatchTransfer'),
+  value: cfChainsBtcApiBatchTransfer,
+});
+
+export const cfPrimitivesChainsAssetsAnyAsset = simpleEnum([
+  'Eth',
+  'Flip',
+  'Usdc',
+  'Dot',
+  'Btc',
+  'Usdt',
+]);
+
+export const cfChainsAddressEncodedAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }).transform(({ value }) => ({
+    chain: 'Ethereum' as const,
+    address: value,
+  })),
+  z.object({ __kind: z.literal('Dot'), value: hexString }).transform(({ value }) => ({
+    chain: 'Polkadot' as const,
+    address: ss58.encode({ data: value, ss58Format: 0 }),
+  })),
+  z.object({ __kind: z.literal('Btc'), value: hexString }).transform(({ value }) => ({
+    chain: 'Bitcoin' as const,
+    address: Buffer.from(value.slice(2), 'hex').toString('utf8'),
+  })),
+]);
+
+export const cfChainsCcmChannelMetadata = z.object({
+  message: hexString,
+  gasBudget: numberOrHex,
+  cfParameters: hexString,
+});
+
+export const cfPrimitivesChainsForeignChain = simpleEnum(['Ethereum', 'Polkadot', 'Bitcoin']);
+
+export const cfChainsAddressForeignChainAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }),
+  z.object({ __kind: z.literal('Dot'), value: hexString }),
+  z.object({ __kind: z.literal('Btc'), value: cfChainsBtcScriptPubkey }),
+]);
+
+export const cfChainsCcmDepositMetadata = z.object({
+  sourceChain: cfPrimitivesChainsForeignChain,
+  sourceAddress: cfChainsAddressForeignChainAddress.nullish(),
+  channelMetadata: cfChainsCcmChannelMetadata,
+});
+
+export const palletCfSwappingPalletConfigUpdate = z.object({
+  __kind: z.literal('MaximumSwapAmount'),
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+  amount: numberOrHex.nullish(),
+});
+
+export const cfPrimitivesChainsAssetsEthAsset = simpleEnum(['Eth', 'Flip', 'Usdc', 'Usdt']);
+
+export const palletCfIngressEgressDepositWitnessEthereum = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  amount: numberOrHex,
+});
+
+export const palletCfIngressEgressPalletConfigUpdate = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDeposit'),
+    asset: cfPrimitivesChainsAssetsEthAsset,
+    minimumDeposit: numberOrHex,
+  }),
+]);
+
+export const cfPrimitivesChainsAssetsBtcAsset = simpleEnum(['Btc']);
+
+export const palletCfIngressEgressDepositWitnessBitcoin = z.object({
+  depositAddress: cfChainsBtcScriptPubkey,
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  amount: numberOrHex,
+  depositDetails: cfChainsBtcUtxoId,
+});
+
+export const cfAmmCommonPoolPairsMap = z.object({ base: numberOrHex, quote: numberOrHex });
+
+export const palletCfPoolsRangeOrderSize = z.union([
+  z.object({
+    __kind: z.literal('AssetAmounts'),
+    maximum: cfAmmCommonPoolPairsMap,
+    minimum: cfAmmCommonPoolPairsMap,
+  }),
+  z.object({ __kind: z.literal('Liquidity'), liquidity: numberOrHex }),
+]);
+
+export const palletCfPoolsIncreaseOrDecreaseRangeOrderSize = z.union([
+  z.object({ __kind: z.literal('Increase'), value: palletCfPoolsRangeOrderSize }),
+  z.object({ __kind: z.literal('Decrease'), value: palletCfPoolsRangeOrderSize }),
+]);
+
+export const cfAmmCommonSide = simpleEnum(['Buy', 'Sell']);
+
+export const palletCfPoolsIncreaseOrDecreaseU128 = z.union([
+  z.object({ __kind: z.literal('Increase'), value: numberOrHex }),
+  z.object({ __kind: z.literal('Decrease'), value: numberOrHex }),
+]);
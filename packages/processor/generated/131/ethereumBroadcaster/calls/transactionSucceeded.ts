@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import {
+  cfChainsEvmEvmTransactionMetadata,
+  cfChainsEvmSchnorrVerificationComponents,
+  cfChainsEvmTransactionFee,
+  hexString,
+} from '../../calls/common';
+
+export const ethereumBroadcasterTransactionSucceeded = z.object({
+  txOutId: cfChainsEvmSchnorrVerificationComponents,
+  signerId: hexString,
+  txFee: cfChainsEvmTransactionFee,
+  txMetadata: cfChainsEvmEvmTransactionMetadata,
+  transactionRef: hexString,
+});
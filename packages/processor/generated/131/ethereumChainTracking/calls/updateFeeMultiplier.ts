@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { numberOrHex } from '../../calls/common';
+
+export const ethereumChainTrackingUpdateFeeMultiplier = z.object({ newFeeMultiplier: numberOrHex });
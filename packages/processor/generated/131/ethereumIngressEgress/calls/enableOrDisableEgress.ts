@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsEthAsset } from '../../calls/common';
+
+export const ethereumIngressEgressEnableOrDisableEgress = z.object({
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  setDisabled: z.boolean(),
+});
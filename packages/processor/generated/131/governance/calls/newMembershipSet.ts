@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { accountId } from '../../calls/common';
+
+export const governanceNewMembershipSet = z.object({ newMembers: z.array(accountId) });
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { cfAmmCommonSide, cfPrimitivesChainsAssetsAnyAsset, numberOrHex } from '../../calls/common';
+
+export const liquidityPoolsSetLimitOrder = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  quoteAsset: cfPrimitivesChainsAssetsAnyAsset,
+  side: cfAmmCommonSide,
+  id: numberOrHex,
+  optionTick: z.number().nullish(),
+  sellAmount: numberOrHex,
+});
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { cfChainsDotPolkadotTransactionId, hexString, numberOrHex } from '../../calls/common';
+
+export const polkadotBroadcasterTransactionSucceeded = z.object({
+  txOutId: hexString,
+  signerId: hexString,
+  txFee: numberOrHex,
+  transactionRef: cfChainsDotPolkadotTransactionId,
+});
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import {
+  palletCfReputationPenalty,
+  stateChainRuntimeChainflipOffencesOffence,
+} from '../../calls/common';
+
+export const reputationSetPenalty = z.object({
+  offence: stateChainRuntimeChainflipOffencesOffence,
+  newPenalty: palletCfReputationPenalty,
+});
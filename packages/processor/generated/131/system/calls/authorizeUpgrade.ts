@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const systemAuthorizeUpgrade = z.object({ codeHash: hexString });
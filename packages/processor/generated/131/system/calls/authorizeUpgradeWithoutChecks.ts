@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const systemAuthorizeUpgradeWithoutChecks = z.object({ codeHash: hexString });
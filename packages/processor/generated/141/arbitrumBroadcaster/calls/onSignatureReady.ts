@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { cfChainsArbApiArbitrumApi, hexString, numberOrHex } from '../../calls/common';
+
+export const arbitrumBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: hexString,
+  apiCall: cfChainsArbApiArbitrumApi,
+  broadcastId: z.number(),
+  initiatedAt: numberOrHex,
+  shouldBroadcast: z.boolean(),
+});
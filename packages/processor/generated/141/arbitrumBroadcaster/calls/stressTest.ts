@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const arbitrumBroadcasterStressTest = z.object({ howMany: z.number() });
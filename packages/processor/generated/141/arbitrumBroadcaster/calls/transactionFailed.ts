@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const arbitrumBroadcasterTransactionFailed = z.object({ broadcastId: z.number() });
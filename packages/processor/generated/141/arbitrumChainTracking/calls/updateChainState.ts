@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsChainStateArbitrum } from '../../calls/common';
+
+export const arbitrumChainTrackingUpdateChainState = z.object({
+  newChainState: cfChainsChainStateArbitrum,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsArbAsset, numberOrHex } from '../../calls/common';
+
+export const arbitrumIngressEgressAddBoostFunds = z.object({
+  asset: cfPrimitivesChainsAssetsArbAsset,
+  amount: numberOrHex,
+  poolTier: z.number(),
+});
@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const arbitrumIngressEgressCcmBroadcastFailed = z.object({ broadcastId: z.number() });
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfIngressEgressBoostPoolIdArbitrum } from '../../calls/common';
+
+export const arbitrumIngressEgressCreateBoostPools = z.object({
+  newPools: z.array(palletCfIngressEgressBoostPoolIdArbitrum),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsArbAsset } from '../../calls/common';
+
+export const arbitrumIngressEgressEnableOrDisableEgress = z.object({
+  asset: cfPrimitivesChainsAssetsArbAsset,
+  setDisabled: z.boolean(),
+});
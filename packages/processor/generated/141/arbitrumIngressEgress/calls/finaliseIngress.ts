@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const arbitrumIngressEgressFinaliseIngress = z.object({ addresses: z.array(hexString) });
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { numberOrHex, palletCfIngressEgressDepositWitnessArbitrum } from '../../calls/common';
+
+export const arbitrumIngressEgressProcessDeposits = z.object({
+  depositWitnesses: z.array(palletCfIngressEgressDepositWitnessArbitrum),
+  blockHeight: numberOrHex,
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsArbAsset } from '../../calls/common';
+
+export const arbitrumIngressEgressStopBoosting = z.object({
+  asset: cfPrimitivesChainsAssetsArbAsset,
+  poolTier: z.number(),
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsArbAsset, hexString, numberOrHex } from '../../calls/common';
+
+export const arbitrumIngressEgressVaultTransferFailed = z.object({
+  asset: cfPrimitivesChainsAssetsArbAsset,
+  amount: numberOrHex,
+  destinationAddress: hexString,
+});
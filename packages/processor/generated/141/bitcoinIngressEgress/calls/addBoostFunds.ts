@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsBtcAsset, numberOrHex } from '../../calls/common';
+
+export const bitcoinIngressEgressAddBoostFunds = z.object({
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  amount: numberOrHex,
+  poolTier: z.number(),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfIngressEgressBoostPoolIdBitcoin } from '../../calls/common';
+
+export const bitcoinIngressEgressCreateBoostPools = z.object({
+  newPools: z.array(palletCfIngressEgressBoostPoolIdBitcoin),
+});
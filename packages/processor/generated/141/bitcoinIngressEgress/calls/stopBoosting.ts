@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsBtcAsset } from '../../calls/common';
+
+export const bitcoinIngressEgressStopBoosting = z.object({
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  poolTier: z.number(),
+});
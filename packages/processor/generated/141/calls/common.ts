@@ -0,0 +1,391 @@
+import { z } from 'zod';
+import * as ss58 from '@chainflip/utils/ss58';
+
+export const palletCfEmissionsPalletSafeMode = z.object({ emissionsSyncEnabled: z.boolean() });
+
+export const palletCfFundingPalletSafeMode = z.object({ redeemEnabled: z.boolean() });
+
+export const palletCfSwappingPalletSafeMode = z.object({
+  swapsEnabled: z.boolean(),
+  withdrawalsEnabled: z.boolean(),
+  brokerRegistrationEnabled: z.boolean(),
+});
+
+export const palletCfLpPalletSafeMode = z.object({
+  depositEnabled: z.boolean(),
+  withdrawalEnabled: z.boolean(),
+});
+
+export const palletCfValidatorPalletSafeMode = z.object({
+  authorityRotationEnabled: z.boolean(),
+  startBiddingEnabled: z.boolean(),
+  stopBiddingEnabled: z.boolean(),
+});
+
+export const palletCfPoolsPalletSafeMode = z.object({
+  rangeOrderUpdateEnabled: z.boolean(),
+  limitOrderUpdateEnabled: z.boolean(),
+});
+
+export const palletCfReputationPalletSafeMode = z.object({ reportingEnabled: z.boolean() });
+
+export const palletCfThresholdSignaturePalletSafeMode = z.object({ slashingEnabled: z.boolean() });
+
+export const palletCfBroadcastPalletSafeMode = z.object({ retryEnabled: z.boolean() });
+
+export const stateChainRuntimeSafeModeWitnesserCallPermission = z.object({
+  governance: z.boolean(),
+  funding: z.boolean(),
+  swapping: z.boolean(),
+  ethereumBroadcast: z.boolean(),
+  ethereumChainTracking: z.boolean(),
+  ethereumIngressEgress: z.boolean(),
+  ethereumVault: z.boolean(),
+  polkadotBroadcast: z.boolean(),
+  polkadotChainTracking: z.boolean(),
+  polkadotIngressEgress: z.boolean(),
+  polkadotVault: z.boolean(),
+  bitcoinBroadcast: z.boolean(),
+  bitcoinChainTracking: z.boolean(),
+  bitcoinIngressEgress: z.boolean(),
+  bitcoinVault: z.boolean(),
+  arbitrumBroadcast: z.boolean(),
+  arbitrumChainTracking: z.boolean(),
+  arbitrumIngressEgress: z.boolean(),
+  arbitrumVault: z.boolean(),
+});
+
+export const palletCfWitnesserPalletSafeMode = z.union([
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeWitnesserCallPermission,
+  }),
+]);
+
+export const palletCfIngressEgressPalletSafeMode = z.object({
+  boostDepositsEnabled: z.boolean(),
+  addBoostFundsEnabled: z.boolean(),
+  stopBoostingEnabled: z.boolean(),
+  depositsEnabled: z.boolean(),
+});
+
+export const stateChainRuntimeSafeModeInnerRuntimeSafeMode = z.object({
+  emissions: palletCfEmissionsPalletSafeMode,
+  funding: palletCfFundingPalletSafeMode,
+  swapping: palletCfSwappingPalletSafeMode,
+  liquidityProvider: palletCfLpPalletSafeMode,
+  validator: palletCfValidatorPalletSafeMode,
+  pools: palletCfPoolsPalletSafeMode,
+  reputation: palletCfReputationPalletSafeMode,
+  thresholdSignatureEvm: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignatureBitcoin: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignaturePolkadot: palletCfThresholdSignaturePalletSafeMode,
+  broadcastEthereum: palletCfBroadcastPalletSafeMode,
+  broadcastBitcoin: palletCfBroadcastPalletSafeMode,
+  broadcastPolkadot: palletCfBroadcastPalletSafeMode,
+  broadcastArbitrum: palletCfBroadcastPalletSafeMode,
+  witnesser: palletCfWitnesserPalletSafeMode,
+  ingressEgressEthereum: palletCfIngressEgressPalletSafeMode,
+  ingressEgressBitcoin: palletCfIngressEgressPalletSafeMode,
+  ingressEgressPolkadot: palletCfIngressEgressPalletSafeMode,
+  ingressEgressArbitrum: palletCfIngressEgressPalletSafeMode,
+});
+
+export const palletCfEnvironmentSafeModeUpdate = z.union([
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeInnerRuntimeSafeMode,
+  }),
+]);
+
+export const cfChainsBtcUtxoSelectionConsolidationParameters = z.object({
+  consolidationThreshold: z.number(),
+  consolidationSize: z.number(),
+});
+
+export const numericString = z
+  .string()
+  .refine((v) => /^\d+$/.test(v), { message: 'Invalid numeric string' });
+
+export const hexString = z
+  .string()
+  .refine((v): v is `0x${string}` => /^0x[\da-f]*$/i.test(v), { message: 'Invalid hex string' });
+
+export const numberOrHex = z
+  .union([z.number(), hexString, numericString])
+  .transform((n) => BigInt(n));
+
+export const simpleEnum = <U extends string, T extends readonly [U, ...U[]]>(values: T) =>
+  z.object({ __kind: z.enum(values) }).transform(({ __kind }) => __kind!);
+
+export const cfPrimitivesChainsForeignChain = simpleEnum([
+  'Ethereum',
+  'Polkadot',
+  'Bitcoin',
+  'Arbitrum',
+]);
+
+export const palletCfTokenholderGovernanceProposal = z.union([
+  z.object({
+    __kind: z.literal('SetGovernanceKey'),
+    value: z.tuple([cfPrimitivesChainsForeignChain, hexString]),
+  }),
+  z.object({ __kind: z.literal('SetCommunityKey'), value: hexString }),
+]);
+
+export const cfChainsEvmSchnorrVerificationComponents = z.object({
+  s: hexString,
+  kTimesGAddress: hexString,
+});
+
+export const accountId = z
+  .union([
+    hexString,
+    z
+      .string()
+      .regex(/^[0-9a-f]+$/)
+      .transform<`0x${string}`>((v) => `0x${v}`),
+  ])
+  .transform((value) => ss58.encode({ data: value, ss58Format: 2112 }));
+
+export const cfChainsEvmParityBit = simpleEnum(['Odd', 'Even']);
+
+export const cfChainsEvmAggKey = z.object({
+  pubKeyX: hexString,
+  pubKeyYParity: cfChainsEvmParityBit,
+});
+
+export const keygenOutcomeFor = z.union([
+  z.object({ __kind: z.literal('Ok'), value: cfChainsEvmAggKey }),
+  z.object({ __kind: z.literal('Err'), value: z.array(accountId) }),
+]);
+
+export const cfPrimitivesChainsAssetsAnyAsset = simpleEnum([
+  'Eth',
+  'Flip',
+  'Usdc',
+  'Dot',
+  'Btc',
+  'ArbEth',
+  'ArbUsdc',
+  'Usdt',
+]);
+
+export const cfChainsAddressEncodedAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }).transform(({ value }) => ({
+    chain: 'Ethereum' as const,
+    address: value,
+  })),
+  z.object({ __kind: z.literal('Dot'), value: hexString }).transform(({ value }) => ({
+    chain: 'Polkadot' as const,
+    address: ss58.encode({ data: value, ss58Format: 0 }),
+  })),
+  z.object({ __kind: z.literal('Btc'), value: hexString }).transform(({ value }) => ({
+    chain: 'Bitcoin' as const,
+    address: Buffer.from(value.slice(2), 'hex').toString('utf8'),
+  })),
+  z.object({ __kind: z.literal('Arb'), value: hexString }).transform(({ value }) => ({
+    chain: 'Arbitrum' as const,
+    address: value,
+  })),
+]);
+
+export const cfChainsCcmChannelMetadata = z.object({
+  message: hexString,
+  gasBudget: numberOrHex,
+  cfParameters: hexString,
+});
+
+export const cfChainsBtcScriptPubkey = z.union([
+  z.object({ __kind: z.literal('P2PKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2SH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WPKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WSH'), value: hexString }),
+  z.object({ __kind: z.literal('Taproot'), value: hexString }),
+  z.object({ __kind: z.literal('OtherSegwit'), version: z.number(), program: hexString }),
+]);
+
+export const cfChainsAddressForeignChainAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }),
+  z.object({ __kind: z.literal('Dot'), value: hexString }),
+  z.object({ __kind: z.literal('Btc'), value: cfChainsBtcScriptPubkey }),
+  z.object({ __kind: z.literal('Arb'), value: hexString }),
+]);
+
+export const cfChainsCcmDepositMetadata = z.object({
+  sourceChain: cfPrimitivesChainsForeignChain,
+  sourceAddress: cfChainsAddressForeignChainAddress.nullish(),
+  channelMetadata: cfChainsCcmChannelMetadata,
+});
+
+export const palletCfSwappingPalletConfigUpdate = z.object({
+  __kind: z.literal('MaximumSwapAmount'),
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+  amount: numberOrHex.nullish(),
+});
+
+export const cfPrimitivesBeneficiary = z.object({ account: accountId, bps: z.number() });
+
+export const cfPrimitivesChainsAssetsEthAsset = simpleEnum(['Eth', 'Flip', 'Usdc', 'Usdt']);
+
+export const palletCfIngressEgressBoostPoolIdEthereum = z.object({
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  tier: z.number(),
+});
+
+export const cfPrimitivesChainsAssetsDotAsset = simpleEnum(['Dot']);
+
+export const palletCfIngressEgressBoostPoolIdPolkadot = z.object({
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  tier: z.number(),
+});
+
+export const cfPrimitivesChainsAssetsBtcAsset = simpleEnum(['Btc']);
+
+export const palletCfIngressEgressBoostPoolIdBitcoin = z.object({
+  asset: cfPrimitivesChainsAssetsBtcAsset,
+  tier: z.number(),
+});
+
+export const cfAmmCommonPoolPairsMap = z.object({ base: numberOrHex, quote: numberOrHex });
+
+export const palletCfPoolsRangeOrderSize = z.union([
+  z.object({
+    __kind: z.literal('AssetAmounts'),
+    maximum: cfAmmCommonPoolPairsMap,
+    minimum: cfAmmCommonPoolPairsMap,
+  }),
+  z.object({ __kind: z.literal('Liquidity'), liquidity: numberOrHex }),
+]);
+
+export const palletCfPoolsIncreaseOrDecreaseRangeOrderSize = z.union([
+  z.object({ __kind: z.literal('Increase'), value: palletCfPoolsRangeOrderSize }),
+  z.object({ __kind: z.literal('Decrease'), value: palletCfPoolsRangeOrderSize }),
+]);
+
+export const cfAmmCommonSide = simpleEnum(['Buy', 'Sell']);
+
+export const palletCfPoolsIncreaseOrDecreaseU128 = z.union([
+  z.object({ __kind: z.literal('Increase'), value: numberOrHex }),
+  z.object({ __kind: z.literal('Decrease'), value: numberOrHex }),
+]);
+
+export const cfChainsArbArbitrumTrackedData = z.object({
+  baseFee: numberOrHex,
+  gasLimitMultiplier: numberOrHex,
+});
+
+export const cfChainsChainStateArbitrum = z.object({
+  blockHeight: numberOrHex,
+  trackedData: cfChainsArbArbitrumTrackedData,
+});
+
+export const cfChainsEvmApiSigData = z.object({
+  sig: numberOrHex,
+  nonce: numberOrHex,
+  kTimesGAddress: hexString,
+});
+
+export const cfChainsEvmApiEvmReplayProtection = z.object({
+  nonce: numberOrHex,
+  chainId: numberOrHex,
+  keyManagerAddress: hexString,
+  contractAddress: hexString,
+});
+
+export const cfChainsEvmApiSetAggKeyWithAggKey = z.object({ newKey: cfChainsEvmAggKey });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetAggKeyWithAggKey,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchDeployAssetParams = z.object({
+  channelId: numberOrHex,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchAssetParams = z.object({
+  contractAddress: hexString,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableTransferAssetParams = z.object({
+  asset: hexString,
+  to: hexString,
+  amount: numberOrHex,
+});
+
+export const cfChainsEvmApiAllBatch = z.object({
+  fetchDeployParams: z.array(cfChainsEvmApiCommonEncodableFetchDeployAssetParams),
+  fetchParams: z.array(cfChainsEvmApiCommonEncodableFetchAssetParams),
+  transferParams: z.array(cfChainsEvmApiCommonEncodableTransferAssetParams),
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderAllBatch = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiAllBatch,
+});
+
+export const cfChainsEvmApiTransferFallback = z.object({
+  transferParam: cfChainsEvmApiCommonEncodableTransferAssetParams,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderTransferFallback = z.object({
+  sigData: cfChainsEvmApiSigData.nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiTransferFallback,
+});
+
+export const cfChainsArbApiArbitrumApi = z.union([
+  z.object({
+    __kind: z.literal('SetAggKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey,
+  }),
+  z.object({ __kind: z.literal('AllBatch'), value: cfChainsEvmApiEvmTransactionBuilderAllBatch }),
+  z.object({ __kind: z.literal('ExecutexSwapAndCall'), value: z.unknown() }),
+  z.object({
+    __kind: z.literal('TransferFallback'),
+    value: cfChainsEvmApiEvmTransactionBuilderTransferFallback,
+  }),
+]);
+
+export const cfChainsEvmTransactionFee = z.object({
+  effectiveGasPrice: numberOrHex,
+  gasUsed: numberOrHex,
+});
+
+export const cfChainsEvmEvmTransactionMetadata = z.object({
+  maxFeePerGas: numberOrHex.nullish(),
+  maxPriorityFeePerGas: numberOrHex.nullish(),
+  contract: hexString,
+  gasLimit: numberOrHex.nullish(),
+});
+
+export const cfPrimitivesChainsAssetsArbAsset = simpleEnum(['ArbEth', 'ArbUsdc']);
+
+export const palletCfIngressEgressDepositWitnessArbitrum = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsArbAsset,
+  amount: numberOrHex,
+});
+
+export const palletCfIngressEgressPalletConfigUpdate = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDeposit'),
+    asset: cfPrimitivesChainsAssetsArbAsset,
+    minimumDeposit: numberOrHex,
+  }),
+]);
+
+export const palletCfIngressEgressBoostPoolIdArbitrum = z.object({
+  asset: cfPrimitivesChainsAssetsArbAsset,
+  tier: z.number(),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsBtcUtxoSelectionConsolidationParameters } from '../../calls/common';
+
+export const environmentUpdateConsolidationParameters = z.object({
+  params: cfChainsBtcUtxoSelectionConsolidationParameters,
+});
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { palletCfEnvironmentSafeModeUpdate } from '../../calls/common';
+
+export const environmentUpdateSafeMode = z.object({ update: palletCfEnvironmentSafeModeUpdate });
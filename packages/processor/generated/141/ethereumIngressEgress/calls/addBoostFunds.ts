@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsEthAsset, numberOrHex } from '../../calls/common';
+
+export const ethereumIngressEgressAddBoostFunds = z.object({
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  amount: numberOrHex,
+  poolTier: z.number(),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfIngressEgressBoostPoolIdEthereum } from '../../calls/common';
+
+export const ethereumIngressEgressCreateBoostPools = z.object({
+  newPools: z.array(palletCfIngressEgressBoostPoolIdEthereum),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsEthAsset } from '../../calls/common';
+
+export const ethereumIngressEgressStopBoosting = z.object({
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  poolTier: z.number(),
+});
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { numberOrHex } from '../../calls/common';
+
+export const evmThresholdSignerSetKeygenSlashAmount = z.object({ amountToSlash: numberOrHex });
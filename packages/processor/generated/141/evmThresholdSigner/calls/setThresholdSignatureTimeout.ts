@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const evmThresholdSignerSetThresholdSignatureTimeout = z.object({ newTimeout: z.number() });
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfChainsEvmSchnorrVerificationComponents, numberOrHex } from '../../calls/common';
+
+export const evmThresholdSignerSignatureSuccess = z.object({
+  ceremonyId: numberOrHex,
+  signature: cfChainsEvmSchnorrVerificationComponents,
+});
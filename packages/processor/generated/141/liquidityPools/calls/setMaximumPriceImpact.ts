@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset } from '../../calls/common';
+
+export const liquidityPoolsSetMaximumPriceImpact = z.object({
+  limits: z.array(z.tuple([cfPrimitivesChainsAssetsAnyAsset, z.number().nullish()])),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsAddressEncodedAddress } from '../../calls/common';
+
+export const liquidityProviderRegisterLiquidityRefundAddress = z.object({
+  address: cfChainsAddressEncodedAddress,
+});
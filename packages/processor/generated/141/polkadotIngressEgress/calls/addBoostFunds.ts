@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsDotAsset, numberOrHex } from '../../calls/common';
+
+export const polkadotIngressEgressAddBoostFunds = z.object({
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  amount: numberOrHex,
+  poolTier: z.number(),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfIngressEgressBoostPoolIdPolkadot } from '../../calls/common';
+
+export const polkadotIngressEgressCreateBoostPools = z.object({
+  newPools: z.array(palletCfIngressEgressBoostPoolIdPolkadot),
+});
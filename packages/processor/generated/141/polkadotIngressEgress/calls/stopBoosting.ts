@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsDotAsset } from '../../calls/common';
+
+export const polkadotIngressEgressStopBoosting = z.object({
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  poolTier: z.number(),
+});
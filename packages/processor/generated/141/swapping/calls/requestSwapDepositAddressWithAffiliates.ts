@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfChainsCcmChannelMetadata,
+  cfPrimitivesBeneficiary,
+  cfPrimitivesChainsAssetsAnyAsset,
+} from '../../calls/common';
+
+export const swappingRequestSwapDepositAddressWithAffiliates = z.object({
+  sourceAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+  brokerCommission: z.number(),
+  channelMetadata: cfChainsCcmChannelMetadata.nullish(),
+  boostFee: z.number(),
+  affiliateFees: z.array(cfPrimitivesBeneficiary),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const arbitrumBroadcasterReSignAbortedBroadcasts = z.object({
+  broadcastIds: z.array(z.number()),
+  requestBroadcast: z.boolean(),
+  refreshReplayProtection: z.boolean(),
+});
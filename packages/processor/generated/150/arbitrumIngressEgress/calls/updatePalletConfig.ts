@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfIngressEgressPalletConfigUpdateArbitrum } from '../../calls/common';
+
+export const arbitrumIngressEgressUpdatePalletConfig = z.object({
+  updates: z.array(palletCfIngressEgressPalletConfigUpdateArbitrum),
+});
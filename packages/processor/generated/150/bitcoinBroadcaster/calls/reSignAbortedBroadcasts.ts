@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const bitcoinBroadcasterReSignAbortedBroadcasts = z.object({
+  broadcastIds: z.array(z.number()),
+  requestBroadcast: z.boolean(),
+  refreshReplayProtection: z.boolean(),
+});
@@ -0,0 +1,630 @@
+import { z } from 'zod';
+import * as ss58 from '@chainflip/utils/ss58';
+import * as base58 from '@chainflip/utils/base58';
+import { hexToBytes } from '@chainflip/utils/bytes';
+
+export const palletCfEmissionsPalletSafeMode = z.object({ emissionsSyncEnabled: z.boolean() });
+
+export const palletCfFundingPalletSafeMode = z.object({ redeemEnabled: z.boolean() });
+
+export const palletCfSwappingPalletSafeMode = z.object({
+  swapsEnabled: z.boolean(),
+  withdrawalsEnabled: z.boolean(),
+  brokerRegistrationEnabled: z.boolean(),
+});
+
+export const palletCfLpPalletSafeMode = z.object({
+  depositEnabled: z.boolean(),
+  withdrawalEnabled: z.boolean(),
+});
+
+export const palletCfValidatorPalletSafeMode = z.object({
+  authorityRotationEnabled: z.boolean(),
+  startBiddingEnabled: z.boolean(),
+  stopBiddingEnabled: z.boolean(),
+});
+
+export const palletCfPoolsPalletSafeMode = z.object({
+  rangeOrderUpdateEnabled: z.boolean(),
+  limitOrderUpdateEnabled: z.boolean(),
+});
+
+export const palletCfReputationPalletSafeMode = z.object({ reportingEnabled: z.boolean() });
+
+export const palletCfAssetBalancesPalletSafeMode = z.object({ reconciliationEnabled: z.boolean() });
+
+export const palletCfThresholdSignaturePalletSafeMode = z.object({ slashingEnabled: z.boolean() });
+
+export const palletCfBroadcastPalletSafeMode = z.object({ retryEnabled: z.boolean() });
+
+export const stateChainRuntimeSafeModeWitnesserCallPermission = z.object({
+  governance: z.boolean(),
+  funding: z.boolean(),
+  swapping: z.boolean(),
+  ethereumBroadcast: z.boolean(),
+  ethereumChainTracking: z.boolean(),
+  ethereumIngressEgress: z.boolean(),
+  ethereumVault: z.boolean(),
+  polkadotBroadcast: z.boolean(),
+  polkadotChainTracking: z.boolean(),
+  polkadotIngressEgress: z.boolean(),
+  polkadotVault: z.boolean(),
+  bitcoinBroadcast: z.boolean(),
+  bitcoinChainTracking: z.boolean(),
+  bitcoinIngressEgress: z.boolean(),
+  bitcoinVault: z.boolean(),
+  arbitrumBroadcast: z.boolean(),
+  arbitrumChainTracking: z.boolean(),
+  arbitrumIngressEgress: z.boolean(),
+  arbitrumVault: z.boolean(),
+  solanaBroadcast: z.boolean(),
+  solanaChainTracking: z.boolean(),
+  solanaIngressEgress: z.boolean(),
+  solanaVault: z.boolean(),
+});
+
+export const palletCfWitnesserPalletSafeMode = z.union([
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeWitnesserCallPermission,
+  }),
+]);
+
+export const palletCfIngressEgressPalletSafeMode = z.object({
+  boostDepositsEnabled: z.boolean(),
+  addBoostFundsEnabled: z.boolean(),
+  stopBoostingEnabled: z.boolean(),
+  depositsEnabled: z.boolean(),
+});
+
+export const stateChainRuntimeSafeModeInnerRuntimeSafeMode = z.object({
+  emissions: palletCfEmissionsPalletSafeMode,
+  funding: palletCfFundingPalletSafeMode,
+  swapping: palletCfSwappingPalletSafeMode,
+  liquidityProvider: palletCfLpPalletSafeMode,
+  validator: palletCfValidatorPalletSafeMode,
+  pools: palletCfPoolsPalletSafeMode,
+  reputation: palletCfReputationPalletSafeMode,
+  assetBalances: palletCfAssetBalancesPalletSafeMode,
+  thresholdSignatureEvm: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignatureBitcoin: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignaturePolkadot: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignatureSolana: palletCfThresholdSignaturePalletSafeMode,
+  broadcastEthereum: palletCfBroadcastPalletSafeMode,
+  broadcastBitcoin: palletCfBroadcastPalletSafeMode,
+  broadcastPolkadot: palletCfBroadcastPalletSafeMode,
+  broadcastArbitrum: palletCfBroadcastPalletSafeMode,
+  broadcastSolana: palletCfBroadcastPalletSafeMode,
+  witnesser: palletCfWitnesserPalletSafeMode,
+  ingressEgressEthereum: palletCfIngressEgressPalletSafeMode,
+  ingressEgressBitcoin: palletCfIngressEgressPalletSafeMode,
+  ingressEgressPolkadot: palletCfIngressEgressPalletSafeMode,
+  ingressEgressArbitrum: palletCfIngressEgressPalletSafeMode,
+  ingressEgressSolana: palletCfIngressEgressPalletSafeMode,
+});
+
+export const palletCfEnvironmentSafeModeUpdate = z.union([
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeInnerRuntimeSafeMode,
+  }),
+]);
+
+export const simpleEnum = <U extends string, T extends readonly [U, ...U[]]>(values: T) =>
+  z.object({ __kind: z.enum(values) }).transform(({ __kind }) => __kind!);
+
+export const cfPrimitivesChainsForeignChain = simpleEnum([
+  'Ethereum',
+  'Polkadot',
+  'Bitcoin',
+  'Arbitrum',
+  'Solana',
+]);
+
+export const hexString = z
+  .string()
+  .refine((v): v is `0x${string}` => /^0x[\da-f]*$/i.test(v), { message: 'Invalid hex string' });
+
+export const palletCfTokenholderGovernanceProposal = z.union([
+  z.object({
+    __kind: z.literal('SetGovernanceKey'),
+    value: z.tuple([cfPrimitivesChainsForeignChain, hexString]),
+  }),
+  z.object({ __kind: z.literal('SetCommunityKey'), value: hexString }),
+]);
+
+export const cfChainsEvmParityBit = simpleEnum(['Odd', 'Even']);
+
+export const cfChainsEvmAggKey = z.object({
+  pubKeyX: hexString,
+  pubKeyYParity: cfChainsEvmParityBit,
+});
+
+export const numericString = z
+  .string()
+  .refine((v) => /^\d+$/.test(v), { message: 'Invalid numeric string' });
+
+export const numberOrHex = z
+  .union([z.number(), hexString, numericString])
+  .transform((n) => BigInt(n));
+
+export const cfChainsEvmApiSigData = z.object({
+  sig: numberOrHex,
+  nonce: numberOrHex,
+  kTimesGAddress: hexString,
+});
+
+export const cfChainsEvmApiEvmReplayProtection = z.object({
+  nonce: numberOrHex,
+  chainId: numberOrHex,
+  keyManagerAddress: hexString,
+  contractAddress: hexString,
+});
+
+export const cfChainsEvmApiSetAggKeyWithAggKey = z.object({ newKey: cfChainsEvmAggKey });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey = z.object({
+  signerAndSigData: z.tuple([cfChainsEvmAggKey, cfChainsEvmApiSigData]).nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetAggKeyWithAggKey,
+});
+
+export const cfChainsEthApiRegisterRedemptionRedemptionExecutor = z.union([
+  z.object({ __kind: z.literal('AnyAddress') }),
+  z.object({ __kind: z.literal('OnlyAddress'), value: hexString }),
+]);
+
+export const cfChainsEthApiRegisterRedemption = z.object({
+  nodeId: hexString,
+  amount: numberOrHex,
+  address: hexString,
+  expiry: numberOrHex,
+  executor: cfChainsEthApiRegisterRedemptionRedemptionExecutor,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderRegisterRedemption = z.object({
+  signerAndSigData: z.tuple([cfChainsEvmAggKey, cfChainsEvmApiSigData]).nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEthApiRegisterRedemption,
+});
+
+export const cfChainsEthApiUpdateFlipSupply = z.object({
+  newTotalSupply: numberOrHex,
+  stateChainBlockNumber: numberOrHex,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderUpdateFlipSupply = z.object({
+  signerAndSigData: z.tuple([cfChainsEvmAggKey, cfChainsEvmApiSigData]).nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEthApiUpdateFlipSupply,
+});
+
+export const cfChainsEvmApiSetGovKeyWithAggKey = z.object({ newGovKey: hexString });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetGovKeyWithAggKey = z.object({
+  signerAndSigData: z.tuple([cfChainsEvmAggKey, cfChainsEvmApiSigData]).nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetGovKeyWithAggKey,
+});
+
+export const cfChainsEvmApiSetCommKeyWithAggKey = z.object({ newCommKey: hexString });
+
+export const cfChainsEvmApiEvmTransactionBuilderSetCommKeyWithAggKey = z.object({
+  signerAndSigData: z.tuple([cfChainsEvmAggKey, cfChainsEvmApiSigData]).nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiSetCommKeyWithAggKey,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchDeployAssetParams = z.object({
+  channelId: numberOrHex,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableFetchAssetParams = z.object({
+  contractAddress: hexString,
+  asset: hexString,
+});
+
+export const cfChainsEvmApiCommonEncodableTransferAssetParams = z.object({
+  asset: hexString,
+  to: hexString,
+  amount: numberOrHex,
+});
+
+export const cfChainsEvmApiAllBatch = z.object({
+  fetchDeployParams: z.array(cfChainsEvmApiCommonEncodableFetchDeployAssetParams),
+  fetchParams: z.array(cfChainsEvmApiCommonEncodableFetchAssetParams),
+  transferParams: z.array(cfChainsEvmApiCommonEncodableTransferAssetParams),
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderAllBatch = z.object({
+  signerAndSigData: z.tuple([cfChainsEvmAggKey, cfChainsEvmApiSigData]).nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiAllBatch,
+});
+
+export const cfChainsEvmApiTransferFallback = z.object({
+  transferParam: cfChainsEvmApiCommonEncodableTransferAssetParams,
+});
+
+export const cfChainsEvmApiEvmTransactionBuilderTransferFallback = z.object({
+  signerAndSigData: z.tuple([cfChainsEvmAggKey, cfChainsEvmApiSigData]).nullish(),
+  replayProtection: cfChainsEvmApiEvmReplayProtection,
+  call: cfChainsEvmApiTransferFallback,
+});
+
+export const cfChainsEthApiEthereumApi = z.union([
+  z.object({
+    __kind: z.literal('SetAggKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey,
+  }),
+  z.object({
+    __kind: z.literal('RegisterRedemption'),
+    value: cfChainsEvmApiEvmTransactionBuilderRegisterRedemption,
+  }),
+  z.object({
+    __kind: z.literal('UpdateFlipSupply'),
+    value: cfChainsEvmApiEvmTransactionBuilderUpdateFlipSupply,
+  }),
+  z.object({
+    __kind: z.literal('SetGovKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetGovKeyWithAggKey,
+  }),
+  z.object({
+    __kind: z.literal('SetCommKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetCommKeyWithAggKey,
+  }),
+  z.object({ __kind: z.literal('AllBatch'), value: cfChainsEvmApiEvmTransactionBuilderAllBatch }),
+  z.object({ __kind: z.literal('ExecutexSwapAndCall'), value: z.unknown() }),
+  z.object({
+    __kind: z.literal('TransferFallback'),
+    value: cfChainsEvmApiEvmTransactionBuilderTransferFallback,
+  }),
+]);
+
+export const cfChainsDotPolkadotReplayProtection = z.object({
+  genesisHash: hexString,
+  signer: hexString,
+  nonce: z.number(),
+});
+
+export const cfChainsDotPolkadotExtrinsicBuilder = z.object({
+  extrinsicCall: z.unknown(),
+  replayProtection: cfChainsDotPolkadotReplayProtection,
+  signerAndSignature: z.tuple([hexString, hexString]).nullish(),
+});
+
+export const cfChainsDotApiPolkadotApi = z.union([
+  z.object({
+    __kind: z.literal('BatchFetchAndTransfer'),
+    value: cfChainsDotPolkadotExtrinsicBuilder,
+  }),
+  z.object({ __kind: z.literal('RotateVaultProxy'), value: cfChainsDotPolkadotExtrinsicBuilder }),
+  z.object({ __kind: z.literal('ChangeGovKey'), value: cfChainsDotPolkadotExtrinsicBuilder }),
+  z.object({
+    __kind: z.literal('ExecuteXSwapAndCall'),
+    value: cfChainsDotPolkadotExtrinsicBuilder,
+  }),
+]);
+
+export const cfChainsBtcPreviousOrCurrent = simpleEnum(['Previous', 'Current']);
+
+export const cfChainsBtcUtxoId = z.object({ txId: hexString, vout: z.number() });
+
+export const cfChainsBtcBitcoinScript = z.object({ bytes: hexString });
+
+export const cfChainsBtcDepositAddressTapscriptPath = z.object({
+  salt: z.number(),
+  tweakedPubkeyBytes: hexString,
+  tapleafHash: hexString,
+  unlockScript: cfChainsBtcBitcoinScript,
+});
+
+export const cfChainsBtcDepositAddress = z.object({
+  pubkeyX: hexString,
+  scriptPath: cfChainsBtcDepositAddressTapscriptPath.nullish(),
+});
+
+export const cfChainsBtcUtxo = z.object({
+  id: cfChainsBtcUtxoId,
+  amount: numberOrHex,
+  depositAddress: cfChainsBtcDepositAddress,
+});
+
+export const cfChainsBtcScriptPubkey = z.union([
+  z.object({ __kind: z.literal('P2PKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2SH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WPKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WSH'), value: hexString }),
+  z.object({ __kind: z.literal('Taproot'), value: hexString }),
+  z.object({ __kind: z.literal('OtherSegwit'), version: z.number(), program: hexString }),
+]);
+
+export const cfChainsBtcBitcoinOutput = z.object({
+  amount: numberOrHex,
+  scriptPubkey: cfChainsBtcScriptPubkey,
+});
+
+export const cfChainsBtcAggKey = z.object({ previous: hexString.nullish(), current: hexString });
+
+export const cfChainsBtcBitcoinTransaction = z.object({
+  inputs: z.array(cfChainsBtcUtxo),
+  outputs: z.array(cfChainsBtcBitcoinOutput),
+  signerAndSignatures: z.tuple([cfChainsBtcAggKey, z.array(hexString)]).nullish(),
+  transactionBytes: hexString,
+  oldUtxoInputIndices: z.array(z.number()),
+});
+
+export const cfChainsBtcApiBatchTransfer = z.object({
+  bitcoinTransaction: cfChainsBtcBitcoinTransaction,
+  changeUtxoKey: hexString,
+});
+
+export const cfChainsBtcApiBitcoinApi = z.object({
+  __kind: z.literal('BatchTransfer'),
+  value: cfChainsBtcApiBatchTransfer,
+});
+
+export const cfPrimitivesChainsAssetsAnyAsset = simpleEnum([
+  'Eth',
+  'Flip',
+  'Usdc',
+  'Dot',
+  'Btc',
+  'ArbEth',
+  'ArbUsdc',
+  'Usdt',
+  'Sol',
+]);
+
+export const cfChainsAddressEncodedAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }).transform(({ value }) => ({
+    chain: 'Ethereum' as const,
+    address: value,
+  })),
+  z.object({ __kind: z.literal('Dot'), value: hexString }).transform(({ value }) => ({
+    chain: 'Polkadot' as const,
+    address: ss58.encode({ data: value, ss58Format: 0 }),
+  })),
+  z.object({ __kind: z.literal('Btc'), value: hexString }).transform(({ value }) => ({
+    chain: 'Bitcoin' as const,
+    address: Buffer.from(value.slice(2), 'hex').toString('utf8'),
+  })),
+  z.object({ __kind: z.literal('Arb'), value: hexString }).transform(({ value }) => ({
+    chain: 'Arbitrum' as const,
+    address: value,
+  })),
+  z.object({ __kind: z.literal('Sol'), value: hexString }).transform(({ value }) => ({
+    chain: 'Solana' as const,
+    address: base58.encode(hexToBytes(value)),
+  })),
+]);
+
+export const cfChainsCcmChannelMetadata = z.object({
+  message: hexString,
+  gasBudget: numberOrHex,
+  cfParameters: hexString,
+});
+
+export const cfChainsAddressForeignChainAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }),
+  z.object({ __kind: z.literal('Dot'), value: hexString }),
+  z.object({ __kind: z.literal('Btc'), value: cfChainsBtcScriptPubkey }),
+  z.object({ __kind: z.literal('Arb'), value: hexString }),
+  z.object({ __kind: z.literal('Sol'), value: hexString }),
+]);
+
+export const cfChainsCcmDepositMetadata = z.object({
+  sourceChain: cfPrimitivesChainsForeignChain,
+  sourceAddress: cfChainsAddressForeignChainAddress.nullish(),
+  channelMetadata: cfChainsCcmChannelMetadata,
+});
+
+export const palletCfSwappingPalletConfigUpdate = z.union([
+  z.object({
+    __kind: z.literal('MaximumSwapAmount'),
+    asset: cfPrimitivesChainsAssetsAnyAsset,
+    amount: numberOrHex.nullish(),
+  }),
+  z.object({ __kind: z.literal('SwapRetryDelay'), delay: z.number() }),
+  z.object({ __kind: z.literal('FlipBuyInterval'), interval: z.number() }),
+]);
+
+export const accountId = z
+  .union([
+    hexString,
+    z
+      .string()
+      .regex(/^[0-9a-f]+$/)
+      .transform<`0x${string}`>((v) => `0x${v}`),
+  ])
+  .transform((value) => ss58.encode({ data: value, ss58Format: 2112 }));
+
+export const cfPrimitivesBeneficiary = z.object({ account: accountId, bps: z.number() });
+
+export const cfChainsChannelRefundParametersForeignChainAddress = z.object({
+  retryDuration: z.number(),
+  refundAddress: cfChainsAddressForeignChainAddress,
+  minPrice: numberOrHex,
+});
+
+export const cfPrimitivesChainsAssetsEthAsset = simpleEnum(['Eth', 'Flip', 'Usdc', 'Usdt']);
+
+export const cfChainsEvmDepositDetails = z.object({ txHashes: z.array(hexString).nullish() });
+
+export const palletCfIngressEgressDepositWitnessEthereum = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsEthAsset,
+  amount: numberOrHex,
+  depositDetails: cfChainsEvmDepositDetails,
+});
+
+export const palletCfIngressEgressPalletConfigUpdateEthereum = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositEthereum'),
+    asset: cfPrimitivesChainsAssetsEthAsset,
+    minimumDeposit: numberOrHex,
+  }),
+  z.object({ __kind: z.literal('SetMaxSwapRetryDurationBlocks'), blocks: z.number() }),
+]);
+
+export const cfPrimitivesChainsAssetsDotAsset = simpleEnum(['Dot']);
+
+export const palletCfIngressEgressDepositWitnessPolkadot = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsDotAsset,
+  amount: numberOrHex,
+  depositDetails: z.number(),
+});
+
+export const palletCfIngressEgressPalletConfigUpdatePolkadot = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositPolkadot'),
+    asset: cfPrimitivesChainsAssetsDotAsset,
+    minimumDeposit: numberOrHex,
+  }),
+  z.object({ __kind: z.literal('SetMaxSwapRetryDurationBlocks'), blocks: z.number() }),
+]);
+
+export const cfPrimitivesChainsAssetsBtcAsset = simpleEnum(['Btc']);
+
+export const palletCfIngressEgressPalletConfigUpdateBitcoin = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositBitcoin'),
+    asset: cfPrimitivesChainsAssetsBtcAsset,
+    minimumDeposit: numberOrHex,
+  }),
+  z.object({ __kind: z.literal('SetMaxSwapRetryDurationBlocks'), blocks: z.number() }),
+]);
+
+export const cfAmmCommonPoolPairsMap = z.object({ base: numberOrHex, quote: numberOrHex });
+
+export const palletCfPoolsRangeOrderSize = z.union([
+  z.object({
+    __kind: z.literal('AssetAmounts'),
+    maximum: cfAmmCommonPoolPairsMap,
+    minimum: cfAmmCommonPoolPairsMap,
+  }),
+  z.object({ __kind: z.literal('Liquidity'), liquidity: numberOrHex }),
+]);
+
+export const palletCfPoolsIncreaseOrDecreaseRangeOrderSize = z.union([
+  z.object({ __kind: z.literal('Increase'), value: palletCfPoolsRangeOrderSize }),
+  z.object({ __kind: z.literal('Decrease'), value: palletCfPoolsRangeOrderSize }),
+]);
+
+export const cfAmmCommonSide = simpleEnum(['Buy', 'Sell']);
+
+export const palletCfPoolsIncreaseOrDecreaseU128 = z.union([
+  z.object({ __kind: z.literal('Increase'), value: numberOrHex }),
+  z.object({ __kind: z.literal('Decrease'), value: numberOrHex }),
+]);
+
+export const cfChainsArbApiArbitrumApi = z.union([
+  z.object({
+    __kind: z.literal('SetAggKeyWithAggKey'),
+    value: cfChainsEvmApiEvmTransactionBuilderSetAggKeyWithAggKey,
+  }),
+  z.object({ __kind: z.literal('AllBatch'), value: cfChainsEvmApiEvmTransactionBuilderAllBatch }),
+  z.object({ __kind: z.literal('ExecutexSwapAndCall'), value: z.unknown() }),
+  z.object({
+    __kind: z.literal('TransferFallback'),
+    value: cfChainsEvmApiEvmTransactionBuilderTransferFallback,
+  }),
+]);
+
+export const cfPrimitivesChainsAssetsArbAsset = simpleEnum(['ArbEth', 'ArbUsdc']);
+
+export const palletCfIngressEgressDepositWitnessArbitrum = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsArbAsset,
+  amount: numberOrHex,
+  depositDetails: cfChainsEvmDepositDetails,
+});
+
+export const palletCfIngressEgressPalletConfigUpdateArbitrum = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositArbitrum'),
+    asset: cfPrimitivesChainsAssetsArbAsset,
+    minimumDeposit: numberOrHex,
+  }),
+  z.object({ __kind: z.literal('SetMaxSwapRetryDurationBlocks'), blocks: z.number() }),
+]);
+
+export const cfChainsSolSolTrackedData = z.object({ priorityFee: numberOrHex });
+
+export const cfChainsChainStateSolana = z.object({
+  blockHeight: numberOrHex,
+  trackedData: cfChainsSolSolTrackedData,
+});
+
+export const keygenOutcomeFor = z.union([
+  z.object({ __kind: z.literal('Ok'), value: hexString }),
+  z.object({ __kind: z.literal('Err'), value: z.array(accountId) }),
+]);
+
+export const cfPrimitivesChainsAssetsSolAsset = simpleEnum(['Sol']);
+
+export const cfChainsFetchAssetParams = z.object({
+  depositFetchId: numberOrHex,
+  asset: cfPrimitivesChainsAssetsSolAsset,
+});
+
+export const cfChainsTransferAssetParams = z.object({
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  amount: numberOrHex,
+  to: hexString,
+});
+
+export const cfChainsSolApiSolanaApi = z.union([
+  z.object({
+    __kind: z.literal('AllBatch'),
+    fetchParams: z.array(cfChainsFetchAssetParams),
+    transferParams: z.array(cfChainsTransferAssetParams),
+  }),
+  z.object({
+    __kind: z.literal('SetAggKeyWithAggKey'),
+    maybeOldKey: hexString.nullish(),
+    newKey: hexString,
+  }),
+  z.object({ __kind: z.literal('TransferFallback'), transferParam: cfChainsTransferAssetParams }),
+  z.object({
+    __kind: z.literal('ExecutexSwapAndCall'),
+    transferParam: cfChainsTransferAssetParams,
+    sourceChain: cfPrimitivesChainsForeignChain,
+    sourceAddress: cfChainsAddressForeignChainAddress.nullish(),
+    gasBudget: numberOrHex,
+    message: hexString,
+  }),
+  z.object({ __kind: z.literal('ApiCall'), thresholdSignature: hexString }),
+  z.object({ __kind: z.literal('_PhantomData') }),
+]);
+
+export const palletCfIngressEgressDepositWitnessSolana = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  amount: numberOrHex,
+});
+
+export const palletCfIngressEgressPalletConfigUpdateSolana = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositSolana'),
+    asset: cfPrimitivesChainsAssetsSolAsset,
+    minimumDeposit: numberOrHex,
+  }),
+  z.object({ __kind: z.literal('SetMaxSwapRetryDurationBlocks'), blocks: z.number() }),
+]);
+
+export const palletCfIngressEgressBoostPoolIdSolana = z.object({
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  tier: z.number(),
+});
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset, numberOrHex } from '../../calls/common';
+
+export const liquidityPoolsNewPool = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  quoteAsset: cfPrimitivesChainsAssetsAnyAsset,
+  feeHundredthPips: z.number(),
+  initialPrice: numberOrHex,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset } from '../../calls/common';
+
+export const liquidityPoolsSetPoolFees = z.object({
+  baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+  quoteAsset: cfPrimitivesChainsAssetsAnyAsset,
+  feeHundredthPips: z.number(),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsAnyAsset } from '../../calls/common';
+
+export const liquidityProviderRequestLiquidityDepositAddress = z.object({
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+  boostFee: z.number(),
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { accountId, cfPrimitivesChainsAssetsAnyAsset, numberOrHex } from '../../calls/common';
+
+export const liquidityProviderTransferAsset = z.object({
+  amount: numberOrHex,
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+  destination: accountId,
+});
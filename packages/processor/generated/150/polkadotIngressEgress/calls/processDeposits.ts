@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { palletCfIngressEgressDepositWitnessPolkadot } from '../../calls/common';
+
+export const polkadotIngressEgressProcessDeposits = z.object({
+  depositWitnesses: z.array(palletCfIngressEgressDepositWitnessPolkadot),
+  blockHeight: z.number(),
+});
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { cfChainsSolApiSolanaApi, numberOrHex } from '../../calls/common';
+
+export const solanaBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  apiCall: cfChainsSolApiSolanaApi,
+  broadcastId: z.number(),
+  initiatedAt: numberOrHex,
+  shouldBroadcast: z.boolean(),
+});
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const solanaBroadcasterTransactionSucceeded = z.object({
+  txOutId: hexString,
+  signerId: hexString,
+  txFee: numberOrHex,
+  transactionRef: hexString,
+});
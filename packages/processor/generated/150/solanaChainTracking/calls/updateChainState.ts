@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { cfChainsChainStateSolana } from '../../calls/common';
+
+export const solanaChainTrackingUpdateChainState = z.object({
+  newChainState: cfChainsChainStateSolana,
+});
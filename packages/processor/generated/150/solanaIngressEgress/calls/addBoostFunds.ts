@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsSolAsset, numberOrHex } from '../../calls/common';
+
+export const solanaIngressEgressAddBoostFunds = z.object({
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  amount: numberOrHex,
+  poolTier: z.number(),
+});
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsSolAsset } from '../../calls/common';
+
+export const solanaIngressEgressEnableOrDisableEgress = z.object({
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  setDisabled: z.boolean(),
+});
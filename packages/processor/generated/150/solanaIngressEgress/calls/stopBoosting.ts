@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsSolAsset } from '../../calls/common';
+
+export const solanaIngressEgressStopBoosting = z.object({
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  poolTier: z.number(),
+});
@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+export const solanaThresholdSignerSetThresholdSignatureTimeout = z.object({
+  newTimeout: z.number(),
+});
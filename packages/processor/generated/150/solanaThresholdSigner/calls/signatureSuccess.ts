@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const solanaThresholdSignerSignatureSuccess = z.object({
+  ceremonyId: numberOrHex,
+  signature: hexString,
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { hexString, numberOrHex } from '../../calls/common';
+
+export const solanaVaultVaultKeyRotatedExternally = z.object({
+  newPublicKey: hexString,
+  blockNumber: numberOrHex,
+  txId: hexString,
+});
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfChainsCcmDepositMetadata,
+  cfPrimitivesChainsAssetsAnyAsset,
+  hexString,
+  numberOrHex,
+} from '../../calls/common';
+
+export const swappingCcmDeposit = z.object({
+  sourceAsset: cfPrimitivesChainsAssetsAnyAsset,
+  depositAmount: numberOrHex,
+  destinationAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+  depositMetadata: cfChainsCcmDepositMetadata,
+  txHash: hexString,
+});
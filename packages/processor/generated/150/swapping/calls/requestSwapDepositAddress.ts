@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfChainsCcmChannelMetadata,
+  cfPrimitivesChainsAssetsAnyAsset,
+} from '../../calls/common';
+
+export const swappingRequestSwapDepositAddress = z.object({
+  sourceAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+  brokerCommission: z.number(),
+  channelMetadata: cfChainsCcmChannelMetadata.nullish(),
+  boostFee: z.number(),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfTokenholderGovernanceProposal } from '../../calls/common';
+
+export const tokenholderGovernanceBackProposal = z.object({
+  proposal: palletCfTokenholderGovernanceProposal,
+});
@@ -0,0 +1,488 @@
+import { z } from 'zod';
+import * as ss58 from '@chainflip/utils/ss58';
+import * as base58 from '@chainflip/utils/base58';
+import { hexToBytes } from '@chainflip/utils/bytes';
+
+export const palletCfEmissionsPalletSafeMode = z.object({ emissionsSyncEnabled: z.boolean() });
+
+export const palletCfFundingPalletSafeMode = z.object({ redeemEnabled: z.boolean() });
+
+export const palletCfSwappingPalletSafeMode = z.object({
+  swapsEnabled: z.boolean(),
+  withdrawalsEnabled: z.boolean(),
+  brokerRegistrationEnabled: z.boolean(),
+});
+
+export const palletCfLpPalletSafeMode = z.object({
+  depositEnabled: z.boolean(),
+  withdrawalEnabled: z.boolean(),
+});
+
+export const palletCfValidatorPalletSafeMode = z.object({
+  authorityRotationEnabled: z.boolean(),
+  startBiddingEnabled: z.boolean(),
+  stopBiddingEnabled: z.boolean(),
+});
+
+export const palletCfPoolsPalletSafeMode = z.object({
+  rangeOrderUpdateEnabled: z.boolean(),
+  limitOrderUpdateEnabled: z.boolean(),
+});
+
+export const palletCfReputationPalletSafeMode = z.object({ reportingEnabled: z.boolean() });
+
+export const palletCfAssetBalancesPalletSafeMode = z.object({ reconciliationEnabled: z.boolean() });
+
+export const palletCfThresholdSignaturePalletSafeMode = z.object({ slashingEnabled: z.boolean() });
+
+export const palletCfBroadcastPalletSafeMode = z.object({ retryEnabled: z.boolean() });
+
+export const stateChainRuntimeSafeModeWitnesserCallPermission = z.object({
+  governance: z.boolean(),
+  funding: z.boolean(),
+  swapping: z.boolean(),
+  ethereumBroadcast: z.boolean(),
+  ethereumChainTracking: z.boolean(),
+  ethereumIngressEgress: z.boolean(),
+  ethereumVault: z.boolean(),
+  polkadotBroadcast: z.boolean(),
+  polkadotChainTracking: z.boolean(),
+  polkadotIngressEgress: z.boolean(),
+  polkadotVault: z.boolean(),
+  bitcoinBroadcast: z.boolean(),
+  bitcoinChainTracking: z.boolean(),
+  bitcoinIngressEgress: z.boolean(),
+  bitcoinVault: z.boolean(),
+  arbitrumBroadcast: z.boolean(),
+  arbitrumChainTracking: z.boolean(),
+  arbitrumIngressEgress: z.boolean(),
+  arbitrumVault: z.boolean(),
+  solanaBroadcast: z.boolean(),
+  solanaVault: z.boolean(),
+});
+
+export const palletCfWitnesserPalletSafeMode = z.union([
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeWitnesserCallPermission,
+  }),
+]);
+
+export const palletCfIngressEgressPalletSafeMode = z.object({
+  boostDepositsEnabled: z.boolean(),
+  addBoostFundsEnabled: z.boolean(),
+  stopBoostingEnabled: z.boolean(),
+  depositsEnabled: z.boolean(),
+});
+
+export const stateChainRuntimeSafeModeInnerRuntimeSafeMode = z.object({
+  emissions: palletCfEmissionsPalletSafeMode,
+  funding: palletCfFundingPalletSafeMode,
+  swapping: palletCfSwappingPalletSafeMode,
+  liquidityProvider: palletCfLpPalletSafeMode,
+  validator: palletCfValidatorPalletSafeMode,
+  pools: palletCfPoolsPalletSafeMode,
+  reputation: palletCfReputationPalletSafeMode,
+  assetBalances: palletCfAssetBalancesPalletSafeMode,
+  thresholdSignatureEvm: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignatureBitcoin: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignaturePolkadot: palletCfThresholdSignaturePalletSafeMode,
+  thresholdSignatureSolana: palletCfThresholdSignaturePalletSafeMode,
+  broadcastEthereum: palletCfBroadcastPalletSafeMode,
+  broadcastBitcoin: palletCfBroadcastPalletSafeMode,
+  broadcastPolkadot: palletCfBroadcastPalletSafeMode,
+  broadcastArbitrum: palletCfBroadcastPalletSafeMode,
+  broadcastSolana: palletCfBroadcastPalletSafeMode,
+  witnesser: palletCfWitnesserPalletSafeMode,
+  ingressEgressEthereum: palletCfIngressEgressPalletSafeMode,
+  ingressEgressBitcoin: palletCfIngressEgressPalletSafeMode,
+  ingressEgressPolkadot: palletCfIngressEgressPalletSafeMode,
+  ingressEgressArbitrum: palletCfIngressEgressPalletSafeMode,
+  ingressEgressSolana: palletCfIngressEgressPalletSafeMode,
+});
+
+export const palletCfEnvironmentSafeModeUpdate = z.union([
+  z.object({ __kind: z.literal('CodeRed') }),
+  z.object({ __kind: z.literal('CodeGreen') }),
+  z.object({
+    __kind: z.literal('CodeAmber'),
+    value: stateChainRuntimeSafeModeInnerRuntimeSafeMode,
+  }),
+]);
+
+export const numericString = z
+  .string()
+  .refine((v) => /^\d+$/.test(v), { message: 'Invalid numeric string' });
+
+export const hexString = z
+  .string()
+  .refine((v): v is `0x${string}` => /^0x[\da-f]*$/i.test(v), { message: 'Invalid hex string' });
+
+export const numberOrHex = z
+  .union([z.number(), hexString, numericString])
+  .transform((n) => BigInt(n));
+
+export const simpleEnum = <U extends string, T extends readonly [U, ...U[]]>(values: T) =>
+  z.object({ __kind: z.enum(values) }).transform(({ __kind }) => __kind!);
+
+export const cfPrimitivesChainsAssetsAnyAsset = simpleEnum([
+  'Eth',
+  'Flip',
+  'Usdc',
+  'Dot',
+  'Btc',
+  'ArbEth',
+  'ArbUsdc',
+  'Usdt',
+  'Sol',
+  'SolUsdc',
+]);
+
+export const cfChainsAddressEncodedAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }).transform(({ value }) => ({
+    chain: 'Ethereum' as const,
+    address: value,
+  })),
+  z.object({ __kind: z.literal('Dot'), value: hexString }).transform(({ value }) => ({
+    chain: 'Polkadot' as const,
+    address: ss58.encode({ data: value, ss58Format: 0 }),
+  })),
+  z.object({ __kind: z.literal('Btc'), value: hexString }).transform(({ value }) => ({
+    chain: 'Bitcoin' as const,
+    address: Buffer.from(value.slice(2), 'hex').toString('utf8'),
+  })),
+  z.object({ __kind: z.literal('Arb'), value: hexString }).transform(({ value }) => ({
+    chain: 'Arbitrum' as const,
+    address: value,
+  })),
+  z.object({ __kind: z.literal('Sol'), value: hexString }).transform(({ value }) => ({
+    chain: 'Solana' as const,
+    address: base58.encode(hexToBytes(value)),
+  })),
+]);
+
+export const cfChainsCcmChannelMetadata = z.object({
+  message: hexString,
+  gasBudget: numberOrHex,
+  cfParameters: hexString,
+});
+
+export const cfPrimitivesChainsForeignChain = simpleEnum([
+  'Ethereum',
+  'Polkadot',
+  'Bitcoin',
+  'Arbitrum',
+  'Solana',
+]);
+
+export const cfChainsBtcScriptPubkey = z.union([
+  z.object({ __kind: z.literal('P2PKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2SH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WPKH'), value: hexString }),
+  z.object({ __kind: z.literal('P2WSH'), value: hexString }),
+  z.object({ __kind: z.literal('Taproot'), value: hexString }),
+  z.object({ __kind: z.literal('OtherSegwit'), version: z.number(), program: hexString }),
+]);
+
+export const cfChainsAddressForeignChainAddress = z.union([
+  z.object({ __kind: z.literal('Eth'), value: hexString }),
+  z.object({ __kind: z.literal('Dot'), value: hexString }),
+  z.object({ __kind: z.literal('Btc'), value: cfChainsBtcScriptPubkey }),
+  z.object({ __kind: z.literal('Arb'), value: hexString }),
+  z.object({ __kind: z.literal('Sol'), value: hexString }),
+]);
+
+export const cfChainsCcmDepositMetadataGenericForeignChainAddress = z.object({
+  sourceChain: cfPrimitivesChainsForeignChain,
+  sourceAddress: cfChainsAddressForeignChainAddress.nullish(),
+  channelMetadata: cfChainsCcmChannelMetadata,
+});
+
+export const palletCfSwappingPalletConfigUpdate = z.union([
+  z.object({
+    __kind: z.literal('MaximumSwapAmount'),
+    asset: cfPrimitivesChainsAssetsAnyAsset,
+    amount: numberOrHex.nullish(),
+  }),
+  z.object({ __kind: z.literal('SwapRetryDelay'), delay: z.number() }),
+  z.object({ __kind: z.literal('FlipBuyInterval'), interval: z.number() }),
+  z.object({ __kind: z.literal('SetMaxSwapRetryDuration'), blocks: z.number() }),
+  z.object({ __kind: z.literal('SetMaxSwapRequestDuration'), blocks: z.number() }),
+]);
+
+export const accountId = z
+  .union([
+    hexString,
+    z
+      .string()
+      .regex(/^[0-9a-f]+$/)
+      .transform<`0x${string}`>((v) => `0x${v}`),
+  ])
+  .transform((value) => ss58.encode({ data: value, ss58Format: 2112 }));
+
+export const cfPrimitivesBeneficiary = z.object({ account: accountId, bps: z.number() });
+
+export const cfChainsChannelRefundParametersGenericForeignChainAddress = z.object({
+  retryDuration: z.number(),
+  refundAddress: cfChainsAddressForeignChainAddress,
+  minPrice: numberOrHex,
+});
+
+export const cfPrimitivesDcaParameters = z.object({
+  numberOfChunks: z.number(),
+  chunkInterval: z.number(),
+});
+
+export const cfPrimitivesChainsAssetsEthAsset = simpleEnum(['Eth', 'Flip', 'Usdc', 'Usdt']);
+
+export const palletCfIngressEgressPalletConfigUpdateEthereum = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositEthereum'),
+    asset: cfPrimitivesChainsAssetsEthAsset,
+    minimumDeposit: numberOrHex,
+  }),
+]);
+
+export const cfPrimitivesChainsAssetsDotAsset = simpleEnum(['Dot']);
+
+export const palletCfIngressEgressPalletConfigUpdatePolkadot = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositPolkadot'),
+    asset: cfPrimitivesChainsAssetsDotAsset,
+    minimumDeposit: numberOrHex,
+  }),
+]);
+
+export const cfPrimitivesChainsAssetsBtcAsset = simpleEnum(['Btc']);
+
+export const palletCfIngressEgressPalletConfigUpdateBitcoin = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositBitcoin'),
+    asset: cfPrimitivesChainsAssetsBtcAsset,
+    minimumDeposit: numberOrHex,
+  }),
+]);
+
+export const cfAmmCommonPoolPairsMap = z.object({ base: numberOrHex, quote: numberOrHex });
+
+export const palletCfPoolsRangeOrderSize = z.union([
+  z.object({
+    __kind: z.literal('AssetAmounts'),
+    maximum: cfAmmCommonPoolPairsMap,
+    minimum: cfAmmCommonPoolPairsMap,
+  }),
+  z.object({ __kind: z.literal('Liquidity'), liquidity: numberOrHex }),
+]);
+
+export const palletCfPoolsIncreaseOrDecreaseRangeOrderSize = z.union([
+  z.object({ __kind: z.literal('Increase'), value: palletCfPoolsRangeOrderSize }),
+  z.object({ __kind: z.literal('Decrease'), value: palletCfPoolsRangeOrderSize }),
+]);
+
+export const cfAmmCommonSide = simpleEnum(['Buy', 'Sell']);
+
+export const palletCfPoolsIncreaseOrDecreaseU128 = z.union([
+  z.object({ __kind: z.literal('Increase'), value: numberOrHex }),
+  z.object({ __kind: z.literal('Decrease'), value: numberOrHex }),
+]);
+
+export const palletCfPoolsCloseOrder = z.union([
+  z.object({
+    __kind: z.literal('Limit'),
+    baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+    quoteAsset: cfPrimitivesChainsAssetsAnyAsset,
+    side: cfAmmCommonSide,
+    id: numberOrHex,
+  }),
+  z.object({
+    __kind: z.literal('Range'),
+    baseAsset: cfPrimitivesChainsAssetsAnyAsset,
+    quoteAsset: cfPrimitivesChainsAssetsAnyAsset,
+    id: numberOrHex,
+  }),
+]);
+
+export const cfPrimitivesChainsAssetsArbAsset = simpleEnum(['ArbEth', 'ArbUsdc']);
+
+export const palletCfIngressEgressPalletConfigUpdateArbitrum = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositArbitrum'),
+    asset: cfPrimitivesChainsAssetsArbAsset,
+    minimumDeposit: numberOrHex,
+  }),
+]);
+
+export const cfChainsSolSolTxCoreMessageHeader = z.object({
+  numRequiredSignatures: z.number(),
+  numReadonlySignedAccounts: z.number(),
+  numReadonlyUnsignedAccounts: z.number(),
+});
+
+export const cfChainsSolSolTxCoreCompiledInstruction = z.object({
+  programIdIndex: z.number(),
+  accounts: hexString,
+  data: hexString,
+});
+
+export const cfChainsSolSolTxCoreMessage = z.object({
+  header: cfChainsSolSolTxCoreMessageHeader,
+  accountKeys: z.array(hexString),
+  recentBlockhash: hexString,
+  instructions: z.array(cfChainsSolSolTxCoreCompiledInstruction),
+});
+
+export const cfChainsSolApiSolanaTransactionType = simpleEnum([
+  'BatchFetch',
+  'Transfer',
+  'RotateAggKey',
+  'CcmTransfer',
+  'SetGovKeyWithAggKey',
+]);
+
+export const cfChainsSolSolTxCoreTransaction = z.object({
+  signatures: z.array(hexString),
+  message: cfChainsSolSolTxCoreMessage,
+});
+
+export const cfChainsSolApiSolanaApi = z.object({
+  callType: cfChainsSolApiSolanaTransactionType,
+  transaction: cfChainsSolSolTxCoreTransaction,
+  signer: hexString.nullish(),
+});
+
+export const cfPrimitivesChainsAssetsSolAsset = simpleEnum(['Sol', 'SolUsdc']);
+
+export const palletCfIngressEgressDepositWitnessSolana = z.object({
+  depositAddress: hexString,
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  amount: numberOrHex,
+});
+
+export const palletCfIngressEgressPalletConfigUpdateSolana = z.union([
+  z.object({ __kind: z.literal('ChannelOpeningFee'), fee: numberOrHex }),
+  z.object({
+    __kind: z.literal('SetMinimumDepositSolana'),
+    asset: cfPrimitivesChainsAssetsSolAsset,
+    minimumDeposit: numberOrHex,
+  }),
+]);
+
+export const palletCfIngressEgressBoostPoolIdSolana = z.object({
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  tier: z.number(),
+});
+
+export const palletCfElectionsElectoralSystemsCompositeTuple5ImplsCompositeElectionIdentifierExtra =
+  z.union([
+    z.object({ __kind: z.literal('A') }),
+    z.object({ __kind: z.literal('B') }),
+    z.object({ __kind: z.literal('C'), value: z.number() }),
+    z.object({ __kind: z.literal('D') }),
+    z.object({ __kind: z.literal('EE') }),
+  ]);
+
+export const palletCfElectionsElectoralSystemsBlockchainDeltaBasedIngressChannelTotalIngressed =
+  z.object({ blockNumber: numberOrHex, amount: numberOrHex });
+
+export const palletCfElectionsVoteStorageCompositeTuple5ImplsCompositePartialVote = z.union([
+  z.object({ __kind: z.literal('A'), value: hexString }),
+  z.object({ __kind: z.literal('B'), value: hexString }),
+  z.object({
+    __kind: z.literal('C'),
+    value: z.array(
+      z.tuple([
+        hexString,
+        palletCfElectionsElectoralSystemsBlockchainDeltaBasedIngressChannelTotalIngressed,
+      ]),
+    ),
+  }),
+  z.object({ __kind: z.literal('D'), value: hexString }),
+  z.object({ __kind: z.literal('EE'), value: hexString }),
+]);
+
+export const stateChainRuntimeChainflipSolanaElectionsTransactionSuccessDetails = z.object({
+  txFee: numberOrHex,
+});
+
+export const palletCfElectionsVoteStorageCompositeTuple5ImplsCompositeVote = z.union([
+  z.object({ __kind: z.literal('A'), value: numberOrHex }),
+  z.object({ __kind: z.literal('B'), value: numberOrHex }),
+  z.object({
+    __kind: z.literal('C'),
+    value: z.array(
+      z.tuple([
+        hexString,
+        palletCfElectionsElectoralSystemsBlockchainDeltaBasedIngressChannelTotalIngressed,
+      ]),
+    ),
+  }),
+  z.object({ __kind: z.literal('D'), value: hexString }),
+  z.object({
+    __kind: z.literal('EE'),
+    value: stateChainRuntimeChainflipSolanaElectionsTransactionSuccessDetails,
+  }),
+]);
+
+export const palletCfElectionsVoteStorageAuthorityVote = z.union([
+  z.object({
+    __kind: z.literal('PartialVote'),
+    value: palletCfElectionsVoteStorageCompositeTuple5ImplsCompositePartialVote,
+  }),
+  z.object({
+    __kind: z.literal('Vote'),
+    value: palletCfElectionsVoteStorageCompositeTuple5ImplsCompositeVote,
+  }),
+]);
+
+export const palletCfElectionsVoteStorageCompositeTuple5ImplsCompositeSharedData = z.union([
+  z.object({ __kind: z.literal('A'), value: numberOrHex }),
+  z.object({ __kind: z.literal('B'), value: numberOrHex }),
+  z.object({ __kind: z.literal('C') }),
+  z.object({ __kind: z.literal('D'), value: hexString }),
+  z.object({
+    __kind: z.literal('EE'),
+    value: stateChainRuntimeChainflipSolanaElectionsTransactionSuccessDetails,
+  }),
+]);
+
+export const stateChainRuntimeChainflipSolanaElectionsSolanaFeeUnsynchronisedSettings = z.object({
+  feeMultiplier: numberOrHex,
+});
+
+export const stateChainRuntimeChainflipSolanaElectionsSolanaIngressSettings = z.object({
+  vaultProgram: hexString,
+  usdcTokenMintPubkey: hexString,
+});
+
+export const palletCfElectionsInitialState = z.object({
+  unsynchronisedState: z.tuple([numberOrHex, numberOrHex, z.null(), z.null(), z.null()]),
+  unsynchronisedSettings: z.tuple([
+    z.null(),
+    stateChainRuntimeChainflipSolanaElectionsSolanaFeeUnsynchronisedSettings,
+    z.null(),
+    z.null(),
+    z.null(),
+  ]),
+  settings: z.tuple([
+    z.null(),
+    z.null(),
+    stateChainRuntimeChainflipSolanaElectionsSolanaIngressSettings,
+    z.null(),
+    z.null(),
+  ]),
+});
+
+export const palletCfElectionsCorruptStorageAdherance = simpleEnum(['Ignore', 'Heed']);
+
+export const cfChainsSolSolTrackedData = z.object({ priorityFee: numberOrHex });
+
+export const cfChainsChainStateSolana = z.object({
+  blockHeight: numberOrHex,
+  trackedData: cfChainsSolSolTrackedData,
+});
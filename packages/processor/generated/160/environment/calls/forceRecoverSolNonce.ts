@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { hexString } from '../../calls/common';
+
+export const environmentForceRecoverSolNonce = z.object({
+  nonceAccount: hexString,
+  durableNonce: hexString.nullish(),
+});
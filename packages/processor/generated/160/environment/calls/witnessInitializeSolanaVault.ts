@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { numberOrHex } from '../../calls/common';
+
+export const environmentWitnessInitializeSolanaVault = z.object({ blockNumber: numberOrHex });
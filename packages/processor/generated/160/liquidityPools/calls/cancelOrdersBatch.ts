@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfPoolsCloseOrder } from '../../calls/common';
+
+export const liquidityPoolsCancelOrdersBatch = z.object({
+  orders: z.array(palletCfPoolsCloseOrder),
+});
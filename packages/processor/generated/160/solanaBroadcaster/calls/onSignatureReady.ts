@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import {
+  cfChainsSolApiSolanaApi,
+  cfChainsSolSolTxCoreMessage,
+  numberOrHex,
+} from '../../calls/common';
+
+export const solanaBroadcasterOnSignatureReady = z.object({
+  thresholdRequestId: z.number(),
+  thresholdSignaturePayload: cfChainsSolSolTxCoreMessage,
+  apiCall: cfChainsSolApiSolanaApi,
+  broadcastId: z.number(),
+  initiatedAt: numberOrHex,
+  shouldBroadcast: z.boolean(),
+});
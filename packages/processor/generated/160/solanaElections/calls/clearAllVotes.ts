@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { palletCfElectionsCorruptStorageAdherance } from '../../calls/common';
+
+export const solanaElectionsClearAllVotes = z.object({
+  limit: z.number(),
+  ignoreCorruptStorage: palletCfElectionsCorruptStorageAdherance,
+});
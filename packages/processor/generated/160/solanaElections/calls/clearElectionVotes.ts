@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import {
+  numberOrHex,
+  palletCfElectionsCorruptStorageAdherance,
+  palletCfElectionsElectoralSystemsCompositeTuple5ImplsCompositeElectionIdentifierExtra,
+} from '../../calls/common';
+
+export const solanaElectionsClearElectionVotes = z.object({
+  electionIdentifier: z.tuple([
+    numberOrHex,
+    palletCfElectionsElectoralSystemsCompositeTuple5ImplsCompositeElectionIdentifierExtra,
+  ]),
+  ignoreCorruptStorage: palletCfElectionsCorruptStorageAdherance,
+  checkElectionExists: z.boolean(),
+});
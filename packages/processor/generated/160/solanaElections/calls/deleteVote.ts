@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import {
+  numberOrHex,
+  palletCfElectionsElectoralSystemsCompositeTuple5ImplsCompositeElectionIdentifierExtra,
+} from '../../calls/common';
+
+export const solanaElectionsDeleteVote = z.object({
+  electionIdentifier: z.tuple([
+    numberOrHex,
+    palletCfElectionsElectoralSystemsCompositeTuple5ImplsCompositeElectionIdentifierExtra,
+  ]),
+});
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { palletCfElectionsInitialState } from '../../calls/common';
+
+export const solanaElectionsInitialize = z.object({ initialState: palletCfElectionsInitialState });
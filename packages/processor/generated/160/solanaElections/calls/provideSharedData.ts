@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfElectionsVoteStorageCompositeTuple5ImplsCompositeSharedData } from '../../calls/common';
+
+export const solanaElectionsProvideSharedData = z.object({
+  sharedData: palletCfElectionsVoteStorageCompositeTuple5ImplsCompositeSharedData,
+});
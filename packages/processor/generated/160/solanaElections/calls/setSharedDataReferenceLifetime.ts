@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { palletCfElectionsCorruptStorageAdherance } from '../../calls/common';
+
+export const solanaElectionsSetSharedDataReferenceLifetime = z.object({
+  blocks: z.number(),
+  ignoreCorruptStorage: palletCfElectionsCorruptStorageAdherance,
+});
@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const solanaElectionsUnpauseElections = z.object({ requireVotesCleared: z.boolean() });
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import {
+  palletCfElectionsCorruptStorageAdherance,
+  stateChainRuntimeChainflipSolanaElectionsSolanaFeeUnsynchronisedSettings,
+  stateChainRuntimeChainflipSolanaElectionsSolanaIngressSettings,
+} from '../../calls/common';
+
+export const solanaElectionsUpdateSettings = z.object({
+  unsynchronisedSettings: z
+    .tuple([
+      z.null(),
+      stateChainRuntimeChainflipSolanaElectionsSolanaFeeUnsynchronisedSettings,
+      z.null(),
+      z.null(),
+      z.null(),
+    ])
+    .nullish(),
+  settings: z
+    .tuple([
+      z.null(),
+      z.null(),
+      stateChainRuntimeChainflipSolanaElectionsSolanaIngressSettings,
+      z.null(),
+      z.null(),
+    ])
+    .nullish(),
+  ignoreCorruptStorage: palletCfElectionsCorruptStorageAdherance,
+});
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import {
+  numberOrHex,
+  palletCfElectionsElectoralSystemsCompositeTuple5ImplsCompositeElectionIdentifierExtra,
+  palletCfElectionsVoteStorageAuthorityVote,
+} from '../../calls/common';
+
+export const solanaElectionsVote = z.object({
+  authorityVotes: z.array(
+    z.tuple([
+      z.tuple([
+        numberOrHex,
+        palletCfElectionsElectoralSystemsCompositeTuple5ImplsCompositeElectionIdentifierExtra,
+      ]),
+      palletCfElectionsVoteStorageAuthorityVote,
+    ]),
+  ),
+});
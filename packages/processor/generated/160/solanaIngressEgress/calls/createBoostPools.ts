@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfIngressEgressBoostPoolIdSolana } from '../../calls/common';
+
+export const solanaIngressEgressCreateBoostPools = z.object({
+  newPools: z.array(palletCfIngressEgressBoostPoolIdSolana),
+});
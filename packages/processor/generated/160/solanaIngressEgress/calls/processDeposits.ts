@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { numberOrHex, palletCfIngressEgressDepositWitnessSolana } from '../../calls/common';
+
+export const solanaIngressEgressProcessDeposits = z.object({
+  depositWitnesses: z.array(palletCfIngressEgressDepositWitnessSolana),
+  blockHeight: numberOrHex,
+});
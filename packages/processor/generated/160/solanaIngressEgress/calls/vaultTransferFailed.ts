@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { cfPrimitivesChainsAssetsSolAsset, hexString, numberOrHex } from '../../calls/common';
+
+export const solanaIngressEgressVaultTransferFailed = z.object({
+  asset: cfPrimitivesChainsAssetsSolAsset,
+  amount: numberOrHex,
+  destinationAddress: hexString,
+});
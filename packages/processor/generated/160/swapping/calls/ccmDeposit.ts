@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfChainsCcmDepositMetadataGenericForeignChainAddress,
+  cfPrimitivesChainsAssetsAnyAsset,
+  hexString,
+  numberOrHex,
+} from '../../calls/common';
+
+export const swappingCcmDeposit = z.object({
+  sourceAsset: cfPrimitivesChainsAssetsAnyAsset,
+  depositAmount: numberOrHex,
+  destinationAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+  depositMetadata: cfChainsCcmDepositMetadataGenericForeignChainAddress,
+  txHash: hexString,
+});
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfChainsCcmChannelMetadata,
+  cfChainsChannelRefundParametersGenericForeignChainAddress,
+  cfPrimitivesBeneficiary,
+  cfPrimitivesChainsAssetsAnyAsset,
+  cfPrimitivesDcaParameters,
+} from '../../calls/common';
+
+export const swappingRequestSwapDepositAddressWithAffiliates = z.object({
+  sourceAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAsset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+  brokerCommission: z.number(),
+  channelMetadata: cfChainsCcmChannelMetadata.nullish(),
+  boostFee: z.number(),
+  affiliateFees: z.array(cfPrimitivesBeneficiary),
+  refundParameters: cfChainsChannelRefundParametersGenericForeignChainAddress.nullish(),
+  dcaParameters: cfPrimitivesDcaParameters.nullish(),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { palletCfSwappingPalletConfigUpdate } from '../../calls/common';
+
+export const swappingUpdatePalletConfig = z.object({
+  updates: z.array(palletCfSwappingPalletConfigUpdate),
+});
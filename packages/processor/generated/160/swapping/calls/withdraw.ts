@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import {
+  cfChainsAddressEncodedAddress,
+  cfPrimitivesChainsAssetsAnyAsset,
+} from '../../calls/common';
+
+export const swappingWithdraw = z.object({
+  asset: cfPrimitivesChainsAssetsAnyAsset,
+  destinationAddress: cfChainsAddressEncodedAddress,
+});
@@ -0,0 +1,2107 @@
+import { accountRolesAccountRoleDeregistered as accountRolesAccountRoleDeregistered141 } from './141/accountRoles/accountRoleDeregistered';
+import { accountRolesAccountRoleRegistered as accountRolesAccountRoleRegistered100 } from './100/accountRoles/accountRoleRegistered';
+import { accountRolesAccountRoleRegistered as accountRolesAccountRoleRegistered102 } from './102/accountRoles/accountRoleRegistered';
+import { accountRolesVanityNameSet as accountRolesVanityNameSet141 } from './141/accountRoles/vanityNameSet';
+import { arbitrumBroadcasterBroadcastAborted as arbitrumBroadcasterBroadcastAborted141 } from './141/arbitrumBroadcaster/broadcastAborted';
+import { arbitrumBroadcasterBroadcastCallbackExecuted as arbitrumBroadcasterBroadcastCallbackExecuted141 } from './141/arbitrumBroadcaster/broadcastCallbackExecuted';
+import { arbitrumBroadcasterBroadcastRetryScheduled as arbitrumBroadcasterBroadcastRetryScheduled141 } from './141/arbitrumBroadcaster/broadcastRetryScheduled';
+import { arbitrumBroadcasterBroadcastSuccess as arbitrumBroadcasterBroadcastSuccess141 } from './141/arbitrumBroadcaster/broadcastSuccess';
+import { arbitrumBroadcasterBroadcastTimeout as arbitrumBroadcasterBroadcastTimeout141 } from './141/arbitrumBroadcaster/broadcastTimeout';
+import { arbitrumBroadcasterCallResigned as arbitrumBroadcasterCallResigned141 } from './141/arbitrumBroadcaster/callResigned';
+import { arbitrumBroadcasterThresholdSignatureInvalid as arbitrumBroadcasterThresholdSignatureInvalid141 } from './141/arbitrumBroadcaster/thresholdSignatureInvalid';
+import { arbitrumBroadcasterTransactionBroadcastRequest as arbitrumBroadcasterTransactionBroadcastRequest141 } from './141/arbitrumBroadcaster/transactionBroadcastRequest';
+import { arbitrumBroadcasterTransactionFeeDeficitRecorded as arbitrumBroadcasterTransactionFeeDeficitRecorded141 } from './141/arbitrumBroadcaster/transactionFeeDeficitRecorded';
+import { arbitrumBroadcasterTransactionFeeDeficitRefused as arbitrumBroadcasterTransactionFeeDeficitRefused141 } from './141/arbitrumBroadcaster/transactionFeeDeficitRefused';
+import { arbitrumChainTrackingChainStateUpdated as arbitrumChainTrackingChainStateUpdated141 } from './141/arbitrumChainTracking/chainStateUpdated';
+import { arbitrumChainTrackingFeeMultiplierUpdated as arbitrumChainTrackingFeeMultiplierUpdated141 } from './141/arbitrumChainTracking/feeMultiplierUpdated';
+import { arbitrumIngressEgressAssetEgressStatusChanged as arbitrumIngressEgressAssetEgressStatusChanged141 } from './141/arbitrumIngressEgress/assetEgressStatusChanged';
+import { arbitrumIngressEgressBatchBroadcastRequested as arbitrumIngressEgressBatchBroadcastRequested141 } from './141/arbitrumIngressEgress/batchBroadcastRequested';
+import { arbitrumIngressEgressBatchBroadcastRequested as arbitrumIngressEgressBatchBroadcastRequested150 } from './150/arbitrumIngressEgress/batchBroadcastRequested';
+import { arbitrumIngressEgressBoostFundsAdded as arbitrumIngressEgressBoostFundsAdded141 } from './141/arbitrumIngressEgress/boostFundsAdded';
+import { arbitrumIngressEgressBoostPoolCreated as arbitrumIngressEgressBoostPoolCreated141 } from './141/arbitrumIngressEgress/boostPoolCreated';
+import { arbitrumIngressEgressCcmBroadcastFailed as arbitrumIngressEgressCcmBroadcastFailed141 } from './141/arbitrumIngressEgress/ccmBroadcastFailed';
+import { arbitrumIngressEgressCcmBroadcastRequested as arbitrumIngressEgressCcmBroadcastRequested141 } from './141/arbitrumIngressEgress/ccmBroadcastRequested';
+import { arbitrumIngressEgressCcmBroadcastRequested as arbitrumIngressEgressCcmBroadcastRequested150 } from './150/arbitrumIngressEgress/ccmBroadcastRequested';
+import { arbitrumIngressEgressCcmEgressInvalid as arbitrumIngressEgressCcmEgressInvalid141 } from './141/arbitrumIngressEgress/ccmEgressInvalid';
+import { arbitrumIngressEgressCcmEgressInvalid as arbitrumIngressEgressCcmEgressInvalid150 } from './150/arbitrumIngressEgress/ccmEgressInvalid';
+import { arbitrumIngressEgressCcmEgressInvalid as arbitrumIngressEgressCcmEgressInvalid160 } from './160/arbitrumIngressEgress/ccmEgressInvalid';
+import { arbitrumIngressEgressChannelOpeningFeePaid as arbitrumIngressEgressChannelOpeningFeePaid141 } from './141/arbitrumIngressEgress/channelOpeningFeePaid';
+import { arbitrumIngressEgressChannelOpeningFeeSet as arbitrumIngressEgressChannelOpeningFeeSet141 } from './141/arbitrumIngressEgress/channelOpeningFeeSet';
+import { arbitrumIngressEgressDepositBoosted as arbitrumIngressEgressDepositBoosted141 } from './141/arbitrumIngressEgress/depositBoosted';
+import { arbitrumIngressEgressDepositBoosted as arbitrumIngressEgressDepositBoosted150 } from './150/arbitrumIngressEgress/depositBoosted';
+import { arbitrumIngressEgressDepositBoosted as arbitrumIngressEgressDepositBoosted160 } from './160/arbitrumIngressEgress/depositBoosted';
+import { arbitrumIngressEgressDepositFetchesScheduled as arbitrumIngressEgressDepositFetchesScheduled141 } from './141/arbitrumIngressEgress/depositFetchesScheduled';
+import { arbitrumIngressEgressDepositFinalised as arbitrumIngressEgressDepositFinalised141 } from './141/arbitrumIngressEgress/depositFinalised';
+import { arbitrumIngressEgressDepositFinalised as arbitrumIngressEgressDepositFinalised150 } from './150/arbitrumIngressEgress/depositFinalised';
+import { arbitrumIngressEgressDepositFinalised as arbitrumIngressEgressDepositFinalised160 } from './160/arbitrumIngressEgress/depositFinalised';
+import { arbitrumIngressEgressDepositIgnored as arbitrumIngressEgressDepositIgnored141 } from './141/arbitrumIngressEgress/depositIgnored';
+import { arbitrumIngressEgressDepositIgnored as arbitrumIngressEgressDepositIgnored150 } from './150/arbitrumIngressEgress/depositIgnored';
+import { arbitrumIngressEgressDepositWitnessRejected as arbitrumIngressEgressDepositWitnessRejected141 } from './141/arbitrumIngressEgress/depositWitnessRejected';
+import { arbitrumIngressEgressDepositWitnessRejected as arbitrumIngressEgressDepositWitnessRejected150 } from './150/arbitrumIngressEgress/depositWitnessRejected';
+import { arbitrumIngressEgressFailedForeignChainCallExpired as arbitrumIngressEgressFailedForeignChainCallExpired141 } from './141/arbitrumIngressEgress/failedForeignChainCallExpired';
+import { arbitrumIngressEgressFailedForeignChainCallResigned as arbitrumIngressEgressFailedForeignChainCallResigned141 } from './141/arbitrumIngressEgress/failedForeignChainCallResigned';
+import { arbitrumIngressEgressFailedToBuildAllBatchCall as arbitrumIngressEgressFailedToBuildAllBatchCall141 } from './141/arbitrumIngressEgress/failedToBuildAllBatchCall';
+import { arbitrumIngressEgressInsufficientBoostLiquidity as arbitrumIngressEgressInsufficientBoostLiquidity141 } from './141/arbitrumIngressEgress/insufficientBoostLiquidity';
+import { arbitrumIngressEgressMaxSwapRetryDurationSet as arbitrumIngressEgressMaxSwapRetryDurationSet150 } from './150/arbitrumIngressEgress/maxSwapRetryDurationSet';
+import { arbitrumIngressEgressMinimumDepositSet as arbitrumIngressEgressMinimumDepositSet141 } from './141/arbitrumIngressEgress/minimumDepositSet';
+import { arbitrumIngressEgressStoppedBoosting as arbitrumIngressEgressStoppedBoosting141 } from './141/arbitrumIngressEgress/stoppedBoosting';
+import { arbitrumIngressEgressTransferFallbackRequested as arbitrumIngressEgressTransferFallbackRequested141 } from './141/arbitrumIngressEgress/transferFallbackRequested';
+import { arbitrumIngressEgressUtxoConsolidation as arbitrumIngressEgressUtxoConsolidation141 } from './141/arbitrumIngressEgress/utxoConsolidation';
+import { arbitrumVaultAwaitingGovernanceActivation as arbitrumVaultAwaitingGovernanceActivation141 } from './141/arbitrumVault/awaitingGovernanceActivation';
+import { arbitrumVaultChainInitialized as arbitrumVaultChainInitialized141 } from './141/arbitrumVault/chainInitialized';
+import { arbitrumVaultVaultActivationCompleted as arbitrumVaultVaultActivationCompleted141 } from './141/arbitrumVault/vaultActivationCompleted';
+import { arbitrumVaultVaultRotatedExternally as arbitrumVaultVaultRotatedExternally141 } from './141/arbitrumVault/vaultRotatedExternally';
+import { assetBalancesAccountCredited as assetBalancesAccountCredited160 } from './160/assetBalances/accountCredited';
+import { assetBalancesAccountDebited as assetBalancesAccountDebited160 } from './160/assetBalances/accountDebited';
+import { assetBalancesRefundScheduled as assetBalancesRefundScheduled150 } from './150/assetBalances/refundScheduled';
+import { assetBalancesRefundSkipped as assetBalancesRefundSkipped150 } from './150/assetBalances/refundSkipped';
+import { assetBalancesVaultDeficitDetected as assetBalancesVaultDeficitDetected150 } from './150/assetBalances/vaultDeficitDetected';
+import { bitcoinBroadcasterBroadcastAborted as bitcoinBroadcasterBroadcastAborted100 } from './100/bitcoinBroadcaster/broadcastAborted';
+import { bitcoinBroadcasterBroadcastAttemptTimeout as bitcoinBroadcasterBroadcastAttemptTimeout100 } from './100/bitcoinBroadcaster/broadcastAttemptTimeout';
+import { bitcoinBroadcasterBroadcastCallbackExecuted as bitcoinBroadcasterBroadcastCallbackExecuted100 } from './100/bitcoinBroadcaster/broadcastCallbackExecuted';
+import { bitcoinBroadcasterBroadcastRetryScheduled as bitcoinBroadcasterBroadcastRetryScheduled100 } from './100/bitcoinBroadcaster/broadcastRetryScheduled';
+import { bitcoinBroadcasterBroadcastRetryScheduled as bitcoinBroadcasterBroadcastRetryScheduled120 } from './120/bitcoinBroadcaster/broadcastRetryScheduled';
+import { bitcoinBroadcasterBroadcastSuccess as bitcoinBroadcasterBroadcastSuccess100 } from './100/bitcoinBroadcaster/broadcastSuccess';
+import { bitcoinBroadcasterBroadcastSuccess as bitcoinBroadcasterBroadcastSuccess131 } from './131/bitcoinBroadcaster/broadcastSuccess';
+import { bitcoinBroadcasterBroadcastTimeout as bitcoinBroadcasterBroadcastTimeout120 } from './120/bitcoinBroadcaster/broadcastTimeout';
+import { bitcoinBroadcasterCallResigned as bitcoinBroadcasterCallResigned111 } from './111/bitcoinBroadcaster/callResigned';
+import { bitcoinBroadcasterThresholdSignatureInvalid as bitcoinBroadcasterThresholdSignatureInvalid100 } from './100/bitcoinBroadcaster/thresholdSignatureInvalid';
+import { bitcoinBroadcasterThresholdSignatureInvalid as bitcoinBroadcasterThresholdSignatureInvalid111 } from './111/bitcoinBroadcaster/thresholdSignatureInvalid';
+import { bitcoinBroadcasterThresholdSignatureInvalid as bitcoinBroadcasterThresholdSignatureInvalid120 } from './120/bitcoinBroadcaster/thresholdSignatureInvalid';
+import { bitcoinBroadcasterTransactionBroadcastRequest as bitcoinBroadcasterTransactionBroadcastRequest100 } from './100/bitcoinBroadcaster/transactionBroadcastRequest';
+import { bitcoinBroadcasterTransactionBroadcastRequest as bitcoinBroadcasterTransactionBroadcastRequest120 } from './120/bitcoinBroadcaster/transactionBroadcastRequest';
+import { bitcoinBroadcasterTransactionBroadcastRequest as bitcoinBroadcasterTransactionBroadcastRequest131 } from './131/bitcoinBroadcaster/transactionBroadcastRequest';
+import { bitcoinBroadcasterTransactionFeeDeficitRecorded as bitcoinBroadcasterTransactionFeeDeficitRecorded100 } from './100/bitcoinBroadcaster/transactionFeeDeficitRecorded';
+import { bitcoinBroadcasterTransactionFeeDeficitRefused as bitcoinBroadcasterTransactionFeeDeficitRefused100 } from './100/bitcoinBroadcaster/transactionFeeDeficitRefused';
+import { bitcoinChainTrackingChainStateUpdated as bitcoinChainTrackingChainStateUpdated100 } from './100/bitcoinChainTracking/chainStateUpdated';
+import { bitcoinChainTrackingChainStateUpdated as bitcoinChainTrackingChainStateUpdated120 } from './120/bitcoinChainTracking/chainStateUpdated';
+import { bitcoinChainTrackingFeeMultiplierUpdated as bitcoinChainTrackingFeeMultiplierUpdated131 } from './131/bitcoinChainTracking/feeMultiplierUpdated';
+import { bitcoinIngressEgressAssetEgressStatusChanged as bitcoinIngressEgressAssetEgressStatusChanged100 } from './100/bitcoinIngressEgress/assetEgressStatusChanged';
+import { bitcoinIngressEgressBatchBroadcastRequested as bitcoinIngressEgressBatchBroadcastRequested100 } from './100/bitcoinIngressEgress/batchBroadcastRequested';
+import { bitcoinIngressEgressBatchBroadcastRequested as bitcoinIngressEgressBatchBroadcastRequested141 } from './141/bitcoinIngressEgress/batchBroadcastRequested';
+import { bitcoinIngressEgressBatchBroadcastRequested as bitcoinIngressEgressBatchBroadcastRequested150 } from './150/bitcoinIngressEgress/batchBroadcastRequested';
+import { bitcoinIngressEgressBoostFundsAdded as bitcoinIngressEgressBoostFundsAdded141 } from './141/bitcoinIngressEgress/boostFundsAdded';
+import { bitcoinIngressEgressBoostPoolCreated as bitcoinIngressEgressBoostPoolCreated141 } from './141/bitcoinIngressEgress/boostPoolCreated';
+import { bitcoinIngressEgressCcmBroadcastFailed as bitcoinIngressEgressCcmBroadcastFailed111 } from './111/bitcoinIngressEgress/ccmBroadcastFailed';
+import { bitcoinIngressEgressCcmBroadcastRequested as bitcoinIngressEgressCcmBroadcastRequested100 } from './100/bitcoinIngressEgress/ccmBroadcastRequested';
+import { bitcoinIngressEgressCcmBroadcastRequested as bitcoinIngressEgressCcmBroadcastRequested141 } from './141/bitcoinIngressEgress/ccmBroadcastRequested';
+import { bitcoinIngressEgressCcmBroadcastRequested as bitcoinIngressEgressCcmBroadcastRequested150 } from './150/bitcoinIngressEgress/ccmBroadcastRequested';
+import { bitcoinIngressEgressCcmEgressInvalid as bitcoinIngressEgressCcmEgressInvalid100 } from './100/bitcoinIngressEgress/ccmEgressInvalid';
+import { bitcoinIngressEgressCcmEgressInvalid as bitcoinIngressEgressCcmEgressInvalid141 } from './141/bitcoinIngressEgress/ccmEgressInvalid';
+import { bitcoinIngressEgressCcmEgressInvalid as bitcoinIngressEgressCcmEgressInvalid150 } from './150/bitcoinIngressEgress/ccmEgressInvalid';
+import { bitcoinIngressEgressCcmEgressInvalid as bitcoinIngressEgressCcmEgressInvalid160 } from './160/bitcoinIngressEgress/ccmEgressInvalid';
+import { bitcoinIngressEgressChannelOpeningFeePaid as bitcoinIngressEgressChannelOpeningFeePaid131 } from './131/bitcoinIngressEgress/channelOpeningFeePaid';
+import { bitcoinIngressEgressChannelOpeningFeeSet as bitcoinIngressEgressChannelOpeningFeeSet131 } from './131/bitcoinIngressEgress/channelOpeningFeeSet';
+import { bitcoinIngressEgressDepositBoosted as bitcoinIngressEgressDepositBoosted141 } from './141/bitcoinIngressEgress/depositBoosted';
+import { bitcoinIngressEgressDepositBoosted as bitcoinIngressEgressDepositBoosted150 } from './150/bitcoinIngressEgress/depositBoosted';
+import { bitcoinIngressEgressDepositBoosted as bitcoinIngressEgressDepositBoosted160 } from './160/bitcoinIngressEgress/depositBoosted';
+import { bitcoinIngressEgressDepositFetchesScheduled as bitcoinIngressEgressDepositFetchesScheduled100 } from './100/bitcoinIngressEgress/depositFetchesScheduled';
+import { bitcoinIngressEgressDepositFinalised as bitcoinIngressEgressDepositFinalised141 } from './141/bitcoinIngressEgress/depositFinalised';
+import { bitcoinIngressEgressDepositFinalised as bitcoinIngressEgressDepositFinalised150 } from './150/bitcoinIngressEgress/depositFinalised';
+import { bitcoinIngressEgressDepositFinalised as bitcoinIngressEgressDepositFinalised160 } from './160/bitcoinIngressEgress/depositFinalised';
+import { bitcoinIngressEgressDepositIgnored as bitcoinIngressEgressDepositIgnored100 } from './100/bitcoinIngressEgress/depositIgnored';
+import { bitcoinIngressEgressDepositIgnored as bitcoinIngressEgressDepositIgnored120 } from './120/bitcoinIngressEgress/depositIgnored';
+import { bitcoinIngressEgressDepositIgnored as bitcoinIngressEgressDepositIgnored131 } from './131/bitcoinIngressEgress/depositIgnored';
+import { bitcoinIngressEgressDepositReceived as bitcoinIngressEgressDepositReceived100 } from './100/bitcoinIngressEgress/depositReceived';
+import { bitcoinIngressEgressDepositReceived as bitcoinIngressEgressDepositReceived120 } from './120/bitcoinIngressEgress/depositReceived';
+import { bitcoinIngressEgressDepositReceived as bitcoinIngressEgressDepositReceived131 } from './131/bitcoinIngressEgress/depositReceived';
+import { bitcoinIngressEgressDepositWitnessRejected as bitcoinIngressEgressDepositWitnessRejected100 } from './100/bitcoinIngressEgress/depositWitnessRejected';
+import { bitcoinIngressEgressDepositWitnessRejected as bitcoinIngressEgressDepositWitnessRejected131 } from './131/bitcoinIngressEgress/depositWitnessRejected';
+import { bitcoinIngressEgressEgressScheduled as bitcoinIngressEgressEgressScheduled100 } from './100/bitcoinIngressEgress/egressScheduled';
+import { bitcoinIngressEgressFailedForeignChainCallExpired as bitcoinIngressEgressFailedForeignChainCallExpired111 } from './111/bitcoinIngressEgress/failedForeignChainCallExpired';
+import { bitcoinIngressEgressFailedForeignChainCallResigned as bitcoinIngressEgressFailedForeignChainCallResigned111 } from './111/bitcoinIngressEgress/failedForeignChainCallResigned';
+import { bitcoinIngressEgressFailedToBuildAllBatchCall as bitcoinIngressEgressFailedToBuildAllBatchCall131 } from './131/bitcoinIngressEgress/failedToBuildAllBatchCall';
+import { bitcoinIngressEgressInsufficientBoostLiquidity as bitcoinIngressEgressInsufficientBoostLiquidity141 } from './141/bitcoinIngressEgress/insufficientBoostLiquidity';
+import { bitcoinIngressEgressMaxSwapRetryDurationSet as bitcoinIngressEgressMaxSwapRetryDurationSet150 } from './150/bitcoinIngressEgress/maxSwapRetryDurationSet';
+import { bitcoinIngressEgressMinimumDepositSet as bitcoinIngressEgressMinimumDepositSet100 } from './100/bitcoinIngressEgress/minimumDepositSet';
+import { bitcoinIngressEgressStoppedBoosting as bitcoinIngressEgressStoppedBoosting141 } from './141/bitcoinIngressEgress/stoppedBoosting';
+import { bitcoinIngressEgressTransferFallbackRequested as bitcoinIngressEgressTransferFallbackRequested111 } from './111/bitcoinIngressEgress/transferFallbackRequested';
+import { bitcoinIngressEgressUtxoConsolidation as bitcoinIngressEgressUtxoConsolidation120 } from './120/bitcoinIngressEgress/utxoConsolidation';
+import { bitcoinIngressEgressVaultTransferFailed as bitcoinIngressEgressVaultTransferFailed100 } from './100/bitcoinIngressEgress/vaultTransferFailed';
+import { bitcoinThresholdSignerCurrentKeyUnavailable as bitcoinThresholdSignerCurrentKeyUnavailable100 } from './100/bitcoinThresholdSigner/currentKeyUnavailable';
+import { bitcoinThresholdSignerFailureReportProcessed as bitcoinThresholdSignerFailureReportProcessed100 } from './100/bitcoinThresholdSigner/failureReportProcessed';
+import { bitcoinThresholdSignerKeygenFailure as bitcoinThresholdSignerKeygenFailure131 } from './131/bitcoinThresholdSigner/keygenFailure';
+import { bitcoinThresholdSignerKeygenFailureReported as bitcoinThresholdSignerKeygenFailureReported131 } from './131/bitcoinThresholdSigner/keygenFailureReported';
+import { bitcoinThresholdSignerKeygenRequest as bitcoinThresholdSignerKeygenRequest131 } from './131/bitcoinThresholdSigner/keygenRequest';
+import { bitcoinThresholdSignerKeygenResponseTimeout as bitcoinThresholdSignerKeygenResponseTimeout131 } from './131/bitcoinThresholdSigner/keygenResponseTimeout';
+import { bitcoinThresholdSignerKeygenResponseTimeoutUpdated as bitcoinThresholdSignerKeygenResponseTimeoutUpdated131 } from './131/bitcoinThresholdSigner/keygenResponseTimeoutUpdated';
+import { bitcoinThresholdSignerKeygenSuccess as bitcoinThresholdSignerKeygenSuccess131 } from './131/bitcoinThresholdSigner/keygenSuccess';
+import { bitcoinThresholdSignerKeygenSuccessReported as bitcoinThresholdSignerKeygenSuccessReported131 } from './131/bitcoinThresholdSigner/keygenSuccessReported';
+import { bitcoinThresholdSignerKeygenVerificationFailure as bitcoinThresholdSignerKeygenVerificationFailure131 } from './131/bitcoinThresholdSigner/keygenVerificationFailure';
+import { bitcoinThresholdSignerKeygenVerificationSuccess as bitcoinThresholdSignerKeygenVerificationSuccess131 } from './131/bitcoinThresholdSigner/keygenVerificationSuccess';
+import { bitcoinThresholdSignerKeyHandoverFailure as bitcoinThresholdSignerKeyHandoverFailure131 } from './131/bitcoinThresholdSigner/keyHandoverFailure';
+import { bitcoinThresholdSignerKeyHandoverFailureReported as bitcoinThresholdSignerKeyHandoverFailureReported131 } from './131/bitcoinThresholdSigner/keyHandoverFailureReported';
+import { bitcoinThresholdSignerKeyHandoverRequest as bitcoinThresholdSignerKeyHandoverRequest131 } from './131/bitcoinThresholdSigner/keyHandoverRequest';
+import { bitcoinThresholdSignerKeyHandoverResponseTimeout as bitcoinThresholdSignerKeyHandoverResponseTimeout131 } from './131/bitcoinThresholdSigner/keyHandoverResponseTimeout';
+import { bitcoinThresholdSignerKeyHandoverSuccess as bitcoinThresholdSignerKeyHandoverSuccess131 } from './131/bitcoinThresholdSigner/keyHandoverSuccess';
+import { bitcoinThresholdSignerKeyHandoverSuccessReported as bitcoinThresholdSignerKeyHandoverSuccessReported131 } from './131/bitcoinThresholdSigner/keyHandoverSuccessReported';
+import { bitcoinThresholdSignerKeyHandoverVerificationFailure as bitcoinThresholdSignerKeyHandoverVerificationFailure131 } from './131/bitcoinThresholdSigner/keyHandoverVerificationFailure';
+import { bitcoinThresholdSignerKeyHandoverVerificationSuccess as bitcoinThresholdSignerKeyHandoverVerificationSuccess131 } from './131/bitcoinThresholdSigner/keyHandoverVerificationSuccess';
+import { bitcoinThresholdSignerKeyRotationCompleted as bitcoinThresholdSignerKeyRotationCompleted131 } from './131/bitcoinThresholdSigner/keyRotationCompleted';
+import { bitcoinThresholdSignerNoKeyHandover as bitcoinThresholdSignerNoKeyHandover131 } from './131/bitcoinThresholdSigner/noKeyHandover';
+import { bitcoinThresholdSignerRetryRequested as bitcoinThresholdSignerRetryRequested100 } from './100/bitcoinThresholdSigner/retryRequested';
+import { bitcoinThresholdSignerSignersUnavailable as bitcoinThresholdSignerSignersUnavailable100 } from './100/bitcoinThresholdSigner/signersUnavailable';
+import { bitcoinThresholdSignerThresholdDispatchComplete as bitcoinThresholdSignerThresholdDispatchComplete100 } from './100/bitcoinThresholdSigner/thresholdDispatchComplete';
+import { bitcoinThresholdSignerThresholdSignatureFailed as bitcoinThresholdSignerThresholdSignatureFailed100 } from './100/bitcoinThresholdSigner/thresholdSignatureFailed';
+import { bitcoinThresholdSignerThresholdSignatureRequest as bitcoinThresholdSignerThresholdSignatureRequest100 } from './100/bitcoinThresholdSigner/thresholdSignatureRequest';
+import { bitcoinThresholdSignerThresholdSignatureResponseTimeoutUpdated as bitcoinThresholdSignerThresholdSignatureResponseTimeoutUpdated100 } from './100/bitcoinThresholdSigner/thresholdSignatureResponseTimeoutUpdated';
+import { bitcoinThresholdSignerThresholdSignatureSuccess as bitcoinThresholdSignerThresholdSignatureSuccess100 } from './100/bitcoinThresholdSigner/thresholdSignatureSuccess';
+import { bitcoinVaultAwaitingGovernanceActivation as bitcoinVaultAwaitingGovernanceActivation100 } from './100/bitcoinVault/awaitingGovernanceActivation';
+import { bitcoinVaultChainInitialized as bitcoinVaultChainInitialized141 } from './141/bitcoinVault/chainInitialized';
+import { bitcoinVaultKeygenFailure as bitcoinVaultKeygenFailure100 } from './100/bitcoinVault/keygenFailure';
+import { bitcoinVaultKeygenFailureReported as bitcoinVaultKeygenFailureReported100 } from './100/bitcoinVault/keygenFailureReported';
+import { bitcoinVaultKeygenRequest as bitcoinVaultKeygenRequest100 } from './100/bitcoinVault/keygenRequest';
+import { bitcoinVaultKeygenResponseTimeout as bitcoinVaultKeygenResponseTimeout100 } from './100/bitcoinVault/keygenResponseTimeout';
+import { bitcoinVaultKeygenResponseTimeoutUpdated as bitcoinVaultKeygenResponseTimeoutUpdated100 } from './100/bitcoinVault/keygenResponseTimeoutUpdated';
+import { bitcoinVaultKeygenSuccess as bitcoinVaultKeygenSuccess100 } from './100/bitcoinVault/keygenSuccess';
+import { bitcoinVaultKeygenSuccessReported as bitcoinVaultKeygenSuccessReported100 } from './100/bitcoinVault/keygenSuccessReported';
+import { bitcoinVaultKeygenVerificationFailure as bitcoinVaultKeygenVerificationFailure100 } from './100/bitcoinVault/keygenVerificationFailure';
+import { bitcoinVaultKeygenVerificationSuccess as bitcoinVaultKeygenVerificationSuccess100 } from './100/bitcoinVault/keygenVerificationSuccess';
+import { bitcoinVaultKeyHandoverFailure as bitcoinVaultKeyHandoverFailure100 } from './100/bitcoinVault/keyHandoverFailure';
+import { bitcoinVaultKeyHandoverFailureReported as bitcoinVaultKeyHandoverFailureReported100 } from './100/bitcoinVault/keyHandoverFailureReported';
+import { bitcoinVaultKeyHandoverRequest as bitcoinVaultKeyHandoverRequest100 } from './100/bitcoinVault/keyHandoverRequest';
+import { bitcoinVaultKeyHandoverResponseTimeout as bitcoinVaultKeyHandoverResponseTimeout100 } from './100/bitcoinVault/keyHandoverResponseTimeout';
+import { bitcoinVaultKeyHandoverSuccess as bitcoinVaultKeyHandoverSuccess100 } from './100/bitcoinVault/keyHandoverSuccess';
+import { bitcoinVaultKeyHandoverSuccessReported as bitcoinVaultKeyHandoverSuccessReported100 } from './100/bitcoinVault/keyHandoverSuccessReported';
+import { bitcoinVaultKeyHandoverVerificationFailure as bitcoinVaultKeyHandoverVerificationFailure100 } from './100/bitcoinVault/keyHandoverVerificationFailure';
+import { bitcoinVaultKeyHandoverVerificationSuccess as bitcoinVaultKeyHandoverVerificationSuccess100 } from './100/bitcoinVault/keyHandoverVerificationSuccess';
+import { bitcoinVaultNoKeyHandover as bitcoinVaultNoKeyHandover100 } from './100/bitcoinVault/noKeyHandover';
+import { bitcoinVaultVaultActivationCompleted as bitcoinVaultVaultActivationCompleted131 } from './131/bitcoinVault/vaultActivationCompleted';
+import { bitcoinVaultVaultRotatedExternally as bitcoinVaultVaultRotatedExternally100 } from './100/bitcoinVault/vaultRotatedExternally';
+import { bitcoinVaultVaultRotationAborted as bitcoinVaultVaultRotationAborted100 } from './100/bitcoinVault/vaultRotationAborted';
+import { bitcoinVaultVaultRotationCompleted as bitcoinVaultVaultRotationCompleted100 } from './100/bitcoinVault/vaultRotationCompleted';
+import { emissionsBackupNodeInflationEmissionsUpdated as emissionsBackupNodeInflationEmissionsUpdated100 } from './100/emissions/backupNodeInflationEmissionsUpdated';
+import { emissionsBackupRewardsDistributed as emissionsBackupRewardsDistributed120 } from './120/emissions/backupRewardsDistributed';
+import { emissionsCurrentAuthorityInflationEmissionsUpdated as emissionsCurrentAuthorityInflationEmissionsUpdated100 } from './100/emissions/currentAuthorityInflationEmissionsUpdated';
+import { emissionsFlipBurnSkipped as emissionsFlipBurnSkipped120 } from './120/emissions/flipBurnSkipped';
+import { emissionsNetworkFeeBurned as emissionsNetworkFeeBurned120 } from './120/emissions/networkFeeBurned';
+import { emissionsNetworkFeeBurned as emissionsNetworkFeeBurned141 } from './141/emissions/networkFeeBurned';
+import { emissionsNetworkFeeBurned as emissionsNetworkFeeBurned150 } from './150/emissions/networkFeeBurned';
+import { emissionsSupplyUpdateBroadcastRequested as emissionsSupplyUpdateBroadcastRequested100 } from './100/emissions/supplyUpdateBroadcastRequested';
+import { emissionsSupplyUpdateIntervalUpdated as emissionsSupplyUpdateIntervalUpdated100 } from './100/emissions/supplyUpdateIntervalUpdated';
+import { environmentAddedNewArbAsset as environmentAddedNewArbAsset141 } from './141/environment/addedNewArbAsset';
+import { environmentAddedNewEthAsset as environmentAddedNewEthAsset100 } from './100/environment/addedNewEthAsset';
+import { environmentAddedNewEthAsset as environmentAddedNewEthAsset131 } from './131/environment/addedNewEthAsset';
+import { environmentArbitrumInitialized as environmentArbitrumInitialized141 } from './141/environment/arbitrumInitialized';
+import { environmentBitcoinBlockNumberSetForVault as environmentBitcoinBlockNumberSetForVault100 } from './100/environment/bitcoinBlockNumberSetForVault';
+import { environmentDurableNonceSetForAccount as environmentDurableNonceSetForAccount160 } from './160/environment/durableNonceSetForAccount';
+import { environmentPolkadotVaultAccountSet as environmentPolkadotVaultAccountSet100 } from './100/environment/polkadotVaultAccountSet';
+import { environmentRuntimeSafeModeUpdated as environmentRuntimeSafeModeUpdated100 } from './100/environment/runtimeSafeModeUpdated';
+import { environmentRuntimeSafeModeUpdated as environmentRuntimeSafeModeUpdated131 } from './131/environment/runtimeSafeModeUpdated';
+import { environmentRuntimeSafeModeUpdated as environmentRuntimeSafeModeUpdated141 } from './141/environment/runtimeSafeModeUpdated';
+import { environmentRuntimeSafeModeUpdated as environmentRuntimeSafeModeUpdated150 } from './150/environment/runtimeSafeModeUpdated';
+import { environmentRuntimeSafeModeUpdated as environmentRuntimeSafeModeUpdated160 } from './160/environment/runtimeSafeModeUpdated';
+import { environmentSolanaInitialized as environmentSolanaInitialized160 } from './160/environment/solanaInitialized';
+import { environmentStaleUtxosDiscarded as environmentStaleUtxosDiscarded141 } from './141/environment/staleUtxosDiscarded';
+import { environmentUpdatedArbAsset as environmentUpdatedArbAsset141 } from './141/environment/updatedArbAsset';
+import { environmentUpdatedEthAsset as environmentUpdatedEthAsset100 } from './100/environment/updatedEthAsset';
+import { environmentUpdatedEthAsset as environmentUpdatedEthAsset131 } from './131/environment/updatedEthAsset';
+import { environmentUtxoConsolidationParametersUpdated as environmentUtxoConsolidationParametersUpdated120 } from './120/environment/utxoConsolidationParametersUpdated';
+import { environmentUtxoConsolidationParametersUpdated as environmentUtxoConsolidationParametersUpdated141 } from './141/environment/utxoConsolidationParametersUpdated';
+import { ethereumBroadcasterBroadcastAborted as ethereumBroadcasterBroadcastAborted100 } from './100/ethereumBroadcaster/broadcastAborted';
+import { ethereumBroadcasterBroadcastAttemptTimeout as ethereumBroadcasterBroadcastAttemptTimeout100 } from './100/ethereumBroadcaster/broadcastAttemptTimeout';
+import { ethereumBroadcasterBroadcastCallbackExecuted as ethereumBroadcasterBroadcastCallbackExecuted100 } from './100/ethereumBroadcaster/broadcastCallbackExecuted';
+import { ethereumBroadcasterBroadcastRetryScheduled as ethereumBroadcasterBroadcastRetryScheduled100 } from './100/ethereumBroadcaster/broadcastRetryScheduled';
+import { ethereumBroadcasterBroadcastRetryScheduled as ethereumBroadcasterBroadcastRetryScheduled120 } from './120/ethereumBroadcaster/broadcastRetryScheduled';
+import { ethereumBroadcasterBroadcastSuccess as ethereumBroadcasterBroadcastSuccess100 } from './100/ethereumBroadcaster/broadcastSuccess';
+import { ethereumBroadcasterBroadcastSuccess as ethereumBroadcasterBroadcastSuccess131 } from './131/ethereumBroadcaster/broadcastSuccess';
+import { ethereumBroadcasterBroadcastTimeout as ethereumBroadcasterBroadcastTimeout120 } from './120/ethereumBroadcaster/broadcastTimeout';
+import { ethereumBroadcasterCallResigned as ethereumBroadcasterCallResigned111 } from './111/ethereumBroadcaster/callResigned';
+import { ethereumBroadcasterThresholdSignatureInvalid as ethereumBroadcasterThresholdSignatureInvalid100 } from './100/ethereumBroadcaster/thresholdSignatureInvalid';
+import { ethereumBroadcasterThresholdSignatureInvalid as ethereumBroadcasterThresholdSignatureInvalid111 } from './111/ethereumBroadcaster/thresholdSignatureInvalid';
+import { ethereumBroadcasterThresholdSignatureInvalid as ethereumBroadcasterThresholdSignatureInvalid120 } from './120/ethereumBroadcaster/thresholdSignatureInvalid';
+import { ethereumBroadcasterTransactionBroadcastRequest as ethereumBroadcasterTransactionBroadcastRequest100 } from './100/ethereumBroadcaster/transactionBroadcastRequest';
+import { ethereumBroadcasterTransactionBroadcastRequest as ethereumBroadcasterTransactionBroadcastRequest120 } from './120/ethereumBroadcaster/transactionBroadcastRequest';
+import { ethereumBroadcasterTransactionFeeDeficitRecorded as ethereumBroadcasterTransactionFeeDeficitRecorded100 } from './100/ethereumBroadcaster/transactionFeeDeficitRecorded';
+import { ethereumBroadcasterTransactionFeeDeficitRefused as ethereumBroadcasterTransactionFeeDeficitRefused100 } from './100/ethereumBroadcaster/transactionFeeDeficitRefused';
+import { ethereumChainTrackingChainStateUpdated as ethereumChainTrackingChainStateUpdated100 } from './100/ethereumChainTracking/chainStateUpdated';
+import { ethereumChainTrackingFeeMultiplierUpdated as ethereumChainTrackingFeeMultiplierUpdated131 } from './131/ethereumChainTracking/feeMultiplierUpdated';
+import { ethereumIngressEgressAssetEgressStatusChanged as ethereumIngressEgressAssetEgressStatusChanged100 } from './100/ethereumIngressEgress/assetEgressStatusChanged';
+import { ethereumIngressEgressAssetEgressStatusChanged as ethereumIngressEgressAssetEgressStatusChanged131 } from './131/ethereumIngressEgress/assetEgressStatusChanged';
+import { ethereumIngressEgressBatchBroadcastRequested as ethereumIngressEgressBatchBroadcastRequested100 } from './100/ethereumIngressEgress/batchBroadcastRequested';
+import { ethereumIngressEgressBatchBroadcastRequested as ethereumIngressEgressBatchBroadcastRequested141 } from './141/ethereumIngressEgress/batchBroadcastRequested';
+import { ethereumIngressEgressBatchBroadcastRequested as ethereumIngressEgressBatchBroadcastRequested150 } from './150/ethereumIngressEgress/batchBroadcastRequested';
+import { ethereumIngressEgressBoostFundsAdded as ethereumIngressEgressBoostFundsAdded141 } from './141/ethereumIngressEgress/boostFundsAdded';
+import { ethereumIngressEgressBoostPoolCreated as ethereumIngressEgressBoostPoolCreated141 } from './141/ethereumIngressEgress/boostPoolCreated';
+import { ethereumIngressEgressCcmBroadcastFailed as ethereumIngressEgressCcmBroadcastFailed111 } from './111/ethereumIngressEgress/ccmBroadcastFailed';
+import { ethereumIngressEgressCcmBroadcastRequested as ethereumIngressEgressCcmBroadcastRequested100 } from './100/ethereumIngressEgress/ccmBroadcastRequested';
+import { ethereumIngressEgressCcmBroadcastRequested as ethereumIngressEgressCcmBroadcastRequested141 } from './141/ethereumIngressEgress/ccmBroadcastRequested';
+import { ethereumIngressEgressCcmBroadcastRequested as ethereumIngressEgressCcmBroadcastRequested150 } from './150/ethereumIngressEgress/ccmBroadcastRequested';
+import { ethereumIngressEgressCcmEgressInvalid as ethereumIngressEgressCcmEgressInvalid100 } from './100/ethereumIngressEgress/ccmEgressInvalid';
+import { ethereumIngressEgressCcmEgressInvalid as ethereumIngressEgressCcmEgressInvalid141 } from './141/ethereumIngressEgress/ccmEgressInvalid';
+import { ethereumIngressEgressCcmEgressInvalid as ethereumIngressEgressCcmEgressInvalid150 } from './150/ethereumIngressEgress/ccmEgressInvalid';
+import { ethereumIngressEgressCcmEgressInvalid as ethereumIngressEgressCcmEgressInvalid160 } from './160/ethereumIngressEgress/ccmEgressInvalid';
+import { ethereumIngressEgressChannelOpeningFeePaid as ethereumIngressEgressChannelOpeningFeePaid131 } from './131/ethereumIngressEgress/channelOpeningFeePaid';
+import { ethereumIngressEgressChannelOpeningFeeSet as ethereumIngressEgressChannelOpeningFeeSet131 } from './131/ethereumIngressEgress/channelOpeningFeeSet';
+import { ethereumIngressEgressDepositBoosted as ethereumIngressEgressDepositBoosted141 } from './141/ethereumIngressEgress/depositBoosted';
+import { ethereumIngressEgressDepositBoosted as ethereumIngressEgressDepositBoosted150 } from './150/ethereumIngressEgress/depositBoosted';
+import { ethereumIngressEgressDepositBoosted as ethereumIngressEgressDepositBoosted160 } from './160/ethereumIngressEgress/depositBoosted';
+import { ethereumIngressEgressDepositFetchesScheduled as ethereumIngressEgressDepositFetchesScheduled100 } from './100/ethereumIngressEgress/depositFetchesScheduled';
+import { ethereumIngressEgressDepositFetchesScheduled as ethereumIngressEgressDepositFetchesScheduled131 } from './131/ethereumIngressEgress/depositFetchesScheduled';
+import { ethereumIngressEgressDepositFinalised as ethereumIngressEgressDepositFinalised141 } from './141/ethereumIngressEgress/depositFinalised';
+import { ethereumIngressEgressDepositFinalised as ethereumIngressEgressDepositFinalised150 } from './150/ethereumIngressEgress/depositFinalised';
+import { ethereumIngressEgressDepositFinalised as ethereumIngressEgressDepositFinalised160 } from './160/ethereumIngressEgress/depositFinalised';
+import { ethereumIngressEgressDepositIgnored as ethereumIngressEgressDepositIgnored100 } from './100/ethereumIngressEgress/depositIgnored';
+import { ethereumIngressEgressDepositIgnored as ethereumIngressEgressDepositIgnored120 } from './120/ethereumIngressEgress/depositIgnored';
+import { ethereumIngressEgressDepositIgnored as ethereumIngressEgressDepositIgnored131 } from './131/ethereumIngressEgress/depositIgnored';
+import { ethereumIngressEgressDepositIgnored as ethereumIngressEgressDepositIgnored150 } from './150/ethereumIngressEgress/depositIgnored';
+import { ethereumIngressEgressDepositReceived as ethereumIngressEgressDepositReceived100 } from './100/ethereumIngressEgress/depositReceived';
+import { ethereumIngressEgressDepositReceived as ethereumIngressEgressDepositReceived120 } from './120/ethereumIngressEgress/depositReceived';
+import { ethereumIngressEgressDepositReceived as ethereumIngressEgressDepositReceived131 } from './131/ethereumIngressEgress/depositReceived';
+import { ethereumIngressEgressDepositWitnessRejected as ethereumIngressEgressDepositWitnessRejected100 } from './100/ethereumIngressEgress/depositWitnessRejected';
+import { ethereumIngressEgressDepositWitnessRejected as ethereumIngressEgressDepositWitnessRejected131 } from './131/ethereumIngressEgress/depositWitnessRejected';
+import { ethereumIngressEgressDepositWitnessRejected as ethereumIngressEgressDepositWitnessRejected150 } from './150/ethereumIngressEgress/depositWitnessRejected';
+import { ethereumIngressEgressEgressScheduled as ethereumIngressEgressEgressScheduled100 } from './100/ethereumIngressEgress/egressScheduled';
+import { ethereumIngressEgressFailedForeignChainCallExpired as ethereumIngressEgressFailedForeignChainCallExpired111 } from './111/ethereumIngressEgress/failedForeignChainCallExpired';
+import { ethereumIngressEgressFailedForeignChainCallResigned as ethereumIngressEgressFailedForeignChainCallResigned111 } from './111/ethereumIngressEgress/failedForeignChainCallResigned';
+import { ethereumIngressEgressFailedToBuildAllBatchCall as ethereumIngressEgressFailedToBuildAllBatchCall131 } from './131/ethereumIngressEgress/failedToBuildAllBatchCall';
+import { ethereumIngressEgressInsufficientBoostLiquidity as ethereumIngressEgressInsufficientBoostLiquidity141 } from './141/ethereumIngressEgress/insufficientBoostLiquidity';
+import { ethereumIngressEgressMaxSwapRetryDurationSet as ethereumIngressEgressMaxSwapRetryDurationSet150 } from './150/ethereumIngressEgress/maxSwapRetryDurationSet';
+import { ethereumIngressEgressMinimumDepositSet as ethereumIngressEgressMinimumDepositSet100 } from './100/ethereumIngressEgress/minimumDepositSet';
+import { ethereumIngressEgressMinimumDepositSet as ethereumIngressEgressMinimumDepositSet131 } from './131/ethereumIngressEgress/minimumDepositSet';
+import { ethereumIngressEgressStoppedBoosting as ethereumIngressEgressStoppedBoosting141 } from './141/ethereumIngressEgress/stoppedBoosting';
+import { ethereumIngressEgressTransferFallbackRequested as ethereumIngressEgressTransferFallbackRequested111 } from './111/ethereumIngressEgress/transferFallbackRequested';
+import { ethereumIngressEgressTransferFallbackRequested as ethereumIngressEgressTransferFallbackRequested131 } from './131/ethereumIngressEgress/transferFallbackRequested';
+import { ethereumIngressEgressUtxoConsolidation as ethereumIngressEgressUtxoConsolidation120 } from './120/ethereumIngressEgress/utxoConsolidation';
+import { ethereumIngressEgressVaultTransferFailed as ethereumIngressEgressVaultTransferFailed100 } from './100/ethereumIngressEgress/vaultTransferFailed';
+import { ethereumThresholdSignerCurrentKeyUnavailable as ethereumThresholdSignerCurrentKeyUnavailable100 } from './100/ethereumThresholdSigner/currentKeyUnavailable';
+import { ethereumThresholdSignerFailureReportProcessed as ethereumThresholdSignerFailureReportProcessed100 } from './100/ethereumThresholdSigner/failureReportProcessed';
+import { ethereumThresholdSignerKeygenFailure as ethereumThresholdSignerKeygenFailure131 } from './131/ethereumThresholdSigner/keygenFailure';
+import { ethereumThresholdSignerKeygenFailureReported as ethereumThresholdSignerKeygenFailureReported131 } from './131/ethereumThresholdSigner/keygenFailureReported';
+import { ethereumThresholdSignerKeygenRequest as ethereumThresholdSignerKeygenRequest131 } from './131/ethereumThresholdSigner/keygenRequest';
+import { ethereumThresholdSignerKeygenResponseTimeout as ethereumThresholdSignerKeygenResponseTimeout131 } from './131/ethereumThresholdSigner/keygenResponseTimeout';
+import { ethereumThresholdSignerKeygenResponseTimeoutUpdated as ethereumThresholdSignerKeygenResponseTimeoutUpdated131 } from './131/ethereumThresholdSigner/keygenResponseTimeoutUpdated';
+import { ethereumThresholdSignerKeygenSuccess as ethereumThresholdSignerKeygenSuccess131 } from './131/ethereumThresholdSigner/keygenSuccess';
+import { ethereumThresholdSignerKeygenSuccessReported as ethereumThresholdSignerKeygenSuccessReported131 } from './131/ethereumThresholdSigner/keygenSuccessReported';
+import { ethereumThresholdSignerKeygenVerificationFailure as ethereumThresholdSignerKeygenVerificationFailure131 } from './131/ethereumThresholdSigner/keygenVerificationFailure';
+import { ethereumThresholdSignerKeygenVerificationSuccess as ethereumThresholdSignerKeygenVerificationSuccess131 } from './131/ethereumThresholdSigner/keygenVerificationSuccess';
+import { ethereumThresholdSignerKeyHandoverFailure as ethereumThresholdSignerKeyHandoverFailure131 } from './131/ethereumThresholdSigner/keyHandoverFailure';
+import { ethereumThresholdSignerKeyHandoverFailureReported as ethereumThresholdSignerKeyHandoverFailureReported131 } from './131/ethereumThresholdSigner/keyHandoverFailureReported';
+import { ethereumThresholdSignerKeyHandoverRequest as ethereumThresholdSignerKeyHandoverRequest131 } from './131/ethereumThresholdSigner/keyHandoverRequest';
+import { ethereumThresholdSignerKeyHandoverResponseTimeout as ethereumThresholdSignerKeyHandoverResponseTimeout131 } from './131/ethereumThresholdSigner/keyHandoverResponseTimeout';
+import { ethereumThresholdSignerKeyHandoverSuccess as ethereumThresholdSignerKeyHandoverSuccess131 } from './131/ethereumThresholdSigner/keyHandoverSuccess';
+import { ethereumThresholdSignerKeyHandoverSuccessReported as ethereumThresholdSignerKeyHandoverSuccessReported131 } from './131/ethereumThresholdSigner/keyHandoverSuccessReported';
+import { ethereumThresholdSignerKeyHandoverVerificationFailure as ethereumThresholdSignerKeyHandoverVerificationFailure131 } from './131/ethereumThresholdSigner/keyHandoverVerificationFailure';
+import { ethereumThresholdSignerKeyHandoverVerificationSuccess as ethereumThresholdSignerKeyHandoverVerificationSuccess131 } from './131/ethereumThresholdSigner/keyHandoverVerificationSuccess';
+import { ethereumThresholdSignerKeyRotationCompleted as ethereumThresholdSignerKeyRotationCompleted131 } from './131/ethereumThresholdSigner/keyRotationCompleted';
+import { ethereumThresholdSignerNoKeyHandover as ethereumThresholdSignerNoKeyHandover131 } from './131/ethereumThresholdSigner/noKeyHandover';
+import { ethereumThresholdSignerRetryRequested as ethereumThresholdSignerRetryRequested100 } from './100/ethereumThresholdSigner/retryRequested';
+import { ethereumThresholdSignerSignersUnavailable as ethereumThresholdSignerSignersUnavailable100 } from './100/ethereumThresholdSigner/signersUnavailable';
+import { ethereumThresholdSignerThresholdDispatchComplete as ethereumThresholdSignerThresholdDispatchComplete100 } from './100/ethereumThresholdSigner/thresholdDispatchComplete';
+import { ethereumThresholdSignerThresholdSignatureFailed as ethereumThresholdSignerThresholdSignatureFailed100 } from './100/ethereumThresholdSigner/thresholdSignatureFailed';
+import { ethereumThresholdSignerThresholdSignatureRequest as ethereumThresholdSignerThresholdSignatureRequest100 } from './100/ethereumThresholdSigner/thresholdSignatureRequest';
+import { ethereumThresholdSignerThresholdSignatureResponseTimeoutUpdated as ethereumThresholdSignerThresholdSignatureResponseTimeoutUpdated100 } from './100/ethereumThresholdSigner/thresholdSignatureResponseTimeoutUpdated';
+import { ethereumThresholdSignerThresholdSignatureSuccess as ethereumThresholdSignerThresholdSignatureSuccess100 } from './100/ethereumThresholdSigner/thresholdSignatureSuccess';
+import { ethereumVaultAwaitingGovernanceActivation as ethereumVaultAwaitingGovernanceActivation100 } from './100/ethereumVault/awaitingGovernanceActivation';
+import { ethereumVaultChainInitialized as ethereumVaultChainInitialized141 } from './141/ethereumVault/chainInitialized';
+import { ethereumVaultKeygenFailure as ethereumVaultKeygenFailure100 } from './100/ethereumVault/keygenFailure';
+import { ethereumVaultKeygenFailureReported as ethereumVaultKeygenFailureReported100 } from './100/ethereumVault/keygenFailureReported';
+import { ethereumVaultKeygenRequest as ethereumVaultKeygenRequest100 } from './100/ethereumVault/keygenRequest';
+import { ethereumVaultKeygenResponseTimeout as ethereumVaultKeygenResponseTimeout100 } from './100/ethereumVault/keygenResponseTimeout';
+import { ethereumVaultKeygenResponseTimeoutUpdated as ethereumVaultKeygenResponseTimeoutUpdated100 } from './100/ethereumVault/keygenResponseTimeoutUpdated';
+import { ethereumVaultKeygenSuccess as ethereumVaultKeygenSuccess100 } from './100/ethereumVault/keygenSuccess';
+import { ethereumVaultKeygenSuccessReported as ethereumVaultKeygenSuccessReported100 } from './100/ethereumVault/keygenSuccessReported';
+import { ethereumVaultKeygenVerificationFailure as ethereumVaultKeygenVerificationFailure100 } from './100/ethereumVault/keygenVerificationFailure';
+import { ethereumVaultKeygenVerificationSuccess as ethereumVaultKeygenVerificationSuccess100 } from './100/ethereumVault/keygenVerificationSuccess';
+import { ethereumVaultKeyHandoverFailure as ethereumVaultKeyHandoverFailure100 } from './100/ethereumVault/keyHandoverFailure';
+import { ethereumVaultKeyHandoverFailureReported as ethereumVaultKeyHandoverFailureReported100 } from './100/ethereumVault/keyHandoverFailureReported';
+import { ethereumVaultKeyHandoverRequest as ethereumVaultKeyHandoverRequest100 } from './100/ethereumVault/keyHandoverRequest';
+import { ethereumVaultKeyHandoverResponseTimeout as ethereumVaultKeyHandoverResponseTimeout100 } from './100/ethereumVault/keyHandoverResponseTimeout';
+import { ethereumVaultKeyHandoverSuccess as ethereumVaultKeyHandoverSuccess100 } from './100/ethereumVault/keyHandoverSuccess';
+import { ethereumVaultKeyHandoverSuccessReported as ethereumVaultKeyHandoverSuccessReported100 } from './100/ethereumVault/keyHandoverSuccessReported';
+import { ethereumVaultKeyHandoverVerificationFailure as ethereumVaultKeyHandoverVerificationFailure100 } from './100/ethereumVault/keyHandoverVerificationFailure';
+import { ethereumVaultKeyHandoverVerificationSuccess as ethereumVaultKeyHandoverVerificationSuccess100 } from './100/ethereumVault/keyHandoverVerificationSuccess';
+import { ethereumVaultNoKeyHandover as ethereumVaultNoKeyHandover100 } from './100/ethereumVault/noKeyHandover';
+import { ethereumVaultVaultActivationCompleted as ethereumVaultVaultActivationCompleted131 } from './131/ethereumVault/vaultActivationCompleted';
+import { ethereumVaultVaultRotatedExternally as ethereumVaultVaultRotatedExternally100 } from './100/ethereumVault/vaultRotatedExternally';
+import { ethereumVaultVaultRotationAborted as ethereumVaultVaultRotationAborted100 } from './100/ethereumVault/vaultRotationAborted';
+import { ethereumVaultVaultRotationCompleted as ethereumVaultVaultRotationCompleted100 } from './100/ethereumVault/vaultRotationCompleted';
+import { evmThresholdSignerFailureReportProcessed as evmThresholdSignerFailureReportProcessed141 } from './141/evmThresholdSigner/failureReportProcessed';
+import { evmThresholdSignerKeygenFailure as evmThresholdSignerKeygenFailure141 } from './141/evmThresholdSigner/keygenFailure';
+import { evmThresholdSignerKeygenFailureReported as evmThresholdSignerKeygenFailureReported141 } from './141/evmThresholdSigner/keygenFailureReported';
+import { evmThresholdSignerKeygenRequest as evmThresholdSignerKeygenRequest141 } from './141/evmThresholdSigner/keygenRequest';
+import { evmThresholdSignerKeygenResponseTimeout as evmThresholdSignerKeygenResponseTimeout141 } from './141/evmThresholdSigner/keygenResponseTimeout';
+import { evmThresholdSignerKeygenResponseTimeoutUpdated as evmThresholdSignerKeygenResponseTimeoutUpdated141 } from './141/evmThresholdSigner/keygenResponseTimeoutUpdated';
+import { evmThresholdSignerKeygenSuccess as evmThresholdSignerKeygenSuccess141 } from './141/evmThresholdSigner/keygenSuccess';
+import { evmThresholdSignerKeygenSuccessReported as evmThresholdSignerKeygenSuccessReported141 } from './141/evmThresholdSigner/keygenSuccessReported';
+import { evmThresholdSignerKeygenVerificationFailure as evmThresholdSignerKeygenVerificationFailure141 } from './141/evmThresholdSigner/keygenVerificationFailure';
+import { evmThresholdSignerKeygenVerificationSuccess as evmThresholdSignerKeygenVerificationSuccess141 } from './141/evmThresholdSigner/keygenVerificationSuccess';
+import { evmThresholdSignerKeyHandoverFailure as evmThresholdSignerKeyHandoverFailure141 } from './141/evmThresholdSigner/keyHandoverFailure';
+import { evmThresholdSignerKeyHandoverFailureReported as evmThresholdSignerKeyHandoverFailureReported141 } from './141/evmThresholdSigner/keyHandoverFailureReported';
+import { evmThresholdSignerKeyHandoverRequest as evmThresholdSignerKeyHandoverRequest141 } from './141/evmThresholdSigner/keyHandoverRequest';
+import { evmThresholdSignerKeyHandoverResponseTimeout as evmThresholdSignerKeyHandoverResponseTimeout141 } from './141/evmThresholdSigner/keyHandoverResponseTimeout';
+import { evmThresholdSignerKeyHandoverSuccess as evmThresholdSignerKeyHandoverSuccess141 } from './141/evmThresholdSigner/keyHandoverSuccess';
+import { evmThresholdSignerKeyHandoverSuccessReported as evmThresholdSignerKeyHandoverSuccessReported141 } from './141/evmThresholdSigner/keyHandoverSuccessReported';
+import { evmThresholdSignerKeyHandoverVerificationFailure as evmThresholdSignerKeyHandoverVerificationFailure141 } from './141/evmThresholdSigner/keyHandoverVerificationFailure';
+import { evmThresholdSignerKeyHandoverVerificationSuccess as evmThresholdSignerKeyHandoverVerificationSuccess141 } from './141/evmThresholdSigner/keyHandoverVerificationSuccess';
+import { evmThresholdSignerKeyRotationCompleted as evmThresholdSignerKeyRotationCompleted141 } from './141/evmThresholdSigner/keyRotationCompleted';
+import { evmThresholdSignerNoKeyHandover as evmThresholdSignerNoKeyHandover141 } from './141/evmThresholdSigner/noKeyHandover';
+import { evmThresholdSignerRetryRequested as evmThresholdSignerRetryRequested141 } from './141/evmThresholdSigner/retryRequested';
+import { evmThresholdSignerSignersUnavailable as evmThresholdSignerSignersUnavailable141 } from './141/evmThresholdSigner/signersUnavailable';
+import { evmThresholdSignerThresholdDispatchComplete as evmThresholdSignerThresholdDispatchComplete141 } from './141/evmThresholdSigner/thresholdDispatchComplete';
+import { evmThresholdSignerThresholdSignatureFailed as evmThresholdSignerThresholdSignatureFailed141 } from './141/evmThresholdSigner/thresholdSignatureFailed';
+import { evmThresholdSignerThresholdSignatureRequest as evmThresholdSignerThresholdSignatureRequest141 } from './141/evmThresholdSigner/thresholdSignatureRequest';
+import { evmThresholdSignerThresholdSignatureResponseTimeoutUpdated as evmThresholdSignerThresholdSignatureResponseTimeoutUpdated141 } from './141/evmThresholdSigner/thresholdSignatureResponseTimeoutUpdated';
+import { evmThresholdSignerThresholdSignatureSuccess as evmThresholdSignerThresholdSignatureSuccess141 } from './141/evmThresholdSigner/thresholdSignatureSuccess';
+import { flipAccountReaped as flipAccountReaped100 } from './100/flip/accountReaped';
+import { flipRemainingImbalance as flipRemainingImbalance100 } from './100/flip/remainingImbalance';
+import { flipSlashingPerformed as flipSlashingPerformed100 } from './100/flip/slashingPerformed';
+import { flipSlashingRateUpdated as flipSlashingRateUpdated100 } from './100/flip/slashingRateUpdated';
+import { fundingAddedRestrictedAddress as fundingAddedRestrictedAddress100 } from './100/funding/addedRestrictedAddress';
+import { fundingBoundExecutorAddress as fundingBoundExecutorAddress100 } from './100/funding/boundExecutorAddress';
+import { fundingBoundRedeemAddress as fundingBoundRedeemAddress100 } from './100/funding/boundRedeemAddress';
+import { fundingFailedFundingAttempt as fundingFailedFundingAttempt100 } from './100/funding/failedFundingAttempt';
+import { fundingFunded as fundingFunded100 } from './100/funding/funded';
+import { fundingMinimumFundingUpdated as fundingMinimumFundingUpdated100 } from './100/funding/minimumFundingUpdated';
+import { fundingRedemptionAmountZero as fundingRedemptionAmountZero100 } from './100/funding/redemptionAmountZero';
+import { fundingRedemptionExpired as fundingRedemptionExpired100 } from './100/funding/redemptionExpired';
+import { fundingRedemptionRequested as fundingRedemptionRequested100 } from './100/funding/redemptionRequested';
+import { fundingRedemptionSettled as fundingRedemptionSettled100 } from './100/funding/redemptionSettled';
+import { fundingRedemptionTaxAmountUpdated as fundingRedemptionTaxAmountUpdated100 } from './100/funding/redemptionTaxAmountUpdated';
+import { fundingRemovedRestrictedAddress as fundingRemovedRestrictedAddress100 } from './100/funding/removedRestrictedAddress';
+import { fundingStartedBidding as fundingStartedBidding100 } from './100/funding/startedBidding';
+import { fundingStoppedBidding as fundingStoppedBidding100 } from './100/funding/stoppedBidding';
+import { governanceApproved as governanceApproved100 } from './100/governance/approved';
+import { governanceDecodeOfCallFailed as governanceDecodeOfCallFailed100 } from './100/governance/decodeOfCallFailed';
+import { governanceExecuted as governanceExecuted100 } from './100/governance/executed';
+import { governanceExpired as governanceExpired100 } from './100/governance/expired';
+import { governanceFailedExecution as governanceFailedExecution100 } from './100/governance/failedExecution';
+import { governanceGovKeyCallExecuted as governanceGovKeyCallExecuted100 } from './100/governance/govKeyCallExecuted';
+import { governanceGovKeyCallExecutionFailed as governanceGovKeyCallExecutionFailed100 } from './100/governance/govKeyCallExecutionFailed';
+import { governanceGovKeyCallHashWhitelisted as governanceGovKeyCallHashWhitelisted100 } from './100/governance/govKeyCallHashWhitelisted';
+import { governanceProposed as governanceProposed100 } from './100/governance/proposed';
+import { grandpaNewAuthorities as grandpaNewAuthorities100 } from './100/grandpa/newAuthorities';
+import { grandpaPaused as grandpaPaused100 } from './100/grandpa/paused';
+import { grandpaResumed as grandpaResumed100 } from './100/grandpa/resumed';
+import { liquidityPoolsAssetSwapped as liquidityPoolsAssetSwapped100 } from './100/liquidityPools/assetSwapped';
+import { liquidityPoolsAssetSwapped as liquidityPoolsAssetSwapped131 } from './131/liquidityPools/assetSwapped';
+import { liquidityPoolsAssetSwapped as liquidityPoolsAssetSwapped141 } from './141/liquidityPools/assetSwapped';
+import { liquidityPoolsAssetSwapped as liquidityPoolsAssetSwapped150 } from './150/liquidityPools/assetSwapped';
+import { liquidityPoolsAssetSwapped as liquidityPoolsAssetSwapped160 } from './160/liquidityPools/assetSwapped';
+import { liquidityPoolsLimitOrderSetOrUpdateScheduled as liquidityPoolsLimitOrderSetOrUpdateScheduled111 } from './111/liquidityPools/limitOrderSetOrUpdateScheduled';
+import { liquidityPoolsLimitOrderUpdated as liquidityPoolsLimitOrderUpdated100 } from './100/liquidityPools/limitOrderUpdated';
+import { liquidityPoolsLimitOrderUpdated as liquidityPoolsLimitOrderUpdated111 } from './111/liquidityPools/limitOrderUpdated';
+import { liquidityPoolsLimitOrderUpdated as liquidityPoolsLimitOrderUpdated131 } from './131/liquidityPools/limitOrderUpdated';
+import { liquidityPoolsLimitOrderUpdated as liquidityPoolsLimitOrderUpdated141 } from './141/liquidityPools/limitOrderUpdated';
+import { liquidityPoolsLimitOrderUpdated as liquidityPoolsLimitOrderUpdated150 } from './150/liquidityPools/limitOrderUpdated';
+import { liquidityPoolsLimitOrderUpdated as liquidityPoolsLimitOrderUpdated160 } from './160/liquidityPools/limitOrderUpdated';
+import { liquidityPoolsNetworkFeeTaken as liquidityPoolsNetworkFeeTaken100 } from './100/liquidityPools/networkFeeTaken';
+import { liquidityPoolsNewPoolCreated as liquidityPoolsNewPoolCreated100 } from './100/liquidityPools/newPoolCreated';
+import { liquidityPoolsNewPoolCreated as liquidityPoolsNewPoolCreated111 } from './111/liquidityPools/newPoolCreated';
+import { liquidityPoolsNewPoolCreated as liquidityPoolsNewPoolCreated131 } from './131/liquidityPools/newPoolCreated';
+import { liquidityPoolsNewPoolCreated as liquidityPoolsNewPoolCreated141 } from './141/liquidityPools/newPoolCreated';
+import { liquidityPoolsNewPoolCreated as liquidityPoolsNewPoolCreated150 } from './150/liquidityPools/newPoolCreated';
+import { liquidityPoolsNewPoolCreated as liquidityPoolsNewPoolCreated160 } from './160/liquidityPools/newPoolCreated';
+import { liquidityPoolsOrderDeletionFailed as liquidityPoolsOrderDeletionFailed160 } from './160/liquidityPools/orderDeletionFailed';
+import { liquidityPoolsPoolFeeSet as liquidityPoolsPoolFeeSet100 } from './100/liquidityPools/poolFeeSet';
+import { liquidityPoolsPoolFeeSet as liquidityPoolsPoolFeeSet111 } from './111/liquidityPools/poolFeeSet';
+import { liquidityPoolsPoolFeeSet as liquidityPoolsPoolFeeSet131 } from './131/liquidityPools/poolFeeSet';
+import { liquidityPoolsPoolFeeSet as liquidityPoolsPoolFeeSet141 } from './141/liquidityPools/poolFeeSet';
+import { liquidityPoolsPoolFeeSet as liquidityPoolsPoolFeeSet150 } from './150/liquidityPools/poolFeeSet';
+import { liquidityPoolsPoolFeeSet as liquidityPoolsPoolFeeSet160 } from './160/liquidityPools/poolFeeSet';
+import { liquidityPoolsPoolStateUpdated as liquidityPoolsPoolStateUpdated100 } from './100/liquidityPools/poolStateUpdated';
+import { liquidityPoolsPriceImpactLimitSet as liquidityPoolsPriceImpactLimitSet141 } from './141/liquidityPools/priceImpactLimitSet';
+import { liquidityPoolsPriceImpactLimitSet as liquidityPoolsPriceImpactLimitSet150 } from './150/liquidityPools/priceImpactLimitSet';
+import { liquidityPoolsPriceImpactLimitSet as liquidityPoolsPriceImpactLimitSet160 } from './160/liquidityPools/priceImpactLimitSet';
+import { liquidityPoolsRangeOrderUpdated as liquidityPoolsRangeOrderUpdated100 } from './100/liquidityPools/rangeOrderUpdated';
+import { liquidityPoolsRangeOrderUpdated as liquidityPoolsRangeOrderUpdated111 } from './111/liquidityPools/rangeOrderUpdated';
+import { liquidityPoolsRangeOrderUpdated as liquidityPoolsRangeOrderUpdated131 } from './131/liquidityPools/rangeOrderUpdated';
+import { liquidityPoolsRangeOrderUpdated as liquidityPoolsRangeOrderUpdated141 } from './141/liquidityPools/rangeOrderUpdated';
+import { liquidityPoolsRangeOrderUpdated as liquidityPoolsRangeOrderUpdated150 } from './150/liquidityPools/rangeOrderUpdated';
+import { liquidityPoolsRangeOrderUpdated as liquidityPoolsRangeOrderUpdated160 } from './160/liquidityPools/rangeOrderUpdated';
+import { liquidityPoolsScheduledLimitOrderUpdateDispatchFailure as liquidityPoolsScheduledLimitOrderUpdateDispatchFailure111 } from './111/liquidityPools/scheduledLimitOrderUpdateDispatchFailure';
+import { liquidityPoolsScheduledLimitOrderUpdateDispatchSuccess as liquidityPoolsScheduledLimitOrderUpdateDispatchSuccess111 } from './111/liquidityPools/scheduledLimitOrderUpdateDispatchSuccess';
+import { liquidityPoolsUpdatedBuyInterval as liquidityPoolsUpdatedBuyInterval100 } from './100/liquidityPools/updatedBuyInterval';
+import { liquidityProviderAccountCredited as liquidityProviderAccountCredited100 } from './100/liquidityProvider/accountCredited';
+import { liquidityProviderAccountCredited as liquidityProviderAccountCredited131 } from './131/liquidityProvider/accountCredited';
+import { liquidityProviderAccountCredited as liquidityProviderAccountCredited141 } from './141/liquidityProvider/accountCredited';
+import { liquidityProviderAccountCredited as liquidityProviderAccountCredited150 } from './150/liquidityProvider/accountCredited';
+import { liquidityProviderAccountDebited as liquidityProviderAccountDebited100 } from './100/liquidityProvider/accountDebited';
+import { liquidityProviderAccountDebited as liquidityProviderAccountDebited131 } from './131/liquidityProvider/accountDebited';
+import { liquidityProviderAccountDebited as liquidityProviderAccountDebited141 } from './141/liquidityProvider/accountDebited';
+import { liquidityProviderAccountDebited as liquidityProviderAccountDebited150 } from './150/liquidityProvider/accountDebited';
+import { liquidityProviderAssetTransferred as liquidityProviderAssetTransferred141 } from './141/liquidityProvider/assetTransferred';
+import { liquidityProviderAssetTransferred as liquidityProviderAssetTransferred150 } from './150/liquidityProvider/assetTransferred';
+import { liquidityProviderAssetTransferred as liquidityProviderAssetTransferred160 } from './160/liquidityProvider/assetTransferred';
+import { liquidityProviderLiquidityDepositAddressReady as liquidityProviderLiquidityDepositAddressReady100 } from './100/liquidityProvider/liquidityDepositAddressReady';
+import { liquidityProviderLiquidityDepositAddressReady as liquidityProviderLiquidityDepositAddressReady131 } from './131/liquidityProvider/liquidityDepositAddressReady';
+import { liquidityProviderLiquidityDepositAddressReady as liquidityProviderLiquidityDepositAddressReady141 } from './141/liquidityProvider/liquidityDepositAddressReady';
+import { liquidityProviderLiquidityDepositAddressReady as liquidityProviderLiquidityDepositAddressReady150 } from './150/liquidityProvider/liquidityDepositAddressReady';
+import { liquidityProviderLiquidityDepositAddressReady as liquidityProviderLiquidityDepositAddressReady160 } from './160/liquidityProvider/liquidityDepositAddressReady';
+import { liquidityProviderLiquidityDepositCredited as liquidityProviderLiquidityDepositCredited120 } from './120/liquidityProvider/liquidityDepositCredited';
+import { liquidityProviderLiquidityDepositCredited as liquidityProviderLiquidityDepositCredited131 } from './131/liquidityProvider/liquidityDepositCredited';
+import { liquidityProviderLiquidityDepositCredited as liquidityProviderLiquidityDepositCredited141 } from './141/liquidityProvider/liquidityDepositCredited';
+import { liquidityProviderLiquidityDepositCredited as liquidityProviderLiquidityDepositCredited150 } from './150/liquidityProvider/liquidityDepositCredited';
+import { liquidityProviderLiquidityRefundAddressRegistered as liquidityProviderLiquidityRefundAddressRegistered100 } from './100/liquidityProvider/liquidityRefundAddressRegistered';
+import { liquidityProviderLiquidityRefundAddressRegistered as liquidityProviderLiquidityRefundAddressRegistered141 } from './141/liquidityProvider/liquidityRefundAddressRegistered';
+import { liquidityProviderLiquidityRefundAddressRegistered as liquidityProviderLiquidityRefundAddressRegistered150 } from './150/liquidityProvider/liquidityRefundAddressRegistered';
+import { liquidityProviderWithdrawalEgressScheduled as liquidityProviderWithdrawalEgressScheduled100 } from './100/liquidityProvider/withdrawalEgressScheduled';
+import { liquidityProviderWithdrawalEgressScheduled as liquidityProviderWithdrawalEgressScheduled120 } from './120/liquidityProvider/withdrawalEgressScheduled';
+import { liquidityProviderWithdrawalEgressScheduled as liquidityProviderWithdrawalEgressScheduled131 } from './131/liquidityProvider/withdrawalEgressScheduled';
+import { liquidityProviderWithdrawalEgressScheduled as liquidityProviderWithdrawalEgressScheduled141 } from './141/liquidityProvider/withdrawalEgressScheduled';
+import { liquidityProviderWithdrawalEgressScheduled as liquidityProviderWithdrawalEgressScheduled150 } from './150/liquidityProvider/withdrawalEgressScheduled';
+import { liquidityProviderWithdrawalEgressScheduled as liquidityProviderWithdrawalEgressScheduled160 } from './160/liquidityProvider/withdrawalEgressScheduled';
+import { polkadotBroadcasterBroadcastAborted as polkadotBroadcasterBroadcastAborted100 } from './100/polkadotBroadcaster/broadcastAborted';
+import { polkadotBroadcasterBroadcastAttemptTimeout as polkadotBroadcasterBroadcastAttemptTimeout100 } from './100/polkadotBroadcaster/broadcastAttemptTimeout';
+import { polkadotBroadcasterBroadcastCallbackExecuted as polkadotBroadcasterBroadcastCallbackExecuted100 } from './100/polkadotBroadcaster/broadcastCallbackExecuted';
+import { polkadotBroadcasterBroadcastRetryScheduled as polkadotBroadcasterBroadcastRetryScheduled100 } from './100/polkadotBroadcaster/broadcastRetryScheduled';
+import { polkadotBroadcasterBroadcastRetryScheduled as polkadotBroadcasterBroadcastRetryScheduled120 } from './120/polkadotBroadcaster/broadcastRetryScheduled';
+import { polkadotBroadcasterBroadcastSuccess as polkadotBroadcasterBroadcastSuccess100 } from './100/polkadotBroadcaster/broadcastSuccess';
+import { polkadotBroadcasterBroadcastSuccess as polkadotBroadcasterBroadcastSuccess131 } from './131/polkadotBroadcaster/broadcastSuccess';
+import { polkadotBroadcasterBroadcastTimeout as polkadotBroadcasterBroadcastTimeout120 } from './120/polkadotBroadcaster/broadcastTimeout';
+import { polkadotBroadcasterCallResigned as polkadotBroadcasterCallResigned111 } from './111/polkadotBroadcaster/callResigned';
+import { polkadotBroadcasterThresholdSignatureInvalid as polkadotBroadcasterThresholdSignatureInvalid100 } from './100/polkadotBroadcaster/thresholdSignatureInvalid';
+import { polkadotBroadcasterThresholdSignatureInvalid as polkadotBroadcasterThresholdSignatureInvalid111 } from './111/polkadotBroadcaster/thresholdSignatureInvalid';
+import { polkadotBroadcasterThresholdSignatureInvalid as polkadotBroadcasterThresholdSignatureInvalid120 } from './120/polkadotBroadcaster/thresholdSignatureInvalid';
+import { polkadotBroadcasterTransactionBroadcastRequest as polkadotBroadcasterTransactionBroadcastRequest100 } from './100/polkadotBroadcaster/transactionBroadcastRequest';
+import { polkadotBroadcasterTransactionBroadcastRequest as polkadotBroadcasterTransactionBroadcastRequest120 } from './120/polkadotBroadcaster/transactionBroadcastRequest';
+import { polkadotBroadcasterTransactionFeeDeficitRecorded as polkadotBroadcasterTransactionFeeDeficitRecorded100 } from './100/polkadotBroadcaster/transactionFeeDeficitRecorded';
+import { polkadotBroadcasterTransactionFeeDeficitRefused as polkadotBroadcasterTransactionFeeDeficitRefused100 } from './100/polkadotBroadcaster/transactionFeeDeficitRefused';
+import { polkadotChainTrackingChainStateUpdated as polkadotChainTrackingChainStateUpdated100 } from './100/polkadotChainTracking/chainStateUpdated';
+import { polkadotChainTrackingFeeMultiplierUpdated as polkadotChainTrackingFeeMultiplierUpdated131 } from './131/polkadotChainTracking/feeMultiplierUpdated';
+import { polkadotIngressEgressAssetEgressStatusChanged as polkadotIngressEgressAssetEgressStatusChanged100 } from './100/polkadotIngressEgress/assetEgressStatusChanged';
+import { polkadotIngressEgressBatchBroadcastRequested as polkadotIngressEgressBatchBroadcastRequested100 } from './100/polkadotIngressEgress/batchBroadcastRequested';
+import { polkadotIngressEgressBatchBroadcastRequested as polkadotIngressEgressBatchBroadcastRequested141 } from './141/polkadotIngressEgress/batchBroadcastRequested';
+import { polkadotIngressEgressBatchBroadcastRequested as polkadotIngressEgressBatchBroadcastRequested150 } from './150/polkadotIngressEgress/batchBroadcastRequested';
+import { polkadotIngressEgressBoostFundsAdded as polkadotIngressEgressBoostFundsAdded141 } from './141/polkadotIngressEgress/boostFundsAdded';
+import { polkadotIngressEgressBoostPoolCreated as polkadotIngressEgressBoostPoolCreated141 } from './141/polkadotIngressEgress/boostPoolCreated';
+import { polkadotIngressEgressCcmBroadcastFailed as polkadotIngressEgressCcmBroadcastFailed111 } from './111/polkadotIngressEgress/ccmBroadcastFailed';
+import { polkadotIngressEgressCcmBroadcastRequested as polkadotIngressEgressCcmBroadcastRequested100 } from './100/polkadotIngressEgress/ccmBroadcastRequested';
+import { polkadotIngressEgressCcmBroadcastRequested as polkadotIngressEgressCcmBroadcastRequested141 } from './141/polkadotIngressEgress/ccmBroadcastRequested';
+import { polkadotIngressEgressCcmBroadcastRequested as polkadotIngressEgressCcmBroadcastRequested150 } from './150/polkadotIngressEgress/ccmBroadcastRequested';
+import { polkadotIngressEgressCcmEgressInvalid as polkadotIngressEgressCcmEgressInvalid100 } from './100/polkadotIngressEgress/ccmEgressInvalid';
+import { polkadotIngressEgressCcmEgressInvalid as polkadotIngressEgressCcmEgressInvalid141 } from './141/polkadotIngressEgress/ccmEgressInvalid';
+import { polkadotIngressEgressCcmEgressInvalid as polkadotIngressEgressCcmEgressInvalid150 } from './150/polkadotIngressEgress/ccmEgressInvalid';
+import { polkadotIngressEgressCcmEgressInvalid as polkadotIngressEgressCcmEgressInvalid160 } from './160/polkadotIngressEgress/ccmEgressInvalid';
+import { polkadotIngressEgressChannelOpeningFeePaid as polkadotIngressEgressChannelOpeningFeePaid131 } from './131/polkadotIngressEgress/channelOpeningFeePaid';
+import { polkadotIngressEgressChannelOpeningFeeSet as polkadotIngressEgressChannelOpeningFeeSet131 } from './131/polkadotIngressEgress/channelOpeningFeeSet';
+import { polkadotIngressEgressDepositBoosted as polkadotIngressEgressDepositBoosted141 } from './141/polkadotIngressEgress/depositBoosted';
+import { polkadotIngressEgressDepositBoosted as polkadotIngressEgressDepositBoosted150 } from './150/polkadotIngressEgress/depositBoosted';
+import { polkadotIngressEgressDepositBoosted as polkadotIngressEgressDepositBoosted160 } from './160/polkadotIngressEgress/depositBoosted';
+import { polkadotIngressEgressDepositFetchesScheduled as polkadotIngressEgressDepositFetchesScheduled100 } from './100/polkadotIngressEgress/depositFetchesScheduled';
+import { polkadotIngressEgressDepositFinalised as polkadotIngressEgressDepositFinalised141 } from './141/polkadotIngressEgress/depositFinalised';
+import { polkadotIngressEgressDepositFinalised as polkadotIngressEgressDepositFinalised150 } from './150/polkadotIngressEgress/depositFinalised';
+import { polkadotIngressEgressDepositFinalised as polkadotIngressEgressDepositFinalised160 } from './160/polkadotIngressEgress/depositFinalised';
+import { polkadotIngressEgressDepositIgnored as polkadotIngressEgressDepositIgnored100 } from './100/polkadotIngressEgress/depositIgnored';
+import { polkadotIngressEgressDepositIgnored as polkadotIngressEgressDepositIgnored120 } from './120/polkadotIngressEgress/depositIgnored';
+import { polkadotIngressEgressDepositIgnored as polkadotIngressEgressDepositIgnored150 } from './150/polkadotIngressEgress/depositIgnored';
+import { polkadotIngressEgressDepositReceived as polkadotIngressEgressDepositReceived100 } from './100/polkadotIngressEgress/depositReceived';
+import { polkadotIngressEgressDepositReceived as polkadotIngressEgressDepositReceived120 } from './120/polkadotIngressEgress/depositReceived';
+import { polkadotIngressEgressDepositWitnessRejected as polkadotIngressEgressDepositWitnessRejected100 } from './100/polkadotIngressEgress/depositWitnessRejected';
+import { polkadotIngressEgressDepositWitnessRejected as polkadotIngressEgressDepositWitnessRejected150 } from './150/polkadotIngressEgress/depositWitnessRejected';
+import { polkadotIngressEgressEgressScheduled as polkadotIngressEgressEgressScheduled100 } from './100/polkadotIngressEgress/egressScheduled';
+import { polkadotIngressEgressFailedForeignChainCallExpired as polkadotIngressEgressFailedForeignChainCallExpired111 } from './111/polkadotIngressEgress/failedForeignChainCallExpired';
+import { polkadotIngressEgressFailedForeignChainCallResigned as polkadotIngressEgressFailedForeignChainCallResigned111 } from './111/polkadotIngressEgress/failedForeignChainCallResigned';
+import { polkadotIngressEgressFailedToBuildAllBatchCall as polkadotIngressEgressFailedToBuildAllBatchCall131 } from './131/polkadotIngressEgress/failedToBuildAllBatchCall';
+import { polkadotIngressEgressInsufficientBoostLiquidity as polkadotIngressEgressInsufficientBoostLiquidity141 } from './141/polkadotIngressEgress/insufficientBoostLiquidity';
+import { polkadotIngressEgressMaxSwapRetryDurationSet as polkadotIngressEgressMaxSwapRetryDurationSet150 } from './150/polkadotIngressEgress/maxSwapRetryDurationSet';
+import { polkadotIngressEgressMinimumDepositSet as polkadotIngressEgressMinimumDepositSet100 } from './100/polkadotIngressEgress/minimumDepositSet';
+import { polkadotIngressEgressStoppedBoosting as polkadotIngressEgressStoppedBoosting141 } from './141/polkadotIngressEgress/stoppedBoosting';
+import { polkadotIngressEgressTransferFallbackRequested as polkadotIngressEgressTransferFallbackRequested111 } from './111/polkadotIngressEgress/transferFallbackRequested';
+import { polkadotIngressEgressUtxoConsolidation as polkadotIngressEgressUtxoConsolidation120 } from './120/polkadotIngressEgress/utxoConsolidation';
+import { polkadotIngressEgressVaultTransferFailed as polkadotIngressEgressVaultTransferFailed100 } from './100/polkadotIngressEgress/vaultTransferFailed';
+import { polkadotThresholdSignerCurrentKeyUnavailable as polkadotThresholdSignerCurrentKeyUnavailable100 } from './100/polkadotThresholdSigner/currentKeyUnavailable';
+import { polkadotThresholdSignerFailureReportProcessed as polkadotThresholdSignerFailureReportProcessed100 } from './100/polkadotThresholdSigner/failureReportProcessed';
+import { polkadotThresholdSignerKeygenFailure as polkadotThresholdSignerKeygenFailure131 } from './131/polkadotThresholdSigner/keygenFailure';
+import { polkadotThresholdSignerKeygenFailureReported as polkadotThresholdSignerKeygenFailureReported131 } from './131/polkadotThresholdSigner/keygenFailureReported';
+import { polkadotThresholdSignerKeygenRequest as polkadotThresholdSignerKeygenRequest131 } from './131/polkadotThresholdSigner/keygenRequest';
+import { polkadotThresholdSignerKeygenResponseTimeout as polkadotThresholdSignerKeygenResponseTimeout131 } from './131/polkadotThresholdSigner/keygenResponseTimeout';
+import { polkadotThresholdSignerKeygenResponseTimeoutUpdated as polkadotThresholdSignerKeygenResponseTimeoutUpdated131 } from './131/polkadotThresholdSigner/keygenResponseTimeoutUpdated';
+import { polkadotThresholdSignerKeygenSuccess as polkadotThresholdSignerKeygenSuccess131 } from './131/polkadotThresholdSigner/keygenSuccess';
+import { polkadotThresholdSignerKeygenSuccessReported as polkadotThresholdSignerKeygenSuccessReported131 } from './131/polkadotThresholdSigner/keygenSuccessReported';
+import { polkadotThresholdSignerKeygenVerificationFailure as polkadotThresholdSignerKeygenVerificationFailure131 } from './131/polkadotThresholdSigner/keygenVerificationFailure';
+import { polkadotThresholdSignerKeygenVerificationSuccess as polkadotThresholdSignerKeygenVerificationSuccess131 } from './131/polkadotThresholdSigner/keygenVerificationSuccess';
+import { polkadotThresholdSignerKeyHandoverFailure as polkadotThresholdSignerKeyHandoverFailure131 } from './131/polkadotThresholdSigner/keyHandoverFailure';
+import { polkadotThresholdSignerKeyHandoverFailureReported as polkadotThresholdSignerKeyHandoverFailureReported131 } from './131/polkadotThresholdSigner/keyHandoverFailureReported';
+import { polkadotThresholdSignerKeyHandoverRequest as polkadotThresholdSignerKeyHandoverRequest131 } from './131/polkadotThresholdSigner/keyHandoverRequest';
+import { polkadotThresholdSignerKeyHandoverResponseTimeout as polkadotThresholdSignerKeyHandoverResponseTimeout131 } from './131/polkadotThresholdSigner/keyHandoverResponseTimeout';
+import { polkadotThresholdSignerKeyHandoverSuccess as polkadotThresholdSignerKeyHandoverSuccess131 } from './131/polkadotThresholdSigner/keyHandoverSuccess';
+import { polkadotThresholdSignerKeyHandoverSuccessReported as polkadotThresholdSignerKeyHandoverSuccessReported131 } from './131/polkadotThresholdSigner/keyHandoverSuccessReported';
+import { polkadotThresholdSignerKeyHandoverVerificationFailure as polkadotThresholdSignerKeyHandoverVerificationFailure131 } from './131/polkadotThresholdSigner/keyHandoverVerificationFailure';
+import { polkadotThresholdSignerKeyHandoverVerificationSuccess as polkadotThresholdSignerKeyHandoverVerificationSuccess131 } from './131/polkadotThresholdSigner/keyHandoverVerificationSuccess';
+import { polkadotThresholdSignerKeyRotationCompleted as polkadotThresholdSignerKeyRotationCompleted131 } from './131/polkadotThresholdSigner/keyRotationCompleted';
+import { polkadotThresholdSignerNoKeyHandover as polkadotThresholdSignerNoKeyHandover131 } from './131/polkadotThresholdSigner/noKeyHandover';
+import { polkadotThresholdSignerRetryRequested as polkadotThresholdSignerRetryRequested100 } from './100/polkadotThresholdSigner/retryRequested';
+import { polkadotThresholdSignerSignersUnavailable as polkadotThresholdSignerSignersUnavailable100 } from './100/polkadotThresholdSigner/signersUnavailable';
+import { polkadotThresholdSignerThresholdDispatchComplete as polkadotThresholdSignerThresholdDispatchComplete100 } from './100/polkadotThresholdSigner/thresholdDispatchComplete';
+import { polkadotThresholdSignerThresholdSignatureFailed as polkadotThresholdSignerThresholdSignatureFailed100 } from './100/polkadotThresholdSigner/thresholdSignatureFailed';
+import { polkadotThresholdSignerThresholdSignatureRequest as polkadotThresholdSignerThresholdSignatureRequest100 } from './100/polkadotThresholdSigner/thresholdSignatureRequest';
+import { polkadotThresholdSignerThresholdSignatureResponseTimeoutUpdated as polkadotThresholdSignerThresholdSignatureResponseTimeoutUpdated100 } from './100/polkadotThresholdSigner/thresholdSignatureResponseTimeoutUpdated';
+import { polkadotThresholdSignerThresholdSignatureSuccess as polkadotThresholdSignerThresholdSignatureSuccess100 } from './100/polkadotThresholdSigner/thresholdSignatureSuccess';
+import { polkadotVaultAwaitingGovernanceActivation as polkadotVaultAwaitingGovernanceActivation100 } from './100/polkadotVault/awaitingGovernanceActivation';
+import { polkadotVaultChainInitialized as polkadotVaultChainInitialized141 } from './141/polkadotVault/chainInitialized';
+import { polkadotVaultKeygenFailure as polkadotVaultKeygenFailure100 } from './100/polkadotVault/keygenFailure';
+import { polkadotVaultKeygenFailureReported as polkadotVaultKeygenFailureReported100 } from './100/polkadotVault/keygenFailureReported';
+import { polkadotVaultKeygenRequest as polkadotVaultKeygenRequest100 } from './100/polkadotVault/keygenRequest';
+import { polkadotVaultKeygenResponseTimeout as polkadotVaultKeygenResponseTimeout100 } from './100/polkadotVault/keygenResponseTimeout';
+import { polkadotVaultKeygenResponseTimeoutUpdated as polkadotVaultKeygenResponseTimeoutUpdated100 } from './100/polkadotVault/keygenResponseTimeoutUpdated';
+import { polkadotVaultKeygenSuccess as polkadotVaultKeygenSuccess100 } from './100/polkadotVault/keygenSuccess';
+import { polkadotVaultKeygenSuccessReported as polkadotVaultKeygenSuccessReported100 } from './100/polkadotVault/keygenSuccessReported';
+import { polkadotVaultKeygenVerificationFailure as polkadotVaultKeygenVerificationFailure100 } from './100/polkadotVault/keygenVerificationFailure';
+import { polkadotVaultKeygenVerificationSuccess as polkadotVaultKeygenVerificationSuccess100 } from './100/polkadotVault/keygenVerificationSuccess';
+import { polkadotVaultKeyHandoverFailure as polkadotVaultKeyHandoverFailure100 } from './100/polkadotVault/keyHandoverFailure';
+import { polkadotVaultKeyHandoverFailureReported as polkadotVaultKeyHandoverFailureReported100 } from './100/polkadotVault/keyHandoverFailureReported';
+import { polkadotVaultKeyHandoverRequest as polkadotVaultKeyHandoverRequest100 } from './100/polkadotVault/keyHandoverRequest';
+import { polkadotVaultKeyHandoverResponseTimeout as polkadotVaultKeyHandoverResponseTimeout100 } from './100/polkadotVault/keyHandoverResponseTimeout';
+import { polkadotVaultKeyHandoverSuccess as polkadotVaultKeyHandoverSuccess100 } from './100/polkadotVault/keyHandoverSuccess';
+import { polkadotVaultKeyHandoverSuccessReported as polkadotVaultKeyHandoverSuccessReported100 } from './100/polkadotVault/keyHandoverSuccessReported';
+import { polkadotVaultKeyHandoverVerificationFailure as polkadotVaultKeyHandoverVerificationFailure100 } from './100/polkadotVault/keyHandoverVerificationFailure';
+import { polkadotVaultKeyHandoverVerificationSuccess as polkadotVaultKeyHandoverVerificationSuccess100 } from './100/polkadotVault/keyHandoverVerificationSuccess';
+import { polkadotVaultNoKeyHandover as polkadotVaultNoKeyHandover100 } from './100/polkadotVault/noKeyHandover';
+import { polkadotVaultVaultActivationCompleted as polkadotVaultVaultActivationCompleted131 } from './131/polkadotVault/vaultActivationCompleted';
+import { polkadotVaultVaultRotatedExternally as polkadotVaultVaultRotatedExternally100 } from './100/polkadotVault/vaultRotatedExternally';
+import { polkadotVaultVaultRotationAborted as polkadotVaultVaultRotationAborted100 } from './100/polkadotVault/vaultRotationAborted';
+import { polkadotVaultVaultRotationCompleted as polkadotVaultVaultRotationCompleted100 } from './100/polkadotVault/vaultRotationCompleted';
+import { reputationAccrualRateUpdated as reputationAccrualRateUpdated100 } from './100/reputation/accrualRateUpdated';
+import { reputationMissedHeartbeatPenaltyUpdated as reputationMissedHeartbeatPenaltyUpdated100 } from './100/reputation/missedHeartbeatPenaltyUpdated';
+import { reputationOffencePenalty as reputationOffencePenalty100 } from './100/reputation/offencePenalty';
+import { reputationOffencePenalty as reputationOffencePenalty131 } from './131/reputation/offencePenalty';
+import { reputationPenaltyUpdated as reputationPenaltyUpdated100 } from './100/reputation/penaltyUpdated';
+import { reputationPenaltyUpdated as reputationPenaltyUpdated131 } from './131/reputation/penaltyUpdated';
+import { sessionNewSession as sessionNewSession100 } from './100/session/newSession';
+import { solanaBroadcasterBroadcastAborted as solanaBroadcasterBroadcastAborted150 } from './150/solanaBroadcaster/broadcastAborted';
+import { solanaBroadcasterBroadcastCallbackExecuted as solanaBroadcasterBroadcastCallbackExecuted150 } from './150/solanaBroadcaster/broadcastCallbackExecuted';
+import { solanaBroadcasterBroadcastRetryScheduled as solanaBroadcasterBroadcastRetryScheduled150 } from './150/solanaBroadcaster/broadcastRetryScheduled';
+import { solanaBroadcasterBroadcastSuccess as solanaBroadcasterBroadcastSuccess150 } from './150/solanaBroadcaster/broadcastSuccess';
+import { solanaBroadcasterBroadcastSuccess as solanaBroadcasterBroadcastSuccess160 } from './160/solanaBroadcaster/broadcastSuccess';
+import { solanaBroadcasterBroadcastTimeout as solanaBroadcasterBroadcastTimeout150 } from './150/solanaBroadcaster/broadcastTimeout';
+import { solanaBroadcasterCallResigned as solanaBroadcasterCallResigned150 } from './150/solanaBroadcaster/callResigned';
+import { solanaBroadcasterThresholdSignatureInvalid as solanaBroadcasterThresholdSignatureInvalid150 } from './150/solanaBroadcaster/thresholdSignatureInvalid';
+import { solanaBroadcasterTransactionBroadcastRequest as solanaBroadcasterTransactionBroadcastRequest150 } from './150/solanaBroadcaster/transactionBroadcastRequest';
+import { solanaBroadcasterTransactionBroadcastRequest as solanaBroadcasterTransactionBroadcastRequest160 } from './160/solanaBroadcaster/transactionBroadcastRequest';
+import { solanaBroadcasterTransactionFeeDeficitRecorded as solanaBroadcasterTransactionFeeDeficitRecorded150 } from './150/solanaBroadcaster/transactionFeeDeficitRecorded';
+import { solanaBroadcasterTransactionFeeDeficitRecorded as solanaBroadcasterTransactionFeeDeficitRecorded160 } from './160/solanaBroadcaster/transactionFeeDeficitRecorded';
+import { solanaBroadcasterTransactionFeeDeficitRefused as solanaBroadcasterTransactionFeeDeficitRefused150 } from './150/solanaBroadcaster/transactionFeeDeficitRefused';
+import { solanaChainTrackingChainStateUpdated as solanaChainTrackingChainStateUpdated150 } from './150/solanaChainTracking/chainStateUpdated';
+import { solanaChainTrackingChainStateUpdated as solanaChainTrackingChainStateUpdated160 } from './160/solanaChainTracking/chainStateUpdated';
+import { solanaChainTrackingFeeMultiplierUpdated as solanaChainTrackingFeeMultiplierUpdated150 } from './150/solanaChainTracking/feeMultiplierUpdated';
+import { solanaElectionsAllVotesCleared as solanaElectionsAllVotesCleared160 } from './160/solanaElections/allVotesCleared';
+import { solanaElectionsAllVotesNotCleared as solanaElectionsAllVotesNotCleared160 } from './160/solanaElections/allVotesNotCleared';
+import { solanaElectionsCorruptStorage as solanaElectionsCorruptStorage160 } from './160/solanaElections/corruptStorage';
+import { solanaElectionsUninitialized as solanaElectionsUninitialized160 } from './160/solanaElections/uninitialized';
+import { solanaIngressEgressAssetEgressStatusChanged as solanaIngressEgressAssetEgressStatusChanged150 } from './150/solanaIngressEgress/assetEgressStatusChanged';
+import { solanaIngressEgressAssetEgressStatusChanged as solanaIngressEgressAssetEgressStatusChanged160 } from './160/solanaIngressEgress/assetEgressStatusChanged';
+import { solanaIngressEgressBatchBroadcastRequested as solanaIngressEgressBatchBroadcastRequested150 } from './150/solanaIngressEgress/batchBroadcastRequested';
+import { solanaIngressEgressBoostFundsAdded as solanaIngressEgressBoostFundsAdded150 } from './150/solanaIngressEgress/boostFundsAdded';
+import { solanaIngressEgressBoostFundsAdded as solanaIngressEgressBoostFundsAdded160 } from './160/solanaIngressEgress/boostFundsAdded';
+import { solanaIngressEgressBoostPoolCreated as solanaIngressEgressBoostPoolCreated150 } from './150/solanaIngressEgress/boostPoolCreated';
+import { solanaIngressEgressBoostPoolCreated as solanaIngressEgressBoostPoolCreated160 } from './160/solanaIngressEgress/boostPoolCreated';
+import { solanaIngressEgressCcmBroadcastFailed as solanaIngressEgressCcmBroadcastFailed150 } from './150/solanaIngressEgress/ccmBroadcastFailed';
+import { solanaIngressEgressCcmBroadcastRequested as solanaIngressEgressCcmBroadcastRequested150 } from './150/solanaIngressEgress/ccmBroadcastRequested';
+import { solanaIngressEgressCcmEgressInvalid as solanaIngressEgressCcmEgressInvalid150 } from './150/solanaIngressEgress/ccmEgressInvalid';
+import { solanaIngressEgressCcmEgressInvalid as solanaIngressEgressCcmEgressInvalid160 } from './160/solanaIngressEgress/ccmEgressInvalid';
+import { solanaIngressEgressChannelOpeningFeePaid as solanaIngressEgressChannelOpeningFeePaid150 } from './150/solanaIngressEgress/channelOpeningFeePaid';
+import { solanaIngressEgressChannelOpeningFeeSet as solanaIngressEgressChannelOpeningFeeSet150 } from './150/solanaIngressEgress/channelOpeningFeeSet';
+import { solanaIngressEgressDepositBoosted as solanaIngressEgressDepositBoosted150 } from './150/solanaIngressEgress/depositBoosted';
+import { solanaIngressEgressDepositBoosted as solanaIngressEgressDepositBoosted160 } from './160/solanaIngressEgress/depositBoosted';
+import { solanaIngressEgressDepositFetchesScheduled as solanaIngressEgressDepositFetchesScheduled150 } from './150/solanaIngressEgress/depositFetchesScheduled';
+import { solanaIngressEgressDepositFetchesScheduled as solanaIngressEgressDepositFetchesScheduled160 } from './160/solanaIngressEgress/depositFetchesScheduled';
+import { solanaIngressEgressDepositFinalised as solanaIngressEgressDepositFinalised150 } from './150/solanaIngressEgress/depositFinalised';
+import { solanaIngressEgressDepositFinalised as solanaIngressEgressDepositFinalised160 } from './160/solanaIngressEgress/depositFinalised';
+import { solanaIngressEgressDepositIgnored as solanaIngressEgressDepositIgnored150 } from './150/solanaIngressEgress/depositIgnored';
+import { solanaIngressEgressDepositIgnored as solanaIngressEgressDepositIgnored160 } from './160/solanaIngressEgress/depositIgnored';
+import { solanaIngressEgressDepositWitnessRejected as solanaIngressEgressDepositWitnessRejected150 } from './150/solanaIngressEgress/depositWitnessRejected';
+import { solanaIngressEgressDepositWitnessRejected as solanaIngressEgressDepositWitnessRejected160 } from './160/solanaIngressEgress/depositWitnessRejected';
+import { solanaIngressEgressFailedForeignChainCallExpired as solanaIngressEgressFailedForeignChainCallExpired150 } from './150/solanaIngressEgress/failedForeignChainCallExpired';
+import { solanaIngressEgressFailedForeignChainCallResigned as solanaIngressEgressFailedForeignChainCallResigned150 } from './150/solanaIngressEgress/failedForeignChainCallResigned';
+import { solanaIngressEgressFailedToBuildAllBatchCall as solanaIngressEgressFailedToBuildAllBatchCall150 } from './150/solanaIngressEgress/failedToBuildAllBatchCall';
+import { solanaIngressEgressInsufficientBoostLiquidity as solanaIngressEgressInsufficientBoostLiquidity150 } from './150/solanaIngressEgress/insufficientBoostLiquidity';
+import { solanaIngressEgressInsufficientBoostLiquidity as solanaIngressEgressInsufficientBoostLiquidity160 } from './160/solanaIngressEgress/insufficientBoostLiquidity';
+import { solanaIngressEgressMaxSwapRetryDurationSet as solanaIngressEgressMaxSwapRetryDurationSet150 } from './150/solanaIngressEgress/maxSwapRetryDurationSet';
+import { solanaIngressEgressMinimumDepositSet as solanaIngressEgressMinimumDepositSet150 } from './150/solanaIngressEgress/minimumDepositSet';
+import { solanaIngressEgressMinimumDepositSet as solanaIngressEgressMinimumDepositSet160 } from './160/solanaIngressEgress/minimumDepositSet';
+import { solanaIngressEgressStoppedBoosting as solanaIngressEgressStoppedBoosting150 } from './150/solanaIngressEgress/stoppedBoosting';
+import { solanaIngressEgressStoppedBoosting as solanaIngressEgressStoppedBoosting160 } from './160/solanaIngressEgress/stoppedBoosting';
+import { solanaIngressEgressTransferFallbackRequested as solanaIngressEgressTransferFallbackRequested150 } from './150/solanaIngressEgress/transferFallbackRequested';
+import { solanaIngressEgressTransferFallbackRequested as solanaIngressEgressTransferFallbackRequested160 } from './160/solanaIngressEgress/transferFallbackRequested';
+import { solanaIngressEgressUtxoConsolidation as solanaIngressEgressUtxoConsolidation150 } from './150/solanaIngressEgress/utxoConsolidation';
+import { solanaThresholdSignerFailureReportProcessed as solanaThresholdSignerFailureReportProcessed150 } from './150/solanaThresholdSigner/failureReportProcessed';
+import { solanaThresholdSignerKeygenFailure as solanaThresholdSignerKeygenFailure150 } from './150/solanaThresholdSigner/keygenFailure';
+import { solanaThresholdSignerKeygenFailureReported as solanaThresholdSignerKeygenFailureReported150 } from './150/solanaThresholdSigner/keygenFailureReported';
+import { solanaThresholdSignerKeygenRequest as solanaThresholdSignerKeygenRequest150 } from './150/solanaThresholdSigner/keygenRequest';
+import { solanaThresholdSignerKeygenResponseTimeout as solanaThresholdSignerKeygenResponseTimeout150 } from './150/solanaThresholdSigner/keygenResponseTimeout';
+import { solanaThresholdSignerKeygenResponseTimeoutUpdated as solanaThresholdSignerKeygenResponseTimeoutUpdated150 } from './150/solanaThresholdSigner/keygenResponseTimeoutUpdated';
+import { solanaThresholdSignerKeygenSuccess as solanaThresholdSignerKeygenSuccess150 } from './150/solanaThresholdSigner/keygenSuccess';
+import { solanaThresholdSignerKeygenSuccessReported as solanaThresholdSignerKeygenSuccessReported150 } from './150/solanaThresholdSigner/keygenSuccessReported';
+import { solanaThresholdSignerKeygenVerificationFailure as solanaThresholdSignerKeygenVerificationFailure150 } from './150/solanaThresholdSigner/keygenVerificationFailure';
+import { solanaThresholdSignerKeygenVerificationSuccess as solanaThresholdSignerKeygenVerificationSuccess150 } from './150/solanaThresholdSigner/keygenVerificationSuccess';
+import { solanaThresholdSignerKeyHandoverFailure as solanaThresholdSignerKeyHandoverFailure150 } from './150/solanaThresholdSigner/keyHandoverFailure';
+import { solanaThresholdSignerKeyHandoverFailureReported as solanaThresholdSignerKeyHandoverFailureReported150 } from './150/solanaThresholdSigner/keyHandoverFailureReported';
+import { solanaThresholdSignerKeyHandoverRequest as solanaThresholdSignerKeyHandoverRequest150 } from './150/solanaThresholdSigner/keyHandoverRequest';
+import { solanaThresholdSignerKeyHandoverResponseTimeout as solanaThresholdSignerKeyHandoverResponseTimeout150 } from './150/solanaThresholdSigner/keyHandoverResponseTimeout';
+import { solanaThresholdSignerKeyHandoverSuccess as solanaThresholdSignerKeyHandoverSuccess150 } from './150/solanaThresholdSigner/keyHandoverSuccess';
+import { solanaThresholdSignerKeyHandoverSuccessReported as solanaThresholdSignerKeyHandoverSuccessReported150 } from './150/solanaThresholdSigner/keyHandoverSuccessReported';
+import { solanaThresholdSignerKeyHandoverVerificationFailure as solanaThresholdSignerKeyHandoverVerificationFailure150 } from './150/solanaThresholdSigner/keyHandoverVerificationFailure';
+import { solanaThresholdSignerKeyHandoverVerificationSuccess as solanaThresholdSignerKeyHandoverVerificationSuccess150 } from './150/solanaThresholdSigner/keyHandoverVerificationSuccess';
+import { solanaThresholdSignerKeyRotationCompleted as solanaThresholdSignerKeyRotationCompleted150 } from './150/solanaThresholdSigner/keyRotationCompleted';
+import { solanaThresholdSignerNoKeyHandover as solanaThresholdSignerNoKeyHandover150 } from './150/solanaThresholdSigner/noKeyHandover';
+import { solanaThresholdSignerRetryRequested as solanaThresholdSignerRetryRequested150 } from './150/solanaThresholdSigner/retryRequested';
+import { solanaThresholdSignerSignersUnavailable as solanaThresholdSignerSignersUnavailable150 } from './150/solanaThresholdSigner/signersUnavailable';
+import { solanaThresholdSignerThresholdDispatchComplete as solanaThresholdSignerThresholdDispatchComplete150 } from './150/solanaThresholdSigner/thresholdDispatchComplete';
+import { solanaThresholdSignerThresholdSignatureFailed as solanaThresholdSignerThresholdSignatureFailed150 } from './150/solanaThresholdSigner/thresholdSignatureFailed';
+import { solanaThresholdSignerThresholdSignatureRequest as solanaThresholdSignerThresholdSignatureRequest150 } from './150/solanaThresholdSigner/thresholdSignatureRequest';
+import { solanaThresholdSignerThresholdSignatureRequest as solanaThresholdSignerThresholdSignatureRequest160 } from './160/solanaThresholdSigner/thresholdSignatureRequest';
+import { solanaThresholdSignerThresholdSignatureResponseTimeoutUpdated as solanaThresholdSignerThresholdSignatureResponseTimeoutUpdated150 } from './150/solanaThresholdSigner/thresholdSignatureResponseTimeoutUpdated';
+import { solanaThresholdSignerThresholdSignatureSuccess as solanaThresholdSignerThresholdSignatureSuccess150 } from './150/solanaThresholdSigner/thresholdSignatureSuccess';
+import { solanaVaultAwaitingGovernanceActivation as solanaVaultAwaitingGovernanceActivation150 } from './150/solanaVault/awaitingGovernanceActivation';
+import { solanaVaultChainInitialized as solanaVaultChainInitialized150 } from './150/solanaVault/chainInitialized';
+import { solanaVaultVaultActivationCompleted as solanaVaultVaultActivationCompleted150 } from './150/solanaVault/vaultActivationCompleted';
+import { solanaVaultVaultRotatedExternally as solanaVaultVaultRotatedExternally150 } from './150/solanaVault/vaultRotatedExternally';
+import { swappingBatchSwapFailed as swappingBatchSwapFailed100 } from './100/swapping/batchSwapFailed';
+import { swappingBatchSwapFailed as swappingBatchSwapFailed131 } from './131/swapping/batchSwapFailed';
+import { swappingBatchSwapFailed as swappingBatchSwapFailed141 } from './141/swapping/batchSwapFailed';
+import { swappingBatchSwapFailed as swappingBatchSwapFailed150 } from './150/swapping/batchSwapFailed';
+import { swappingBatchSwapFailed as swappingBatchSwapFailed160 } from './160/swapping/batchSwapFailed';
+import { swappingBuyIntervalSet as swappingBuyIntervalSet150 } from './150/swapping/buyIntervalSet';
+import { swappingCcmDepositReceived as swappingCcmDepositReceived100 } from './100/swapping/ccmDepositReceived';
+import { swappingCcmDepositReceived as swappingCcmDepositReceived141 } from './141/swapping/ccmDepositReceived';
+import { swappingCcmDepositReceived as swappingCcmDepositReceived150 } from './150/swapping/ccmDepositReceived';
+import { swappingCcmEgressScheduled as swappingCcmEgressScheduled100 } from './100/swapping/ccmEgressScheduled';
+import { swappingCcmEgressScheduled as swappingCcmEgressScheduled141 } from './141/swapping/ccmEgressScheduled';
+import { swappingCcmEgressScheduled as swappingCcmEgressScheduled150 } from './150/swapping/ccmEgressScheduled';
+import { swappingCcmFailed as swappingCcmFailed100 } from './100/swapping/ccmFailed';
+import { swappingCcmFailed as swappingCcmFailed120 } from './120/swapping/ccmFailed';
+import { swappingCcmFailed as swappingCcmFailed131 } from './131/swapping/ccmFailed';
+import { swappingCcmFailed as swappingCcmFailed141 } from './141/swapping/ccmFailed';
+import { swappingCcmFailed as swappingCcmFailed150 } from './150/swapping/ccmFailed';
+import { swappingCcmFailed as swappingCcmFailed160 } from './160/swapping/ccmFailed';
+import { swappingMaximumSwapAmountSet as swappingMaximumSwapAmountSet102 } from './102/swapping/maximumSwapAmountSet';
+import { swappingMaximumSwapAmountSet as swappingMaximumSwapAmountSet131 } from './131/swapping/maximumSwapAmountSet';
+import { swappingMaximumSwapAmountSet as swappingMaximumSwapAmountSet141 } from './141/swapping/maximumSwapAmountSet';
+import { swappingMaximumSwapAmountSet as swappingMaximumSwapAmountSet150 } from './150/swapping/maximumSwapAmountSet';
+import { swappingMaximumSwapAmountSet as swappingMaximumSwapAmountSet160 } from './160/swapping/maximumSwapAmountSet';
+import { swappingMaxSwapRequestDurationSet as swappingMaxSwapRequestDurationSet160 } from './160/swapping/maxSwapRequestDurationSet';
+import { swappingMaxSwapRetryDurationSet as swappingMaxSwapRetryDurationSet160 } from './160/swapping/maxSwapRetryDurationSet';
+import { swappingMinimumSwapAmountSet as swappingMinimumSwapAmountSet100 } from './100/swapping/minimumSwapAmountSet';
+import { swappingNetworkFeeTaken as swappingNetworkFeeTaken150 } from './150/swapping/networkFeeTaken';
+import { swappingRefundEgressIgnored as swappingRefundEgressIgnored150 } from './150/swapping/refundEgressIgnored';
+import { swappingRefundEgressIgnored as swappingRefundEgressIgnored160 } from './160/swapping/refundEgressIgnored';
+import { swappingRefundEgressScheduled as swappingRefundEgressScheduled150 } from './150/swapping/refundEgressScheduled';
+import { swappingRefundEgressScheduled as swappingRefundEgressScheduled160 } from './160/swapping/refundEgressScheduled';
+import { swappingSwapAmountConfiscated as swappingSwapAmountConfiscated102 } from './102/swapping/swapAmountConfiscated';
+import { swappingSwapAmountConfiscated as swappingSwapAmountConfiscated131 } from './131/swapping/swapAmountConfiscated';
+import { swappingSwapAmountConfiscated as swappingSwapAmountConfiscated141 } from './141/swapping/swapAmountConfiscated';
+import { swappingSwapAmountConfiscated as swappingSwapAmountConfiscated150 } from './150/swapping/swapAmountConfiscated';
+import { swappingSwapAmountConfiscated as swappingSwapAmountConfiscated160 } from './160/swapping/swapAmountConfiscated';
+import { swappingSwapAmountTooLow as swappingSwapAmountTooLow100 } from './100/swapping/swapAmountTooLow';
+import { swappingSwapDepositAddressReady as swappingSwapDepositAddressReady100 } from './100/swapping/swapDepositAddressReady';
+import { swappingSwapDepositAddressReady as swappingSwapDepositAddressReady131 } from './131/swapping/swapDepositAddressReady';
+import { swappingSwapDepositAddressReady as swappingSwapDepositAddressReady141 } from './141/swapping/swapDepositAddressReady';
+import { swappingSwapDepositAddressReady as swappingSwapDepositAddressReady150 } from './150/swapping/swapDepositAddressReady';
+import { swappingSwapDepositAddressReady as swappingSwapDepositAddressReady160 } from './160/swapping/swapDepositAddressReady';
+import { swappingSwapEgressIgnored as swappingSwapEgressIgnored120 } from './120/swapping/swapEgressIgnored';
+import { swappingSwapEgressIgnored as swappingSwapEgressIgnored131 } from './131/swapping/swapEgressIgnored';
+import { swappingSwapEgressIgnored as swappingSwapEgressIgnored141 } from './141/swapping/swapEgressIgnored';
+import { swappingSwapEgressIgnored as swappingSwapEgressIgnored150 } from './150/swapping/swapEgressIgnored';
+import { swappingSwapEgressIgnored as swappingSwapEgressIgnored160 } from './160/swapping/swapEgressIgnored';
+import { swappingSwapEgressScheduled as swappingSwapEgressScheduled100 } from './100/swapping/swapEgressScheduled';
+import { swappingSwapEgressScheduled as swappingSwapEgressScheduled120 } from './120/swapping/swapEgressScheduled';
+import { swappingSwapEgressScheduled as swappingSwapEgressScheduled131 } from './131/swapping/swapEgressScheduled';
+import { swappingSwapEgressScheduled as swappingSwapEgressScheduled141 } from './141/swapping/swapEgressScheduled';
+import { swappingSwapEgressScheduled as swappingSwapEgressScheduled150 } from './150/swapping/swapEgressScheduled';
+import { swappingSwapEgressScheduled as swappingSwapEgressScheduled160 } from './160/swapping/swapEgressScheduled';
+import { swappingSwapExecuted as swappingSwapExecuted100 } from './100/swapping/swapExecuted';
+import { swappingSwapExecuted as swappingSwapExecuted120 } from './120/swapping/swapExecuted';
+import { swappingSwapExecuted as swappingSwapExecuted131 } from './131/swapping/swapExecuted';
+import { swappingSwapExecuted as swappingSwapExecuted141 } from './141/swapping/swapExecuted';
+import { swappingSwapExecuted as swappingSwapExecuted150 } from './150/swapping/swapExecuted';
+import { swappingSwapExecuted as swappingSwapExecuted160 } from './160/swapping/swapExecuted';
+import { swappingSwapRequestCompleted as swappingSwapRequestCompleted160 } from './160/swapping/swapRequestCompleted';
+import { swappingSwapRequested as swappingSwapRequested160 } from './160/swapping/swapRequested';
+import { swappingSwapRescheduled as swappingSwapRescheduled150 } from './150/swapping/swapRescheduled';
+import { swappingSwapRetryDelaySet as swappingSwapRetryDelaySet150 } from './150/swapping/swapRetryDelaySet';
+import { swappingSwapScheduled as swappingSwapScheduled100 } from './100/swapping/swapScheduled';
+import { swappingSwapScheduled as swappingSwapScheduled131 } from './131/swapping/swapScheduled';
+import { swappingSwapScheduled as swappingSwapScheduled141 } from './141/swapping/swapScheduled';
+import { swappingSwapScheduled as swappingSwapScheduled150 } from './150/swapping/swapScheduled';
+import { swappingSwapScheduled as swappingSwapScheduled160 } from './160/swapping/swapScheduled';
+import { swappingWithdrawalRequested as swappingWithdrawalRequested100 } from './100/swapping/withdrawalRequested';
+import { swappingWithdrawalRequested as swappingWithdrawalRequested120 } from './120/swapping/withdrawalRequested';
+import { swappingWithdrawalRequested as swappingWithdrawalRequested131 } from './131/swapping/withdrawalRequested';
+import { swappingWithdrawalRequested as swappingWithdrawalRequested141 } from './141/swapping/withdrawalRequested';
+import { swappingWithdrawalRequested as swappingWithdrawalRequested150 } from './150/swapping/withdrawalRequested';
+import { swappingWithdrawalRequested as swappingWithdrawalRequested160 } from './160/swapping/withdrawalRequested';
+import { systemCodeUpdated as systemCodeUpdated100 } from './100/system/codeUpdated';
+import { systemExtrinsicFailed as systemExtrinsicFailed100 } from './100/system/extrinsicFailed';
+import { systemExtrinsicSuccess as systemExtrinsicSuccess100 } from './100/system/extrinsicSuccess';
+import { systemKilledAccount as systemKilledAccount100 } from './100/system/killedAccount';
+import { systemNewAccount as systemNewAccount100 } from './100/system/newAccount';
+import { systemRemarked as systemRemarked100 } from './100/system/remarked';
+import { systemUpgradeAuthorized as systemUpgradeAuthorized131 } from './131/system/upgradeAuthorized';
+import { tokenholderGovernanceGovKeyUpdatedHasFailed as tokenholderGovernanceGovKeyUpdatedHasFailed100 } from './100/tokenholderGovernance/govKeyUpdatedHasFailed';
+import { tokenholderGovernanceGovKeyUpdatedHasFailed as tokenholderGovernanceGovKeyUpdatedHasFailed141 } from './141/tokenholderGovernance/govKeyUpdatedHasFailed';
+import { tokenholderGovernanceGovKeyUpdatedHasFailed as tokenholderGovernanceGovKeyUpdatedHasFailed150 } from './150/tokenholderGovernance/govKeyUpdatedHasFailed';
+import { tokenholderGovernanceGovKeyUpdatedWasSuccessful as tokenholderGovernanceGovKeyUpdatedWasSuccessful100 } from './100/tokenholderGovernance/govKeyUpdatedWasSuccessful';
+import { tokenholderGovernanceGovKeyUpdatedWasSuccessful as tokenholderGovernanceGovKeyUpdatedWasSuccessful141 } from './141/tokenholderGovernance/govKeyUpdatedWasSuccessful';
+import { tokenholderGovernanceGovKeyUpdatedWasSuccessful as tokenholderGovernanceGovKeyUpdatedWasSuccessful150 } from './150/tokenholderGovernance/govKeyUpdatedWasSuccessful';
+import { tokenholderGovernanceProposalEnacted as tokenholderGovernanceProposalEnacted100 } from './100/tokenholderGovernance/proposalEnacted';
+import { tokenholderGovernanceProposalEnacted as tokenholderGovernanceProposalEnacted141 } from './141/tokenholderGovernance/proposalEnacted';
+import { tokenholderGovernanceProposalEnacted as tokenholderGovernanceProposalEnacted150 } from './150/tokenholderGovernance/proposalEnacted';
+import { tokenholderGovernanceProposalPassed as tokenholderGovernanceProposalPassed100 } from './100/tokenholderGovernance/proposalPassed';
+import { tokenholderGovernanceProposalPassed as tokenholderGovernanceProposalPassed141 } from './141/tokenholderGovernance/proposalPassed';
+import { tokenholderGovernanceProposalPassed as tokenholderGovernanceProposalPassed150 } from './150/tokenholderGovernance/proposalPassed';
+import { tokenholderGovernanceProposalRejected as tokenholderGovernanceProposalRejected100 } from './100/tokenholderGovernance/proposalRejected';
+import { tokenholderGovernanceProposalRejected as tokenholderGovernanceProposalRejected141 } from './141/tokenholderGovernance/proposalRejected';
+import { tokenholderGovernanceProposalRejected as tokenholderGovernanceProposalRejected150 } from './150/tokenholderGovernance/proposalRejected';
+import { tokenholderGovernanceProposalSubmitted as tokenholderGovernanceProposalSubmitted100 } from './100/tokenholderGovernance/proposalSubmitted';
+import { tokenholderGovernanceProposalSubmitted as tokenholderGovernanceProposalSubmitted141 } from './141/tokenholderGovernance/proposalSubmitted';
+import { tokenholderGovernanceProposalSubmitted as tokenholderGovernanceProposalSubmitted150 } from './150/tokenholderGovernance/proposalSubmitted';
+import { transactionPaymentTransactionFeePaid as transactionPaymentTransactionFeePaid100 } from './100/transactionPayment/transactionFeePaid';
+import { validatorAuctionCompleted as validatorAuctionCompleted100 } from './100/validator/auctionCompleted';
+import { validatorCFEVersionUpdated as validatorCFEVersionUpdated100 } from './100/validator/cFEVersionUpdated';
+import { validatorNewEpoch as validatorNewEpoch100 } from './100/validator/newEpoch';
+import { validatorPalletConfigUpdated as validatorPalletConfigUpdated100 } from './100/validator/palletConfigUpdated';
+import { validatorPalletConfigUpdated as validatorPalletConfigUpdated102 } from './102/validator/palletConfigUpdated';
+import { validatorPeerIdRegistered as validatorPeerIdRegistered100 } from './100/validator/peerIdRegistered';
+import { validatorPeerIdUnregistered as validatorPeerIdUnregistered100 } from './100/validator/peerIdUnregistered';
+import { validatorRotationAborted as validatorRotationAborted100 } from './100/validator/rotationAborted';
+import { validatorRotationPhaseUpdated as validatorRotationPhaseUpdated100 } from './100/validator/rotationPhaseUpdated';
+import { validatorRotationPhaseUpdated as validatorRotationPhaseUpdated141 } from './141/validator/rotationPhaseUpdated';
+import { validatorStartedBidding as validatorStartedBidding141 } from './141/validator/startedBidding';
+import { validatorStoppedBidding as validatorStoppedBidding141 } from './141/validator/stoppedBidding';
+import { validatorVanityNameSet as validatorVanityNameSet100 } from './100/validator/vanityNameSet';
+import { witnesserCallDispatched as witnesserCallDispatched141 } from './141/witnesser/callDispatched';
+import { witnesserPrewitnessed as witnesserPrewitnessed100 } from './100/witnesser/prewitnessed';
+import { witnesserPrewitnessExecutionFailed as witnesserPrewitnessExecutionFailed131 } from './131/witnesser/prewitnessExecutionFailed';
+import { witnesserReportedWitnessingFailures as witnesserReportedWitnessingFailures141 } from './141/witnesser/reportedWitnessingFailures';
+import { witnesserWitnessExecutionFailed as witnesserWitnessExecutionFailed100 } from './100/witnesser/witnessExecutionFailed';
+
+export const eventParsers = {
+  'AccountRoles.AccountRoleDeregistered': { 141: accountRolesAccountRoleDeregistered141 },
+  'AccountRoles.AccountRoleRegistered': {
+    100: accountRolesAccountRoleRegistered100,
+    102: accountRolesAccountRoleRegistered102,
+  },
+  'AccountRoles.VanityNameSet': { 141: accountRolesVanityNameSet141 },
+  'ArbitrumBroadcaster.BroadcastAborted': { 141: arbitrumBroadcasterBroadcastAborted141 },
+  'ArbitrumBroadcaster.BroadcastCallbackExecuted': {
+    141: arbitrumBroadcasterBroadcastCallbackExecuted141,
+  },
+  'ArbitrumBroadcaster.BroadcastRetryScheduled': {
+    141: arbitrumBroadcasterBroadcastRetryScheduled141,
+  },
+  'ArbitrumBroadcaster.BroadcastSuccess': { 141: arbitrumBroadcasterBroadcastSuccess141 },
+  'ArbitrumBroadcaster.BroadcastTimeout': { 141: arbitrumBroadcasterBroadcastTimeout141 },
+  'ArbitrumBroadcaster.CallResigned': { 141: arbitrumBroadcasterCallResigned141 },
+  'ArbitrumBroadcaster.ThresholdSignatureInvalid': {
+    141: arbitrumBroadcasterThresholdSignatureInvalid141,
+  },
+  'ArbitrumBroadcaster.TransactionBroadcastRequest': {
+    141: arbitrumBroadcasterTransactionBroadcastRequest141,
+  },
+  'ArbitrumBroadcaster.TransactionFeeDeficitRecorded': {
+    141: arbitrumBroadcasterTransactionFeeDeficitRecorded141,
+  },
+  'ArbitrumBroadcaster.TransactionFeeDeficitRefused': {
+    141: arbitrumBroadcasterTransactionFeeDeficitRefused141,
+  },
+  'ArbitrumChainTracking.ChainStateUpdated': { 141: arbitrumChainTrackingChainStateUpdated141 },
+  'ArbitrumChainTracking.FeeMultiplierUpdated': {
+    141: arbitrumChainTrackingFeeMultiplierUpdated141,
+  },
+  'ArbitrumIngressEgress.AssetEgressStatusChanged': {
+    141: arbitrumIngressEgressAssetEgressStatusChanged141,
+  },
+  'ArbitrumIngressEgress.BatchBroadcastRequested': {
+    141: arbitrumIngressEgressBatchBroadcastRequested141,
+    150: arbitrumIngressEgressBatchBroadcastRequested150,
+  },
+  'ArbitrumIngressEgress.BoostFundsAdded': { 141: arbitrumIngressEgressBoostFundsAdded141 },
+  'ArbitrumIngressEgress.BoostPoolCreated': { 141: arbitrumIngressEgressBoostPoolCreated141 },
+  'ArbitrumIngressEgress.CcmBroadcastFailed': { 141: arbitrumIngressEgressCcmBroadcastFailed141 },
+  'ArbitrumIngressEgress.CcmBroadcastRequested': {
+    141: arbitrumIngressEgressCcmBroadcastRequested141,
+    150: arbitrumIngressEgressCcmBroadcastRequested150,
+  },
+  'ArbitrumIngressEgress.CcmEgressInvalid': {
+    141: arbitrumIngressEgressCcmEgressInvalid141,
+    150: arbitrumIngressEgressCcmEgressInvalid150,
+    160: arbitrumIngressEgressCcmEgressInvalid160,
+  },
+  'ArbitrumIngressEgress.ChannelOpeningFeePaid': {
+    141: arbitrumIngressEgressChannelOpeningFeePaid141,
+  },
+  'ArbitrumIngressEgress.ChannelOpeningFeeSet': {
+    141: arbitrumIngressEgressChannelOpeningFeeSet141,
+  },
+  'ArbitrumIngressEgress.DepositBoosted': {
+    141: arbitrumIngressEgressDepositBoosted141,
+    150: arbitrumIngressEgressDepositBoosted150,
+    160: arbitrumIngressEgressDepositBoosted160,
+  },
+  'ArbitrumIngressEgress.DepositFetchesScheduled': {
+    141: arbitrumIngressEgressDepositFetchesScheduled141,
+  },
+  'ArbitrumIngressEgress.DepositFinalised': {
+    141: arbitrumIngressEgressDepositFinalised141,
+    150: arbitrumIngressEgressDepositFinalised150,
+    160: arbitrumIngressEgressDepositFinalised160,
+  },
+  'ArbitrumIngressEgress.DepositIgnored': {
+    141: arbitrumIngressEgressDepositIgnored141,
+    150: arbitrumIngressEgressDepositIgnored150,
+  },
+  'ArbitrumIngressEgress.DepositWitnessRejected': {
+    141: arbitrumIngressEgressDepositWitnessRejected141,
+    150: arbitrumIngressEgressDepositWitnessRejected150,
+  },
+  'ArbitrumIngressEgress.FailedForeignChainCallExpired': {
+    141: arbitrumIngressEgressFailedForeignChainCallExpired141,
+  },
+  'ArbitrumIngressEgress.FailedForeignChainCallResigned': {
+    141: arbitrumIngressEgressFailedForeignChainCallResigned141,
+  },
+  'ArbitrumIngressEgress.FailedToBuildAllBatchCall': {
+    141: arbitrumIngressEgressFailedToBuildAllBatchCall141,
+  },
+  'ArbitrumIngressEgress.InsufficientBoostLiquidity': {
+    141: arbitrumIngressEgressInsufficientBoostLiquidity141,
+  },
+  'ArbitrumIngressEgress.MaxSwapRetryDurationSet': {
+    150: arbitrumIngressEgressMaxSwapRetryDurationSet150,
+  },
+  'ArbitrumIngressEgress.MinimumDepositSet': { 141: arbitrumIngressEgressMinimumDepositSet141 },
+  'ArbitrumIngressEgress.StoppedBoosting': { 141: arbitrumIngressEgressStoppedBoosting141 },
+  'ArbitrumIngressEgress.TransferFallbackRequested': {
+    141: arbitrumIngressEgressTransferFallbackRequested141,
+  },
+  'ArbitrumIngressEgress.UtxoConsolidation': { 141: arbitrumIngressEgressUtxoConsolidation141 },
+  'ArbitrumVault.AwaitingGovernanceActivation': {
+    141: arbitrumVaultAwaitingGovernanceActivation141,
+  },
+  'ArbitrumVault.ChainInitialized': { 141: arbitrumVaultChainInitialized141 },
+  'ArbitrumVault.VaultActivationCompleted': { 141: arbitrumVaultVaultActivationCompleted141 },
+  'ArbitrumVault.VaultRotatedExternally': { 141: arbitrumVaultVaultRotatedExternally141 },
+  'AssetBalances.AccountCredited': { 160: assetBalancesAccountCredited160 },
+  'AssetBalances.AccountDebited': { 160: assetBalancesAccountDebited160 },
+  'AssetBalances.RefundScheduled': { 150: assetBalancesRefundScheduled150 },
+  'AssetBalances.RefundSkipped': { 150: assetBalancesRefundSkipped150 },
+  'AssetBalances.VaultDeficitDetected': { 150: assetBalancesVaultDeficitDetected150 },
+  'BitcoinBroadcaster.BroadcastAborted': { 100: bitcoinBroadcasterBroadcastAborted100 },
+  'BitcoinBroadcaster.BroadcastAttemptTimeout': {
+    100: bitcoinBroadcasterBroadcastAttemptTimeout100,
+  },
+  'BitcoinBroadcaster.BroadcastCallbackExecuted': {
+    100: bitcoinBroadcasterBroadcastCallbackExecuted100,
+  },
+  'BitcoinBroadcaster.BroadcastRetryScheduled': {
+    100: bitcoinBroadcasterBroadcastRetryScheduled100,
+    120: bitcoinBroadcasterBroadcastRetryScheduled120,
+  },
+  'BitcoinBroadcaster.BroadcastSuccess': {
+    100: bitcoinBroadcasterBroadcastSuccess100,
+    131: bitcoinBroadcasterBroadcastSuccess131,
+  },
+  'BitcoinBroadcaster.BroadcastTimeout': { 120: bitcoinBroadcasterBroadcastTimeout120 },
+  'BitcoinBroadcaster.CallResigned': { 111: bitcoinBroadcasterCallResigned111 },
+  'BitcoinBroadcaster.ThresholdSignatureInvalid': {
+    100: bitcoinBroadcasterThresholdSignatureInvalid100,
+    111: bitcoinBroadcasterThresholdSignatureInvalid111,
+    120: bitcoinBroadcasterThresholdSignatureInvalid120,
+  },
+  'BitcoinBroadcaster.TransactionBroadcastRequest': {
+    100: bitcoinBroadcasterTransactionBroadcastRequest100,
+    120: bitcoinBroadcasterTransactionBroadcastRequest120,
+    131: bitcoinBroadcasterTransactionBroadcastRequest131,
+  },
+  'BitcoinBroadcaster.TransactionFeeDeficitRecorded': {
+    100: bitcoinBroadcasterTransactionFeeDeficitRecorded100,
+  },
+  'BitcoinBroadcaster.TransactionFeeDeficitRefused': {
+    100: bitcoinBroadcasterTransactionFeeDeficitRefused100,
+  },
+  'BitcoinChainTracking.ChainStateUpdated': {
+    100: bitcoinChainTrackingChainStateUpdated100,
+    120: bitcoinChainTrackingChainStateUpdated120,
+  },
+  'BitcoinChainTracking.FeeMultiplierUpdated': { 131: bitcoinChainTrackingFeeMultiplierUpdated131 },
+  'BitcoinIngressEgress.AssetEgressStatusChanged': {
+    100: bitcoinIngressEgressAssetEgressStatusChanged100,
+  },
+  'BitcoinIngressEgress.BatchBroadcastRequested': {
+    100: bitcoinIngressEgressBatchBroadcastRequested100,
+    141: bitcoinIngressEgressBatchBroadcastRequested141,
+    150: bitcoinIngressEgressBatchBroadcastRequested150,
+  },
+  'BitcoinIngressEgress.BoostFundsAdded': { 141: bitcoinIngressEgressBoostFundsAdded141 },
+  'BitcoinIngressEgress.BoostPoolCreated': { 141: bitcoinIngressEgressBoostPoolCreated141 },
+  'BitcoinIngressEgress.CcmBroadcastFailed': { 111: bitcoinIngressEgressCcmBroadcastFailed111 },
+  'BitcoinIngressEgress.CcmBroadcastRequested': {
+    100: bitcoinIngressEgressCcmBroadcastRequested100,
+    141: bitcoinIngressEgressCcmBroadcastRequested141,
+    150: bitcoinIngressEgressCcmBroadcastRequested150,
+  },
+  'BitcoinIngressEgress.CcmEgressInvalid': {
+    100: bitcoinIngressEgressCcmEgressInvalid100,
+    141: bitcoinIngressEgressCcmEgressInvalid141,
+    150: bitcoinIngressEgressCcmEgressInvalid150,
+    160: bitcoinIngressEgressCcmEgressInvalid160,
+  },
+  'BitcoinIngressEgress.ChannelOpeningFeePaid': {
+    131: bitcoinIngressEgressChannelOpeningFeePaid131,
+  },
+  'BitcoinIngressEgress.ChannelOpeningFeeSet': { 131: bitcoinIngressEgressChannelOpeningFeeSet131 },
+  'BitcoinIngressEgress.DepositBoosted': {
+    141: bitcoinIngressEgressDepositBoosted141,
+    150: bitcoinIngressEgressDepositBoosted150,
+    160: bitcoinIngressEgressDepositBoosted160,
+  },
+  'BitcoinIngressEgress.DepositFetchesScheduled': {
+    100: bitcoinIngressEgressDepositFetchesScheduled100,
+  },
+  'BitcoinIngressEgress.DepositFinalised': {
+    141: bitcoinIngressEgressDepositFinalised141,
+    150: bitcoinIngressEgressDepositFinalised150,
+    160: bitcoinIngressEgressDepositFinalised160,
+  },
+  'BitcoinIngressEgress.DepositIgnored': {
+    100: bitcoinIngressEgressDepositIgnored100,
+    120: bitcoinIngressEgressDepositIgnored120,
+    131: bitcoinIngressEgressDepositIgnored131,
+  },
+  'BitcoinIngressEgress.DepositReceived': {
+    100: bitcoinIngressEgressDepositReceived100,
+    120: bitcoinIngressEgressDepositReceived120,
+    131: bitcoinIngressEgressDepositReceived131,
+  },
+  'BitcoinIngressEgress.DepositWitnessRejected': {
+    100: bitcoinIngressEgressDepositWitnessRejected100,
+    131: bitcoinIngressEgressDepositWitnessRejected131,
+  },
+  'BitcoinIngressEgress.EgressScheduled': { 100: bitcoinIngressEgressEgressScheduled100 },
+  'BitcoinIngressEgress.FailedForeignChainCallExpired': {
+    111: bitcoinIngressEgressFailedForeignChainCallExpired111,
+  },
+  'BitcoinIngressEgress.FailedForeignChainCallResigned': {
+    111: bitcoinIngressEgressFailedForeignChainCallResigned111,
+  },
+  'BitcoinIngressEgress.FailedToBuildAllBatchCall': {
+    131: bitcoinIngressEgressFailedToBuildAllBatchCall131,
+  },
+  'BitcoinIngressEgress.InsufficientBoostLiquidity': {
+    141: bitcoinIngressEgressInsufficientBoostLiquidity141,
+  },
+  'BitcoinIngressEgress.MaxSwapRetryDurationSet': {
+    150: bitcoinIngressEgressMaxSwapRetryDurationSet150,
+  },
+  'BitcoinIngressEgress.MinimumDepositSet': { 100: bitcoinIngressEgressMinimumDepositSet100 },
+  'BitcoinIngressEgress.StoppedBoosting': { 141: bitcoinIngressEgressStoppedBoosting141 },
+  'BitcoinIngressEgress.TransferFallbackRequested': {
+    111: bitcoinIngressEgressTransferFallbackRequested111,
+  },
+  'BitcoinIngressEgress.UtxoConsolidation': { 120: bitcoinIngressEgressUtxoConsolidation120 },
+  'BitcoinIngressEgress.VaultTransferFailed': { 100: bitcoinIngressEgressVaultTransferFailed100 },
+  'BitcoinThresholdSigner.CurrentKeyUnavailable': {
+    100: bitcoinThresholdSignerCurrentKeyUnavailable100,
+  },
+  'BitcoinThresholdSigner.FailureReportProcessed': {
+    100: bitcoinThresholdSignerFailureReportProcessed100,
+  },
+  'BitcoinThresholdSigner.KeygenFailure': { 131: bitcoinThresholdSignerKeygenFailure131 },
+  'BitcoinThresholdSigner.KeygenFailureReported': {
+    131: bitcoinThresholdSignerKeygenFailureReported131,
+  },
+  'BitcoinThresholdSigner.KeygenRequest': { 131: bitcoinThresholdSignerKeygenRequest131 },
+  'BitcoinThresholdSigner.KeygenResponseTimeout': {
+    131: bitcoinThresholdSignerKeygenResponseTimeout131,
+  },
+  'BitcoinThresholdSigner.KeygenResponseTimeoutUpdated': {
+    131: bitcoinThresholdSignerKeygenResponseTimeoutUpdated131,
+  },
+  'BitcoinThresholdSigner.KeygenSuccess': { 131: bitcoinThresholdSignerKeygenSuccess131 },
+  'BitcoinThresholdSigner.KeygenSuccessReported': {
+    131: bitcoinThresholdSignerKeygenSuccessReported131,
+  },
+  'BitcoinThresholdSigner.KeygenVerificationFailure': {
+    131: bitcoinThresholdSignerKeygenVerificationFailure131,
+  },
+  'BitcoinThresholdSigner.KeygenVerificationSuccess': {
+    131: bitcoinThresholdSignerKeygenVerificationSuccess131,
+  },
+  'BitcoinThresholdSigner.KeyHandoverFailure': { 131: bitcoinThresholdSignerKeyHandoverFailure131 },
+  'BitcoinThresholdSigner.KeyHandoverFailureReported': {
+    131: bitcoinThresholdSignerKeyHandoverFailureReported131,
+  },
+  'BitcoinThresholdSigner.KeyHandoverRequest': { 131: bitcoinThresholdSignerKeyHandoverRequest131 },
+  'BitcoinThresholdSigner.KeyHandoverResponseTimeout': {
+    131: bitcoinThresholdSignerKeyHandoverResponseTimeout131,
+  },
+  'BitcoinThresholdSigner.KeyHandoverSuccess': { 131: bitcoinThresholdSignerKeyHandoverSuccess131 },
+  'BitcoinThresholdSigner.KeyHandoverSuccessReported': {
+    131: bitcoinThresholdSignerKeyHandoverSuccessReported131,
+  },
+  'BitcoinThresholdSigner.KeyHandoverVerificationFailure': {
+    131: bitcoinThresholdSignerKeyHandoverVerificationFailure131,
+  },
+  'BitcoinThresholdSigner.KeyHandoverVerificationSuccess': {
+    131: bitcoinThresholdSignerKeyHandoverVerificationSuccess131,
+  },
+  'BitcoinThresholdSigner.KeyRotationCompleted': {
+    131: bitcoinThresholdSignerKeyRotationCompleted131,
+  },
+  'BitcoinThresholdSigner.NoKeyHandover': { 131: bitcoinThresholdSignerNoKeyHandover131 },
+  'BitcoinThresholdSigner.RetryRequested': { 100: bitcoinThresholdSignerRetryRequested100 },
+  'BitcoinThresholdSigner.SignersUnavailable': { 100: bitcoinThresholdSignerSignersUnavailable100 },
+  'BitcoinThresholdSigner.ThresholdDispatchComplete': {
+    100: bitcoinThresholdSignerThresholdDispatchComplete100,
+  },
+  'BitcoinThresholdSigner.ThresholdSignatureFailed': {
+    100: bitcoinThresholdSignerThresholdSignatureFailed100,
+  },
+  'BitcoinThresholdSigner.ThresholdSignatureRequest': {
+    100: bitcoinThresholdSignerThresholdSignatureRequest100,
+  },
+  'BitcoinThresholdSigner.ThresholdSignatureResponseTimeoutUpdated': {
+    100: bitcoinThresholdSignerThresholdSignatureResponseTimeoutUpdated100,
+  },
+  'BitcoinThresholdSigner.ThresholdSignatureSuccess': {
+    100: bitcoinThresholdSignerThresholdSignatureSuccess100,
+  },
+  'BitcoinVault.AwaitingGovernanceActivation': { 100: bitcoinVaultAwaitingGovernanceActivation100 },
+  'BitcoinVault.ChainInitialized': { 141: bitcoinVaultChainInitialized141 },
+  'BitcoinVault.KeygenFailure': { 100: bitcoinVaultKeygenFailure100 },
+  'BitcoinVault.KeygenFailureReported': { 100: bitcoinVaultKeygenFailureReported100 },
+  'BitcoinVault.KeygenRequest': { 100: bitcoinVaultKeygenRequest100 },
+  'BitcoinVault.KeygenResponseTimeout': { 100: bitcoinVaultKeygenResponseTimeout100 },
+  'BitcoinVault.KeygenResponseTimeoutUpdated': { 100: bitcoinVaultKeygenResponseTimeoutUpdated100 },
+  'BitcoinVault.KeygenSuccess': { 100: bitcoinVaultKeygenSuccess100 },
+  'BitcoinVault.KeygenSuccessReported': { 100: bitcoinVaultKeygenSuccessReported100 },
+  'BitcoinVault.KeygenVerificationFailure': { 100: bitcoinVaultKeygenVerificationFailure100 },
+  'BitcoinVault.KeygenVerificationSuccess': { 100: bitcoinVaultKeygenVerificationSuccess100 },
+  'BitcoinVault.KeyHandoverFailure': { 100: bitcoinVaultKeyHandoverFailure100 },
+  'BitcoinVault.KeyHandoverFailureReported': { 100: bitcoinVaultKeyHandoverFailureReported100 },
+  'BitcoinVault.KeyHandoverRequest': { 100: bitcoinVaultKeyHandoverRequest100 },
+  'BitcoinVault.KeyHandoverResponseTimeout': { 100: bitcoinVaultKeyHandoverResponseTimeout100 },
+  'BitcoinVault.KeyHandoverSuccess': { 100: bitcoinVaultKeyHandoverSuccess100 },
+  'BitcoinVault.KeyHandoverSuccessReported': { 100: bitcoinVaultKeyHandoverSuccessReported100 },
+  'BitcoinVault.KeyHandoverVerificationFailure': {
+    100: bitcoinVaultKeyHandoverVerificationFailure100,
+  },
+  'BitcoinVault.KeyHandoverVerificationSuccess': {
+    100: bitcoinVaultKeyHandoverVerificationSuccess100,
+  },
+  'BitcoinVault.NoKeyHandover': { 100: bitcoinVaultNoKeyHandover100 },
+  'BitcoinVault.VaultActivationCompleted': { 131: bitcoinVaultVaultActivationCompleted131 },
+  'BitcoinVault.VaultRotatedExternally': { 100: bitcoinVaultVaultRotatedExternally100 },
+  'BitcoinVault.VaultRotationAborted': { 100: bitcoinVaultVaultRotationAborted100 },
+  'BitcoinVault.VaultRotationCompleted': { 100: bitcoinVaultVaultRotationCompleted100 },
+  'Emissions.BackupNodeInflationEmissionsUpdated': {
+    100: emissionsBackupNodeInflationEmissionsUpdated100,
+  },
+  'Emissions.BackupRewardsDistributed': { 120: emissionsBackupRewardsDistributed120 },
+  'Emissions.CurrentAuthorityInflationEmissionsUpdated': {
+    100: emissionsCurrentAuthorityInflationEmissionsUpdated100,
+  },
+  'Emissions.FlipBurnSkipped': { 120: emissionsFlipBurnSkipped120 },
+  'Emissions.NetworkFeeBurned': {
+    120: emissionsNetworkFeeBurned120,
+    141: emissionsNetworkFeeBurned141,
+    150: emissionsNetworkFeeBurned150,
+  },
+  'Emissions.SupplyUpdateBroadcastRequested': { 100: emissionsSupplyUpdateBroadcastRequested100 },
+  'Emissions.SupplyUpdateIntervalUpdated': { 100: emissionsSupplyUpdateIntervalUpdated100 },
+  'Environment.AddedNewArbAsset': { 141: environmentAddedNewArbAsset141 },
+  'Environment.AddedNewEthAsset': {
+    100: environmentAddedNewEthAsset100,
+    131: environmentAddedNewEthAsset131,
+  },
+  'Environment.ArbitrumInitialized': { 141: environmentArbitrumInitialized141 },
+  'Environment.BitcoinBlockNumberSetForVault': { 100: environmentBitcoinBlockNumberSetForVault100 },
+  'Environment.DurableNonceSetForAccount': { 160: environmentDurableNonceSetForAccount160 },
+  'Environment.PolkadotVaultAccountSet': { 100: environmentPolkadotVaultAccountSet100 },
+  'Environment.RuntimeSafeModeUpdated': {
+    100: environmentRuntimeSafeModeUpdated100,
+    131: environmentRuntimeSafeModeUpdated131,
+    141: environmentRuntimeSafeModeUpdated141,
+    150: environmentRuntimeSafeModeUpdated150,
+    160: environmentRuntimeSafeModeUpdated160,
+  },
+  'Environment.SolanaInitialized': { 160: environmentSolanaInitialized160 },
+  'Environment.StaleUtxosDiscarded': { 141: environmentStaleUtxosDiscarded141 },
+  'Environment.UpdatedArbAsset': { 141: environmentUpdatedArbAsset141 },
+  'Environment.UpdatedEthAsset': {
+    100: environmentUpdatedEthAsset100,
+    131: environmentUpdatedEthAsset131,
+  },
+  'Environment.UtxoConsolidationParametersUpdated': {
+    120: environmentUtxoConsolidationParametersUpdated120,
+    141: environmentUtxoConsolidationParametersUpdated141,
+  },
+  'EthereumBroadcaster.BroadcastAborted': { 100: ethereumBroadcasterBroadcastAborted100 },
+  'EthereumBroadcaster.BroadcastAttemptTimeout': {
+    100: ethereumBroadcasterBroadcastAttemptTimeout100,
+  },
+  'EthereumBroadcaster.BroadcastCallbackExecuted': {
+    100: ethereumBroadcasterBroadcastCallbackExecuted100,
+  },
+  'EthereumBroadcaster.BroadcastRetryScheduled': {
+    100: ethereumBroadcasterBroadcastRetryScheduled100,
+    120: ethereumBroadcasterBroadcastRetryScheduled120,
+  },
+  'EthereumBroadcaster.BroadcastSuccess': {
+    100: ethereumBroadcasterBroadcastSuccess100,
+    131: ethereumBroadcasterBroadcastSuccess131,
+  },
+  'EthereumBroadcaster.BroadcastTimeout': { 120: ethereumBroadcasterBroadcastTimeout120 },
+  'EthereumBroadcaster.CallResigned': { 111: ethereumBroadcasterCallResigned111 },
+  'EthereumBroadcaster.ThresholdSignatureInvalid': {
+    100: ethereumBroadcasterThresholdSignatureInvalid100,
+    111: ethereumBroadcasterThresholdSignatureInvalid111,
+    120: ethereumBroadcasterThresholdSignatureInvalid120,
+  },
+  'EthereumBroadcaster.TransactionBroadcastRequest': {
+    100: ethereumBroadcasterTransactionBroadcastRequest100,
+    120: ethereumBroadcasterTransactionBroadcastRequest120,
+  },
+  'EthereumBroadcaster.TransactionFeeDeficitRecorded': {
+    100: ethereumBroadcasterTransactionFeeDeficitRecorded100,
+  },
+  'EthereumBroadcaster.TransactionFeeDeficitRefused': {
+    100: ethereumBroadcasterTransactionFeeDeficitRefused100,
+  },
+  'EthereumChainTracking.ChainStateUpdated': { 100: ethereumChainTrackingChainStateUpdated100 },
+  'EthereumChainTracking.FeeMultiplierUpdated': {
+    131: ethereumChainTrackingFeeMultiplierUpdated131,
+  },
+  'EthereumIngressEgress.AssetEgressStatusChanged': {
+    100: ethereumIngressEgressAssetEgressStatusChanged100,
+    131: ethereumIngressEgressAssetEgressStatusChanged131,
+  },
+  'EthereumIngressEgress.BatchBroadcastRequested': {
+    100: ethereumIngressEgressBatchBroadcastRequested100,
+    141: ethereumIngressEgressBatchBroadcastRequested141,
+    150: ethereumIngressEgressBatchBroadcastRequested150,
+  },
+  'EthereumIngressEgress.BoostFundsAdded': { 141: ethereumIngressEgressBoostFundsAdded141 },
+  'EthereumIngressEgress.BoostPoolCreated': { 141: ethereumIngressEgressBoostPoolCreated141 },
+  'EthereumIngressEgress.CcmBroadcastFailed': { 111: ethereumIngressEgressCcmBroadcastFailed111 },
+  'EthereumIngressEgress.CcmBroadcastRequested': {
+    100: ethereumIngressEgressCcmBroadcastRequested100,
+    141: ethereumIngressEgressCcmBroadcastRequested141,
+    150: ethereumIngressEgressCcmBroadcastRequested150,
+  },
+  'EthereumIngressEgress.CcmEgressInvalid': {
+    100: ethereumIngressEgressCcmEgressInvalid100,
+    141: ethereumIngressEgressCcmEgressInvalid141,
+    150: ethereumIngressEgressCcmEgressInvalid150,
+    160: ethereumIngressEgressCcmEgressInvalid160,
+  },
+  'EthereumIngressEgress.ChannelOpeningFeePaid': {
+    131: ethereumIngressEgressChannelOpeningFeePaid131,
+  },
+  'EthereumIngressEgress.ChannelOpeningFeeSet': {
+    131: ethereumIngressEgressChannelOpeningFeeSet131,
+  },
+  'EthereumIngressEgress.DepositBoosted': {
+    141: ethereumIngressEgressDepositBoosted141,
+    150: ethereumIngressEgressDepositBoosted150,
+    160: ethereumIngressEgressDepositBoosted160,
+  },
+  'EthereumIngressEgress.DepositFetchesScheduled': {
+    100: ethereumIngressEgressDepositFetchesScheduled100,
+    131: ethereumIngressEgressDepositFetchesScheduled131,
+  },
+  'EthereumIngressEgress.DepositFinalised': {
+    141: ethereumIngressEgressDepositFinalised141,
+    150: ethereumIngressEgressDepositFinalised150,
+    160: ethereumIngressEgressDepositFinalised160,
+  },
+  'EthereumIngressEgress.DepositIgnored': {
+    100: ethereumIngressEgressDepositIgnored100,
+    120: ethereumIngressEgressDepositIgnored120,
+    131: ethereumIngressEgressDepositIgnored131,
+    150: ethereumIngressEgressDepositIgnored150,
+  },
+  'EthereumIngressEgress.DepositReceived': {
+    100: ethereumIngressEgressDepositReceived100,
+    120: ethereumIngressEgressDepositReceived120,
+    131: ethereumIngressEgressDepositReceived131,
+  },
+  'EthereumIngressEgress.DepositWitnessRejected': {
+    100: ethereumIngressEgressDepositWitnessRejected100,
+    131: ethereumIngressEgressDepositWitnessRejected131,
+    150: ethereumIngressEgressDepositWitnessRejected150,
+  },
+  'EthereumIngressEgress.EgressScheduled': { 100: ethereumIngressEgressEgressScheduled100 },
+  'EthereumIngressEgress.FailedForeignChainCallExpired': {
+    111: ethereumIngressEgressFailedForeignChainCallExpired111,
+  },
+  'EthereumIngressEgress.FailedForeignChainCallResigned': {
+    111: ethereumIngressEgressFailedForeignChainCallResigned111,
+  },
+  'EthereumIngressEgress.FailedToBuildAllBatchCall': {
+    131: ethereumIngressEgressFailedToBuildAllBatchCall131,
+  },
+  'EthereumIngressEgress.InsufficientBoostLiquidity': {
+    141: ethereumIngressEgressInsufficientBoostLiquidity141,
+  },
+  'EthereumIngressEgress.MaxSwapRetryDurationSet': {
+    150: ethereumIngressEgressMaxSwapRetryDurationSet150,
+  },
+  'EthereumIngressEgress.MinimumDepositSet': {
+    100: ethereumIngressEgressMinimumDepositSet100,
+    131: ethereumIngressEgressMinimumDepositSet131,
+  },
+  'EthereumIngressEgress.StoppedBoosting': { 141: ethereumIngressEgressStoppedBoosting141 },
+  'EthereumIngressEgress.TransferFallbackRequested': {
+    111: ethereumIngressEgressTransferFallbackRequested111,
+    131: ethereumIngressEgressTransferFallbackRequested131,
+  },
+  'EthereumIngressEgress.UtxoConsolidation': { 120: ethereumIngressEgressUtxoConsolidation120 },
+  'EthereumIngressEgress.VaultTransferFailed': { 100: ethereumIngressEgressVaultTransferFailed100 },
+  'EthereumThresholdSigner.CurrentKeyUnavailable': {
+    100: ethereumThresholdSignerCurrentKeyUnavailable100,
+  },
+  'EthereumThresholdSigner.FailureReportProcessed': {
+    100: ethereumThresholdSignerFailureReportProcessed100,
+  },
+  'EthereumThresholdSigner.KeygenFailure': { 131: ethereumThresholdSignerKeygenFailure131 },
+  'EthereumThresholdSigner.KeygenFailureReported': {
+    131: ethereumThresholdSignerKeygenFailureReported131,
+  },
+  'EthereumThresholdSigner.KeygenRequest': { 131: ethereumThresholdSignerKeygenRequest131 },
+  'EthereumThresholdSigner.KeygenResponseTimeout': {
+    131: ethereumThresholdSignerKeygenResponseTimeout131,
+  },
+  'EthereumThresholdSigner.KeygenResponseTimeoutUpdated': {
+    131: ethereumThresholdSignerKeygenResponseTimeoutUpdated131,
+  },
+  'EthereumThresholdSigner.KeygenSuccess': { 131: ethereumThresholdSignerKeygenSuccess131 },
+  'EthereumThresholdSigner.KeygenSuccessReported': {
+    131: ethereumThresholdSignerKeygenSuccessReported131,
+  },
+  'EthereumThresholdSigner.KeygenVerificationFailure': {
+    131: ethereumThresholdSignerKeygenVerificationFailure131,
+  },
+  'EthereumThresholdSigner.KeygenVerificationSuccess': {
+    131: ethereumThresholdSignerKeygenVerificationSuccess131,
+  },
+  'EthereumThresholdSigner.KeyHandoverFailure': {
+    131: ethereumThresholdSignerKeyHandoverFailure131,
+  },
+  'EthereumThresholdSigner.KeyHandoverFailureReported': {
+    131: ethereumThresholdSignerKeyHandoverFailureReported131,
+  },
+  'EthereumThresholdSigner.KeyHandoverRequest': {
+    131: ethereumThresholdSignerKeyHandoverRequest131,
+  },
+  'EthereumThresholdSigner.KeyHandoverResponseTimeout': {
+    131: ethereumThresholdSignerKeyHandoverResponseTimeout131,
+  },
+  'EthereumThresholdSigner.KeyHandoverSuccess': {
+    131: ethereumThresholdSignerKeyHandoverSuccess131,
+  },
+  'EthereumThresholdSigner.KeyHandoverSuccessReported': {
+    131: ethereumThresholdSignerKeyHandoverSuccessReported131,
+  },
+  'EthereumThresholdSigner.KeyHandoverVerificationFailure': {
+    131: ethereumThresholdSignerKeyHandoverVerificationFailure131,
+  },
+  'EthereumThresholdSigner.KeyHandoverVerificationSuccess': {
+    131: ethereumThresholdSignerKeyHandoverVerificationSuccess131,
+  },
+  'EthereumThresholdSigner.KeyRotationCompleted': {
+    131: ethereumThresholdSignerKeyRotationCompleted131,
+  },
+  'EthereumThresholdSigner.NoKeyHandover': { 131: ethereumThresholdSignerNoKeyHandover131 },
+  'EthereumThresholdSigner.RetryRequested': { 100: ethereumThresholdSignerRetryRequested100 },
+  'EthereumThresholdSigner.SignersUnavailable': {
+    100: ethereumThresholdSignerSignersUnavailable100,
+  },
+  'EthereumThresholdSigner.ThresholdDispatchComplete': {
+    100: ethereumThresholdSignerThresholdDispatchComplete100,
+  },
+  'EthereumThresholdSigner.ThresholdSignatureFailed': {
+    100: ethereumThresholdSignerThresholdSignatureFailed100,
+  },
+  'EthereumThresholdSigner.ThresholdSignatureRequest': {
+    100: ethereumThresholdSignerThresholdSignatureRequest100,
+  },
+  'EthereumThresholdSigner.ThresholdSignatureResponseTimeoutUpdated': {
+    100: ethereumThresholdSignerThresholdSignatureResponseTimeoutUpdated100,
+  },
+  'EthereumThresholdSigner.ThresholdSignatureSuccess': {
+    100: ethereumThresholdSignerThresholdSignatureSuccess100,
+  },
+  'EthereumVault.AwaitingGovernanceActivation': {
+    100: ethereumVaultAwaitingGovernanceActivation100,
+  },
+  'EthereumVault.ChainInitialized': { 141: ethereumVaultChainInitialized141 },
+  'EthereumVault.KeygenFailure': { 100: ethereumVaultKeygenFailure100 },
+  'EthereumVault.KeygenFailureReported': { 100: ethereumVaultKeygenFailureReported100 },
+  'EthereumVault.KeygenRequest': { 100: ethereumVaultKeygenRequest100 },
+  'EthereumVault.KeygenResponseTimeout': { 100: ethereumVaultKeygenResponseTimeout100 },
+  'EthereumVault.KeygenResponseTimeoutUpdated': {
+    100: ethereumVaultKeygenResponseTimeoutUpdated100,
+  },
+  'EthereumVault.KeygenSuccess': { 100: ethereumVaultKeygenSuccess100 },
+  'EthereumVault.KeygenSuccessReported': { 100: ethereumVaultKeygenSuccessReported100 },
+  'EthereumVault.KeygenVerificationFailure': { 100: ethereumVaultKeygenVerificationFailure100 },
+  'EthereumVault.KeygenVerificationSuccess': { 100: ethereumVaultKeygenVerificationSuccess100 },
+  'EthereumVault.KeyHandoverFailure': { 100: ethereumVaultKeyHandoverFailure100 },
+  'EthereumVault.KeyHandoverFailureReported': { 100: ethereumVaultKeyHandoverFailureReported100 },
+  'EthereumVault.KeyHandoverRequest': { 100: ethereumVaultKeyHandoverRequest100 },
+  'EthereumVault.KeyHandoverResponseTimeout': { 100: ethereumVaultKeyHandoverResponseTimeout100 },
+  'EthereumVault.KeyHandoverSuccess': { 100: ethereumVaultKeyHandoverSuccess100 },
+  'EthereumVault.KeyHandoverSuccessReported': { 100: ethereumVaultKeyHandoverSuccessReported100 },
+  'EthereumVault.KeyHandoverVerificationFailure': {
+    100: ethereumVaultKeyHandoverVerificationFailure100,
+  },
+  'EthereumVault.KeyHandoverVerificationSuccess': {
+    100: ethereumVaultKeyHandoverVerificationSuccess100,
+  },
+  'EthereumVault.NoKeyHandover': { 100: ethereumVaultNoKeyHandover100 },
+  'EthereumVault.VaultActivationCompleted': { 131: ethereumVaultVaultActivationCompleted131 },
+  'EthereumVault.VaultRotatedExternally': { 100: ethereumVaultVaultRotatedExternally100 },
+  'EthereumVault.VaultRotationAborted': { 100: ethereumVaultVaultRotationAborted100 },
+  'EthereumVault.VaultRotationCompleted': { 100: ethereumVaultVaultRotationCompleted100 },
+  'EvmThresholdSigner.FailureReportProcessed': { 141: evmThresholdSignerFailureReportProcessed141 },
+  'EvmThresholdSigner.KeygenFailure': { 141: evmThresholdSignerKeygenFailure141 },
+  'EvmThresholdSigner.KeygenFailureReported': { 141: evmThresholdSignerKeygenFailureReported141 },
+  'EvmThresholdSigner.KeygenRequest': { 141: evmThresholdSignerKeygenRequest141 },
+  'EvmThresholdSigner.KeygenResponseTimeout': { 141: evmThresholdSignerKeygenResponseTimeout141 },
+  'EvmThresholdSigner.KeygenResponseTimeoutUpdated': {
+    141: evmThresholdSignerKeygenResponseTimeoutUpdated141,
+  },
+  'EvmThresholdSigner.KeygenSuccess': { 141: evmThresholdSignerKeygenSuccess141 },
+  'EvmThresholdSigner.KeygenSuccessReported': { 141: evmThresholdSignerKeygenSuccessReported141 },
+  'EvmThresholdSigner.KeygenVerificationFailure': {
+    141: evmThresholdSignerKeygenVerificationFailure141,
+  },
+  'EvmThresholdSigner.KeygenVerificationSuccess': {
+    141: evmThresholdSignerKeygenVerificationSuccess141,
+  },
+  'EvmThresholdSigner.KeyHandoverFailure': { 141: evmThresholdSignerKeyHandoverFailure141 },
+  'EvmThresholdSigner.KeyHandoverFailureReported': {
+    141: evmThresholdSignerKeyHandoverFailureReported141,
+  },
+  'EvmThresholdSigner.KeyHandoverRequest': { 141: evmThresholdSignerKeyHandoverRequest141 },
+  'EvmThresholdSigner.KeyHandoverResponseTimeout': {
+    141: evmThresholdSignerKeyHandoverResponseTimeout141,
+  },
+  'EvmThresholdSigner.KeyHandoverSuccess': { 141: evmThresholdSignerKeyHandoverSuccess141 },
+  'EvmThresholdSigner.KeyHandoverSuccessReported': {
+    141: evmThresholdSignerKeyHandoverSuccessReported141,
+  },
+  'EvmThresholdSigner.KeyHandoverVerificationFailure': {
+    141: evmThresholdSignerKeyHandoverVerificationFailure141,
+  },
+  'EvmThresholdSigner.KeyHandoverVerificationSuccess': {
+    141: evmThresholdSignerKeyHandoverVerificationSuccess141,
+  },
+  'EvmThresholdSigner.KeyRotationCompleted': { 141: evmThresholdSignerKeyRotationCompleted141 },
+  'EvmThresholdSigner.NoKeyHandover': { 141: evmThresholdSignerNoKeyHandover141 },
+  'EvmThresholdSigner.RetryRequested': { 141: evmThresholdSignerRetryRequested141 },
+  'EvmThresholdSigner.SignersUnavailable': { 141: evmThresholdSignerSignersUnavailable141 },
+  'EvmThresholdSigner.ThresholdDispatchComplete': {
+    141: evmThresholdSignerThresholdDispatchComplete141,
+  },
+  'EvmThresholdSigner.ThresholdSignatureFailed': {
+    141: evmThresholdSignerThresholdSignatureFailed141,
+  },
+  'EvmThresholdSigner.ThresholdSignatureRequest': {
+    141: evmThresholdSignerThresholdSignatureRequest141,
+  },
+  'EvmThresholdSigner.ThresholdSignatureResponseTimeoutUpdated': {
+    141: evmThresholdSignerThresholdSignatureResponseTimeoutUpdated141,
+  },
+  'EvmThresholdSigner.ThresholdSignatureSuccess': {
+    141: evmThresholdSignerThresholdSignatureSuccess141,
+  },
+  'Flip.AccountReaped': { 100: flipAccountReaped100 },
+  'Flip.RemainingImbalance': { 100: flipRemainingImbalance100 },
+  'Flip.SlashingPerformed': { 100: flipSlashingPerformed100 },
+  'Flip.SlashingRateUpdated': { 100: flipSlashingRateUpdated100 },
+  'Funding.AddedRestrictedAddress': { 100: fundingAddedRestrictedAddress100 },
+  'Funding.BoundExecutorAddress': { 100: fundingBoundExecutorAddress100 },
+  'Funding.BoundRedeemAddress': { 100: fundingBoundRedeemAddress100 },
+  'Funding.FailedFundingAttempt': { 100: fundingFailedFundingAttempt100 },
+  'Funding.Funded': { 100: fundingFunded100 },
+  'Funding.MinimumFundingUpdated': { 100: fundingMinimumFundingUpdated100 },
+  'Funding.RedemptionAmountZero': { 100: fundingRedemptionAmountZero100 },
+  'Funding.RedemptionExpired': { 100: fundingRedemptionExpired100 },
+  'Funding.RedemptionRequested': { 100: fundingRedemptionRequested100 },
+  'Funding.RedemptionSettled': { 100: fundingRedemptionSettled100 },
+  'Funding.RedemptionTaxAmountUpdated': { 100: fundingRedemptionTaxAmountUpdated100 },
+  'Funding.RemovedRestrictedAddress': { 100: fundingRemovedRestrictedAddress100 },
+  'Funding.StartedBidding': { 100: fundingStartedBidding100 },
+  'Funding.StoppedBidding': { 100: fundingStoppedBidding100 },
+  'Governance.Approved': { 100: governanceApproved100 },
+  'Governance.DecodeOfCallFailed': { 100: governanceDecodeOfCallFailed100 },
+  'Governance.Executed': { 100: governanceExecuted100 },
+  'Governance.Expired': { 100: governanceExpired100 },
+  'Governance.FailedExecution': { 100: governanceFailedExecution100 },
+  'Governance.GovKeyCallExecuted': { 100: governanceGovKeyCallExecuted100 },
+  'Governance.GovKeyCallExecutionFailed': { 100: governanceGovKeyCallExecutionFailed100 },
+  'Governance.GovKeyCallHashWhitelisted': { 100: governanceGovKeyCallHashWhitelisted100 },
+  'Governance.Proposed': { 100: governanceProposed100 },
+  'Grandpa.NewAuthorities': { 100: grandpaNewAuthorities100 },
+  'Grandpa.Paused': { 100: grandpaPaused100 },
+  'Grandpa.Resumed': { 100: grandpaResumed100 },
+  'LiquidityPools.AssetSwapped': {
+    100: liquidityPoolsAssetSwapped100,
+    131: liquidityPoolsAssetSwapped131,
+    141: liquidityPoolsAssetSwapped141,
+    150: liquidityPoolsAssetSwapped150,
+    160: liquidityPoolsAssetSwapped160,
+  },
+  'LiquidityPools.LimitOrderSetOrUpdateScheduled': {
+    111: liquidityPoolsLimitOrderSetOrUpdateScheduled111,
+  },
+  'LiquidityPools.LimitOrderUpdated': {
+    100: liquidityPoolsLimitOrderUpdated100,
+    111: liquidityPoolsLimitOrderUpdated111,
+    131: liquidityPoolsLimitOrderUpdated131,
+    141: liquidityPoolsLimitOrderUpdated141,
+    150: liquidityPoolsLimitOrderUpdated150,
+    160: liquidityPoolsLimitOrderUpdated160,
+  },
+  'LiquidityPools.NetworkFeeTaken': { 100: liquidityPoolsNetworkFeeTaken100 },
+  'LiquidityPools.NewPoolCreated': {
+    100: liquidityPoolsNewPoolCreated100,
+    111: liquidityPoolsNewPoolCreated111,
+    131: liquidityPoolsNewPoolCreated131,
+    141: liquidityPoolsNewPoolCreated141,
+    150: liquidityPoolsNewPoolCreated150,
+    160: liquidityPoolsNewPoolCreated160,
+  },
+  'LiquidityPools.OrderDeletionFailed': { 160: liquidityPoolsOrderDeletionFailed160 },
+  'LiquidityPools.PoolFeeSet': {
+    100: liquidityPoolsPoolFeeSet100,
+    111: liquidityPoolsPoolFeeSet111,
+    131: liquidityPoolsPoolFeeSet131,
+    141: liquidityPoolsPoolFeeSet141,
+    150: liquidityPoolsPoolFeeSet150,
+    160: liquidityPoolsPoolFeeSet160,
+  },
+  'LiquidityPools.PoolStateUpdated': { 100: liquidityPoolsPoolStateUpdated100 },
+  'LiquidityPools.PriceImpactLimitSet': {
+    141: liquidityPoolsPriceImpactLimitSet141,
+    150: liquidityPoolsPriceImpactLimitSet150,
+    160: liquidityPoolsPriceImpactLimitSet160,
+  },
+  'LiquidityPools.RangeOrderUpdated': {
+    100: liquidityPoolsRangeOrderUpdated100,
+    111: liquidityPoolsRangeOrderUpdated111,
+    131: liquidityPoolsRangeOrderUpdated131,
+    141: liquidityPoolsRangeOrderUpdated141,
+    150: liquidityPoolsRangeOrderUpdated150,
+    160: liquidityPoolsRangeOrderUpdated160,
+  },
+  'LiquidityPools.ScheduledLimitOrderUpdateDispatchFailure': {
+    111: liquidityPoolsScheduledLimitOrderUpdateDispatchFailure111,
+  },
+  'LiquidityPools.ScheduledLimitOrderUpdateDispatchSuccess': {
+    111: liquidityPoolsScheduledLimitOrderUpdateDispatchSuccess111,
+  },
+  'LiquidityPools.UpdatedBuyInterval': { 100: liquidityPoolsUpdatedBuyInterval100 },
+  'LiquidityProvider.AccountCredited': {
+    100: liquidityProviderAccountCredited100,
+    131: liquidityProviderAccountCredited131,
+    141: liquidityProviderAccountCredited141,
+    150: liquidityProviderAccountCredited150,
+  },
+  'LiquidityProvider.AccountDebited': {
+    100: liquidityProviderAccountDebited100,
+    131: liquidityProviderAccountDebited131,
+    141: liquidityProviderAccountDebited141,
+    150: liquidityProviderAccountDebited150,
+  },
+  'LiquidityProvider.AssetTransferred': {
+    141: liquidityProviderAssetTransferred141,
+    150: liquidityProviderAssetTransferred150,
+    160: liquidityProviderAssetTransferred160,
+  },
+  'LiquidityProvider.LiquidityDepositAddressReady': {
+    100: liquidityProviderLiquidityDepositAddressReady100,
+    131: liquidityProviderLiquidityDepositAddressReady131,
+    141: liquidityProviderLiquidityDepositAddressReady141,
+    150: liquidityProviderLiquidityDepositAddressReady150,
+    160: liquidityProviderLiquidityDepositAddressReady160,
+  },
+  'LiquidityProvider.LiquidityDepositCredited': {
+    120: liquidityProviderLiquidityDepositCredited120,
+    131: liquidityProviderLiquidityDepositCredited131,
+    141: liquidityProviderLiquidityDepositCredited141,
+    150: liquidityProviderLiquidityDepositCredited150,
+  },
+  'LiquidityProvider.LiquidityRefundAddressRegistered': {
+    100: liquidityProviderLiquidityRefundAddressRegistered100,
+    141: liquidityProviderLiquidityRefundAddressRegistered141,
+    150: liquidityProviderLiquidityRefundAddressRegistered150,
+  },
+  'LiquidityProvider.WithdrawalEgressScheduled': {
+    100: liquidityProviderWithdrawalEgressScheduled100,
+    120: liquidityProviderWithdrawalEgressScheduled120,
+    131: liquidityProviderWithdrawalEgressScheduled131,
+    141: liquidityProviderWithdrawalEgressScheduled141,
+    150: liquidityProviderWithdrawalEgressScheduled150,
+    160: liquidityProviderWithdrawalEgressScheduled160,
+  },
+  'PolkadotBroadcaster.BroadcastAborted': { 100: polkadotBroadcasterBroadcastAborted100 },
+  'PolkadotBroadcaster.BroadcastAttemptTimeout': {
+    100: polkadotBroadcasterBroadcastAttemptTimeout100,
+  },
+  'PolkadotBroadcaster.BroadcastCallbackExecuted': {
+    100: polkadotBroadcasterBroadcastCallbackExecuted100,
+  },
+  'PolkadotBroadcaster.BroadcastRetryScheduled': {
+    100: polkadotBroadcasterBroadcastRetryScheduled100,
+    120: polkadotBroadcasterBroadcastRetryScheduled120,
+  },
+  'PolkadotBroadcaster.BroadcastSuccess': {
+    100: polkadotBroadcasterBroadcastSuccess100,
+    131: polkadotBroadcasterBroadcastSuccess131,
+  },
+  'PolkadotBroadcaster.BroadcastTimeout': { 120: polkadotBroadcasterBroadcastTimeout120 },
+  'PolkadotBroadcaster.CallResigned': { 111: polkadotBroadcasterCallResigned111 },
+  'PolkadotBroadcaster.ThresholdSignatureInvalid': {
+    100: polkadotBroadcasterThresholdSignatureInvalid100,
+    111: polkadotBroadcasterThresholdSignatureInvalid111,
+    120: polkadotBroadcasterThresholdSignatureInvalid120,
+  },
+  'PolkadotBroadcaster.TransactionBroadcastRequest': {
+    100: polkadotBroadcasterTransactionBroadcastRequest100,
+    120: polkadotBroadcasterTransactionBroadcastRequest120,
+  },
+  'PolkadotBroadcaster.TransactionFeeDeficitRecorded': {
+    100: polkadotBroadcasterTransactionFeeDeficitRecorded100,
+  },
+  'PolkadotBroadcaster.TransactionFeeDeficitRefused': {
+    100: polkadotBroadcasterTransactionFeeDeficitRefused100,
+  },
+  'PolkadotChainTracking.ChainStateUpdated': { 100: polkadotChainTrackingChainStateUpdated100 },
+  'PolkadotChainTracking.FeeMultiplierUpdated': {
+    131: polkadotChainTrackingFeeMultiplierUpdated131,
+  },
+  'PolkadotIngressEgress.AssetEgressStatusChanged': {
+    100: polkadotIngressEgressAssetEgressStatusChanged100,
+  },
+  'PolkadotIngressEgress.BatchBroadcastRequested': {
+    100: polkadotIngressEgressBatchBroadcastRequested100,
+    141: polkadotIngressEgressBatchBroadcastRequested141,
+    150: polkadotIngressEgressBatchBroadcastRequested150,
+  },
+  'PolkadotIngressEgress.BoostFundsAdded': { 141: polkadotIngressEgressBoostFundsAdded141 },
+  'PolkadotIngressEgress.BoostPoolCreated': { 141: polkadotIngressEgressBoostPoolCreated141 },
+  'PolkadotIngressEgress.CcmBroadcastFailed': { 111: polkadotIngressEgressCcmBroadcastFailed111 },
+  'PolkadotIngressEgress.CcmBroadcastRequested': {
+    100: polkadotIngressEgressCcmBroadcastRequested100,
+    141: polkadotIngressEgressCcmBroadcastRequested141,
+    150: polkadotIngressEgressCcmBroadcastRequested150,
+  },
+  'PolkadotIngressEgress.CcmEgressInvalid': {
+    100: polkadotIngressEgressCcmEgressInvalid100,
+    141: polkadotIngressEgressCcmEgressInvalid141,
+    150: polkadotIngressEgressCcmEgressInvalid150,
+    160: polkadotIngressEgressCcmEgressInvalid160,
+  },
+  'PolkadotIngressEgress.ChannelOpeningFeePaid': {
+    131: polkadotIngressEgressChannelOpeningFeePaid131,
+  },
+  'PolkadotIngressEgress.ChannelOpeningFeeSet': {
+    131: polkadotIngressEgressChannelOpeningFeeSet131,
+  },
+  'PolkadotIngressEgress.DepositBoosted': {
+    141: polkadotIngressEgressDepositBoosted141,
+    150: polkadotIngressEgressDepositBoosted150,
+    160: polkadotIngressEgressDepositBoosted160,
+  },
+  'PolkadotIngressEgress.DepositFetchesScheduled': {
+    100: polkadotIngressEgressDepositFetchesScheduled100,
+  },
+  'PolkadotIngressEgress.DepositFinalised': {
+    141: polkadotIngressEgressDepositFinalised141,
+    150: polkadotIngressEgressDepositFinalised150,
+    160: polkadotIngressEgressDepositFinalised160,
+  },
+  'PolkadotIngressEgress.DepositIgnored': {
+    100: polkadotIngressEgressDepositIgnored100,
+    120: polkadotIngressEgressDepositIgnored120,
+    150: polkadotIngressEgressDepositIgnored150,
+  },
+  'PolkadotIngressEgress.DepositReceived': {
+    100: polkadotIngressEgressDepositReceived100,
+    120: polkadotIngressEgressDepositReceived120,
+  },
+  'PolkadotIngressEgress.DepositWitnessRejected': {
+    100: polkadotIngressEgressDepositWitnessRejected100,
+    150: polkadotIngressEgressDepositWitnessRejected150,
+  },
+  'PolkadotIngressEgress.EgressScheduled': { 100: polkadotIngressEgressEgressScheduled100 },
+  'PolkadotIngressEgress.FailedForeignChainCallExpired': {
+    111: polkadotIngressEgressFailedForeignChainCallExpired111,
+  },
+  'PolkadotIngressEgress.FailedForeignChainCallResigned': {
+    111: polkadotIngressEgressFailedForeignChainCallResigned111,
+  },
+  'PolkadotIngressEgress.FailedToBuildAllBatchCall': {
+    131: polkadotIngressEgressFailedToBuildAllBatchCall131,
+  },
+  'PolkadotIngressEgress.InsufficientBoostLiquidity': {
+    141: polkadotIngressEgressInsufficientBoostLiquidity141,
+  },
+  'PolkadotIngressEgress.MaxSwapRetryDurationSet': {
+    150: polkadotIngressEgressMaxSwapRetryDurationSet150,
+  },
+  'PolkadotIngressEgress.MinimumDepositSet': { 100: polkadotIngressEgressMinimumDepositSet100 },
+  'PolkadotIngressEgress.StoppedBoosting': { 141: polkadotIngressEgressStoppedBoosting141 },
+  'PolkadotIngressEgress.TransferFallbackRequested': {
+    111: polkadotIngressEgressTransferFallbackRequested111,
+  },
+  'PolkadotIngressEgress.UtxoConsolidation': { 120: polkadotIngressEgressUtxoConsolidation120 },
+  'PolkadotIngressEgress.VaultTransferFailed': { 100: polkadotIngressEgressVaultTransferFailed100 },
+  'PolkadotThresholdSigner.CurrentKeyUnavailable': {
+    100: polkadotThresholdSignerCurrentKeyUnavailable100,
+  },
+  'PolkadotThresholdSigner.FailureReportProcessed': {
+    100: polkadotThresholdSignerFailureReportProcessed100,
+  },
+  'PolkadotThresholdSigner.KeygenFailure': { 131: polkadotThresholdSignerKeygenFailure131 },
+  'PolkadotThresholdSigner.KeygenFailureReported': {
+    131: polkadotThresholdSignerKeygenFailureReported131,
+  },
+  'PolkadotThresholdSigner.KeygenRequest': { 131: polkadotThresholdSignerKeygenRequest131 },
+  'PolkadotThresholdSigner.KeygenResponseTimeout': {
+    131: polkadotThresholdSignerKeygenResponseTimeout131,
+  },
+  'PolkadotThresholdSigner.KeygenResponseTimeoutUpdated': {
+    131: polkadotThresholdSignerKeygenResponseTimeoutUpdated131,
+  },
+  'PolkadotThresholdSigner.KeygenSuccess': { 131: polkadotThresholdSignerKeygenSuccess131 },
+  'PolkadotThresholdSigner.KeygenSuccessReported': {
+    131: polkadotThresholdSignerKeygenSuccessReported131,
+  },
+  'PolkadotThresholdSigner.KeygenVerificationFailure': {
+    131: polkadotThresholdSignerKeygenVerificationFailure131,
+  },
+  'PolkadotThresholdSigner.KeygenVerificationSuccess': {
+    131: polkadotThresholdSignerKeygenVerificationSuccess131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverFailure': {
+    131: polkadotThresholdSignerKeyHandoverFailure131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverFailureReported': {
+    131: polkadotThresholdSignerKeyHandoverFailureReported131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverRequest': {
+    131: polkadotThresholdSignerKeyHandoverRequest131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverResponseTimeout': {
+    131: polkadotThresholdSignerKeyHandoverResponseTimeout131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverSuccess': {
+    131: polkadotThresholdSignerKeyHandoverSuccess131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverSuccessReported': {
+    131: polkadotThresholdSignerKeyHandoverSuccessReported131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverVerificationFailure': {
+    131: polkadotThresholdSignerKeyHandoverVerificationFailure131,
+  },
+  'PolkadotThresholdSigner.KeyHandoverVerificationSuccess': {
+    131: polkadotThresholdSignerKeyHandoverVerificationSuccess131,
+  },
+  'PolkadotThresholdSigner.KeyRotationCompleted': {
+    131: polkadotThresholdSignerKeyRotationCompleted131,
+  },
+  'PolkadotThresholdSigner.NoKeyHandover': { 131: polkadotThresholdSignerNoKeyHandover131 },
+  'PolkadotThresholdSigner.RetryRequested': { 100: polkadotThresholdSignerRetryRequested100 },
+  'PolkadotThresholdSigner.SignersUnavailable': {
+    100: polkadotThresholdSignerSignersUnavailable100,
+  },
+  'PolkadotThresholdSigner.ThresholdDispatchComplete': {
+    100: polkadotThresholdSignerThresholdDispatchComplete100,
+  },
+  'PolkadotThresholdSigner.ThresholdSignatureFailed': {
+    100: polkadotThresholdSignerThresholdSignatureFailed100,
+  },
+  'PolkadotThresholdSigner.ThresholdSignatureRequest': {
+    100: polkadotThresholdSignerThresholdSignatureRequest100,
+  },
+  'PolkadotThresholdSigner.ThresholdSignatureResponseTimeoutUpdated': {
+    100: polkadotThresholdSignerThresholdSignatureResponseTimeoutUpdated100,
+  },
+  'PolkadotThresholdSigner.ThresholdSignatureSuccess': {
+    100: polkadotThresholdSignerThresholdSignatureSuccess100,
+  },
+  'PolkadotVault.AwaitingGovernanceActivation': {
+    100: polkadotVaultAwaitingGovernanceActivation100,
+  },
+  'PolkadotVault.ChainInitialized': { 141: polkadotVaultChainInitialized141 },
+  'PolkadotVault.KeygenFailure': { 100: polkadotVaultKeygenFailure100 },
+  'PolkadotVault.KeygenFailureReported': { 100: polkadotVaultKeygenFailureReported100 },
+  'PolkadotVault.KeygenRequest': { 100: polkadotVaultKeygenRequest100 },
+  'PolkadotVault.KeygenResponseTimeout': { 100: polkadotVaultKeygenResponseTimeout100 },
+  'PolkadotVault.KeygenResponseTimeoutUpdated': {
+    100: polkadotVaultKeygenResponseTimeoutUpdated100,
+  },
+  'PolkadotVault.KeygenSuccess': { 100: polkadotVaultKeygenSuccess100 },
+  'PolkadotVault.KeygenSuccessReported': { 100: polkadotVaultKeygenSuccessReported100 },
+  'PolkadotVault.KeygenVerificationFailure': { 100: polkadotVaultKeygenVerificationFailure100 },
+  'PolkadotVault.KeygenVerificationSuccess': { 100: polkadotVaultKeygenVerificationSuccess100 },
+  'PolkadotVault.KeyHandoverFailure': { 100: polkadotVaultKeyHandoverFailure100 },
+  'PolkadotVault.KeyHandoverFailureReported': { 100: polkadotVaultKeyHandoverFailureReported100 },
+  'PolkadotVault.KeyHandoverRequest': { 100: polkadotVaultKeyHandoverRequest100 },
+  'PolkadotVault.KeyHandoverResponseTimeout': { 100: polkadotVaultKeyHandoverResponseTimeout100 },
+  'PolkadotVault.KeyHandoverSuccess': { 100: polkadotVaultKeyHandoverSuccess100 },
+  'PolkadotVault.KeyHandoverSuccessReported': { 100: polkadotVaultKeyHandoverSuccessReported100 },
+  'PolkadotVault.KeyHandoverVerificationFailure': {
+    100: polkadotVaultKeyHandoverVerificationFailure100,
+  },
+  'PolkadotVault.KeyHandoverVerificationSuccess': {
+    100: polkadotVaultKeyHandoverVerificationSuccess100,
+  },
+  'PolkadotVault.NoKeyHandover': { 100: polkadotVaultNoKeyHandover100 },
+  'PolkadotVault.VaultActivationCompleted': { 131: polkadotVaultVaultActivationCompleted131 },
+  'PolkadotVault.VaultRotatedExternally': { 100: polkadotVaultVaultRotatedExternally100 },
+  'PolkadotVault.VaultRotationAborted': { 100: polkadotVaultVaultRotationAborted100 },
+  'PolkadotVault.VaultRotationCompleted': { 100: polkadotVaultVaultRotationCompleted100 },
+  'Reputation.AccrualRateUpdated': { 100: reputationAccrualRateUpdated100 },
+  'Reputation.MissedHeartbeatPenaltyUpdated': { 100: reputationMissedHeartbeatPenaltyUpdated100 },
+  'Reputation.OffencePenalty': {
+    100: reputationOffencePenalty100,
+    131: reputationOffencePenalty131,
+  },
+  'Reputation.PenaltyUpdated': {
+    100: reputationPenaltyUpdated100,
+    131: reputationPenaltyUpdated131,
+  },
+  'Session.NewSession': { 100: sessionNewSession100 },
+  'SolanaBroadcaster.BroadcastAborted': { 150: solanaBroadcasterBroadcastAborted150 },
+  'SolanaBroadcaster.BroadcastCallbackExecuted': {
+    150: solanaBroadcasterBroadcastCallbackExecuted150,
+  },
+  'SolanaBroadcaster.BroadcastRetryScheduled': { 150: solanaBroadcasterBroadcastRetryScheduled150 },
+  'SolanaBroadcaster.BroadcastSuccess': {
+    150: solanaBroadcasterBroadcastSuccess150,
+    160: solanaBroadcasterBroadcastSuccess160,
+  },
+  'SolanaBroadcaster.BroadcastTimeout': { 150: solanaBroadcasterBroadcastTimeout150 },
+  'SolanaBroadcaster.CallResigned': { 150: solanaBroadcasterCallResigned150 },
+  'SolanaBroadcaster.ThresholdSignatureInvalid': {
+    150: solanaBroadcasterThresholdSignatureInvalid150,
+  },
+  'SolanaBroadcaster.TransactionBroadcastRequest': {
+    150: solanaBroadcasterTransactionBroadcastRequest150,
+    160: solanaBroadcasterTransactionBroadcastRequest160,
+  },
+  'SolanaBroadcaster.TransactionFeeDeficitRecorded': {
+    150: solanaBroadcasterTransactionFeeDeficitRecorded150,
+    160: solanaBroadcasterTransactionFeeDeficitRecorded160,
+  },
+  'SolanaBroadcaster.TransactionFeeDeficitRefused': {
+    150: solanaBroadcasterTransactionFeeDeficitRefused150,
+  },
+  'SolanaChainTracking.ChainStateUpdated': {
+    150: solanaChainTrackingChainStateUpdated150,
+    160: solanaChainTrackingChainStateUpdated160,
+  },
+  'SolanaChainTracking.FeeMultiplierUpdated': { 150: solanaChainTrackingFeeMultiplierUpdated150 },
+  'SolanaElections.AllVotesCleared': { 160: solanaElectionsAllVotesCleared160 },
+  'SolanaElections.AllVotesNotCleared': { 160: solanaElectionsAllVotesNotCleared160 },
+  'SolanaElections.CorruptStorage': { 160: solanaElectionsCorruptStorage160 },
+  'SolanaElections.Uninitialized': { 160: solanaElectionsUninitialized160 },
+  'SolanaIngressEgress.AssetEgressStatusChanged': {
+    150: solanaIngressEgressAssetEgressStatusChanged150,
+    160: solanaIngressEgressAssetEgressStatusChanged160,
+  },
+  'SolanaIngressEgress.BatchBroadcastRequested': {
+    150: solanaIngressEgressBatchBroadcastRequested150,
+  },
+  'SolanaIngressEgress.BoostFundsAdded': {
+    150: solanaIngressEgressBoostFundsAdded150,
+    160: solanaIngressEgressBoostFundsAdded160,
+  },
+  'SolanaIngressEgress.BoostPoolCreated': {
+    150: solanaIngressEgressBoostPoolCreated150,
+    160: solanaIngressEgressBoostPoolCreated160,
+  },
+  'SolanaIngressEgress.CcmBroadcastFailed': { 150: solanaIngressEgressCcmBroadcastFailed150 },
+  'SolanaIngressEgress.CcmBroadcastRequested': { 150: solanaIngressEgressCcmBroadcastRequested150 },
+  'SolanaIngressEgress.CcmEgressInvalid': {
+    150: solanaIngressEgressCcmEgressInvalid150,
+    160: solanaIngressEgressCcmEgressInvalid160,
+  },
+  'SolanaIngressEgress.ChannelOpeningFeePaid': { 150: solanaIngressEgressChannelOpeningFeePaid150 },
+  'SolanaIngressEgress.ChannelOpeningFeeSet': { 150: solanaIngressEgressChannelOpeningFeeSet150 },
+  'SolanaIngressEgress.DepositBoosted': {
+    150: solanaIngressEgressDepositBoosted150,
+    160: solanaIngressEgressDepositBoosted160,
+  },
+  'SolanaIngressEgress.DepositFetchesScheduled': {
+    150: solanaIngressEgressDepositFetchesScheduled150,
+    160: solanaIngressEgressDepositFetchesScheduled160,
+  },
+  'SolanaIngressEgress.DepositFinalised': {
+    150: solanaIngressEgressDepositFinalised150,
+    160: solanaIngressEgressDepositFinalised160,
+  },
+  'SolanaIngressEgress.DepositIgnored': {
+    150: solanaIngressEgressDepositIgnored150,
+    160: solanaIngressEgressDepositIgnored160,
+  },
+  'SolanaIngressEgress.DepositWitnessRejected': {
+    150: solanaIngressEgressDepositWitnessRejected150,
+    160: solanaIngressEgressDepositWitnessRejected160,
+  },
+  'SolanaIngressEgress.FailedForeignChainCallExpired': {
+    150: solanaIngressEgressFailedForeignChainCallExpired150,
+  },
+  'SolanaIngressEgress.FailedForeignChainCallResigned': {
+    150: solanaIngressEgressFailedForeignChainCallResigned150,
+  },
+  'SolanaIngressEgress.FailedToBuildAllBatchCall': {
+    150: solanaIngressEgressFailedToBuildAllBatchCall150,
+  },
+  'SolanaIngressEgress.InsufficientBoostLiquidity': {
+    150: solanaIngressEgressInsufficientBoostLiquidity150,
+    160: solanaIngressEgressInsufficientBoostLiquidity160,
+  },
+  'SolanaIngressEgress.MaxSwapRetryDurationSet': {
+    150: solanaIngressEgressMaxSwapRetryDurationSet150,
+  },
+  'SolanaIngressEgress.MinimumDepositSet': {
+    150: solanaIngressEgressMinimumDepositSet150,
+    160: solanaIngressEgressMinimumDepositSet160,
+  },
+  'SolanaIngressEgress.StoppedBoosting': {
+    150: solanaIngressEgressStoppedBoosting150,
+    160: solanaIngressEgressStoppedBoosting160,
+  },
+  'SolanaIngressEgress.TransferFallbackRequested': {
+    150: solanaIngressEgressTransferFallbackRequested150,
+    160: solanaIngressEgressTransferFallbackRequested160,
+  },
+  'SolanaIngressEgress.UtxoConsolidation': { 150: solanaIngressEgressUtxoConsolidation150 },
+  'SolanaThresholdSigner.FailureReportProcessed': {
+    150: solanaThresholdSignerFailureReportProcessed150,
+  },
+  'SolanaThresholdSigner.KeygenFailure': { 150: solanaThresholdSignerKeygenFailure150 },
+  'SolanaThresholdSigner.KeygenFailureReported': {
+    150: solanaThresholdSignerKeygenFailureReported150,
+  },
+  'SolanaThresholdSigner.KeygenRequest': { 150: solanaThresholdSignerKeygenRequest150 },
+  'SolanaThresholdSigner.KeygenResponseTimeout': {
+    150: solanaThresholdSignerKeygenResponseTimeout150,
+  },
+  'SolanaThresholdSigner.KeygenResponseTimeoutUpdated': {
+    150: solanaThresholdSignerKeygenResponseTimeoutUpdated150,
+  },
+  'SolanaThresholdSigner.KeygenSuccess': { 150: solanaThresholdSignerKeygenSuccess150 },
+  'SolanaThresholdSigner.KeygenSuccessReported': {
+    150: solanaThresholdSignerKeygenSuccessReported150,
+  },
+  'SolanaThresholdSigner.KeygenVerificationFailure': {
+    150: solanaThresholdSignerKeygenVerificationFailure150,
+  },
+  'SolanaThresholdSigner.KeygenVerificationSuccess': {
+    150: solanaThresholdSignerKeygenVerificationSuccess150,
+  },
+  'SolanaThresholdSigner.KeyHandoverFailure': { 150: solanaThresholdSignerKeyHandoverFailure150 },
+  'SolanaThresholdSigner.KeyHandoverFailureReported': {
+    150: solanaThresholdSignerKeyHandoverFailureReported150,
+  },
+  'SolanaThresholdSigner.KeyHandoverRequest': { 150: solanaThresholdSignerKeyHandoverRequest150 },
+  'SolanaThresholdSigner.KeyHandoverResponseTimeout': {
+    150: solanaThresholdSignerKeyHandoverResponseTimeout150,
+  },
+  'SolanaThresholdSigner.KeyHandoverSuccess': { 150: solanaThresholdSignerKeyHandoverSuccess150 },
+  'SolanaThresholdSigner.KeyHandoverSuccessReported': {
+    150: solanaThresholdSignerKeyHandoverSuccessReported150,
+  },
+  'SolanaThresholdSigner.KeyHandoverVerificationFailure': {
+    150: solanaThresholdSignerKeyHandoverVerificationFailure150,
+  },
+  'SolanaThresholdSigner.KeyHandoverVerificationSuccess': {
+    150: solanaThresholdSignerKeyHandoverVerificationSuccess150,
+  },
+  'SolanaThresholdSigner.KeyRotationCompleted': {
+    150: solanaThresholdSignerKeyRotationCompleted150,
+  },
+  'SolanaThresholdSigner.NoKeyHandover': { 150: solanaThresholdSignerNoKeyHandover150 },
+  'SolanaThresholdSigner.RetryRequested': { 150: solanaThresholdSignerRetryRequested150 },
+  'SolanaThresholdSigner.SignersUnavailable': { 150: solanaThresholdSignerSignersUnavailable150 },
+  'SolanaThresholdSigner.ThresholdDispatchComplete': {
+    150: solanaThresholdSignerThresholdDispatchComplete150,
+  },
+  'SolanaThresholdSigner.ThresholdSignatureFailed': {
+    150: solanaThresholdSignerThresholdSignatureFailed150,
+  },
+  'SolanaThresholdSigner.ThresholdSignatureRequest': {
+    150: solanaThresholdSignerThresholdSignatureRequest150,
+    160: solanaThresholdSignerThresholdSignatureRequest160,
+  },
+  'SolanaThresholdSigner.ThresholdSignatureResponseTimeoutUpdated': {
+    150: solanaThresholdSignerThresholdSignatureResponseTimeoutUpdated150,
+  },
+  'SolanaThresholdSigner.ThresholdSignatureSuccess': {
+    150: solanaThresholdSignerThresholdSignatureSuccess150,
+  },
+  'SolanaVault.AwaitingGovernanceActivation': { 150: solanaVaultAwaitingGovernanceActivation150 },
+  'SolanaVault.ChainInitialized': { 150: solanaVaultChainInitialized150 },
+  'SolanaVault.VaultActivationCompleted': { 150: solanaVaultVaultActivationCompleted150 },
+  'SolanaVault.VaultRotatedExternally': { 150: solanaVaultVaultRotatedExternally150 },
+  'Swapping.BatchSwapFailed': {
+    100: swappingBatchSwapFailed100,
+    131: swappingBatchSwapFailed131,
+    141: swappingBatchSwapFailed141,
+    150: swappingBatchSwapFailed150,
+    160: swappingBatchSwapFailed160,
+  },
+  'Swapping.BuyIntervalSet': { 150: swappingBuyIntervalSet150 },
+  'Swapping.CcmDepositReceived': {
+    100: swappingCcmDepositReceived100,
+    141: swappingCcmDepositReceived141,
+    150: swappingCcmDepositReceived150,
+  },
+  'Swapping.CcmEgressScheduled': {
+    100: swappingCcmEgressScheduled100,
+    141: swappingCcmEgressScheduled141,
+    150: swappingCcmEgressScheduled150,
+  },
+  'Swapping.CcmFailed': {
+    100: swappingCcmFailed100,
+    120: swappingCcmFailed120,
+    131: swappingCcmFailed131,
+    141: swappingCcmFailed141,
+    150: swappingCcmFailed150,
+    160: swappingCcmFailed160,
+  },
+  'Swapping.MaximumSwapAmountSet': {
+    102: swappingMaximumSwapAmountSet102,
+    131: swappingMaximumSwapAmountSet131,
+    141: swappingMaximumSwapAmountSet141,
+    150: swappingMaximumSwapAmountSet150,
+    160: swappingMaximumSwapAmountSet160,
+  },
+  'Swapping.MaxSwapRequestDurationSet': { 160: swappingMaxSwapRequestDurationSet160 },
+  'Swapping.MaxSwapRetryDurationSet': { 160: swappingMaxSwapRetryDurationSet160 },
+  'Swapping.MinimumSwapAmountSet': { 100: swappingMinimumSwapAmountSet100 },
+  'Swapping.NetworkFeeTaken': { 150: swappingNetworkFeeTaken150 },
+  'Swapping.RefundEgressIgnored': {
+    150: swappingRefundEgressIgnored150,
+    160: swappingRefundEgressIgnored160,
+  },
+  'Swapping.RefundEgressScheduled': {
+    150: swappingRefundEgressScheduled150,
+    160: swappingRefundEgressScheduled160,
+  },
+  'Swapping.SwapAmountConfiscated': {
+    102: swappingSwapAmountConfiscated102,
+    131: swappingSwapAmountConfiscated131,
+    141: swappingSwapAmountConfiscated141,
+    150: swappingSwapAmountConfiscated150,
+    160: swappingSwapAmountConfiscated160,
+  },
+  'Swapping.SwapAmountTooLow': { 100: swappingSwapAmountTooLow100 },
+  'Swapping.SwapDepositAddressReady': {
+    100: swappingSwapDepositAddressReady100,
+    131: swappingSwapDepositAddressReady131,
+    141: swappingSwapDepositAddressReady141,
+    150: swappingSwapDepositAddressReady150,
+    160: swappingSwapDepositAddressReady160,
+  },
+  'Swapping.SwapEgressIgnored': {
+    120: swappingSwapEgressIgnored120,
+    131: swappingSwapEgressIgnored131,
+    141: swappingSwapEgressIgnored141,
+    150: swappingSwapEgressIgnored150,
+    160: swappingSwapEgressIgnored160,
+  },
+  'Swapping.SwapEgressScheduled': {
+    100: swappingSwapEgressScheduled100,
+    120: swappingSwapEgressScheduled120,
+    131: swappingSwapEgressScheduled131,
+    141: swappingSwapEgressScheduled141,
+    150: swappingSwapEgressScheduled150,
+    160: swappingSwapEgressScheduled160,
+  },
+  'Swapping.SwapExecuted': {
+    100: swappingSwapExecuted100,
+    120: swappingSwapExecuted120,
+    131: swappingSwapExecuted131,
+    141: swappingSwapExecuted141,
+    150: swappingSwapExecuted150,
+    160: swappingSwapExecuted160,
+  },
+  'Swapping.SwapRequestCompleted': { 160: swappingSwapRequestCompleted160 },
+  'Swapping.SwapRequested': { 160: swappingSwapRequested160 },
+  'Swapping.SwapRescheduled': { 150: swappingSwapRescheduled150 },
+  'Swapping.SwapRetryDelaySet': { 150: swappingSwapRetryDelaySet150 },
+  'Swapping.SwapScheduled': {
+    100: swappingSwapScheduled100,
+    131: swappingSwapScheduled131,
+    141: swappingSwapScheduled141,
+    150: swappingSwapScheduled150,
+    160: swappingSwapScheduled160,
+  },
+  'Swapping.WithdrawalRequested': {
+    100: swappingWithdrawalRequested100,
+    120: swappingWithdrawalRequested120,
+    131: swappingWithdrawalRequested131,
+    141: swappingWithdrawalRequested141,
+    150: swappingWithdrawalRequested150,
+    160: swappingWithdrawalRequested160,
+  },
+  'System.CodeUpdated': { 100: systemCodeUpdated100 },
+  'System.ExtrinsicFailed': { 100: systemExtrinsicFailed100 },
+  'System.ExtrinsicSuccess': { 100: systemExtrinsicSuccess100 },
+  'System.KilledAccount': { 100: systemKilledAccount100 },
+  'System.NewAccount': { 100: systemNewAccount100 },
+  'System.Remarked': { 100: systemRemarked100 },
+  'System.UpgradeAuthorized': { 131: systemUpgradeAuthorized131 },
+  'TokenholderGovernance.GovKeyUpdatedHasFailed': {
+    100: tokenholderGovernanceGovKeyUpdatedHasFailed100,
+    141: tokenholderGovernanceGovKeyUpdatedHasFailed141,
+    150: tokenholderGovernanceGovKeyUpdatedHasFailed150,
+  },
+  'TokenholderGovernance.GovKeyUpdatedWasSuccessful': {
+    100: tokenholderGovernanceGovKeyUpdatedWasSuccessful100,
+    141: tokenholderGovernanceGovKeyUpdatedWasSuccessful141,
+    150: tokenholderGovernanceGovKeyUpdatedWasSuccessful150,
+  },
+  'TokenholderGovernance.ProposalEnacted': {
+    100: tokenholderGovernanceProposalEnacted100,
+    141: tokenholderGovernanceProposalEnacted141,
+    150: tokenholderGovernanceProposalEnacted150,
+  },
+  'TokenholderGovernance.ProposalPassed': {
+    100: tokenholderGovernanceProposalPassed100,
+    141: tokenholderGovernanceProposalPassed141,
+    150: tokenholderGovernanceProposalPassed150,
+  },
+  'TokenholderGovernance.ProposalRejected': {
+    100: tokenholderGovernanceProposalRejected100,
+    141: tokenholderGovernanceProposalRejected141,
+    150: tokenholderGovernanceProposalRejected150,
+  },
+  'TokenholderGovernance.ProposalSubmitted': {
+    100: tokenholderGovernanceProposalSubmitted100,
+    141: tokenholderGovernanceProposalSubmitted141,
+    150: tokenholderGovernanceProposalSubmitted150,
+  },
+  'TransactionPayment.TransactionFeePaid': { 100: transactionPaymentTransactionFeePaid100 },
+  'Validator.AuctionCompleted': { 100: validatorAuctionCompleted100 },
+  'Validator.CFEVersionUpdated': { 100: validatorCFEVersionUpdated100 },
+  'Validator.NewEpoch': { 100: validatorNewEpoch100 },
+  'Validator.PalletConfigUpdated': {
+    100: validatorPalletConfigUpdated100,
+    102: validatorPalletConfigUpdated102,
+  },
+  'Validator.PeerIdRegistered': { 100: validatorPeerIdRegistered100 },
+  'Validator.PeerIdUnregistered': { 100: validatorPeerIdUnregistered100 },
+  'Validator.RotationAborted': { 100: validatorRotationAborted100 },
+  'Validator.RotationPhaseUpdated': {
+    100: validatorRotationPhaseUpdated100,
+    141: validatorRotationPhaseUpdated141,
+  },
+  'Validator.StartedBidding': { 141: validatorStartedBidding141 },
+  'Validator.StoppedBidding': { 141: validatorStoppedBidding141 },
+  'Validator.VanityNameSet': { 100: validatorVanityNameSet100 },
+  'Witnesser.CallDispatched': { 141: witnesserCallDispatched141 },
+  'Witnesser.Prewitnessed': { 100: witnesserPrewitnessed100 },
+  'Witnesser.PrewitnessExecutionFailed': { 131: witnesserPrewitnessExecutionFailed131 },
+  'Witnesser.ReportedWitnessingFailures': { 141: witnesserReportedWitnessingFailures141 },
+  'Witnesser.WitnessExecutionFailed': { 100: witnesserWitnessExecutionFailed100 },
+};
@@ -3,7 +3,10 @@ import * as path from 'path';
 import generateAllCode from '@/chainspec/generateAllCode';
 import Parser from '../src/codegen/Parser';
 import CodeGenerator from '../src/codegen/CodeGenerator';
+import CallParser from '../src/codegen/CallParser';
+import CallCodeGenerator from '../src/codegen/CallCodeGenerator';
 
 const generatedDir = path.join(import.meta.dirname, '..', 'generated');
 
-await generateAllCode(Parser, CodeGenerator, generatedDir);
+await generateAllCode(Parser, CodeGenerator, generatedDir, { index: 'eventParsers' });
+await generateAllCode(CallParser, CallCodeGenerator, generatedDir, { clean: false });
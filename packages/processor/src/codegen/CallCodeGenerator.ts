@@ -0,0 +1,10 @@
+import CodeGenerator from './CodeGenerator';
+
+export default class CallCodeGenerator extends CodeGenerator {
+  protected readonly moduleDir = 'calls';
+
+  protected getModuleName(itemName: string): string {
+    // calls are snake_cased, e.g. `request_swap_deposit_address`
+    return itemName.replace(/_(.)/g, (_, c: string) => c.toUpperCase());
+  }
+}
@@ -0,0 +1,24 @@
+import { TypeDef } from '@polkadot/types/types';
+import { PalletMetadataV14, SiLookupTypeId } from '@polkadot/types/interfaces';
+import Parser, { ResolvedType } from './Parser';
+
+export default class CallParser extends Parser {
+  protected readonly cacheName = 'call-types';
+
+  protected getItems(pallet: PalletMetadataV14): { type: SiLookupTypeId } | null {
+    return pallet.calls.isSome ? pallet.calls.unwrap() : null;
+  }
+
+  // removed calls are replaced by `__UnusedN` variants to keep the indices of the others
+  protected isItem(name: string): boolean {
+    return !name.startsWith('__Unused');
+  }
+
+  protected resolveType(type: TypeDef): ResolvedType {
+    // calls can contain other calls, e.g. `schedule_limit_order_update`, so we don't recurse
+    // into nested calls
+    if (type.lookupName?.endsWith('Call')) return { type: 'primitive', name: 'Call' };
+
+    return super.resolveType(type);
+  }
+}
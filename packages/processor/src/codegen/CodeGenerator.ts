@@ -112,7 +112,7 @@ export default class CodeGenerator extends BaseCodeGenerator<ResolvedType> {
         this.registry.types.set('hexString', hexString);
         return new Identifier('hexString');
       case 'Call':
-        // we would need to parse the calls as well
+        // nested calls aren't validated, their args can be parsed with the generated call parsers
         return new Code('z.unknown()');
       case 'Bytes':
         this.registry.types.set('hexString', hexString);
@@ -146,33 +146,34 @@ export default class CodeGenerator extends BaseCodeGenerator<ResolvedType> {
       this.registry.types.set('simpleEnum', simpleEnum);
       generated = `simpleEnum([${values.map((v) => `'${v.name}'`).join(', ')}])`;
     } else {
-      generated = `z.union([${values
-        .map((v) => {
-          if (isNull(v.value)) {
-            return `z.object({ __kind: z.literal('${v.name}') })`;
-          }
+      const members = values.map((v) => {
+        if (isNull(v.value)) {
+          return `z.object({ __kind: z.literal('${v.name}') })`;
+        }
+
+        // if the struct has no name, it is not actually a struct but an enum variant w/ named fields
+        if (v.value.type === 'struct' && v.value.name === undefined) {
+          const value = this.generateStruct({
+            ...v.value,
+            additionalFields: {
+              __kind: `z.literal('${v.name}')`,
+            },
+          });
 
-          // if the struct has no name, it is not actually a struct but an enum variant w/ named fields
-          if (v.value.type === 'struct' && v.value.name === undefined) {
-            const value = this.generateStruct({
-              ...v.value,
-              additionalFields: {
-                __kind: `z.literal('${v.name}')`,
-              },
-            });
+          dependencies.push(value);
 
-            dependencies.push(value);
+          return value.toString();
+        }
 
-            return value.toString();
-          }
+        const value = this.generateResolvedType(v.value);
 
-          const value = this.generateResolvedType(v.value);
+        dependencies.push(value);
 
-          dependencies.push(value);
+        return `z.object({ __kind: z.literal('${v.name}'), value: ${value.toString()} })`;
+      });
 
-          return `z.object({ __kind: z.literal('${v.name}'), value: ${value.toString()} })`;
-        })
-        .join(', ')}])`;
+      // `z.union` requires at least two members
+      generated = members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
     }
 
     this.registry.types.set(def.name, new Code(generated, dependencies));
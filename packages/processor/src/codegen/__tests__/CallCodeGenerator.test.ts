@@ -0,0 +1,47 @@
+import * as fs from 'fs/promises';
+import { describe, expect, it, vi } from 'vitest';
+import CallCodeGenerator from '../CallCodeGenerator';
+
+vi.mock('fs/promises');
+
+describe(CallCodeGenerator, () => {
+  it('writes the call modules to the calls directory', async () => {
+    const spy = vi.spyOn(fs, 'writeFile');
+
+    const modules = [
+      ...new CallCodeGenerator().generate({
+        PalletOne: {
+          request_swap: {
+            type: 'struct',
+            fields: {
+              amount: { type: 'primitive', name: 'u128' },
+              call: { type: 'primitive', name: 'Call' },
+            },
+          },
+          cancel: { type: 'primitive', name: 'null' },
+        },
+      }),
+    ];
+
+    for (const module of modules) {
+      await module.writeFile(
+        'topLevelDir',
+        module.isCommon() ? 'hello world, this is a changelog' : undefined,
+      );
+    }
+
+    expect(spy.mock.calls.map(([file]) => file)).toEqual([
+      'topLevelDir/palletOne/calls/requestSwap.ts',
+      'topLevelDir/palletOne/calls/cancel.ts',
+      'topLevelDir/calls/common.ts',
+      'topLevelDir/calls/CHANGELOG.md',
+    ]);
+    expect(spy.mock.calls[0][1]).toMatchInlineSnapshot(`
+      "import { z } from 'zod';
+      import { numberOrHex } from '../../calls/common';
+
+      export const palletOneRequestSwap = z.object({ amount: numberOrHex, call: z.unknown() });
+      "
+    `);
+  });
+});
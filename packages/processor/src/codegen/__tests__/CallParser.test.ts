@@ -0,0 +1,40 @@
+import { TypeDefInfo } from '@polkadot/types';
+import type { Metadata } from '@polkadot/types';
+import type { PalletMetadataV14 } from '@polkadot/types/interfaces';
+import { describe, expect, it } from 'vitest';
+import CallParser from '../CallParser';
+
+describe(CallParser, () => {
+  const parser = new CallParser({ generatedDir: 'generated' });
+  parser['metadata'] = {} as Metadata;
+
+  it('reads the calls of a pallet', () => {
+    const calls = { type: 1 };
+
+    expect(parser['getItems']({ calls: { isSome: true, unwrap: () => calls } } as never)).toBe(
+      calls,
+    );
+    expect(
+      parser['getItems']({ calls: { isSome: false } } as unknown as PalletMetadataV14),
+    ).toBeNull();
+  });
+
+  it('skips the placeholders of removed calls', () => {
+    expect(parser['isItem']('__Unused0')).toBe(false);
+    expect(parser['isItem']('request_swap_deposit_address')).toBe(true);
+  });
+
+  it('does not recurse into nested calls', () => {
+    expect(
+      parser['resolveType']({
+        info: TypeDefInfo.Si,
+        type: 'Lookup244',
+        lookupName: 'PalletCfPoolsCall',
+      }),
+    ).toEqual({ type: 'primitive', name: 'Call' });
+    expect(parser['resolveType']({ info: TypeDefInfo.Plain, type: 'u32' })).toEqual({
+      type: 'primitive',
+      name: 'u32',
+    });
+  });
+});
@@ -247,6 +247,27 @@ describe(CodeGenerator, () => {
     }
   });
 
+  it('generates an enum with a single variant', async () => {
+    const modules = [
+      ...new CodeGenerator().generate({
+        PalletOne: {
+          EventOne: {
+            type: 'enum',
+            name: 'singleVariant',
+            values: [{ name: 'One', value: { type: 'primitive', name: 'u32' } }],
+          },
+        },
+      }),
+    ];
+
+    expect(await modules[1].toFormattedString()).toMatchInlineSnapshot(`
+      "import { z } from 'zod';
+
+      export const singleVariant = z.object({ __kind: z.literal('One'), value: z.number() });
+      "
+    `);
+  });
+
   it('throws for new chains', () => {
     expect(() => [
       ...new CodeGenerator().generate({
@@ -0,0 +1,145 @@
+import { Block, Call, IndexerEvent, IndexerExtrinsic, JsonValue } from './types';
+
+export type EventFixture = { name: string; args?: JsonValue };
+
+export type CallFixture = {
+  name: string;
+  args?: JsonValue;
+  success?: boolean;
+  // emitted while the extrinsic of the call was applied
+  events?: EventFixture[];
+};
+
+export type BlockFixture = {
+  specId?: string;
+  timestamp?: Date;
+  calls?: CallFixture[];
+  // emitted outside of any extrinsic
+  events?: EventFixture[];
+};
+
+const toHash = (height: number, fork: string) =>
+  `0x${fork}${height.toString(16).padStart(64 - fork.length, '0')}`;
+
+// builds a chain of synthetic blocks, starting at the genesis block, to feed to an
+// `InMemoryIndexerStore`
+export default class ChainBuilder {
+  private readonly blocks: Block[];
+  private readonly specId: string;
+  private readonly fork: string;
+
+  constructor({
+    specId = 'chainflip-node@160',
+    fork = 'a',
+    blocks = [],
+  }: { specId?: string; fork?: string; blocks?: Block[] } = {}) {
+    this.specId = specId;
+    this.fork = fork;
+    this.blocks = blocks;
+  }
+
+  private get nextHeight() {
+    return (this.blocks.at(-1)?.height ?? -1) + 1;
+  }
+
+  addBlock({ specId = this.specId, timestamp, calls = [], events = [] }: BlockFixture = {}): this {
+    const height = this.nextHeight;
+    const blockId = `${height.toString().padStart(10, '0')}-${this.fork}`;
+    const block: Block = {
+      id: blockId,
+      height,
+      hash: toHash(height, this.fork),
+      parentHash: this.blocks.at(-1)?.hash ?? toHash(0, ''),
+      stateRoot: '0x',
+      extrinsicsRoot: '0x',
+      timestamp: timestamp ?? new Date(height * 6_000),
+      validator: null,
+      specId,
+      extrinsics: [],
+      calls: [],
+      events: [],
+    };
+
+    const pushEvent = ({ name, args = null }: EventFixture, extrinsic: IndexerExtrinsic | null) => {
+      const indexInBlock = block.events.length;
+      const event: IndexerEvent = {
+        id: `${blockId}-${indexInBlock.toString().padStart(6, '0')}`,
+        blockId,
+        indexInBlock,
+        phase: extrinsic ? 'ApplyExtrinsic' : 'Finalization',
+        extrinsicId: extrinsic?.id ?? null,
+        callId: extrinsic?.callId ?? null,
+        name,
+        args,
+        pos: indexInBlock,
+        extrinsic,
+      };
+      block.events.push(event);
+    };
+
+    calls.forEach(({ name, args = null, success = true, events: callEvents = [] }) => {
+      const indexInBlock = block.extrinsics.length;
+      const extrinsicId = `${blockId}-${indexInBlock.toString().padStart(6, '0')}`;
+      const extrinsic: IndexerExtrinsic = {
+        id: extrinsicId,
+        blockId,
+        indexInBlock,
+        version: 4,
+        signature: null,
+        callId: extrinsicId,
+        fee: 0,
+        tip: 0,
+        success,
+        error: null,
+        pos: indexInBlock,
+        hash: toHash(height * 10_000 + indexInBlock, `e${this.fork}`),
+      };
+      const call: Call = {
+        id: extrinsicId,
+        parentId: null,
+        blockId,
+        extrinsicId,
+        name,
+        args,
+        success,
+        error: null,
+        origin: null,
+        pos: indexInBlock,
+        extrinsic,
+      };
+
+      block.extrinsics.push(extrinsic);
+      block.calls.push(call);
+      callEvents.forEach((event) => {
+        pushEvent(event, extrinsic);
+      });
+    });
+
+    events.forEach((event) => {
+      pushEvent(event, null);
+    });
+
+    this.blocks.push(block);
+
+    return this;
+  }
+
+  addBlocks(count: number, fixture?: BlockFixture): this {
+    for (let i = 0; i < count; i += 1) this.addBlock(fixture);
+    return this;
+  }
+
+  // starts a competing chain that diverges after the given height, `fork` is a short
+  // non-zero hex string that keeps the block hashes of the chains apart
+  forkAt(height: number, fork: string): ChainBuilder {
+    return new ChainBuilder({
+      specId: this.specId,
+      fork,
+      blocks: this.blocks.filter((block) => block.height <= height),
+    });
+  }
+
+  build(): Block[] {
+    return [...this.blocks];
+  }
+}
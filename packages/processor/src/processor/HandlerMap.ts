@@ -47,9 +47,10 @@ export default class HandlerMap<T extends string, U> {
       );
   }
 
-  getHandler(name: T, specId: string): U | null {
+  getHandler(name: T, specId: string | number): U | null {
     // the specId is in the format of "chainflip-node@<specId>"
-    const specNumber = Number.parseInt(specId.split('@')[1], 10);
+    const specNumber =
+      typeof specId === 'number' ? specId : Number.parseInt(specId.split('@')[1], 10);
 
     if (Number.isNaN(specNumber)) throw new Error('Invalid specId');
 
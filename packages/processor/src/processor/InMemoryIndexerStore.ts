@@ -0,0 +1,35 @@
+import { Block, BlockFilter, IndexerStore } from './types';
+import { filterBlock } from './utils';
+
+// serves blocks from memory, e.g. the ones built with a `ChainBuilder`
+export default class InMemoryIndexerStore implements IndexerStore {
+  private readonly blocks = new Map<number, Block>();
+
+  constructor(blocks: Block[] = []) {
+    this.addBlocks(blocks);
+  }
+
+  // replaces blocks at the same height, which can be used to simulate a reorg
+  addBlocks(blocks: Block[]): this {
+    blocks.forEach((block) => this.blocks.set(block.height, block));
+    return this;
+  }
+
+  fetchBlocks(height: number, batchSize: number, filter: BlockFilter = {}): Promise<Block[]> {
+    const blocks: Block[] = [];
+
+    for (let h = height; h < height + batchSize; h += 1) {
+      const block = this.blocks.get(h);
+
+      if (!block) break;
+
+      blocks.push(filterBlock(block, filter));
+    }
+
+    return Promise.resolve(blocks);
+  }
+
+  getLatestHeight(): Promise<number> {
+    return Promise.resolve(Math.max(-1, ...this.blocks.keys()));
+  }
+}
@@ -0,0 +1,208 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { BlockRef, DeadLetter, ProcessorStore, Snapshot, State } from './types';
+
+type ProcessorRecord = { state: State; blocks: BlockRef[]; deadLetters: DeadLetter[] };
+
+/**
+ * keeps the processor state and whatever the handlers write to `data` in memory,
+ * changes made in a transaction are discarded if it throws or times out
+ */
+export default class InMemoryProcessorStore<D = Record<string, unknown>, Ev = null, Ex = null>
+  implements ProcessorStore<Ev, Ex>
+{
+  data: D;
+
+  private processors: Partial<Record<string, ProcessorRecord>> = {};
+
+  // kept apart from the processors to be able to rebuild their state from them
+  private snapshots: Snapshot[] = [];
+
+  // the data as it was before a block was processed, keyed by processor name and block hash
+  private readonly history = new Map<string, D>();
+
+  private lock = Promise.resolve();
+
+  private readonly eventInfo: (blockId: number, indexInBlock: number) => Ev;
+
+  private readonly extrinsicInfo: (blockHeight: number, indexInBlock: number) => Ex;
+
+  constructor({
+    data,
+    getEventInfo = () => null as Ev,
+    getExtrinsicInfo = () => null as Ex,
+  }: {
+    data: D;
+    getEventInfo?: (blockId: number, indexInBlock: number) => Ev;
+    getExtrinsicInfo?: (blockHeight: number, indexInBlock: number) => Ex;
+  }) {
+    this.data = data;
+    this.eventInfo = getEventInfo;
+    this.extrinsicInfo = getExtrinsicInfo;
+  }
+
+  // transactions run one after the other so that concurrent processors don't overwrite
+  // each others changes
+  transaction<R>(
+    fn: (store: Exclude<this, 'transaction'>) => Promise<R>,
+    options: { timeout?: number } = {},
+  ): Promise<R> {
+    const result = this.lock.then(() => this.runTransaction(fn, options));
+    this.lock = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  private async runTransaction<R>(
+    fn: (store: Exclude<this, 'transaction'>) => Promise<R>,
+    { timeout }: { timeout?: number },
+  ): Promise<R> {
+    const txClient = Object.create(Object.getPrototypeOf(this) as object) as this;
+    Object.assign(txClient, this);
+    txClient.data = structuredClone(this.data);
+    txClient.processors = structuredClone(this.processors);
+    txClient.snapshots = structuredClone(this.snapshots);
+    txClient.lock = Promise.resolve();
+
+    const controller = new AbortController();
+
+    const result = await Promise.race([
+      fn(txClient as Exclude<this, 'transaction'>),
+      ...(timeout === undefined
+        ? []
+        : [
+            sleep(timeout, undefined, { signal: controller.signal }).then(() => {
+              throw new Error(`transaction timed out after ${timeout}ms`);
+            }),
+          ]),
+    ]).finally(() => {
+      controller.abort();
+    });
+
+    // remember the data from before the block that was processed, reverts don't count
+    Object.entries(txClient.processors).forEach(([name, processor]) => {
+      const block = processor?.blocks.at(-1);
+      const previous = this.processors[name]?.blocks.at(-1);
+      if (block && block.height > (previous?.height ?? -1)) {
+        this.history.set(`${name}-${block.hash}`, this.data);
+      }
+    });
+
+    this.data = txClient.data;
+    this.processors = txClient.processors;
+    this.snapshots = txClient.snapshots;
+
+    return result;
+  }
+
+  initializeState(processorName: string, startHeight: number, endHeight?: number): Promise<State> {
+    this.processors[processorName] ??= {
+      state: {
+        id: Object.keys(this.processors).length + 1,
+        name: processorName,
+        height: startHeight,
+        endHeight: endHeight ?? null,
+      },
+      blocks: [],
+      deadLetters: [],
+    };
+
+    return this.getCurrentState(processorName);
+  }
+
+  getCurrentState(processorName: string): Promise<State> {
+    const processor = this.processors[processorName];
+
+    if (!processor) return Promise.reject(new Error(`unknown processor "${processorName}"`));
+
+    return Promise.resolve({ ...processor.state });
+  }
+
+  updateState(processorName: string, height: number, hash?: string): Promise<boolean> {
+    const processor = this.processors[processorName];
+
+    if (!processor) return Promise.resolve(false);
+
+    processor.state.height = height;
+    processor.blocks = processor.blocks.filter((block) => block.height < height);
+    if (hash) processor.blocks.push({ height, hash });
+
+    return Promise.resolve(true);
+  }
+
+  getEventInfo(blockId: number, indexInBlock: number): Promise<Ev> {
+    return Promise.resolve(this.eventInfo(blockId, indexInBlock));
+  }
+
+  getExtrinsicInfo(blockHeight: number, indexInBlock: number): Promise<Ex> {
+    return Promise.resolve(this.extrinsicInfo(blockHeight, indexInBlock));
+  }
+
+  revertBlock(processorName: string, block: BlockRef): Promise<void> {
+    const data = this.history.get(`${processorName}-${block.hash}`);
+
+    if (data === undefined) {
+      return Promise.reject(new Error(`block ${block.height} was not processed by this store`));
+    }
+
+    this.data = structuredClone(data);
+
+    const processor = this.processors[processorName];
+    if (processor) {
+      processor.deadLetters = processor.deadLetters.filter(
+        ({ blockHeight }) => blockHeight < block.height,
+      );
+    }
+
+    this.snapshots = this.snapshots.filter(
+      (snapshot) => snapshot.processorName !== processorName || snapshot.height < block.height,
+    );
+
+    return Promise.resolve();
+  }
+
+  getRecentBlocks(processorName: string, limit: number): Promise<BlockRef[]> {
+    return Promise.resolve(this.processors[processorName]?.blocks.slice(-limit) ?? []);
+  }
+
+  addDeadLetter(deadLetter: DeadLetter): Promise<void> {
+    const processor = this.processors[deadLetter.processorName];
+
+    if (!processor) {
+      return Promise.reject(new Error(`unknown processor "${deadLetter.processorName}"`));
+    }
+
+    processor.deadLetters.push(deadLetter);
+
+    return Promise.resolve();
+  }
+
+  getDeadLetters(processorName: string): Promise<DeadLetter[]> {
+    return Promise.resolve(structuredClone(this.processors[processorName]?.deadLetters ?? []));
+  }
+
+  removeDeadLetter({ processorName, kind, id }: DeadLetter): Promise<void> {
+    const processor = this.processors[processorName];
+
+    if (processor) {
+      processor.deadLetters = processor.deadLetters.filter(
+        (deadLetter) => deadLetter.kind !== kind || deadLetter.id !== id,
+      );
+    }
+
+    return Promise.resolve();
+  }
+
+  saveSnapshot(snapshot: Snapshot): Promise<void> {
+    this.snapshots.push(structuredClone(snapshot));
+
+    return Promise.resolve();
+  }
+
+  getLatestSnapshot(processorName: string): Promise<Snapshot | null> {
+    const snapshot = this.snapshots.findLast((s) => s.processorName === processorName);
+
+    return Promise.resolve(snapshot ? structuredClone(snapshot) : null);
+  }
+}
@@ -3,14 +3,25 @@ import assert from 'assert';
 import { setTimeout as sleep } from 'timers/promises';
 import HandlerMap from './HandlerMap';
 import {
+  BackfillOptions,
   Block,
+  BlockFilter,
+  BlockRef,
   Call,
+  CallHandler,
+  DeadLetter,
+  DryRunResult,
+  ErrorPolicy,
   EventHandler,
   EventInfo,
   ExtrinsicInfo,
+  HandlerTimings,
+  IndexerEvent,
   IndexerExtrinsic,
   IndexerStore,
+  JsonValue,
   Logger,
+  MetricsSink,
   ProcessorOptions,
   ProcessorStore,
   State,
@@ -37,6 +48,43 @@ export function timedMethod<P extends ProcessorStore<any, any>, I extends Indexe
   };
 }
 
+const summariseHandlerTimings = (timings: Record<string, number[]>): HandlerTimings => {
+  let handlersTotal = 0;
+  let handlerCount = 0;
+
+  return Object.fromEntries(
+    Object.entries(timings)
+      .map(([key, value]) => {
+        const total = sum(value);
+        handlerCount += value.length;
+        handlersTotal += total;
+        return [key, { average: average(value), count: value.length, total }] as const;
+      })
+      .concat([
+        [
+          'overall',
+          { total: handlersTotal, count: handlerCount, average: handlersTotal / handlerCount },
+        ],
+      ]),
+  );
+};
+
+type Batch = { height: number; size: number; blocks: Promise<Block[]> };
+
+// thrown to roll back the transactions of a dry run
+class Rollback extends Error {}
+
+// thrown by the handler of an event or call to apply its error policy to the block
+class HandlerError extends Error {
+  constructor(
+    readonly deadLetter: DeadLetter,
+    readonly policy: ErrorPolicy,
+    override readonly cause: unknown,
+  ) {
+    super(deadLetter.error);
+  }
+}
+
 export default class Processor<P extends ProcessorStore<unknown, unknown>, I extends IndexerStore> {
   batchSize = 50;
 
@@ -44,30 +92,114 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
 
   running = false;
 
-  protected readonly name: string;
+  prefetchDepth = 1;
+
+  pollInterval = 5_000;
+
+  snapshotInterval?: number;
+
+  // how long to wait after the first empty poll at the tip, the wait doubles with every further
+  // empty poll up to `pollInterval`
+  minPollInterval = 250;
+
+  // catching up fetches batches ahead, at the tip the indexer is polled for new blocks right
+  // after a batch with blocks and with a growing wait after empty ones
+  mode: 'catch-up' | 'tip' = 'catch-up';
+
+  protected readonly adaptiveBatchSize?: { min: number; max: number };
+
+  /** the number of processed blocks that are remembered to find the common ancestor of a reorg */
+  maxReorgDepth = 100;
+
+  readonly name: string;
 
   protected readonly eventHandlerMap: HandlerMap<string, EventHandler<P>>;
 
   protected readonly handledEvents: Set<string>;
 
+  protected readonly callHandlerMap: HandlerMap<string, CallHandler<P>>;
+
+  protected readonly handledCalls: Set<string>;
+
+  private readonly eventErrorPolicies: HandlerMap<string, ErrorPolicy>;
+
+  private readonly callErrorPolicies: HandlerMap<string, ErrorPolicy>;
+
   protected readonly startHeight: number = -1;
 
+  protected readonly metrics?: MetricsSink;
+
   protected timings = {
     extrinsicHandlers: 0,
     eventHandlers: {} as Record<string, number[]>,
+    callHandlers: {} as Record<string, number[]>,
   } as Record<string, number | Record<string, number[]>>;
 
+  private recentBlocks: BlockRef[] = [];
+
+  // the events and calls of the current block that are dead lettered instead of handled
+  private readonly skipped = new Map<string, DeadLetter>();
+
+  // aborts the fetches and sleeps of the processor once it is stopped
+  private abortController = new AbortController();
+
+  // settles once `start` returns
+  private stopped: Promise<void> = Promise.resolve();
+
+  // the blocks of a backfill, the processor stops after the last one
+  private range?: { from: number; to: number };
+
   constructor(
-    { batchSize, transactionTimeout, eventHandlers, name }: ProcessorOptions<P>,
+    private readonly options: ProcessorOptions<P>,
     private processorStore: P,
     private indexerStore: I,
     private logger: Logger,
   ) {
+    const {
+      batchSize,
+      transactionTimeout,
+      eventHandlers,
+      callHandlers = [],
+      name,
+      metrics,
+      errorPolicy = { type: 'halt' },
+      prefetchDepth,
+      adaptiveBatchSize,
+      pollInterval,
+      snapshotInterval,
+    } = options;
     if (batchSize) this.batchSize = batchSize;
     if (transactionTimeout) this.transactionTimeout = transactionTimeout;
+    if (prefetchDepth !== undefined) this.prefetchDepth = prefetchDepth;
+    if (pollInterval !== undefined) this.pollInterval = pollInterval;
+    this.snapshotInterval = snapshotInterval;
+    if (adaptiveBatchSize) {
+      this.adaptiveBatchSize = adaptiveBatchSize;
+      this.batchSize = Math.min(
+        Math.max(this.batchSize, adaptiveBatchSize.min),
+        adaptiveBatchSize.max,
+      );
+    }
     this.eventHandlerMap = new HandlerMap(eventHandlers);
     this.handledEvents = new Set(eventHandlers.flatMap(({ name }) => name));
+    this.callHandlerMap = new HandlerMap(callHandlers);
+    this.handledCalls = new Set(callHandlers.map(({ name }) => name));
+    this.eventErrorPolicies = new HandlerMap(
+      eventHandlers.map(({ name, spec, errorPolicy: policy }) => ({
+        name,
+        spec,
+        handler: policy ?? errorPolicy,
+      })),
+    );
+    this.callErrorPolicies = new HandlerMap(
+      callHandlers.map(({ name, spec, errorPolicy: policy }) => ({
+        name,
+        spec,
+        handler: policy ?? errorPolicy,
+      })),
+    );
     this.name = name;
+    this.metrics = metrics;
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -75,6 +207,7 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
     this.timings = {
       extrinsicHandlers: 0,
       eventHandlers: {} as Record<string, number[]>,
+      callHandlers: {} as Record<string, number[]>,
     };
 
     return Promise.resolve();
@@ -85,8 +218,28 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
     // do nothing by default
   }
 
+  /**
+   * returns the state that is needed to continue processing after the given block, e.g.
+   * the contents of the tables the handlers write to, snapshots are only written if this
+   * is overridden
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected createSnapshot(_store: P, _block: Block): Promise<JsonValue | undefined> {
+    return Promise.resolve(undefined);
+  }
+
+  // restores the state returned by `createSnapshot`
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected restoreSnapshot(_store: P, _state: JsonValue): Promise<void> {
+    return Promise.reject(new Error(`processor ${this.name} can't restore snapshots`));
+  }
+
   protected initialize(endHeight?: number): Promise<State> {
-    return this.processorStore.initializeState(this.name, this.startHeight, endHeight);
+    return this.processorStore.initializeState(this.name, this.initialHeight, endHeight);
+  }
+
+  private get initialHeight(): number {
+    return this.range ? this.range.from - 1 : this.startHeight;
   }
 
   protected getEventNames(): string[] | undefined {
@@ -94,18 +247,20 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
   }
 
   protected getCallNames(): string[] | undefined {
-    return undefined;
+    // without call handlers, subclasses overriding `handleExtrinsic` receive all calls
+    return this.handledCalls.size === 0 ? undefined : [...this.handledCalls];
+  }
+
+  getFilter(): BlockFilter {
+    return { eventNames: this.getEventNames(), callNames: this.getCallNames() };
   }
 
   @timedMethod
-  private async fetchBlocks(height: number): Promise<Block[]> {
+  private async fetchBlocks(height: number, batchSize: number): Promise<Block[]> {
     const start = performance.now();
     for (let i = 0; i < 5 && this.running; i += 1) {
       try {
-        const blocks = await this.indexerStore.fetchBlocks(height, this.batchSize, {
-          eventNames: this.getEventNames(),
-          callNames: this.getCallNames(),
-        });
+        const blocks = await this.indexerStore.fetchBlocks(height, batchSize, this.getFilter());
 
         this.logger.info('blocks fetched', {
           height,
@@ -117,6 +272,7 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
         return blocks;
       } catch (error) {
         this.logger.error('failed to fetch batch', { error });
+        this.metrics?.fetchRetry(this.name);
       }
     }
 
@@ -143,13 +299,94 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
       timing[name] ??= [];
       const start = performance.now();
       await handler(args);
-      timing[name].push(performance.now() - start);
+      const duration = performance.now() - start;
+      timing[name].push(duration);
+      this.metrics?.handlerDuration(this.name, name, duration);
     }) as EventHandler<P>;
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  protected async handleExtrinsic(_store: P, _block: Block, _call: Call): Promise<void> {
-    // do nothing by default
+  protected getCallHandler(name: string, specId: string) {
+    const handler = this.callHandlerMap.getHandler(name, specId);
+
+    if (handler === null) return null;
+
+    this.timings['callHandlers'] ??= {};
+    const timing = this.timings['callHandlers'] as Record<string, number[]>;
+    return (async (args) => {
+      timing[name] ??= [];
+      const start = performance.now();
+      await handler(args);
+      const duration = performance.now() - start;
+      timing[name].push(duration);
+      this.metrics?.handlerDuration(this.name, name, duration);
+    }) as CallHandler<P>;
+  }
+
+  private handlerError(
+    kind: DeadLetter['kind'],
+    item: IndexerEvent | Call,
+    block: Block,
+    error: unknown,
+  ): HandlerError {
+    const policies = kind === 'event' ? this.eventErrorPolicies : this.callErrorPolicies;
+
+    return new HandlerError(
+      {
+        processorName: this.name,
+        kind,
+        id: item.id,
+        name: item.name,
+        blockHeight: block.height,
+        args: item.args,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      policies.getHandler(item.name, block.specId) ?? { type: 'halt' },
+      error,
+    );
+  }
+
+  // persists the event or call as a dead letter if its handler failed before
+  private async deadLetter(store: P, kind: DeadLetter['kind'], item: IndexerEvent | Call) {
+    const deadLetter = this.skipped.get(`${kind}:${item.id}`);
+
+    if (!deadLetter) return false;
+
+    assert(store.addDeadLetter !== undefined, "the processor store can't persist dead letters");
+    await store.addDeadLetter(deadLetter);
+
+    return true;
+  }
+
+  protected async handleExtrinsic(store: P, block: Block, call: Call): Promise<void> {
+    if (!this.handledCalls.has(call.name)) return;
+
+    if (await this.deadLetter(store, 'call', call)) return;
+
+    const handler = this.getCallHandler(call.name, block.specId);
+
+    if (!handler) {
+      this.logger.customError('processBlock error: Error routing call to a handler', {
+        alertCode: 'CallHandlerError',
+      });
+      return;
+    }
+
+    try {
+      await handler({ prisma: store, call, extrinsic: call.extrinsic, block });
+    } catch (error) {
+      this.logger.customError(
+        `processBlock error: Error handling call ${call.name}`,
+        { alertCode: 'CallHandlerError' },
+        {
+          error,
+          callName: call.name,
+          extrinsicIndex: call.extrinsic.indexInBlock,
+          blockHeight: block.height,
+          specId: block.specId,
+        },
+      );
+      throw this.handlerError('call', call, block, error);
+    }
   }
 
   @timedMethod
@@ -162,6 +399,49 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
     return store.getExtrinsicInfo(blockHeight, extrinsic.indexInBlock) as ExtrinsicInfo<P>;
   }
 
+  protected async handleEvent(store: P, block: Block, event: IndexerEvent): Promise<void> {
+    if (!this.handledEvents.has(event.name)) return;
+
+    const handler = this.getEventHandler(event.name, block.specId);
+
+    if (!handler) {
+      this.logger.customError('processBlock error: Error routing event to a handler', {
+        alertCode: 'EventHandlerError',
+      });
+      return;
+    }
+
+    if (await this.deadLetter(store, 'event', event)) return;
+
+    try {
+      const [eventInfo, extrinsicInfo] = await Promise.all([
+        this.getEventInfo(store, block.height, event.indexInBlock),
+        this.getExtrinsicInfo(store, block.height, event.extrinsic),
+      ]);
+
+      await handler({
+        prisma: store,
+        block,
+        event,
+        eventInfo,
+        extrinsicInfo,
+      });
+    } catch (error) {
+      this.logger.customError(
+        `processBlock error: Error handling event ${event.name}`,
+        { alertCode: 'EventHandlerError' },
+        {
+          error,
+          eventName: event.name,
+          indexInBlock: event.indexInBlock,
+          blockHeight: block.height,
+          specId: block.specId,
+        },
+      );
+      throw this.handlerError('event', event, block, error);
+    }
+  }
+
   @timedMethod
   protected async handleBlock(store: P, block: Block) {
     let start = performance.now();
@@ -172,76 +452,457 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
 
     start = performance.now();
     for (const event of block.events) {
-      if (this.handledEvents.has(event.name)) {
-        const handler = this.getEventHandler(event.name, block.specId);
-        if (!handler) {
-          this.logger.customError('processBlock error: Error routing event to a handler', {
-            alertCode: 'EventHandlerError',
-          });
-          continue;
-        }
+      await this.handleEvent(store, block, event);
+    }
+
+    this.logger.info(`processBlock ${block.height} timings:`, {
+      timings: this.summariseTimings(),
+    });
+  }
+
+  private summariseTimings(): Record<string, number | HandlerTimings> {
+    return {
+      ...(this.timings as Record<string, number>),
+      eventHandlers: summariseHandlerTimings(
+        this.timings.eventHandlers as Record<string, number[]>,
+      ),
+      callHandlers: summariseHandlerTimings(this.timings.callHandlers as Record<string, number[]>),
+    };
+  }
+
+  private async updateState(store: P, block: BlockRef) {
+    const updated = await store.updateState(this.name, block.height, block.hash);
+
+    assert(updated, 'failed to update state, maybe another process is running');
+  }
+
+  private trackBlock(block: BlockRef) {
+    this.recentBlocks.push({ height: block.height, hash: block.hash });
+
+    if (this.recentBlocks.length > this.maxReorgDepth) this.recentBlocks.shift();
+
+    this.metrics?.blockProcessed(this.name, block.height);
+  }
+
+  private async sleep(ms: number) {
+    await sleep(ms, undefined, { signal: this.abortController.signal }).catch(() => undefined);
+  }
+
+  // resolves with the fallback if the processor is stopped before the promise settles
+  private abortable<T>(promise: Promise<T>, fallback: T): Promise<T> {
+    const { signal } = this.abortController;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        resolve(fallback);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+
+  private fetchBatch(height: number): Batch {
+    const size = this.batchSize;
+
+    return { height, size, blocks: this.fetchBlocks(height, size) };
+  }
+
+  private setMode(mode: Processor<P, I>['mode']) {
+    if (this.mode === mode) return;
+
+    this.logger.info(`switching to ${mode} mode`);
+    this.mode = mode;
+  }
+
+  private adaptBatchSize(blocks: number, handledItems: number, longestTransaction: number) {
+    if (!this.adaptiveBatchSize || blocks === 0) return;
+
+    const { min, max } = this.adaptiveBatchSize;
+    let { batchSize } = this;
+
+    if (longestTransaction > this.transactionTimeout / 2) {
+      batchSize = Math.max(min, Math.floor(batchSize / 2));
+    } else if (handledItems < blocks) {
+      batchSize = Math.min(max, batchSize * 2);
+    }
+
+    if (batchSize === this.batchSize) return;
+
+    this.logger.info(`changing batch size from ${this.batchSize} to ${batchSize}`, {
+      handledItems,
+      longestTransaction,
+    });
+    this.batchSize = batchSize;
+  }
+
+  private countHandledItems(block: Block): number {
+    return (
+      block.events.filter((event) => this.handledEvents.has(event.name)).length +
+      block.calls.filter((call) => this.handledCalls.has(call.name)).length
+    );
+  }
+
+  private async reportIndexerHeight() {
+    if (!this.metrics || !this.indexerStore.getLatestHeight) return;
+
+    try {
+      this.metrics.indexerHeight(this.name, await this.indexerStore.getLatestHeight());
+    } catch (error) {
+      this.logger.error('failed to get the latest indexer height', { error });
+    }
+  }
+
+  private async transaction(fn: (txClient: P) => Promise<void>) {
+    try {
+      await this.processorStore.transaction(fn, { timeout: this.transactionTimeout });
+    } catch (error) {
+      this.metrics?.transactionFailure(this.name);
+      throw error;
+    }
+  }
+
+  /**
+   * processes the block in a transaction, a failing handler rolls back the whole block
+   * which is then processed again according to the error policy of the handler, returns
+   * `false` if the processor was stopped before the block was committed
+   */
+  private async processBlock(block: Block): Promise<boolean> {
+    const attempts = new Map<string, number>();
+
+    try {
+      for (;;) {
         try {
-          const [eventInfo, extrinsicInfo] = await Promise.all([
-            this.getEventInfo(store, block.height, event.indexInBlock),
-            this.getExtrinsicInfo(store, block.height, event.extrinsic),
-          ]);
-
-          await handler({
-            prisma: store,
-            block,
-            event,
-            eventInfo,
-            extrinsicInfo,
+          await this.transaction(async (txClient) => {
+            await this.preBlockHook(txClient, block);
+            await this.handleBlock(txClient, block);
+            await this.postBlockHook(txClient, block);
+            await this.writeSnapshot(txClient, block);
+            await this.updateState(txClient, block);
           });
+          return true;
         } catch (error) {
+          if (!(error instanceof HandlerError)) throw error;
+
+          const { deadLetter, policy } = error;
+          const key = `${deadLetter.kind}:${deadLetter.id}`;
+          const attempt = (attempts.get(key) ?? 0) + 1;
+          attempts.set(key, attempt);
+
+          if (policy.type === 'retry' && attempt <= policy.retries) {
+            this.logger.info(`retrying block ${block.height}`, { attempt, name: deadLetter.name });
+            await this.sleep(policy.backoff?.(attempt) ?? 0);
+            if (!this.running) return false;
+            continue;
+          }
+
+          const action = policy.type === 'retry' ? (policy.fallback ?? 'halt') : policy.type;
+
+          if (action === 'halt') throw error.cause;
+
           this.logger.customError(
-            `processBlock error: Error handling event ${event.name}`,
-            { alertCode: 'EventHandlerError' },
-            {
-              error,
-              eventName: event.name,
-              indexInBlock: event.indexInBlock,
-              blockHeight: block.height,
-              specId: block.specId,
-            },
+            `skipping ${deadLetter.kind} ${deadLetter.name} in block ${block.height}`,
+            { alertCode: 'DeadLetter' },
+            { deadLetter },
           );
-          throw error;
+          this.skipped.set(key, deadLetter);
         }
       }
+    } finally {
+      this.skipped.clear();
     }
+  }
 
-    let eventHandlersTotal = 0;
-    let eventHandlerCount = 0;
-    this.logger.info(`processBlock ${block.height} timings:`, {
-      timings: {
-        ...this.timings,
-        eventHandlers: Object.fromEntries(
-          Object.entries(this.timings.eventHandlers as Record<string, number[]>)
-            .map(([key, value]) => {
-              const total = sum(value);
-              eventHandlerCount += value.length;
-              eventHandlersTotal += total;
-              return [key, { average: average(value), count: value.length, total }] as const;
-            })
-            .concat([
-              [
-                'overall',
-                {
-                  total: eventHandlersTotal,
-                  count: eventHandlerCount,
-                  average: eventHandlersTotal / eventHandlerCount,
-                },
-              ],
-            ]),
-        ),
+  /**
+   * handles the dead lettered events and calls again, e.g. once a fix of the handler is
+   * deployed, and returns the ones that failed again
+   */
+  async replayDeadLetters(): Promise<DeadLetter[]> {
+    assert(
+      this.processorStore.getDeadLetters !== undefined,
+      "the processor store can't persist dead letters",
+    );
+
+    const failed: DeadLetter[] = [];
+
+    for (const deadLetter of await this.processorStore.getDeadLetters(this.name)) {
+      const names = [deadLetter.name];
+      const blocks = await this.indexerStore.fetchBlocks(
+        deadLetter.blockHeight,
+        1,
+        deadLetter.kind === 'event'
+          ? { eventNames: names, callNames: [] }
+          : { eventNames: [], callNames: names },
+      );
+      const block = blocks.at(0);
+
+      assert(
+        block?.height === deadLetter.blockHeight,
+        `the indexer has no block at height ${deadLetter.blockHeight}`,
+      );
+
+      const handlers = deadLetter.kind === 'event' ? this.eventHandlerMap : this.callHandlerMap;
+
+      // the handler could have been removed since, the dead letter is kept until there is one
+      if (handlers.getHandler(deadLetter.name, block.specId) === null) {
+        failed.push({
+          ...deadLetter,
+          error: `no ${deadLetter.kind} handler for ${deadLetter.name}`,
+        });
+        continue;
+      }
+
+      const items: (IndexerEvent | Call)[] =
+        deadLetter.kind === 'event' ? block.events : block.calls;
+      const item = items.find(({ id }) => id === deadLetter.id);
+
+      assert(item, `the indexer has no ${deadLetter.kind} with id ${deadLetter.id}`);
+
+      try {
+        await this.transaction(async (txClient) => {
+          if (deadLetter.kind === 'event') {
+            await this.handleEvent(txClient, block, item as IndexerEvent);
+          } else {
+            await this.handleExtrinsic(txClient, block, item as Call);
+          }
+          assert(txClient.removeDeadLetter !== undefined);
+          await txClient.removeDeadLetter(deadLetter);
+        });
+        this.logger.info(`replayed ${deadLetter.kind} ${deadLetter.name}`, { id: deadLetter.id });
+      } catch (error) {
+        if (!(error instanceof HandlerError)) throw error;
+        failed.push({ ...deadLetter, error: error.deadLetter.error });
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * runs the given handlers over a range of blocks under a separate state, e.g. to fill a
+   * new table without reprocessing everything else, the backfill resumes where it left
+   * off if it is started again
+   */
+  async backfill({
+    handlers,
+    from,
+    to,
+    name = `${this.name}-backfill`,
+    batchSize = 500,
+    concurrency = 4,
+    signal,
+  }: BackfillOptions): Promise<void> {
+    const { eventHandlers, callHandlers = [] } = this.options;
+    const known = new Set([...eventHandlers, ...callHandlers].map((handler) => handler.name));
+    const unknown = handlers.filter((handler) => !known.has(handler));
+
+    assert(unknown.length === 0, `unknown handlers: ${unknown.join(', ')}`);
+
+    const processor = this.createBackfillProcessor(
+      {
+        ...this.options,
+        name,
+        batchSize,
+        eventHandlers: eventHandlers.filter((handler) => handlers.includes(handler.name)),
+        callHandlers: callHandlers.filter((handler) => handlers.includes(handler.name)),
       },
+      new PipelinedIndexerStore(this.indexerStore, concurrency, to),
+    );
+
+    assert(
+      processor.name === name,
+      `the backfill processor has to be created with the given options, got ${processor.name}`,
+    );
+
+    processor.range = { from, to };
+    // the snapshots would only contain the data of the backfilled handlers
+    processor.snapshotInterval = undefined;
+
+    this.logger.info(`backfilling ${handlers.join(', ')} from ${from} to ${to}`);
+
+    await processor.start({ signal });
+  }
+
+  /**
+   * creates the processor that runs a backfill from the class of this one, so that the
+   * overridden hooks and filters apply to the backfill too, subclasses with constructors
+   * that don't take the arguments of `Processor` have to override this
+   */
+  protected createBackfillProcessor(
+    options: ProcessorOptions<P>,
+    indexerStore: IndexerStore,
+  ): Processor<P, IndexerStore> {
+    const Subclass = this.constructor as new (
+      ...args: ConstructorParameters<typeof Processor<P, IndexerStore>>
+    ) => Processor<P, IndexerStore>;
+
+    return new Subclass(options, this.processorStore, indexerStore, this.logger);
+  }
+
+  /**
+   * runs the handlers over the blocks from `from` to `to` in transactions that are always
+   * rolled back, e.g. to debug an incident without touching the processed data
+   */
+  async dryRun({ from, to }: { from: number; to: number }): Promise<DryRunResult[]> {
+    const results: DryRunResult[] = [];
+
+    for (let height = from; height <= to; ) {
+      const blocks = await this.indexerStore.fetchBlocks(
+        height,
+        Math.min(this.batchSize, to - height + 1),
+        this.getFilter(),
+      );
+
+      if (blocks.length === 0) break;
+
+      for (const block of blocks) {
+        results.push(await this.dryRunBlock(block));
+        height = block.height + 1;
+      }
+    }
+
+    return results;
+  }
+
+  private async dryRunBlock(block: Block): Promise<DryRunResult> {
+    const start = performance.now();
+    let error: DryRunResult['error'];
+
+    try {
+      await this.processorStore.transaction(
+        async (txClient) => {
+          try {
+            await this.preBlockHook(txClient, block);
+            await this.handleBlock(txClient, block);
+            await this.postBlockHook(txClient, block);
+          } catch (e) {
+            if (!(e instanceof HandlerError)) throw e;
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { processorName, ...deadLetter } = e.deadLetter;
+            error = deadLetter;
+          }
+
+          throw new Rollback();
+        },
+        { timeout: this.transactionTimeout },
+      );
+    } catch (e) {
+      if (!(e instanceof Rollback)) throw e;
+    }
+
+    return {
+      height: block.height,
+      duration: performance.now() - start,
+      timings: this.summariseTimings(),
+      error,
+    };
+  }
+
+  private async writeSnapshot(store: P, block: Block) {
+    if (!this.snapshotInterval || block.height % this.snapshotInterval !== 0) return;
+
+    const state = await this.createSnapshot(store, block);
+
+    if (state === undefined) return;
+
+    assert(store.saveSnapshot !== undefined, "the processor store can't save snapshots");
+    await store.saveSnapshot({
+      processorName: this.name,
+      height: block.height,
+      hash: block.hash,
+      state,
     });
   }
 
-  private async updateState(store: P, block: Block) {
-    const updated = await store.updateState(this.name, block.height);
+  /**
+   * continues from the latest snapshot if its block is still part of the chain, returns
+   * the height of the snapshot or `null` if there is none to restore
+   */
+  private async restoreLatestSnapshot(height: number): Promise<number | null> {
+    const snapshot = await this.processorStore.getLatestSnapshot?.(this.name);
 
-    assert(updated, 'failed to update state, maybe another process is running');
+    if (!snapshot || snapshot.height <= height) return null;
+
+    const blocks = await this.indexerStore.fetchBlocks(snapshot.height, 1, {
+      eventNames: [],
+      callNames: [],
+    });
+
+    if (blocks.at(0)?.hash !== snapshot.hash) {
+      this.logger.customError(
+        `the snapshot at block ${snapshot.height} does not match the indexer`,
+        { alertCode: 'SnapshotMismatch' },
+        { height: snapshot.height, hash: snapshot.hash },
+      );
+      return null;
+    }
+
+    await this.transaction(async (txClient) => {
+      await this.restoreSnapshot(txClient, snapshot.state);
+      await this.updateState(txClient, snapshot);
+    });
+
+    this.logger.info(`restored the snapshot at block ${snapshot.height}`);
+
+    return snapshot.height;
+  }
+
+  private isReorg(block: Block): boolean {
+    const lastBlock = this.recentBlocks.at(-1);
+
+    return lastBlock !== undefined && lastBlock.hash !== block.parentHash;
+  }
+
+  /**
+   * reverts processed blocks until the hash of the last processed block matches
+   * the parent hash of the canonical block that follows it, returns the height
+   * of the common ancestor
+   */
+  private async revertToCommonAncestor(block: Block): Promise<number> {
+    assert(
+      this.processorStore.revertBlock !== undefined,
+      `chain reorg detected at block ${block.height} but the processor store can't revert blocks`,
+    );
+
+    this.logger.info(`chain reorg detected at block ${block.height}, reverting blocks`);
+
+    let canonicalChild = block;
+
+    for (let height = block.height - 1; ; height -= 1) {
+      const processed = this.recentBlocks.at(-1);
+
+      assert(
+        processed?.height === height,
+        `unable to find the common ancestor of the chain reorg at block ${block.height}`,
+      );
+
+      if (processed.hash === canonicalChild.parentHash) {
+        this.logger.info(`reverted to common ancestor at block ${height}`);
+        return height;
+      }
+
+      const parent = this.recentBlocks.at(-2);
+
+      await this.transaction(async (txClient) => {
+        assert(txClient.revertBlock !== undefined);
+        await txClient.revertBlock(this.name, processed);
+        const updated = await txClient.updateState(this.name, height - 1, parent?.hash);
+        assert(updated, 'failed to update state, maybe another process is running');
+      });
+
+      this.recentBlocks.pop();
+
+      const blocks = await this.indexerStore.fetchBlocks(height, 1, {
+        eventNames: [],
+        callNames: [],
+      });
+      const canonical = blocks.at(0);
+
+      assert(canonical?.height === height, `the indexer has no block at height ${height}`);
+
+      canonicalChild = canonical;
+    }
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -249,87 +910,200 @@ export default class Processor<P extends ProcessorStore<unknown, unknown>, I ext
     return true;
   }
 
-  stop() {
+  // resolves once the block that is being processed was committed
+  stop(): Promise<void> {
     this.logger.info('stopping processing of blocks');
     this.running = false;
+    this.abortController.abort();
+    return this.stopped;
+  }
+
+  // processes blocks until the processor is stopped or the signal is aborted
+  async start({ signal }: { signal?: AbortSignal } = {}): Promise<void> {
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    const running = this.run();
+    this.stopped = running.then(
+      () => undefined,
+      () => undefined,
+    );
+
+    if (signal?.aborted) void this.stop();
+    signal?.addEventListener(
+      'abort',
+      () => {
+        void this.stop();
+      },
+      { signal: controller.signal },
+    );
+
+    try {
+      await running;
+    } finally {
+      controller.abort();
+    }
   }
 
-  async start() {
+  private async run() {
     this.logger.info('processing blocks');
     this.running = true;
 
     this.logger.info('getting latest state');
-    let { height: lastBlock } = await this.initialize();
+    let { height: lastBlock } = await this.initialize(this.range?.to);
+    if (lastBlock === this.initialHeight) {
+      lastBlock = (await this.restoreLatestSnapshot(lastBlock)) ?? lastBlock;
+    }
+    this.recentBlocks =
+      (await this.processorStore.getRecentBlocks?.(this.name, this.maxReorgDepth)) ?? [];
     this.logger.info(`resuming processing from block ${lastBlock}`);
 
-    let nextBatch: Promise<Block[]> | undefined;
+    // the batches that are fetched ahead, in ascending order
+    let prefetched: Batch[] = [];
 
-    while (this.running) {
-      const blocks = await (nextBatch ?? this.fetchBlocks(lastBlock + 1));
-      let numBlocksProcessed = 0;
-      const start = performance.now();
+    // the polls at the tip that didn't return any blocks since the last block
+    let emptyPolls = 0;
 
-      if (blocks.length === 0) {
-        nextBatch = undefined;
+    // the prefetched batches are of no use anymore
+    const discardPrefetched = () => {
+      prefetched.forEach(({ blocks }) => blocks.catch(() => undefined));
+      prefetched = [];
+    };
 
-        await sleep(5000);
+    try {
+      while (this.running) {
+        const batch = prefetched.shift() ?? this.fetchBatch(lastBlock + 1);
+        const blocks = await this.abortable(batch.blocks, []);
+        let numBlocksProcessed = 0;
+        let numBlocksCommitted = 0;
+        let handledItems = 0;
+        let longestTransaction = 0;
+        const start = performance.now();
 
-        continue;
-      }
+        if (blocks.length === 0) {
+          discardPrefetched();
+          this.setMode('tip');
 
-      nextBatch =
-        blocks.length === this.batchSize
-          ? this.fetchBlocks(lastBlock + blocks.length + 1)
-          : undefined;
+          await this.sleep(Math.min(this.pollInterval, this.minPollInterval * 2 ** emptyPolls));
+          emptyPolls += 1;
 
-      this.logger.info(
-        `processing blocks from ${lastBlock + 1} to ${lastBlock + blocks.length}...`,
-      );
+          continue;
+        }
 
-      for (const block of blocks) {
-        numBlocksProcessed++;
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-        if (!this.running) {
-          break;
+        emptyPolls = 0;
+
+        if (blocks.length < batch.size) {
+          discardPrefetched();
+          this.setMode('tip');
+        } else {
+          this.setMode('catch-up');
+
+          while (prefetched.length < this.prefetchDepth) {
+            const last = prefetched.at(-1) ?? batch;
+            prefetched.push(this.fetchBatch(last.height + last.size));
+          }
         }
-        const state = await this.processorStore.getCurrentState(this.name);
 
-        assert(
-          state.height === lastBlock,
-          'state height is not equal to lastBlock maybe another process is running',
+        this.logger.info(
+          `processing blocks from ${lastBlock + 1} to ${lastBlock + blocks.length}...`,
         );
 
-        assert(lastBlock + 1 === block.height, 'block height is not monotonically increasing');
+        await this.reportIndexerHeight();
 
-        if (state.endHeight !== null && block.height > state.endHeight) {
-          this.logger.info(`reached end height ${state.endHeight}, stopping processing`);
-          this.running = false;
-          break;
-        }
+        for (const block of blocks) {
+          numBlocksProcessed++;
+          if (!this.running) {
+            break;
+          }
+          const state = await this.processorStore.getCurrentState(this.name);
 
-        if (this.shouldProcessBlock(block)) {
-          await this.processorStore.transaction(
-            async (txClient) => {
-              await this.preBlockHook(txClient, block);
-              await this.handleBlock(txClient, block);
-              await this.postBlockHook(txClient, block);
-              await this.updateState(txClient, block);
-            },
-            { timeout: this.transactionTimeout },
+          assert(
+            state.height === lastBlock,
+            'state height is not equal to lastBlock maybe another process is running',
           );
-        } else {
-          await this.updateState(this.processorStore, block);
+
+          assert(lastBlock + 1 === block.height, 'block height is not monotonically increasing');
+
+          if (this.isReorg(block)) {
+            // the prefetched batches continue the reverted chain
+            discardPrefetched();
+            lastBlock = await this.revertToCommonAncestor(block);
+            break;
+          }
+
+          if (state.endHeight !== null && block.height > state.endHeight) {
+            this.logger.info(`reached end height ${state.endHeight}, stopping processing`);
+            this.running = false;
+            break;
+          }
+
+          if (this.shouldProcessBlock(block)) {
+            const transactionStart = performance.now();
+            // stopped while waiting to retry the block
+            if (!(await this.processBlock(block))) break;
+            longestTransaction = Math.max(longestTransaction, performance.now() - transactionStart);
+            handledItems += this.countHandledItems(block);
+          } else {
+            await this.updateState(this.processorStore, block);
+          }
+
+          this.trackBlock(block);
+          lastBlock = block.height;
+          numBlocksCommitted += 1;
+
+          // stops right away instead of waiting for the block after the end of the backfill
+          if (this.range && block.height >= this.range.to) this.running = false;
         }
 
-        lastBlock = block.height;
+        this.adaptBatchSize(numBlocksCommitted, handledItems, longestTransaction);
+
+        const end = performance.now();
+        this.logger.info(
+          `processed ${numBlocksProcessed} blocks in ${
+            end - start
+          } milliseconds, last block: ${lastBlock}`,
+        );
       }
+    } finally {
+      discardPrefetched();
+    }
+  }
+}
 
-      const end = performance.now();
-      this.logger.info(
-        `processed ${numBlocksProcessed} blocks in ${
-          end - start
-        } milliseconds, last block: ${lastBlock}`,
-      );
+// fetches the batches following the requested one in parallel while it is processed
+class PipelinedIndexerStore implements IndexerStore {
+  private readonly batches = new Map<number, Promise<Block[]>>();
+
+  constructor(
+    private readonly indexerStore: IndexerStore,
+    private readonly concurrency: number,
+    private readonly endHeight: number,
+  ) {}
+
+  fetchBlocks(height: number, batchSize: number, filter?: BlockFilter): Promise<Block[]> {
+    if (height > this.endHeight) return Promise.resolve([]);
+
+    this.batches.forEach((_, h) => {
+      if (h < height) this.batches.delete(h);
+    });
+
+    for (let i = 1; i < this.concurrency; i += 1) {
+      const next = height + i * batchSize;
+
+      if (next > this.endHeight) break;
+
+      if (!this.batches.has(next)) {
+        const batch = this.indexerStore.fetchBlocks(next, batchSize, filter);
+        // failed batches are fetched again once they are requested
+        batch.catch(() => undefined);
+        this.batches.set(next, batch);
+      }
     }
+
+    const batch =
+      this.batches.get(height) ?? this.indexerStore.fetchBlocks(height, batchSize, filter);
+    this.batches.delete(height);
+
+    return batch;
   }
 }
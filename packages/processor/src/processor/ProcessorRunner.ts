@@ -0,0 +1,170 @@
+import type Processor from './Processor';
+import { Block, BlockFilter, IndexerStore, Logger, ProcessorRunnerOptions } from './types';
+import { filterBlock } from './utils';
+
+type AnyProcessor = Processor<any, IndexerStore>;
+
+const mergeNames = (names: (string[] | undefined)[]) =>
+  names.includes(undefined) ? undefined : [...new Set(names.flat() as string[])];
+
+/**
+ * fetches the blocks for all hosted processors once and keeps them until every
+ * processor has moved past them or the cache is full
+ */
+class SharedIndexerStore {
+  private readonly cache = new Map<number, Block>();
+
+  private readonly pending = new Map<number, { batchSize: number; promise: Promise<void> }>();
+
+  // the height each processor last asked for, `undefined` for processors that stopped
+  readonly cursors: (number | undefined)[] = [];
+
+  filter: BlockFilter = {};
+
+  constructor(
+    private readonly indexerStore: IndexerStore,
+    private readonly maxCachedBlocks: number,
+  ) {}
+
+  private async load(height: number, batchSize: number) {
+    const inFlight = [...this.pending].find(
+      ([from, fetch]) => from <= height && height < from + fetch.batchSize,
+    );
+
+    if (inFlight) {
+      await inFlight[1].promise;
+      if (this.cache.has(height)) return;
+    }
+
+    const promise = this.indexerStore
+      .fetchBlocks(height, batchSize, this.filter)
+      .then((blocks) => {
+        blocks.forEach((block) => this.cache.set(block.height, block));
+      })
+      .finally(() => this.pending.delete(height));
+
+    this.pending.set(height, { batchSize, promise });
+
+    await promise;
+  }
+
+  private evict() {
+    const heights = this.cursors.filter((cursor): cursor is number => cursor !== undefined);
+    const lowest = heights.length === 0 ? Infinity : Math.min(...heights);
+
+    this.cache.forEach((_, height) => {
+      if (height < lowest) this.cache.delete(height);
+    });
+
+    const cached = [...this.cache.keys()].sort((a, b) => a - b);
+
+    cached.slice(0, cached.length - this.maxCachedBlocks).forEach((height) => {
+      this.cache.delete(height);
+    });
+  }
+
+  async fetchBlocks(
+    index: number,
+    height: number,
+    batchSize: number,
+    filter: BlockFilter = {},
+  ): Promise<Block[]> {
+    const cursor = this.cursors[index];
+
+    // processors only go back to look for the common ancestor of a reorg, so
+    // everything from there on might have been replaced
+    if (cursor !== undefined && height < cursor) {
+      this.cache.forEach((_, h) => {
+        if (h >= height) this.cache.delete(h);
+      });
+    }
+
+    this.cursors[index] = height;
+
+    if (!this.cache.has(height)) await this.load(height, batchSize);
+
+    const blocks: Block[] = [];
+
+    for (let h = height; h < height + batchSize; h += 1) {
+      const block = this.cache.get(h);
+      if (!block) break;
+      blocks.push(filterBlock(block, filter));
+    }
+
+    this.evict();
+
+    return blocks;
+  }
+
+  view(index: number): IndexerStore {
+    this.cursors[index] = undefined;
+
+    return {
+      fetchBlocks: (height, batchSize, filter) =>
+        this.fetchBlocks(index, height, batchSize, filter),
+      getLatestHeight: this.indexerStore.getLatestHeight?.bind(this.indexerStore),
+    };
+  }
+}
+
+/**
+ * runs several processors side by side on the blocks of a single indexer store,
+ * a failing processor is logged and stopped without affecting the others
+ */
+export default class ProcessorRunner {
+  private readonly shared: SharedIndexerStore;
+
+  private readonly processors: AnyProcessor[] = [];
+
+  // the processors that stopped because of an error
+  readonly failures = new Map<string, unknown>();
+
+  constructor(
+    indexerStore: IndexerStore,
+    private readonly logger: Logger,
+    { maxCachedBlocks = 5_000 }: ProcessorRunnerOptions = {},
+  ) {
+    this.shared = new SharedIndexerStore(indexerStore, maxCachedBlocks);
+  }
+
+  // the processor has to be created with the given indexer store
+  add(createProcessor: (indexerStore: IndexerStore) => AnyProcessor): this {
+    const processor = createProcessor(this.shared.view(this.processors.length));
+
+    this.processors.push(processor);
+
+    const filters = this.processors.map((p) => p.getFilter());
+
+    this.shared.filter = {
+      eventNames: mergeNames(filters.map((f) => f.eventNames)),
+      callNames: mergeNames(filters.map((f) => f.callNames)),
+    };
+
+    return this;
+  }
+
+  async start({ signal }: { signal?: AbortSignal } = {}): Promise<void> {
+    this.failures.clear();
+
+    await Promise.all(
+      this.processors.map(async (processor, index) => {
+        try {
+          await processor.start({ signal });
+        } catch (error) {
+          this.failures.set(processor.name, error);
+          this.logger.customError(
+            `processor ${processor.name} failed`,
+            { alertCode: 'ProcessorFailure' },
+            { error },
+          );
+        } finally {
+          this.shared.cursors[index] = undefined;
+        }
+      }),
+    );
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.processors.map((processor) => processor.stop()));
+  }
+}
@@ -0,0 +1,175 @@
+import { createServer, type Server } from 'http';
+import { promisify } from 'util';
+import { MetricsSink } from './types';
+
+type Labels = Record<string, string>;
+
+type Histogram = { labels: Labels; buckets: number[]; sum: number; count: number };
+
+// in seconds, the handlers mostly run a handful of queries
+const defaultBuckets = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escape = (value: string) =>
+  value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n');
+
+const formatLabels = (labels: Labels) =>
+  `{${Object.entries(labels)
+    .map(([key, value]) => `${key}="${escape(value)}"`)
+    .join(',')}}`;
+
+// exposes the metrics of one or more processors in the Prometheus text format
+export default class PrometheusMetrics implements MetricsSink {
+  private readonly handlerDurations = new Map<string, Histogram>();
+  private readonly blocksProcessed = new Map<string, number>();
+  private readonly heights = new Map<string, number>();
+  private readonly indexerHeights = new Map<string, number>();
+  private readonly fetchRetries = new Map<string, number>();
+  private readonly transactionFailures = new Map<string, number>();
+  private server?: Server;
+
+  constructor(private readonly buckets: number[] = defaultBuckets) {}
+
+  handlerDuration(processorName: string, handlerName: string, durationMs: number): void {
+    const labels = { processor: processorName, handler: handlerName };
+    const key = formatLabels(labels);
+    const seconds = durationMs / 1000;
+
+    let histogram = this.handlerDurations.get(key);
+
+    if (!histogram) {
+      histogram = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.handlerDurations.set(key, histogram);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (seconds <= bound) histogram.buckets[i] += 1;
+    });
+    histogram.sum += seconds;
+    histogram.count += 1;
+  }
+
+  blockProcessed(processorName: string, height: number): void {
+    this.blocksProcessed.set(processorName, (this.blocksProcessed.get(processorName) ?? 0) + 1);
+    this.heights.set(processorName, height);
+  }
+
+  indexerHeight(processorName: string, height: number): void {
+    this.indexerHeights.set(processorName, height);
+  }
+
+  fetchRetry(processorName: string): void {
+    this.fetchRetries.set(processorName, (this.fetchRetries.get(processorName) ?? 0) + 1);
+  }
+
+  transactionFailure(processorName: string): void {
+    this.transactionFailures.set(
+      processorName,
+      (this.transactionFailures.get(processorName) ?? 0) + 1,
+    );
+  }
+
+  private renderMetric(
+    name: string,
+    type: 'counter' | 'gauge',
+    help: string,
+    values: Map<string, number>,
+  ): string[] {
+    return [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} ${type}`,
+      ...[...values].map(([processor, value]) => `${name}${formatLabels({ processor })} ${value}`),
+    ];
+  }
+
+  private renderHandlerDurations(): string[] {
+    const name = 'processor_handler_duration_seconds';
+
+    return [
+      `# HELP ${name} The duration of the event and call handlers`,
+      `# TYPE ${name} histogram`,
+      ...[...this.handlerDurations.values()].flatMap(({ labels, buckets, sum, count }) => [
+        ...this.buckets.map(
+          (bound, i) =>
+            `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`,
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ];
+  }
+
+  render(): string {
+    const lag = new Map(
+      [...this.indexerHeights].map(([processor, height]) => [
+        processor,
+        Math.max(height - (this.heights.get(processor) ?? 0), 0),
+      ]),
+    );
+
+    return [
+      ...this.renderHandlerDurations(),
+      ...this.renderMetric(
+        'processor_blocks_processed_total',
+        'counter',
+        'The number of processed blocks',
+        this.blocksProcessed,
+      ),
+      ...this.renderMetric(
+        'processor_height',
+        'gauge',
+        'The height of the last processed block',
+        this.heights,
+      ),
+      ...this.renderMetric(
+        'processor_indexer_lag_blocks',
+        'gauge',
+        'How many blocks the processor is behind the indexer',
+        lag,
+      ),
+      ...this.renderMetric(
+        'processor_fetch_retries_total',
+        'counter',
+        'The number of failed attempts to fetch blocks from the indexer',
+        this.fetchRetries,
+      ),
+      ...this.renderMetric(
+        'processor_transaction_failures_total',
+        'counter',
+        'The number of failed database transactions',
+        this.transactionFailures,
+      ),
+      '',
+    ].join('\n');
+  }
+
+  // serves the metrics on `/metrics`
+  async listen(port: number, host = '127.0.0.1'): Promise<Server> {
+    const server = createServer((req, res) => {
+      if (req.url !== '/metrics') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(this.render());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+
+    return server;
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) return;
+    await promisify(this.server.close.bind(this.server))();
+    this.server = undefined;
+  }
+}
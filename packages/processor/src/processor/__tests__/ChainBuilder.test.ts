@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import ChainBuilder from '../ChainBuilder';
+import InMemoryIndexerStore from '../InMemoryIndexerStore';
+
+describe(ChainBuilder, () => {
+  it('links the blocks, extrinsics and events', () => {
+    const [first, second] = new ChainBuilder({ specId: 'chainflip-node@180' })
+      .addBlock()
+      .addBlock({
+        calls: [{ name: 'Funding.redeem', args: { amount: '0x1' }, events: [{ name: 'A.B' }] }],
+        events: [{ name: 'C.D', args: { foo: 1 } }],
+      })
+      .build();
+
+    expect(second.parentHash).toBe(first.hash);
+    expect(second.specId).toBe('chainflip-node@180');
+    expect(second.calls[0]).toMatchObject({
+      name: 'Funding.redeem',
+      args: { amount: '0x1' },
+      extrinsic: second.extrinsics[0],
+    });
+    expect(second.events.map((e) => [e.name, e.indexInBlock, e.phase, e.extrinsic])).toEqual([
+      ['A.B', 0, 'ApplyExtrinsic', second.extrinsics[0]],
+      ['C.D', 1, 'Finalization', null],
+    ]);
+  });
+
+  it('forks the chain', () => {
+    const main = new ChainBuilder().addBlocks(3);
+    const fork = main.forkAt(0, 'b').addBlocks(4).build();
+
+    expect(fork.map((b) => b.height)).toEqual([0, 1, 2, 3, 4]);
+    expect(fork[0]).toBe(main.build()[0]);
+    expect(fork[1].parentHash).toBe(main.build()[0].hash);
+    expect(fork[1].hash).not.toBe(main.build()[1].hash);
+  });
+});
+
+describe(InMemoryIndexerStore, () => {
+  const blocks = new ChainBuilder()
+    .addBlocks(2, { events: [{ name: 'A.B' }, { name: 'C.D' }], calls: [{ name: 'E.f' }] })
+    .build();
+
+  it('fetches blocks with the requested events and calls', async () => {
+    const indexer = new InMemoryIndexerStore(blocks);
+
+    const fetched = await indexer.fetchBlocks(0, 5, { eventNames: ['C.D'], callNames: [] });
+
+    expect(fetched.map((b) => [b.height, b.events.map((e) => e.name), b.calls])).toEqual([
+      [0, ['C.D'], []],
+      [1, ['C.D'], []],
+    ]);
+    expect((await indexer.fetchBlocks(1, 1)).map((b) => b.events.length)).toEqual([2]);
+    await expect(indexer.getLatestHeight()).resolves.toBe(1);
+    await expect(new InMemoryIndexerStore().getLatestHeight()).resolves.toBe(-1);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from 'vitest';
+import ChainBuilder from '../ChainBuilder';
+import InMemoryIndexerStore from '../InMemoryIndexerStore';
+import InMemoryProcessorStore from '../InMemoryProcessorStore';
+import Processor from '../Processor';
+import { EventHandler, Logger } from '../types';
+
+const logger: Logger = { info: vi.fn(), error: vi.fn(), customError: vi.fn() };
+
+type Data = { swaps: string[] };
+
+const createStore = () => new InMemoryProcessorStore<Data>({ data: { swaps: [] } });
+
+describe(InMemoryProcessorStore, () => {
+  it('commits the changes of a transaction', async () => {
+    const store = createStore();
+    await store.initializeState('test', 0);
+
+    await store.transaction(async (tx) => {
+      tx.data.swaps.push('1');
+      await tx.updateState('test', 1, '0x1');
+      expect(store.data.swaps).toEqual([]);
+    });
+
+    expect(store.data.swaps).toEqual(['1']);
+    await expect(store.getCurrentState('test')).resolves.toMatchObject({ height: 1 });
+    await expect(store.getRecentBlocks('test', 10)).resolves.toEqual([{ height: 1, hash: '0x1' }]);
+  });
+
+  it('rolls back a transaction that throws', async () => {
+    const store = createStore();
+    await store.initializeState('test', 0);
+
+    await expect(
+      store.transaction(async (tx) => {
+        tx.data.swaps.push('1');
+        await tx.updateState('test', 1, '0x1');
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(store.data.swaps).toEqual([]);
+    await expect(store.getCurrentState('test')).resolves.toMatchObject({ height: 0 });
+  });
+
+  it('rolls back a transaction that times out', async () => {
+    const store = createStore();
+
+    await expect(
+      store.transaction(
+        async (tx) => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          tx.data.swaps.push('1');
+        },
+        { timeout: 10 },
+      ),
+    ).rejects.toThrow('transaction timed out after 10ms');
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(store.data.swaps).toEqual([]);
+  });
+
+  it('keeps the state of unknown processors apart', async () => {
+    const store = new InMemoryProcessorStore({
+      data: {},
+      getEventInfo: (blockId, indexInBlock) => `${blockId}-${indexInBlock}`,
+      getExtrinsicInfo: (height) => height,
+    });
+
+    await expect(store.getCurrentState('test')).rejects.toThrow('unknown processor "test"');
+    await expect(store.updateState('test', 1)).resolves.toBe(false);
+    await expect(store.getRecentBlocks('test', 10)).resolves.toEqual([]);
+    await expect(store.revertBlock('test', { height: 1, hash: '0x1' })).rejects.toThrow(
+      'block 1 was not processed by this store',
+    );
+    await expect(store.getEventInfo(1, 2)).resolves.toBe('1-2');
+    await expect(store.getExtrinsicInfo(3, 0)).resolves.toBe(3);
+    await expect(createStore().getEventInfo(1, 2)).resolves.toBeNull();
+    await expect(createStore().getExtrinsicInfo(1, 2)).resolves.toBeNull();
+  });
+
+  it('keeps the dead letters of the blocks that were not reverted', async () => {
+    const store = createStore();
+    await store.initializeState('test', 0);
+    const deadLetter = {
+      processorName: 'test',
+      kind: 'event' as const,
+      id: '1',
+      name: 'Swapping.SwapScheduled',
+      blockHeight: 1,
+      args: null,
+      error: 'boom',
+    };
+
+    await store.transaction(async (tx) => {
+      await tx.addDeadLetter(deadLetter);
+      await tx.addDeadLetter({ ...deadLetter, id: '2', blockHeight: 2 });
+      await tx.updateState('test', 2, '0x2');
+    });
+    await store.revertBlock('test', { height: 2, hash: '0x2' });
+
+    await expect(store.getDeadLetters('test')).resolves.toEqual([deadLetter]);
+    await expect(store.addDeadLetter({ ...deadLetter, processorName: 'other' })).rejects.toThrow(
+      'unknown processor "other"',
+    );
+
+    await store.removeDeadLetter(deadLetter);
+    await store.removeDeadLetter({ ...deadLetter, processorName: 'other' });
+
+    await expect(store.getDeadLetters('test')).resolves.toEqual([]);
+    await expect(store.getDeadLetters('other')).resolves.toEqual([]);
+  });
+
+  it('drops the snapshots of reverted blocks', async () => {
+    const store = createStore();
+    await store.initializeState('test', 0);
+    const snapshot = { processorName: 'test', height: 1, hash: '0x1', state: { swaps: [] } };
+
+    await store.transaction(async (tx) => {
+      await tx.saveSnapshot(snapshot);
+      await tx.saveSnapshot({ ...snapshot, processorName: 'other', height: 2 });
+      await tx.updateState('test', 1, '0x1');
+    });
+
+    await expect(store.getLatestSnapshot('test')).resolves.toEqual(snapshot);
+
+    await store.revertBlock('test', { height: 1, hash: '0x1' });
+
+    await expect(store.getLatestSnapshot('test')).resolves.toBeNull();
+    await expect(store.getLatestSnapshot('other')).resolves.toMatchObject({ height: 2 });
+  });
+
+  it('processes blocks end to end and reverts reorged blocks', async () => {
+    const store = createStore();
+    const swap = (swapId: string) => ({ name: 'Swapping.SwapScheduled', args: { swapId } });
+    const chain = new ChainBuilder()
+      .addBlock({ events: [swap('1')] })
+      .addBlock({ calls: [{ name: 'Swapping.request_swap', events: [swap('2')] }] })
+      .addBlock({ events: [swap('3')] });
+    const fork = chain
+      .forkAt(0, 'b')
+      .addBlock({ events: [swap('2b')] })
+      .addBlock()
+      .addBlock({ events: [swap('4b')] })
+      .build();
+    const indexer = new InMemoryIndexerStore(chain.build());
+
+    const handler: EventHandler<typeof store> = ({ prisma, event }) => {
+      const { swapId } = event.args as { swapId: string };
+      prisma.data.swaps.push(swapId);
+      // the blocks after the next one are served from the fork
+      if (swapId === '2') indexer.addBlocks(fork);
+      if (swapId === '4b') void processor.stop();
+      return Promise.resolve();
+    };
+
+    const processor = new Processor(
+      {
+        name: 'test',
+        batchSize: 1,
+        eventHandlers: [{ name: 'Swapping.SwapScheduled', spec: 100, handler }],
+      },
+      store,
+      indexer,
+      logger,
+    );
+
+    await processor.start();
+
+    expect(store.data.swaps).toEqual(['1', '2b', '4b']);
+    await expect(store.getRecentBlocks('test', 10)).resolves.toEqual(
+      fork.map(({ height, hash }) => ({ height, hash })),
+    );
+  });
+});
@@ -0,0 +1,1270 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { describe, expect, it, vi } from 'vitest';
+import ChainBuilder from '../ChainBuilder';
+import InMemoryIndexerStore from '../InMemoryIndexerStore';
+import InMemoryProcessorStore from '../InMemoryProcessorStore';
+import Processor from '../Processor';
+import type {
+  Block,
+  BlockRef,
+  Call,
+  CallHandler,
+  ErrorPolicy,
+  EventHandler,
+  IndexerStore,
+  JsonValue,
+  Logger,
+  MetricsSink,
+  ProcessorStore,
+  State,
+} from '../types';
+
+const createBlock = (height: number, fork = ''): Block => ({
+  id: `${height}${fork}`,
+  height,
+  hash: `0x${height}${fork}`,
+  parentHash: height === 1 ? '0x0' : `0x${height - 1}${fork}`,
+  stateRoot: '0x',
+  extrinsicsRoot: '0x',
+  timestamp: new Date(0),
+  validator: null,
+  specId: 'chainflip-node@160',
+  extrinsics: [],
+  calls: [],
+  events: [
+    {
+      id: `${height}${fork}-0`,
+      blockId: `${height}${fork}`,
+      indexInBlock: 0,
+      phase: 'Initialization',
+      extrinsicId: null,
+      callId: null,
+      name: 'Test.Event',
+      args: null,
+      pos: 0,
+      extrinsic: null,
+    },
+  ],
+});
+
+const createCall = (block: Block, name: string): Call => ({
+  id: `${block.id}-call`,
+  parentId: null,
+  blockId: block.id,
+  extrinsicId: `${block.id}-1`,
+  name,
+  args: { amount: '0x1' },
+  success: true,
+  error: null,
+  origin: null,
+  pos: 1,
+  extrinsic: {
+    id: `${block.id}-1`,
+    blockId: block.id,
+    indexInBlock: 1,
+    version: 4,
+    signature: null,
+    callId: `${block.id}-call`,
+    fee: 0,
+    tip: 0,
+    success: true,
+    error: null,
+    pos: 1,
+    hash: `0x${block.height}01`,
+  },
+});
+
+const createChain = (from: number, to: number, fork = '') =>
+  Array.from({ length: to - from + 1 }, (_, i) => createBlock(from + i, fork));
+
+class TestProcessorStore implements ProcessorStore<null, null> {
+  state: State = { id: 1, height: 0, endHeight: null, name: 'test' };
+
+  blocks: BlockRef[] = [];
+
+  handledEvents: string[] = [];
+
+  initializeState(): Promise<State> {
+    return Promise.resolve(this.state);
+  }
+
+  getEventInfo(): Promise<null> {
+    return Promise.resolve(null);
+  }
+
+  getExtrinsicInfo(): Promise<null> {
+    return Promise.resolve(null);
+  }
+
+  updateState(_name: string, height: number, hash?: string): Promise<boolean> {
+    this.state = { ...this.state, height };
+    this.blocks = this.blocks.filter((b) => b.height < height);
+    if (hash) this.blocks.push({ height, hash });
+    return Promise.resolve(true);
+  }
+
+  getCurrentState(): Promise<State> {
+    return Promise.resolve(this.state);
+  }
+
+  transaction<R>(fn: (store: Exclude<this, 'transaction'>) => Promise<R>): Promise<R> {
+    return fn(this as Exclude<this, 'transaction'>);
+  }
+}
+
+class RevertingProcessorStore extends TestProcessorStore {
+  revertedBlocks: BlockRef[] = [];
+
+  revertBlock(_name: string, block: BlockRef): Promise<void> {
+    this.revertedBlocks.push(block);
+    this.handledEvents = this.handledEvents.filter((id) => !id.startsWith(`${block.height}`));
+    return Promise.resolve();
+  }
+
+  getRecentBlocks(_name: string, limit: number): Promise<BlockRef[]> {
+    return Promise.resolve(this.blocks.slice(-limit));
+  }
+}
+
+// serves the main chain until the processor asks for `forkHeight`, after
+// which it only serves the forked chain
+class ForkingIndexerStore implements IndexerStore {
+  private chain: Block[];
+
+  constructor(
+    main: Block[],
+    private readonly forked: Block[],
+    private readonly forkHeight: number,
+  ) {
+    this.chain = main;
+  }
+
+  fetchBlocks = vi.fn((height: number, batchSize: number) => {
+    if (height >= this.forkHeight) this.chain = this.forked;
+
+    return Promise.resolve(
+      this.chain.filter((b) => b.height >= height && b.height < height + batchSize),
+    );
+  });
+}
+
+const logger: Logger = { info: vi.fn(), error: vi.fn(), customError: vi.fn() };
+
+const createProcessor = <P extends TestProcessorStore>(
+  processorStore: P,
+  indexerStore: IndexerStore,
+  stopAt: string,
+) => {
+  const handler: EventHandler<P> = ({ prisma, event }) => {
+    prisma.handledEvents.push(event.id);
+    if (event.id === stopAt) void processor.stop();
+    return Promise.resolve();
+  };
+
+  const processor = new Processor(
+    { name: 'test', eventHandlers: [{ name: 'Test.Event', spec: 100, handler }] },
+    processorStore,
+    indexerStore,
+    logger,
+  );
+
+  return processor;
+};
+
+describe(Processor, () => {
+  describe('chain reorgs', () => {
+    it('reverts to the common ancestor and processes the canonical chain', async () => {
+      const store = new RevertingProcessorStore();
+      const main = createChain(1, 5);
+      const forked = [...createChain(1, 3), ...createChain(4, 6, 'b')];
+      forked[3].parentHash = '0x3';
+      const indexer = new ForkingIndexerStore(main, forked, 6);
+
+      await createProcessor(store, indexer, '6b-0').start();
+
+      expect(store.revertedBlocks).toEqual([
+        { height: 5, hash: '0x5' },
+        { height: 4, hash: '0x4' },
+      ]);
+      expect(store.handledEvents).toEqual(['1-0', '2-0', '3-0', '4b-0', '5b-0', '6b-0']);
+      expect(store.state.height).toBe(6);
+      expect(store.blocks.at(-1)).toEqual({ height: 6, hash: '0x6b' });
+    });
+
+    it('detects a reorg of blocks processed before a restart', async () => {
+      const store = new RevertingProcessorStore();
+      store.state = { ...store.state, height: 3 };
+      store.blocks = createChain(1, 3).map(({ height, hash }) => ({ height, hash }));
+      const forked = [...createChain(1, 2), ...createChain(3, 4, 'b')];
+      forked[2].parentHash = '0x2';
+      const indexer = new ForkingIndexerStore(forked, forked, 0);
+
+      await createProcessor(store, indexer, '4b-0').start();
+
+      expect(store.revertedBlocks).toEqual([{ height: 3, hash: '0x3' }]);
+      expect(store.handledEvents).toEqual(['3b-0', '4b-0']);
+      expect(store.blocks.slice(-2)).toEqual([
+        { height: 3, hash: '0x3b' },
+        { height: 4, hash: '0x4b' },
+      ]);
+    });
+
+    it('throws if the reorg is deeper than the tracked blocks', async () => {
+      const store = new RevertingProcessorStore();
+      const main = createChain(1, 5);
+      const forked = [...createChain(1, 1), ...createChain(2, 6, 'b')];
+      forked[1].parentHash = '0x1';
+      const processor = createProcessor(store, new ForkingIndexerStore(main, forked, 6), '6b-0');
+      processor.maxReorgDepth = 3;
+
+      await expect(processor.start()).rejects.toThrowErrorMatchingInlineSnapshot(
+        `[AssertionError: unable to find the common ancestor of the chain reorg at block 6]`,
+      );
+      expect(store.revertedBlocks.map((b) => b.height)).toEqual([5, 4, 3]);
+    });
+
+    it('throws if the store does not support reverting blocks', async () => {
+      const store = new TestProcessorStore();
+      const main = createChain(1, 5);
+      const forked = [...createChain(1, 4), ...createChain(5, 6, 'b')];
+      const processor = createProcessor(store, new ForkingIndexerStore(main, forked, 6), '6b-0');
+
+      await expect(processor.start()).rejects.toThrowErrorMatchingInlineSnapshot(
+        `[AssertionError: chain reorg detected at block 6 but the processor store can't revert blocks]`,
+      );
+      expect(store.handledEvents).toEqual(['1-0', '2-0', '3-0', '4-0', '5-0']);
+    });
+  });
+
+  describe('call handlers', () => {
+    const createCallProcessor = (
+      store: TestProcessorStore,
+      indexer: IndexerStore,
+      callHandlers: { name: string; handler: CallHandler<TestProcessorStore>; spec: number }[],
+    ) => new Processor({ name: 'test', eventHandlers: [], callHandlers }, store, indexer, logger);
+
+    it('routes calls to the handler for the spec of the block', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 2);
+      chain[1].calls = [createCall(chain[1], 'Swapping.request_swap_deposit_address')];
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      const oldHandler = vi.fn();
+      const newHandler = vi.fn(() => {
+        void processor.stop();
+        return Promise.resolve();
+      });
+
+      const processor = createCallProcessor(store, indexer, [
+        { name: 'Swapping.request_swap_deposit_address', spec: 100, handler: oldHandler },
+        { name: 'Swapping.request_swap_deposit_address', spec: 150, handler: newHandler },
+      ]);
+
+      await processor.start();
+
+      expect(oldHandler).not.toHaveBeenCalled();
+      expect(newHandler).toHaveBeenCalledWith({
+        prisma: store,
+        call: chain[1].calls[0],
+        extrinsic: chain[1].calls[0].extrinsic,
+        block: chain[1],
+      });
+      expect(indexer.fetchBlocks).toHaveBeenCalledWith(1, 50, {
+        eventNames: undefined,
+        callNames: ['Swapping.request_swap_deposit_address'],
+      });
+    });
+
+    it('does not filter calls without call handlers', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 1);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      const processor = createProcessor(store, indexer, '1-0');
+
+      await processor.start();
+
+      expect(indexer.fetchBlocks).toHaveBeenCalledWith(1, 50, {
+        eventNames: undefined,
+        callNames: undefined,
+      });
+    });
+
+    it('logs and rethrows errors from call handlers', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 1);
+      chain[0].calls = [createCall(chain[0], 'Funding.redeem')];
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      const processor = createCallProcessor(store, indexer, [
+        { name: 'Funding.redeem', spec: 100, handler: () => Promise.reject(new Error('boom')) },
+      ]);
+
+      await expect(processor.start()).rejects.toThrow('boom');
+
+      expect(logger.customError).toHaveBeenCalledWith(
+        'processBlock error: Error handling call Funding.redeem',
+        { alertCode: 'CallHandlerError' },
+        {
+          error: new Error('boom'),
+          callName: 'Funding.redeem',
+          extrinsicIndex: 1,
+          blockHeight: 1,
+          specId: 'chainflip-node@160',
+        },
+      );
+      expect(store.state.height).toBe(0);
+    });
+  });
+
+  describe('metrics', () => {
+    const createMetrics = (): MetricsSink => ({
+      handlerDuration: vi.fn(),
+      blockProcessed: vi.fn(),
+      indexerHeight: vi.fn(),
+      fetchRetry: vi.fn(),
+      transactionFailure: vi.fn(),
+    });
+
+    const createMetricsProcessor = (
+      store: TestProcessorStore,
+      indexer: IndexerStore,
+      metrics: MetricsSink,
+      handler: EventHandler<TestProcessorStore>,
+    ) =>
+      new Processor(
+        { name: 'test', eventHandlers: [{ name: 'Test.Event', spec: 100, handler }], metrics },
+        store,
+        indexer,
+        logger,
+      );
+
+    it('reports the handler durations, heights and fetch retries', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 2);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      indexer.fetchBlocks.mockRejectedValueOnce(new Error('db down'));
+      Object.assign(indexer, { getLatestHeight: () => Promise.resolve(10) });
+      const metrics = createMetrics();
+      const processor = createMetricsProcessor(store, indexer, metrics, ({ event }) => {
+        if (event.id === '2-0') void processor.stop();
+        return Promise.resolve();
+      });
+
+      await processor.start();
+
+      expect(metrics.fetchRetry).toHaveBeenCalledWith('test');
+      expect(metrics.indexerHeight).toHaveBeenCalledWith('test', 10);
+      expect(metrics.handlerDuration).toHaveBeenCalledWith(
+        'test',
+        'Test.Event',
+        expect.any(Number),
+      );
+      expect(vi.mocked(metrics.blockProcessed).mock.calls).toEqual([
+        ['test', 1],
+        ['test', 2],
+      ]);
+    });
+
+    it('logs if the indexer height is unavailable', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 1);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      Object.assign(indexer, { getLatestHeight: () => Promise.reject(new Error('db down')) });
+      const metrics = createMetrics();
+      const processor = createMetricsProcessor(store, indexer, metrics, () => {
+        void processor.stop();
+        return Promise.resolve();
+      });
+
+      await processor.start();
+
+      expect(metrics.indexerHeight).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith('failed to get the latest indexer height', {
+        error: new Error('db down'),
+      });
+    });
+
+    it('reports failed transactions', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 1);
+      const metrics = createMetrics();
+      const processor = createMetricsProcessor(
+        store,
+        new ForkingIndexerStore(chain, chain, 0),
+        metrics,
+        () => Promise.reject(new Error('boom')),
+      );
+
+      await expect(processor.start()).rejects.toThrow('boom');
+
+      expect(metrics.transactionFailure).toHaveBeenCalledWith('test');
+      expect(metrics.blockProcessed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error policies', () => {
+    type Data = { swaps: string[] };
+
+    const swap = (swapId: string) => ({ name: 'Swapping.SwapScheduled', args: { swapId } });
+
+    // swap 2 is malformed, the processor stops after swap 3
+    const chain = new ChainBuilder()
+      .addBlock({ events: [swap('1')] })
+      .addBlock({ events: [swap('2'), swap('2a')] })
+      .addBlock({ calls: [{ name: 'Funding.redeem', args: { amount: '1' } }], events: [swap('3')] })
+      .build();
+
+    const createPolicyProcessor = (
+      store: InMemoryProcessorStore<Data>,
+      {
+        failures = Infinity,
+        eventPolicy,
+        callPolicy,
+        errorPolicy,
+      }: {
+        failures?: number;
+        eventPolicy?: ErrorPolicy;
+        callPolicy?: ErrorPolicy;
+        errorPolicy?: ErrorPolicy;
+      },
+    ) => {
+      let failed = 0;
+      const eventHandler: EventHandler<typeof store> = ({ prisma, event }) => {
+        const { swapId } = event.args as { swapId: string };
+        prisma.data.swaps.push(swapId);
+        if (swapId === '2' && failed < failures) {
+          failed += 1;
+          return Promise.reject(new Error(`invalid swap ${swapId}`));
+        }
+        if (swapId === '3') void processor.stop();
+        return Promise.resolve();
+      };
+      const callHandler: CallHandler<typeof store> = () => Promise.reject(new Error('boom'));
+
+      const processor = new Processor(
+        {
+          name: 'test',
+          errorPolicy,
+          eventHandlers: [
+            {
+              name: 'Swapping.SwapScheduled',
+              spec: 100,
+              handler: eventHandler,
+              errorPolicy: eventPolicy,
+            },
+          ],
+          callHandlers: callPolicy
+            ? [{ name: 'Funding.redeem', spec: 100, handler: callHandler, errorPolicy: callPolicy }]
+            : [],
+        },
+        store,
+        new InMemoryIndexerStore(chain),
+        logger,
+      );
+
+      return processor;
+    };
+
+    const createStore = () => new InMemoryProcessorStore<Data>({ data: { swaps: [] } });
+
+    it('halts by default', async () => {
+      const store = createStore();
+      const processor = createPolicyProcessor(store, {});
+
+      await expect(processor.start()).rejects.toThrow('invalid swap 2');
+
+      expect(store.data.swaps).toEqual(['1']);
+    });
+
+    it('retries the block with a backoff', async () => {
+      const store = createStore();
+      const backoff = vi.fn((attempt: number) => attempt);
+      const processor = createPolicyProcessor(store, {
+        failures: 2,
+        eventPolicy: { type: 'retry', retries: 2, backoff },
+      });
+
+      await processor.start();
+
+      expect(backoff.mock.calls).toEqual([[1], [2]]);
+      expect(store.data.swaps).toEqual(['1', '2', '2a', '3']);
+    });
+
+    it('halts once the retries are used up', async () => {
+      const store = createStore();
+      const processor = createPolicyProcessor(store, {
+        failures: 2,
+        eventPolicy: { type: 'retry', retries: 1 },
+      });
+
+      await expect(processor.start()).rejects.toThrow('invalid swap 2');
+
+      expect(store.data.swaps).toEqual(['1']);
+    });
+
+    it('skips the event and persists it as a dead letter', async () => {
+      const store = createStore();
+      const processor = createPolicyProcessor(store, { errorPolicy: { type: 'skip' } });
+
+      await processor.start();
+
+      const deadLetter = {
+        processorName: 'test',
+        kind: 'event',
+        id: chain[1].events[0].id,
+        name: 'Swapping.SwapScheduled',
+        blockHeight: 1,
+        args: { swapId: '2' },
+        error: 'invalid swap 2',
+      };
+      expect(store.data.swaps).toEqual(['1', '2a', '3']);
+      await expect(store.getDeadLetters('test')).resolves.toEqual([deadLetter]);
+      expect(logger.customError).toHaveBeenCalledWith(
+        'skipping event Swapping.SwapScheduled in block 1',
+        { alertCode: 'DeadLetter' },
+        { deadLetter },
+      );
+    });
+
+    it('skips calls once the retries are used up', async () => {
+      const store = createStore();
+      const processor = createPolicyProcessor(store, {
+        failures: 0,
+        callPolicy: { type: 'retry', retries: 1, fallback: 'skip' },
+      });
+
+      await processor.start();
+
+      expect(store.data.swaps).toEqual(['1', '2', '2a', '3']);
+      await expect(store.getDeadLetters('test')).resolves.toMatchObject([
+        { kind: 'call', name: 'Funding.redeem', blockHeight: 2, args: { amount: '1' } },
+      ]);
+    });
+
+    it('throws if the store does not support dead letters', async () => {
+      const store = new TestProcessorStore();
+      store.state.height = -1;
+      const processor = new Processor(
+        {
+          name: 'test',
+          eventHandlers: [
+            {
+              name: 'Swapping.SwapScheduled',
+              spec: 100,
+              handler: () => Promise.reject(new Error('boom')),
+              errorPolicy: { type: 'skip' },
+            },
+          ],
+        },
+        store,
+        new InMemoryIndexerStore(chain),
+        logger,
+      );
+
+      await expect(processor.start()).rejects.toThrow(
+        "the processor store can't persist dead letters",
+      );
+      await expect(processor.replayDeadLetters()).rejects.toThrow(
+        "the processor store can't persist dead letters",
+      );
+    });
+
+    it('replays the dead letters', async () => {
+      const store = createStore();
+      const processor = createPolicyProcessor(store, {
+        failures: 2,
+        errorPolicy: { type: 'skip' },
+      });
+
+      await processor.start();
+      await store.transaction(async (tx) => {
+        await tx.addDeadLetter({
+          processorName: 'test',
+          kind: 'call',
+          id: chain[2].calls[0].id,
+          name: 'Funding.redeem',
+          blockHeight: 2,
+          args: null,
+          error: 'boom',
+        });
+      });
+
+      // the first replay fails again, the call is kept as there is no handler for it
+      await expect(processor.replayDeadLetters()).resolves.toMatchObject([
+        { id: chain[1].events[0].id, error: 'invalid swap 2' },
+        { id: chain[2].calls[0].id, error: 'no call handler for Funding.redeem' },
+      ]);
+      await expect(processor.replayDeadLetters()).resolves.toMatchObject([
+        { id: chain[2].calls[0].id, error: 'no call handler for Funding.redeem' },
+      ]);
+
+      expect(store.data.swaps).toEqual(['1', '2a', '3', '2']);
+      await expect(store.getDeadLetters('test')).resolves.toMatchObject([
+        { kind: 'call', name: 'Funding.redeem', error: 'boom' },
+      ]);
+    });
+
+    it('replays the dead lettered calls', async () => {
+      const store = createStore();
+      const processor = createPolicyProcessor(store, {
+        failures: 0,
+        callPolicy: { type: 'skip' },
+      });
+
+      await processor.start();
+
+      await expect(processor.replayDeadLetters()).resolves.toMatchObject([
+        { kind: 'call', name: 'Funding.redeem', error: 'boom' },
+      ]);
+      await expect(store.getDeadLetters('test')).resolves.toHaveLength(1);
+    });
+
+    it('rethrows if a dead letter can not be found', async () => {
+      const store = createStore();
+      const processor = createPolicyProcessor(store, {});
+      await store.initializeState('test', -1);
+      await store.transaction(async (tx) => {
+        await tx.addDeadLetter({
+          processorName: 'test',
+          kind: 'event',
+          id: 'unknown',
+          name: 'Swapping.SwapScheduled',
+          blockHeight: 1,
+          args: null,
+          error: 'boom',
+        });
+      });
+
+      await expect(processor.replayDeadLetters()).rejects.toThrow(
+        'the indexer has no event with id unknown',
+      );
+    });
+  });
+
+  describe('shutdown', () => {
+    it('resolves stop once the block that is being processed was committed', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 3);
+      let release!: () => void;
+      const handler = vi.fn(
+        () =>
+          new Promise<void>((resolve) => {
+            release = resolve;
+          }),
+      );
+      const processor = new Processor(
+        { name: 'test', eventHandlers: [{ name: 'Test.Event', spec: 100, handler }] },
+        store,
+        new ForkingIndexerStore(chain, chain, 0),
+        logger,
+      );
+
+      const running = processor.start();
+      await vi.waitFor(() => {
+        expect(handler).toHaveBeenCalled();
+      });
+      const stopped = vi.fn();
+      const stopping = processor.stop().then(stopped);
+      await Promise.resolve();
+
+      expect(stopped).not.toHaveBeenCalled();
+
+      release();
+      await stopping;
+      await running;
+
+      expect(store.state.height).toBe(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting for blocks once the signal is aborted', async () => {
+      const store = new TestProcessorStore();
+      const indexer = new ForkingIndexerStore([], [], 0);
+      const controller = new AbortController();
+      const processor = createProcessor(store, indexer, '');
+
+      const running = processor.start({ signal: controller.signal });
+      await vi.waitFor(() => {
+        expect(indexer.fetchBlocks).toHaveBeenCalled();
+      });
+      controller.abort();
+
+      await running;
+
+      expect(processor.running).toBe(false);
+    });
+
+    it('cancels pending fetches', async () => {
+      const store = new TestProcessorStore();
+      const indexer = new ForkingIndexerStore([], [], 0);
+      indexer.fetchBlocks.mockReturnValue(new Promise(() => {}));
+      const processor = createProcessor(store, indexer, '');
+
+      const running = processor.start();
+      await vi.waitFor(() => {
+        expect(indexer.fetchBlocks).toHaveBeenCalled();
+      });
+
+      await processor.stop();
+      await running;
+    });
+
+    it('ignores the prefetched batch once stopped', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 1);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      let rejectPrefetch!: (error: Error) => void;
+      indexer.fetchBlocks.mockResolvedValueOnce(chain).mockReturnValueOnce(
+        new Promise((_, reject) => {
+          rejectPrefetch = reject;
+        }),
+      );
+      const processor = new Processor(
+        {
+          name: 'test',
+          batchSize: 1,
+          eventHandlers: [
+            {
+              name: 'Test.Event',
+              spec: 100,
+              handler: () => {
+                void processor.stop();
+                return Promise.resolve();
+              },
+            },
+          ],
+        },
+        store,
+        indexer,
+        logger,
+      );
+
+      await processor.start();
+      rejectPrefetch(new Error('db down'));
+
+      await vi.waitFor(() => {
+        expect(logger.error).toHaveBeenCalledWith('failed to fetch batch', {
+          error: new Error('db down'),
+        });
+      });
+      expect(indexer.fetchBlocks).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not process blocks if the signal is already aborted', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 1);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      const processor = createProcessor(store, indexer, '');
+
+      await processor.start({ signal: AbortSignal.abort() });
+
+      expect(indexer.fetchBlocks).not.toHaveBeenCalled();
+      expect(store.handledEvents).toEqual([]);
+    });
+
+    it('does not retry blocks after stopping', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 1);
+      const handler = vi.fn(() => Promise.reject(new Error('boom')));
+      const processor = new Processor(
+        {
+          name: 'test',
+          eventHandlers: [{ name: 'Test.Event', spec: 100, handler }],
+          errorPolicy: { type: 'retry', retries: 3, backoff: () => 60_000 },
+        },
+        store,
+        new ForkingIndexerStore(chain, chain, 0),
+        logger,
+      );
+
+      const running = processor.start();
+      await vi.waitFor(() => {
+        expect(handler).toHaveBeenCalled();
+      });
+      await processor.stop();
+      await running;
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(store.state.height).toBe(0);
+    });
+  });
+
+  describe('backfill', () => {
+    type Data = { swaps: number[]; deposits: number[] };
+
+    const chain = new ChainBuilder()
+      .addBlocks(10, {
+        events: [{ name: 'Swapping.SwapScheduled' }, { name: 'Ingress.DepositFinalised' }],
+      })
+      .build();
+
+    const createBackfillProcessor = (
+      store: InMemoryProcessorStore<Data>,
+      indexer: InMemoryIndexerStore,
+      ProcessorClass = Processor<InMemoryProcessorStore<Data>, IndexerStore>,
+    ) =>
+      new ProcessorClass(
+        {
+          name: 'test',
+          snapshotInterval: 1,
+          eventHandlers: [
+            {
+              name: 'Swapping.SwapScheduled',
+              spec: 100,
+              handler: ({ prisma, block }) => {
+                prisma.data.swaps.push(block.height);
+                return Promise.resolve();
+              },
+            },
+            {
+              name: 'Ingress.DepositFinalised',
+              spec: 100,
+              handler: ({ prisma, block }) => {
+                prisma.data.deposits.push(block.height);
+                return Promise.resolve();
+              },
+            },
+          ],
+          callHandlers: [{ name: 'Funding.redeem', spec: 100, handler: () => Promise.resolve() }],
+        },
+        store,
+        indexer,
+        logger,
+      );
+
+    it('runs the chosen handlers over the range under a separate state', async () => {
+      const store = new InMemoryProcessorStore<Data>({ data: { swaps: [], deposits: [] } });
+      const indexer = new InMemoryIndexerStore(chain);
+      const spy = vi.spyOn(indexer, 'fetchBlocks');
+      const processor = createBackfillProcessor(store, indexer);
+
+      await processor.backfill({
+        handlers: ['Ingress.DepositFinalised'],
+        from: 2,
+        to: 6,
+        batchSize: 2,
+        concurrency: 2,
+      });
+
+      expect(store.data).toEqual({ swaps: [], deposits: [2, 3, 4, 5, 6] });
+      await expect(store.getCurrentState('test-backfill')).resolves.toMatchObject({
+        height: 6,
+        endHeight: 6,
+      });
+      await expect(store.getCurrentState('test')).rejects.toThrow();
+      expect(spy.mock.calls.map(([height]) => height)).toEqual([4, 2, 6]);
+    });
+
+    it('resumes a backfill', async () => {
+      const store = new InMemoryProcessorStore<Data>({ data: { swaps: [], deposits: [] } });
+      const indexer = new InMemoryIndexerStore(chain);
+      const processor = createBackfillProcessor(store, indexer);
+      const options = { handlers: ['Swapping.SwapScheduled'], name: 'swaps', from: 0, to: 3 };
+
+      await processor.backfill({ ...options, signal: AbortSignal.abort() });
+      await store.transaction((tx) => tx.updateState('swaps', 1).then(() => undefined));
+      await processor.backfill(options);
+
+      expect(store.data.swaps).toEqual([2, 3]);
+    });
+
+    it('throws for unknown handlers', async () => {
+      const store = new InMemoryProcessorStore<Data>({ data: { swaps: [], deposits: [] } });
+      const processor = createBackfillProcessor(store, new InMemoryIndexerStore(chain));
+
+      await expect(
+        processor.backfill({ handlers: ['Funding.Funded'], from: 0, to: 1 }),
+      ).rejects.toThrow('unknown handlers: Funding.Funded');
+    });
+
+    it('creates the backfill from the subclass', async () => {
+      const hooked: number[] = [];
+
+      class HookedProcessor extends Processor<InMemoryProcessorStore<Data>, IndexerStore> {
+        protected override async preBlockHook(store: InMemoryProcessorStore<Data>, block: Block) {
+          await super.preBlockHook(store, block);
+          hooked.push(block.height);
+        }
+
+        protected override getEventNames() {
+          return ['Ingress.DepositFinalised'];
+        }
+
+        protected override createSnapshot(store: InMemoryProcessorStore<Data>) {
+          return Promise.resolve(store.data);
+        }
+      }
+
+      const store = new InMemoryProcessorStore<Data>({ data: { swaps: [], deposits: [] } });
+      const indexer = new InMemoryIndexerStore(chain);
+      const spy = vi.spyOn(indexer, 'fetchBlocks');
+      const processor = createBackfillProcessor(store, indexer, HookedProcessor);
+
+      await processor.backfill({ handlers: ['Ingress.DepositFinalised'], from: 2, to: 3 });
+
+      expect(hooked).toEqual([2, 3]);
+      expect(store.data.deposits).toEqual([2, 3]);
+      expect(spy).toHaveBeenCalledWith(2, 500, {
+        eventNames: ['Ingress.DepositFinalised'],
+        callNames: undefined,
+      });
+      await expect(store.getLatestSnapshot('test-backfill')).resolves.toBeNull();
+    });
+
+    it('requires subclasses with other constructors to create the backfill', async () => {
+      class FixedProcessor extends Processor<InMemoryProcessorStore<Data>, IndexerStore> {
+        constructor(store: InMemoryProcessorStore<Data>, indexer: IndexerStore) {
+          super(
+            {
+              name: 'fixed',
+              eventHandlers: [
+                { name: 'Swapping.SwapScheduled', spec: 100, handler: () => Promise.resolve() },
+              ],
+            },
+            store,
+            indexer,
+            logger,
+          );
+        }
+      }
+
+      const store = new InMemoryProcessorStore<Data>({ data: { swaps: [], deposits: [] } });
+      const processor = new FixedProcessor(store, new InMemoryIndexerStore(chain));
+
+      await expect(
+        processor.backfill({ handlers: ['Swapping.SwapScheduled'], from: 0, to: 1 }),
+      ).rejects.toThrow('the backfill processor has to be created with the given options');
+    });
+
+    it('fetches failed batches again', async () => {
+      const store = new InMemoryProcessorStore<Data>({ data: { swaps: [], deposits: [] } });
+      const indexer = new InMemoryIndexerStore(chain);
+      const spy = vi.spyOn(indexer, 'fetchBlocks');
+      spy.mockRejectedValueOnce(new Error('db down'));
+      const processor = createBackfillProcessor(store, indexer);
+
+      await processor.backfill({
+        handlers: ['Swapping.SwapScheduled'],
+        from: 0,
+        to: 3,
+        batchSize: 2,
+      });
+
+      expect(store.data.swaps).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  describe('fetch pipeline', () => {
+    const fetchedBatches = (indexer: IndexerStore) =>
+      vi.mocked(indexer.fetchBlocks).mock.calls.map(([height, batchSize]) => [height, batchSize]);
+
+    it('fetches several batches ahead', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 10);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      const processor = new Processor(
+        {
+          name: 'test',
+          batchSize: 2,
+          prefetchDepth: 3,
+          eventHandlers: [
+            {
+              name: 'Test.Event',
+              spec: 100,
+              handler: () => {
+                void processor.stop();
+                return Promise.resolve();
+              },
+            },
+          ],
+        },
+        store,
+        indexer,
+        logger,
+      );
+
+      await processor.start();
+
+      expect(fetchedBatches(indexer)).toEqual([
+        [1, 2],
+        [3, 2],
+        [5, 2],
+        [7, 2],
+      ]);
+    });
+
+    it('polls for new blocks at the tip', async () => {
+      const store = new InMemoryProcessorStore({ data: null });
+      const builder = new ChainBuilder().addBlocks(3);
+      const indexer = new InMemoryIndexerStore(builder.build());
+      const spy = vi.spyOn(indexer, 'fetchBlocks');
+      const processor = new Processor(
+        {
+          name: 'test',
+          batchSize: 2,
+          pollInterval: 1,
+          eventHandlers: [
+            {
+              name: 'Test.Event',
+              spec: 100,
+              handler: () => {
+                void processor.stop();
+                return Promise.resolve();
+              },
+            },
+          ],
+        },
+        store,
+        indexer,
+        logger,
+      );
+
+      const running = processor.start();
+      await vi.waitFor(() => {
+        // the polls after the two batches of the chain
+        expect(spy.mock.calls.length).toBeGreaterThan(3);
+      });
+
+      expect(processor.mode).toBe('tip');
+      expect(logger.info).toHaveBeenCalledWith('switching to tip mode');
+
+      indexer.addBlocks(builder.addBlock({ events: [{ name: 'Test.Event' }] }).build());
+      await running;
+
+      await expect(store.getCurrentState('test')).resolves.toMatchObject({ height: 3 });
+    });
+
+    it('polls more often right after new blocks at the tip', async () => {
+      const store = new InMemoryProcessorStore({ data: null });
+      const builder = new ChainBuilder().addBlocks(1);
+      const indexer = new InMemoryIndexerStore(builder.build());
+      const processor = new Processor(
+        { name: 'test', pollInterval: 1000, eventHandlers: [] },
+        store,
+        indexer,
+        logger,
+      );
+      const waits: number[] = [];
+      vi.spyOn(processor as any, 'sleep').mockImplementation((ms) => {
+        waits.push(ms as number);
+        if (waits.length === 4) indexer.addBlocks(builder.addBlock().build());
+        if (waits.length === 6) void processor.stop();
+        return Promise.resolve();
+      });
+
+      await processor.start();
+
+      expect(waits).toEqual([250, 500, 1000, 1000, 250, 500]);
+      await expect(store.getCurrentState('test')).resolves.toMatchObject({ height: 1 });
+    });
+
+    it('grows the batch size while blocks are sparse', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 16).map((block): Block => ({ ...block, events: [] }));
+      chain[15] = createBlock(16);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      const processor = new Processor(
+        {
+          name: 'test',
+          batchSize: 1,
+          prefetchDepth: 0,
+          adaptiveBatchSize: { min: 2, max: 8 },
+          eventHandlers: [
+            {
+              name: 'Test.Event',
+              spec: 100,
+              handler: () => {
+                void processor.stop();
+                return Promise.resolve();
+              },
+            },
+          ],
+        },
+        store,
+        indexer,
+        logger,
+      );
+
+      await processor.start();
+
+      expect(fetchedBatches(indexer)).toEqual([
+        [1, 2],
+        [3, 4],
+        [7, 8],
+        [15, 8],
+      ]);
+    });
+
+    it('shrinks the batch size when transactions get slow', async () => {
+      const store = new TestProcessorStore();
+      const chain = createChain(1, 20);
+      const indexer = new ForkingIndexerStore(chain, chain, 0);
+      const processor = new Processor(
+        {
+          name: 'test',
+          batchSize: 8,
+          prefetchDepth: 0,
+          transactionTimeout: 10,
+          adaptiveBatchSize: { min: 2, max: 8 },
+          eventHandlers: [
+            {
+              name: 'Test.Event',
+              spec: 100,
+              handler: async ({ block }) => {
+                await sleep(6);
+                if (block.height === 14) void processor.stop();
+              },
+            },
+          ],
+        },
+        store,
+        indexer,
+        logger,
+      );
+
+      await processor.start();
+
+      expect(fetchedBatches(indexer)).toEqual([
+        [1, 8],
+        [9, 4],
+        [13, 2],
+      ]);
+    });
+  });
+
+  describe('snapshots', () => {
+    type Data = { swaps: string[] };
+
+    class SnapshotProcessor extends Processor<InMemoryProcessorStore<Data>, IndexerStore> {
+      protected override createSnapshot(store: InMemoryProcessorStore<Data>) {
+        return Promise.resolve({ swaps: store.data.swaps });
+      }
+
+      protected override restoreSnapshot(store: InMemoryProcessorStore<Data>, state: JsonValue) {
+        store.data = state as Data;
+        return Promise.resolve();
+      }
+    }
+
+    const swap = (swapId: string) => ({ name: 'Swapping.SwapScheduled', args: { swapId } });
+
+    const chain = new ChainBuilder()
+      .addBlock({ events: [swap('0')] })
+      .addBlock({ events: [swap('1')] })
+      .addBlock({ events: [swap('2')] })
+      .addBlock({ events: [swap('3')] })
+      .addBlock({ events: [swap('4')] })
+      .addBlock({ events: [swap('5')] })
+      .build();
+
+    const createSnapshotProcessor = (
+      store: InMemoryProcessorStore<Data>,
+      indexer: IndexerStore,
+      ProcessorClass = SnapshotProcessor,
+    ) => {
+      const processor: Processor<InMemoryProcessorStore<Data>, IndexerStore> = new ProcessorClass(
+        {
+          name: 'test',
+          snapshotInterval: 2,
+          eventHandlers: [
+            {
+              name: 'Swapping.SwapScheduled',
+              spec: 100,
+              handler: ({ prisma, event }) => {
+                const { swapId } = event.args as { swapId: string };
+                prisma.data.swaps.push(swapId);
+                if (swapId === '5') void processor.stop();
+                return Promise.resolve();
+              },
+            },
+          ],
+        },
+        store,
+        indexer,
+        logger,
+      );
+      return processor;
+    };
+
+    const createStore = () => new InMemoryProcessorStore<Data>({ data: { swaps: [] } });
+
+    it('writes a snapshot every few blocks', async () => {
+      const store = createStore();
+
+      await createSnapshotProcessor(store, new InMemoryIndexerStore(chain)).start();
+
+      expect(store['snapshots'].map(({ height }) => height)).toEqual([0, 2, 4]);
+      await expect(store.getLatestSnapshot('test')).resolves.toEqual({
+        processorName: 'test',
+        height: 4,
+        hash: chain[4].hash,
+        state: { swaps: ['0', '1', '2', '3', '4'] },
+      });
+    });
+
+    it('continues from the latest snapshot', async () => {
+      const store = createStore();
+      await store.saveSnapshot({
+        processorName: 'test',
+        height: 3,
+        hash: chain[3].hash,
+        state: { swaps: ['snapshot'] },
+      });
+
+      await createSnapshotProcessor(store, new InMemoryIndexerStore(chain)).start();
+
+      expect(store.data.swaps).toEqual(['snapshot', '4', '5']);
+      expect(logger.info).toHaveBeenCalledWith('restored the snapshot at block 3');
+    });
+
+    it('ignores snapshots of blocks that are not part of the chain anymore', async () => {
+      const store = createStore();
+      const snapshot = { processorName: 'test', height: 3, hash: '0x3', state: { swaps: [] } };
+      await store.saveSnapshot(snapshot);
+
+      await createSnapshotProcessor(store, new InMemoryIndexerStore(chain)).start();
+
+      expect(store.data.swaps).toEqual(['0', '1', '2', '3', '4', '5']);
+      expect(logger.customError).toHaveBeenCalledWith(
+        'the snapshot at block 3 does not match the indexer',
+        { alertCode: 'SnapshotMismatch' },
+        { height: 3, hash: '0x3' },
+      );
+    });
+
+    it('does not write snapshots by default', async () => {
+      const store = createStore();
+      await store.saveSnapshot({
+        processorName: 'test',
+        height: 3,
+        hash: chain[3].hash,
+        state: { swaps: [] },
+      });
+      const processor = createSnapshotProcessor(
+        store,
+        new InMemoryIndexerStore(chain),
+        Processor as typeof SnapshotProcessor,
+      );
+
+      await expect(processor.start()).rejects.toThrow("processor test can't restore snapshots");
+      await store.transaction((tx) => tx.updateState('test', 0).then(() => undefined));
+      await processor.start();
+
+      expect(store['snapshots']).toHaveLength(1);
+    });
+
+    it('throws if the store can not save snapshots', async () => {
+      class EmptySnapshotProcessor extends Processor<TestProcessorStore, IndexerStore> {
+        protected override createSnapshot() {
+          return Promise.resolve({});
+        }
+      }
+      const processor = new EmptySnapshotProcessor(
+        { name: 'test', snapshotInterval: 1, eventHandlers: [] },
+        new TestProcessorStore(),
+        new ForkingIndexerStore(createChain(1, 1), [], 2),
+        logger,
+      );
+
+      await expect(processor.start()).rejects.toThrow("the processor store can't save snapshots");
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, expect, it, vi } from 'vitest';
+import ChainBuilder from '../ChainBuilder';
+import InMemoryIndexerStore from '../InMemoryIndexerStore';
+import InMemoryProcessorStore from '../InMemoryProcessorStore';
+import Processor from '../Processor';
+import ProcessorRunner from '../ProcessorRunner';
+import { IndexerStore, Logger } from '../types';
+
+const logger: Logger = { info: vi.fn(), error: vi.fn(), customError: vi.fn() };
+
+type Data = { seen: string[] };
+
+const createStore = () => new InMemoryProcessorStore<Data>({ data: { seen: [] } });
+
+const chain = new ChainBuilder()
+  .addBlocks(3, { events: [{ name: 'Swapping.SwapScheduled' }, { name: 'Funding.Funded' }] })
+  .addBlock({ calls: [{ name: 'Funding.redeem' }] })
+  .build();
+
+const createProcessor = (
+  store: InMemoryProcessorStore<Data>,
+  indexerStore: IndexerStore,
+  name: string,
+  { eventName, callName, failAt }: { eventName?: string; callName?: string; failAt?: number },
+) => {
+  const processor: Processor<typeof store, IndexerStore> = new Processor(
+    {
+      name,
+      batchSize: 2,
+      eventHandlers: eventName
+        ? [
+            {
+              name: eventName,
+              spec: 100,
+              handler: ({ prisma, event, block }) => {
+                if (block.height === failAt) return Promise.reject(new Error('boom'));
+                prisma.data.seen.push(`${name}:${event.id}`);
+                return Promise.resolve();
+              },
+            },
+          ]
+        : [],
+      callHandlers: callName
+        ? [
+            {
+              name: callName,
+              spec: 100,
+              handler: ({ prisma, call }) => {
+                prisma.data.seen.push(`${name}:${call.id}`);
+                return Promise.resolve();
+              },
+            },
+          ]
+        : [],
+    },
+    store,
+    indexerStore,
+    logger,
+  );
+
+  // stop once the whole chain was processed
+  const stopAtTip = vi.spyOn(processor as any, 'shouldProcessBlock');
+  stopAtTip.mockImplementation((block) => {
+    if ((block as { height: number }).height === chain.length - 1) void processor.stop();
+    return true;
+  });
+
+  return processor;
+};
+
+describe(ProcessorRunner, () => {
+  it('fetches every block once for all processors', async () => {
+    const indexer = new InMemoryIndexerStore(chain);
+    const spy = vi.spyOn(indexer, 'fetchBlocks');
+    const store = createStore();
+    const runner = new ProcessorRunner(indexer, logger)
+      .add((idx) => {
+        const processor = createProcessor(store, idx, 'swaps', {
+          eventName: 'Swapping.SwapScheduled',
+        });
+        vi.spyOn(processor, 'getFilter').mockReturnValue({
+          eventNames: ['Swapping.SwapScheduled'],
+          callNames: [],
+        });
+        return processor;
+      })
+      .add((idx) => {
+        const processor = createProcessor(store, idx, 'funding', { callName: 'Funding.redeem' });
+        vi.spyOn(processor, 'getFilter').mockReturnValue({
+          eventNames: [],
+          callNames: ['Funding.redeem'],
+        });
+        return processor;
+      });
+
+    await runner.start();
+
+    // the chain ends at height 3, so both processors keep asking for the next batch
+    expect(spy.mock.calls.map(([height]) => height)).toEqual([0, 2, 4, 4]);
+    expect(spy).toHaveBeenCalledWith(0, 2, {
+      eventNames: ['Swapping.SwapScheduled'],
+      callNames: ['Funding.redeem'],
+    });
+    expect(store.data.seen.sort()).toEqual([
+      'funding:0000000003-a-000000',
+      'swaps:0000000000-a-000000',
+      'swaps:0000000001-a-000000',
+      'swaps:0000000002-a-000000',
+    ]);
+    expect(runner.failures.size).toBe(0);
+  });
+
+  it('fetches all events if a processor needs them', async () => {
+    const indexer = new InMemoryIndexerStore(chain);
+    const spy = vi.spyOn(indexer, 'fetchBlocks');
+    const runner = new ProcessorRunner(indexer, logger)
+      .add((idx) => createProcessor(createStore(), idx, 'a', { eventName: 'Funding.Funded' }))
+      .add((idx) => {
+        const processor = createProcessor(createStore(), idx, 'b', {});
+        vi.spyOn(processor, 'getFilter').mockReturnValue({});
+        return processor;
+      });
+
+    await runner.start();
+
+    expect(spy).toHaveBeenCalledWith(0, 2, { eventNames: undefined, callNames: undefined });
+  });
+
+  it('keeps running the other processors if one fails', async () => {
+    const indexer = new InMemoryIndexerStore(chain);
+    const store = createStore();
+    const runner = new ProcessorRunner(indexer, logger)
+      .add((idx) =>
+        createProcessor(store, idx, 'failing', { eventName: 'Funding.Funded', failAt: 1 }),
+      )
+      .add((idx) => createProcessor(store, idx, 'working', { eventName: 'Funding.Funded' }));
+
+    await runner.start();
+
+    expect(runner.failures).toEqual(new Map([['failing', new Error('boom')]]));
+    expect(logger.customError).toHaveBeenCalledWith(
+      'processor failing failed',
+      { alertCode: 'ProcessorFailure' },
+      { error: new Error('boom') },
+    );
+    expect(store.data.seen.filter((id) => id.startsWith('working'))).toHaveLength(3);
+    await expect(store.getCurrentState('failing')).resolves.toMatchObject({ height: 0 });
+  });
+
+  it('stops all processors', async () => {
+    const indexer = new InMemoryIndexerStore(chain);
+    const runner = new ProcessorRunner(indexer, logger).add((idx) =>
+      createProcessor(createStore(), idx, 'a', { eventName: 'Funding.Funded' }),
+    );
+    const processor = runner['processors'][0];
+
+    await runner.stop();
+
+    expect(processor.running).toBe(false);
+  });
+
+  it('shares fetches that are in flight', async () => {
+    const indexer = new InMemoryIndexerStore(new ChainBuilder().addBlocks(5).build());
+    const spy = vi.spyOn(indexer, 'fetchBlocks');
+    const shared = new ProcessorRunner(indexer, logger)['shared'];
+    const a = shared.view(0);
+    const b = shared.view(1);
+
+    const [first, second] = await Promise.all([a.fetchBlocks(0, 2), b.fetchBlocks(1, 2)]);
+
+    expect(first.map((block) => block.height)).toEqual([0, 1]);
+    expect(second.map((block) => block.height)).toEqual([1]);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    // the pending batch didn't find the block
+    await Promise.all([a.fetchBlocks(5, 2), b.fetchBlocks(6, 1)]);
+
+    expect(spy.mock.calls.map(([height]) => height)).toEqual([0, 5, 6]);
+
+    // going back drops the cached blocks from there on
+    await a.fetchBlocks(3, 2);
+    await b.fetchBlocks(2, 2);
+
+    expect(spy.mock.calls.map(([height]) => height)).toEqual([0, 5, 6, 3, 2]);
+  });
+
+  it('limits the blocks kept for processors that are behind', async () => {
+    const indexer = new InMemoryIndexerStore(new ChainBuilder().addBlocks(10).build());
+    const spy = vi.spyOn(indexer, 'fetchBlocks');
+    const shared = new ProcessorRunner(indexer, logger, { maxCachedBlocks: 4 })['shared'];
+    const slow = shared.view(0);
+    const fast = shared.view(1);
+
+    await slow.fetchBlocks(0, 2);
+    for (let height = 0; height < 8; height += 2) await fast.fetchBlocks(height, 2);
+
+    expect([...shared['cache'].keys()].sort((a, b) => a - b)).toEqual([4, 5, 6, 7]);
+
+    // the slow processor fetches the dropped blocks again
+    await expect(slow.fetchBlocks(2, 2)).resolves.toHaveLength(2);
+    await expect(slow.fetchBlocks(4, 2)).resolves.toHaveLength(2);
+    expect(spy.mock.calls.map(([height]) => height)).toEqual([0, 2, 4, 6, 2]);
+  });
+
+  it('refetches blocks after a reorg', async () => {
+    const builder = new ChainBuilder().addBlocks(4);
+    const indexer = new InMemoryIndexerStore(builder.build());
+    const fork = builder.forkAt(1, 'b').addBlocks(3).build();
+    const store = createStore();
+    let processor!: Processor<typeof store, IndexerStore>;
+    const runner = new ProcessorRunner(indexer, logger).add((idx) => {
+      processor = new Processor({ name: 'a', batchSize: 2, eventHandlers: [] }, store, idx, logger);
+      return processor;
+    });
+    vi.spyOn(processor as any, 'shouldProcessBlock').mockImplementation((block) => {
+      const { height, hash } = block as { height: number; hash: string };
+      // the fork replaces the blocks after the first batch was fetched
+      if (height === 1) indexer.addBlocks(fork);
+      if (hash === fork.at(-1)?.hash) void processor.stop();
+      return true;
+    });
+
+    await runner.start();
+
+    await expect(store.getRecentBlocks('a', 2)).resolves.toEqual(
+      fork.slice(-2).map(({ height, hash }) => ({ height, hash })),
+    );
+  });
+});
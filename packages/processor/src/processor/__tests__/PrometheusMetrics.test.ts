@@ -0,0 +1,80 @@
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import PrometheusMetrics from '../PrometheusMetrics';
+
+describe(PrometheusMetrics, () => {
+  let metrics: PrometheusMetrics;
+
+  afterEach(async () => {
+    await metrics.close();
+  });
+
+  it('renders the metrics in the text format', () => {
+    metrics = new PrometheusMetrics([0.01, 0.1]);
+    metrics.handlerDuration('swaps', 'Swapping.SwapExecuted', 5);
+    metrics.handlerDuration('swaps', 'Swapping.SwapExecuted', 50);
+    metrics.handlerDuration('swaps', 'Swapping.SwapExecuted', 500);
+    metrics.handlerDuration('say "hi"', 'Funding.redeem', 1);
+    metrics.blockProcessed('swaps', 10);
+    metrics.blockProcessed('swaps', 11);
+    metrics.indexerHeight('swaps', 15);
+    metrics.indexerHeight('other', 3);
+    metrics.fetchRetry('swaps');
+    metrics.transactionFailure('swaps');
+    metrics.transactionFailure('swaps');
+
+    expect(metrics.render()).toMatchInlineSnapshot(`
+      "# HELP processor_handler_duration_seconds The duration of the event and call handlers
+      # TYPE processor_handler_duration_seconds histogram
+      processor_handler_duration_seconds_bucket{processor="swaps",handler="Swapping.SwapExecuted",le="0.01"} 1
+      processor_handler_duration_seconds_bucket{processor="swaps",handler="Swapping.SwapExecuted",le="0.1"} 2
+      processor_handler_duration_seconds_bucket{processor="swaps",handler="Swapping.SwapExecuted",le="+Inf"} 3
+      processor_handler_duration_seconds_sum{processor="swaps",handler="Swapping.SwapExecuted"} 0.555
+      processor_handler_duration_seconds_count{processor="swaps",handler="Swapping.SwapExecuted"} 3
+      processor_handler_duration_seconds_bucket{processor="say \\"hi\\"",handler="Funding.redeem",le="0.01"} 1
+      processor_handler_duration_seconds_bucket{processor="say \\"hi\\"",handler="Funding.redeem",le="0.1"} 1
+      processor_handler_duration_seconds_bucket{processor="say \\"hi\\"",handler="Funding.redeem",le="+Inf"} 1
+      processor_handler_duration_seconds_sum{processor="say \\"hi\\"",handler="Funding.redeem"} 0.001
+      processor_handler_duration_seconds_count{processor="say \\"hi\\"",handler="Funding.redeem"} 1
+      # HELP processor_blocks_processed_total The number of processed blocks
+      # TYPE processor_blocks_processed_total counter
+      processor_blocks_processed_total{processor="swaps"} 2
+      # HELP processor_height The height of the last processed block
+      # TYPE processor_height gauge
+      processor_height{processor="swaps"} 11
+      # HELP processor_indexer_lag_blocks How many blocks the processor is behind the indexer
+      # TYPE processor_indexer_lag_blocks gauge
+      processor_indexer_lag_blocks{processor="swaps"} 4
+      processor_indexer_lag_blocks{processor="other"} 3
+      # HELP processor_fetch_retries_total The number of failed attempts to fetch blocks from the indexer
+      # TYPE processor_fetch_retries_total counter
+      processor_fetch_retries_total{processor="swaps"} 1
+      # HELP processor_transaction_failures_total The number of failed database transactions
+      # TYPE processor_transaction_failures_total counter
+      processor_transaction_failures_total{processor="swaps"} 2
+      "
+    `);
+  });
+
+  it('serves the metrics', async () => {
+    metrics = new PrometheusMetrics();
+    metrics.blockProcessed('swaps', 10);
+    const server = await metrics.listen(0);
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const res = await fetch(`${url}/metrics`);
+    expect(res.headers.get('content-type')).toBe('text/plain; version=0.0.4');
+    await expect(res.text()).resolves.toBe(metrics.render());
+
+    expect((await fetch(url)).status).toBe(404);
+  });
+
+  it('rejects if the port is taken', async () => {
+    metrics = new PrometheusMetrics();
+    const server = await metrics.listen(0);
+    const { port } = server.address() as AddressInfo;
+
+    await expect(new PrometheusMetrics().listen(port)).rejects.toThrowError('EADDRINUSE');
+    expect(server.listening).toBe(true);
+  });
+});
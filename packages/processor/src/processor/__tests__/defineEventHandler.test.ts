@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import ChainBuilder from '../ChainBuilder';
+import InMemoryIndexerStore from '../InMemoryIndexerStore';
+import InMemoryProcessorStore from '../InMemoryProcessorStore';
+import Processor from '../Processor';
+import { defineEventHandler } from '../defineEventHandler';
+import { Logger, ProcessorOptions } from '../types';
+
+const logger: Logger = { info: vi.fn(), error: vi.fn(), customError: vi.fn() };
+
+const accountId = `0x${'00'.repeat(32)}` as const;
+
+describe(defineEventHandler, () => {
+  it('parses the arguments with the schema of the spec', async () => {
+    const store = new InMemoryProcessorStore({ data: { roles: [] as string[] } });
+    const indexer = new InMemoryIndexerStore(
+      new ChainBuilder({ specId: 'chainflip-node@101' })
+        .addBlock({
+          events: [
+            {
+              name: 'AccountRoles.AccountRoleRegistered',
+              args: { accountId, role: { __kind: 'None' } },
+            },
+          ],
+        })
+        .build(),
+    );
+    const options: ProcessorOptions<typeof store> = {
+      name: 'test',
+      eventHandlers: [
+        defineEventHandler('AccountRoles.AccountRoleRegistered', 100, ({ prisma, args }) => {
+          prisma.data.roles.push(args.role);
+          void processor.stop();
+          return Promise.resolve();
+        }),
+        defineEventHandler('AccountRoles.AccountRoleRegistered', 102, ({ prisma, args }) => {
+          // the role was renamed in 102
+          prisma.data.roles.push(args.role === 'Unregistered' ? 'None' : args.role);
+          return Promise.resolve();
+        }),
+      ],
+    };
+    const processor = new Processor(options, store, indexer, logger);
+
+    await processor.start();
+
+    expect(store.data.roles).toEqual(['None']);
+  });
+
+  it('rejects arguments that do not match the schema', async () => {
+    const handler = vi.fn();
+    const { handler: typedHandler } = defineEventHandler('Swapping.SwapScheduled', 150, handler);
+    const [block] = new ChainBuilder()
+      .addBlock({ events: [{ name: 'Swapping.SwapScheduled', args: { swapId: 'one' } }] })
+      .build();
+
+    await expect(
+      typedHandler({ prisma: {} as never, block, event: block.events[0], eventInfo: null }),
+    ).rejects.toThrow();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('only accepts known events and specs', () => {
+    const handler = () => Promise.resolve();
+
+    // @ts-expect-error the event does not exist
+    defineEventHandler('Swapping.Unknown', 150, handler);
+    // @ts-expect-error the arguments of the event did not change in this spec
+    defineEventHandler('Swapping.SwapScheduled', 151, handler);
+  });
+});
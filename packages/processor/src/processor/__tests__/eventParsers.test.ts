@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { swappingSwapScheduled as swappingSwapScheduled141 } from '../../../generated/141/swapping/swapScheduled';
+import { swappingSwapScheduled as swappingSwapScheduled150 } from '../../../generated/150/swapping/swapScheduled';
+import { getEventParser } from '../eventParsers';
+
+describe(getEventParser, () => {
+  it('returns the parser of the latest spec at or below the spec version', () => {
+    expect(getEventParser('Swapping.SwapScheduled', 141)).toBe(swappingSwapScheduled141);
+    expect(getEventParser('Swapping.SwapScheduled', 149)).toBe(swappingSwapScheduled141);
+    expect(getEventParser('Swapping.SwapScheduled', 150)).toBe(swappingSwapScheduled150);
+  });
+
+  it('returns null before the event was introduced', () => {
+    expect(getEventParser('Swapping.SwapScheduled', 99)).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { vi } from 'vitest';
+import ChainBuilder from '../../ChainBuilder';
+import InMemoryIndexerStore from '../../InMemoryIndexerStore';
+import InMemoryProcessorStore from '../../InMemoryProcessorStore';
+import Processor from '../../Processor';
+
+export const store = new InMemoryProcessorStore({ data: { swaps: [] as string[] } });
+
+const swap = (swapId: string) => ({ name: 'Swapping.SwapScheduled', args: { swapId } });
+
+const indexer = new InMemoryIndexerStore(
+  new ChainBuilder()
+    .addBlock({ events: [swap('1')] })
+    .addBlock({ events: [swap('2'), swap('invalid')] })
+    .addBlock()
+    .build(),
+);
+
+export default () =>
+  new Processor(
+    {
+      name: 'test',
+      eventHandlers: [
+        {
+          name: 'Swapping.SwapScheduled',
+          spec: 100,
+          handler: ({ prisma, event }) => {
+            const { swapId } = event.args as { swapId: string };
+            if (swapId === 'invalid') return Promise.reject(new Error('invalid swap'));
+            prisma.data.swaps.push(swapId);
+            return Promise.resolve();
+          },
+        },
+      ],
+    },
+    store,
+    indexer,
+    { info: vi.fn(), error: vi.fn(), customError: vi.fn() },
+  );
@@ -0,0 +1,49 @@
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { main } from '../replay';
+import { store } from './fixtures/processor';
+
+const modulePath = path.join(import.meta.dirname, 'fixtures', 'processor.ts');
+
+describe(main, () => {
+  it('replays the blocks without committing', async () => {
+    const print = vi.fn<[string], undefined>();
+
+    await expect(main([modulePath, '--from', '0', '--to', '5'], print)).resolves.toBe(1);
+
+    const output = print.mock.calls
+      .map(([line]) => line)
+      .join('\n')
+      .replace(/\d+\.\dms/g, '<ms>');
+    expect(output).toMatchInlineSnapshot(`
+      "block 0 processed in <ms>
+        Swapping.SwapScheduled: 1x in <ms>
+      block 1 failed in <ms>
+        Swapping.SwapScheduled: 1x in <ms>
+        error in event Swapping.SwapScheduled (0000000001-a-000001): invalid swap
+        args: {"swapId":"invalid"}
+      block 2 processed in <ms>"
+    `);
+    expect(store.data.swaps).toEqual([]);
+  });
+
+  it('prints the results as json', async () => {
+    const print = vi.fn<[string], undefined>();
+
+    await expect(main([modulePath, '--from', '0', '--json'], print)).resolves.toBe(0);
+
+    expect(JSON.parse(print.mock.calls[0][0]) as unknown).toMatchObject([
+      { height: 0, timings: { eventHandlers: { 'Swapping.SwapScheduled': { count: 1 } } } },
+    ]);
+  });
+
+  it('prints the usage for invalid arguments', async () => {
+    const printError = vi.fn<[string], undefined>();
+
+    await expect(main([modulePath, '--to', '1'], undefined, printError)).resolves.toBe(2);
+
+    expect(printError).toHaveBeenCalledWith(
+      'usage: processor-replay <module> --from <height> [--to <height>] [--json]',
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest';
+import { shutdownSignal } from '../shutdown';
+
+describe(shutdownSignal, () => {
+  it('aborts on the first signal and stops listening', () => {
+    const logger = { info: vi.fn(), error: vi.fn(), customError: vi.fn() };
+    const signal = shutdownSignal(['SIGUSR2', 'SIGWINCH'], logger);
+
+    expect(process.listenerCount('SIGUSR2')).toBe(1);
+    expect(signal.aborted).toBe(false);
+
+    process.emit('SIGUSR2', 'SIGUSR2');
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('SIGUSR2');
+    expect(logger.info).toHaveBeenCalledWith('received SIGUSR2, shutting down');
+    expect(process.listenerCount('SIGUSR2')).toBe(0);
+    expect(process.listenerCount('SIGWINCH')).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { EventName, eventParsers, getEventParser } from './eventParsers';
+import { EventHandler, ProcessorStore } from './types';
+
+// the spec versions in which the arguments of the event changed
+export type EventSpec<N extends EventName> = keyof (typeof eventParsers)[N] & number;
+
+export type EventArgs<
+  N extends EventName,
+  S extends EventSpec<N>,
+> = (typeof eventParsers)[N][S] extends z.ZodTypeAny
+  ? z.output<(typeof eventParsers)[N][S]>
+  : never;
+
+export type TypedEventHandler<
+  T extends ProcessorStore<any, any>,
+  N extends EventName,
+  S extends EventSpec<N>,
+> = (args: Parameters<EventHandler<T>>[0] & { args: EventArgs<N, S> }) => Promise<void>;
+
+/**
+ * defines a handler for the blocks from the given spec on that receives the arguments of
+ * the event parsed with the generated schema of that spec, the type of the store is
+ * inferred from the options it is used in, e.g. `ProcessorOptions<typeof store>`
+ */
+export const defineEventHandler = <
+  N extends EventName,
+  S extends EventSpec<N>,
+  T extends ProcessorStore<any, any>,
+>(
+  name: N,
+  spec: S,
+  handler: TypedEventHandler<T, N, S>,
+): { name: N; spec: S; handler: EventHandler<T> } => {
+  const parser = getEventParser(name, spec) as z.ZodTypeAny;
+
+  return {
+    name,
+    spec,
+    handler: async (args) => {
+      await handler({ ...args, args: parser.parse(args.event.args) as EventArgs<N, S> });
+    },
+  };
+};
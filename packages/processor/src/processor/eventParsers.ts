@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { eventParsers } from '../../generated/eventParsers';
+import HandlerMap from './HandlerMap';
+
+export { eventParsers };
+
+export type EventName = keyof typeof eventParsers;
+
+export type EventParser<N extends EventName> =
+  (typeof eventParsers)[N][keyof (typeof eventParsers)[N]];
+
+const parserMap = new HandlerMap(
+  Object.entries(eventParsers).flatMap(([name, parsers]) =>
+    Object.entries(parsers as Record<string, z.ZodTypeAny>).map(([spec, handler]) => ({
+      name: name as EventName,
+      spec: Number(spec),
+      handler,
+    })),
+  ),
+);
+
+// returns the parser of the latest spec at or below the given spec version
+export const getEventParser = <N extends EventName>(
+  name: N,
+  specVersion: number,
+): EventParser<N> | null => parserMap.getHandler(name, specVersion) as EventParser<N> | null;
@@ -1,2 +1,8 @@
 export { default as Processor, timedMethod } from './Processor';
+export { default as ProcessorRunner } from './ProcessorRunner';
+export { default as PrometheusMetrics } from './PrometheusMetrics';
+export { default as InMemoryProcessorStore } from './InMemoryProcessorStore';
+export { default as InMemoryIndexerStore } from './InMemoryIndexerStore';
+export { default as ChainBuilder } from './ChainBuilder';
+export { shutdownSignal } from './shutdown';
 export { generatePalletEventName } from './utils';
@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import type Processor from './Processor';
+import { DryRunResult, HandlerTimings, IndexerStore } from './types';
+
+type AnyProcessor = Processor<any, IndexerStore>;
+
+const usage = 'usage: processor-replay <module> --from <height> [--to <height>] [--json]';
+
+// the module exports the processor or a function creating it as its default export
+const loadProcessor = async (modulePath: string): Promise<AnyProcessor> => {
+  const { default: exported } = (await import(pathToFileURL(path.resolve(modulePath)).href)) as {
+    default: AnyProcessor | (() => AnyProcessor | Promise<AnyProcessor>);
+  };
+
+  return typeof exported === 'function' ? exported() : exported;
+};
+
+const formatMs = (ms: number) => `${ms.toFixed(1)}ms`;
+
+const formatResult = ({ height, duration, timings, error }: DryRunResult): string[] => {
+  const handlers = [timings.callHandlers, timings.eventHandlers].flatMap((summary) =>
+    Object.entries(summary as HandlerTimings)
+      .filter(([name]) => name !== 'overall')
+      .map(([name, { count, total }]) => `  ${name}: ${count}x in ${formatMs(total)}`),
+  );
+
+  return [
+    `block ${height} ${error ? 'failed' : 'processed'} in ${formatMs(duration)}`,
+    ...handlers,
+    ...(error
+      ? [
+          `  error in ${error.kind} ${error.name} (${error.id}): ${error.error}`,
+          `  args: ${JSON.stringify(error.args)}`,
+        ]
+      : []),
+  ];
+};
+
+/**
+ * replays the blocks of a range with the processor exported by a module without
+ * committing anything, resolves with the exit code
+ */
+export const main = async (
+  argv: string[],
+  print = console.log,
+  printError = console.error,
+): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const from = Number(values.from);
+  const to = values.to === undefined ? from : Number(values.to);
+
+  if (positionals.length !== 1 || !Number.isInteger(from) || !Number.isInteger(to)) {
+    printError(usage);
+    return 2;
+  }
+
+  const processor = await loadProcessor(positionals[0]);
+  const results = await processor.dryRun({ from, to });
+
+  if (values.json) {
+    print(JSON.stringify(results, null, 2));
+  } else {
+    results.flatMap(formatResult).forEach((line) => {
+      print(line);
+    });
+  }
+
+  return results.some(({ error }) => error) ? 1 : 0;
+};
@@ -0,0 +1,30 @@
+import { Logger } from './types';
+
+/**
+ * returns a signal that is aborted on the first of the given process signals, e.g. to
+ * let processors commit the block they are processing during a rollout, a second
+ * signal terminates the process as usual
+ */
+export const shutdownSignal = (
+  signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'],
+  logger?: Logger,
+): AbortSignal => {
+  const controller = new AbortController();
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    logger?.info(`received ${signal}, shutting down`);
+    controller.abort(signal);
+  };
+
+  signals.forEach((signal) => process.once(signal, onSignal));
+
+  controller.signal.addEventListener(
+    'abort',
+    () => {
+      signals.forEach((signal) => process.off(signal, onSignal));
+    },
+    { once: true },
+  );
+
+  return controller.signal;
+};
@@ -57,6 +57,8 @@ export type IndexerBlock = {
 
 export type Call = IndexerCall & { extrinsic: IndexerExtrinsic };
 
+export type BlockRef = Pick<IndexerBlock, 'height' | 'hash'>;
+
 export type Block = IndexerBlock & {
   extrinsics: IndexerExtrinsic[];
   events: IndexerEvent[];
@@ -74,19 +76,73 @@ export interface ProcessorStore<Ev, Ex> extends Store {
   initializeState(processorName: string, startHeight: number, endHeight?: number): Promise<State>;
   getEventInfo(blockId: number, indexInBlock: number): Promise<Ev>;
   getExtrinsicInfo(blockHeight: number, indexInBlock: number): Promise<Ex>;
-  updateState(processorName: string, height: number): Promise<boolean>;
+  updateState(processorName: string, height: number, hash?: string): Promise<boolean>;
   getCurrentState(processorName: string): Promise<State>;
+  // reverts the changes made while processing a block that was reorged out of the chain
+  revertBlock?(processorName: string, block: BlockRef): Promise<void>;
+  // the most recently processed blocks in ascending order, used to detect reorgs after a restart
+  getRecentBlocks?(processorName: string, limit: number): Promise<BlockRef[]>;
+  // persists an event or call that was skipped because its handler failed
+  addDeadLetter?(deadLetter: DeadLetter): Promise<void>;
+  getDeadLetters?(processorName: string): Promise<DeadLetter[]>;
+  removeDeadLetter?(deadLetter: DeadLetter): Promise<void>;
+  saveSnapshot?(snapshot: Snapshot): Promise<void>;
+  getLatestSnapshot?(processorName: string): Promise<Snapshot | null>;
 }
 
+export type Snapshot = {
+  processorName: string;
+  height: number;
+  hash: string;
+  // the state returned by `Processor.createSnapshot`
+  state: JsonValue;
+};
+
+export type DeadLetter = {
+  processorName: string;
+  kind: 'event' | 'call';
+  // the id of the event or call
+  id: string;
+  name: string;
+  blockHeight: number;
+  args: JsonValue;
+  error: string;
+};
+
+/**
+ * what happens when a handler throws: `halt` stops the processor, `skip` persists the
+ * event or call as a dead letter and carries on, `retry` processes the block again and
+ * falls back to `fallback` once the retries are used up
+ */
+export type ErrorPolicy =
+  | { type: 'halt' }
+  | { type: 'skip' }
+  | {
+      type: 'retry';
+      retries: number;
+      // the delay in milliseconds before the given attempt
+      backoff?: (attempt: number) => number;
+      fallback?: 'halt' | 'skip';
+    };
+
+// the names of the events and calls to include in fetched blocks, `undefined` includes all
+export type BlockFilter = {
+  eventNames?: string[];
+  callNames?: string[];
+};
+
 export interface IndexerStore {
-  fetchBlocks(
-    height: number,
-    batchSize: number,
-    filter?: {
-      eventNames?: string[];
-      callNames?: string[];
-    },
-  ): Promise<Block[]>;
+  fetchBlocks(height: number, batchSize: number, filter?: BlockFilter): Promise<Block[]>;
+  // the height of the latest indexed block, used to report how far the processor lags behind
+  getLatestHeight?(): Promise<number>;
+}
+
+export interface MetricsSink {
+  handlerDuration(processorName: string, handlerName: string, durationMs: number): void;
+  blockProcessed(processorName: string, height: number): void;
+  indexerHeight(processorName: string, height: number): void;
+  fetchRetry(processorName: string): void;
+  transactionFailure(processorName: string): void;
 }
 
 export interface Logger {
@@ -105,8 +161,62 @@ export type ExtrinsicInfo<P extends ProcessorStore<any, any>> = ReturnType<P['ge
 export type ProcessorOptions<T extends ProcessorStore<any, any>> = {
   batchSize?: number;
   transactionTimeout?: number;
-  eventHandlers: { name: string; handler: EventHandler<T>; spec: number }[];
+  eventHandlers: {
+    name: string;
+    handler: EventHandler<T>;
+    spec: number;
+    errorPolicy?: ErrorPolicy;
+  }[];
+  callHandlers?: {
+    name: string;
+    handler: CallHandler<T>;
+    spec: number;
+    errorPolicy?: ErrorPolicy;
+  }[];
   name: string;
+  metrics?: MetricsSink;
+  // used for handlers without an error policy, defaults to `halt`
+  errorPolicy?: ErrorPolicy;
+  // the number of batches that are fetched ahead while catching up
+  prefetchDepth?: number;
+  // lets the batch size grow up to `max` while few of the blocks contain handled events or
+  // calls and shrinks it down to `min` when transactions get close to the timeout
+  adaptiveBatchSize?: { min: number; max: number };
+  // the longest wait between polls of the indexer for new blocks once the processor caught up
+  pollInterval?: number;
+  // the number of blocks between snapshots, only used if the processor creates snapshots
+  snapshotInterval?: number;
+};
+
+export type BackfillOptions = {
+  // the names of the event and call handlers to run
+  handlers: string[];
+  from: number;
+  to: number;
+  // the name of the state of the backfill, defaults to `<processor name>-backfill`
+  name?: string;
+  batchSize?: number;
+  // the number of batches that are fetched in parallel
+  concurrency?: number;
+  signal?: AbortSignal;
+};
+
+export type ProcessorRunnerOptions = {
+  // how many blocks are kept for the processors that are behind, the ones furthest behind are
+  // dropped first and fetched again by the processors that get to them
+  maxCachedBlocks?: number;
+};
+
+export type HandlerTimings = Record<string, { average: number; count: number; total: number }>;
+
+export type DryRunResult = {
+  height: number;
+  // in milliseconds
+  duration: number;
+  // the timings of the processor, the handler timings are summarised by handler name
+  timings: Record<string, number | HandlerTimings>;
+  // the handler that failed and the event or call it was handling
+  error?: Omit<DeadLetter, 'processorName'>;
 };
 
 export type State = {
@@ -123,3 +233,10 @@ export type EventHandler<T extends ProcessorStore<any, any>> = (args: {
   eventInfo: Awaited<ReturnType<T['getEventInfo']>>;
   extrinsicInfo?: Awaited<ReturnType<T['getExtrinsicInfo']>> | undefined;
 }) => Promise<void>;
+
+export type CallHandler<T extends ProcessorStore<any, any>> = (args: {
+  prisma: T;
+  call: Call;
+  extrinsic: IndexerExtrinsic;
+  block: Block;
+}) => Promise<void>;
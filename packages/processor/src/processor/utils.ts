@@ -1,3 +1,5 @@
+import { Block, BlockFilter } from './types';
+
 export const generatePalletEventName = <
   const C extends readonly string[],
   const P extends string,
@@ -17,3 +19,9 @@ export const generatePalletEventName = <
       [K in E[number]]: `${Ch}${P}.${K}`;
     };
   };
+
+export const filterBlock = (block: Block, { eventNames, callNames }: BlockFilter): Block => ({
+  ...block,
+  events: eventNames ? block.events.filter((e) => eventNames.includes(e.name)) : block.events,
+  calls: callNames ? block.calls.filter((c) => callNames.includes(c.name)) : block.calls,
+});
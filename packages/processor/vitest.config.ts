@@ -7,10 +7,10 @@ export default {
     coverage: {
       ...config.test?.coverage,
       thresholds: {
-        lines: 39.07,
-        statements: 39.13,
-        branches: 52.59,
-        functions: 36.61,
+        lines: 94.33,
+        statements: 94.17,
+        branches: 89.15,
+        functions: 96.45,
         autoUpdate: true,
       },
     },
@@ -1,40 +1,263 @@
-import { RpcRequest, RpcMethod, RpcResult, rpcResult, rpcResponse, JsonRpcRequest } from './common';
-import { assert } from '@chainflip/utils/assertion';
+import { sleep } from '@chainflip/utils/async';
+import { z } from 'zod';
+import {
+  RpcRequest,
+  RpcMethod,
+  RpcResult,
+  rpcResult,
+  rpcResponse,
+  getResultParser,
+  isVersioned,
+  nonRetryableMethods,
+  rpcParams,
+  JsonRpcMethod,
+  JsonRpcPayload,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RpcBatchRequest,
+  RpcBatchResult,
+} from './common';
+import { ParamValidationError, ResponseValidationError, RpcError, TransportError } from './errors';
+
+export type ClientOptions = {
+  // how long to wait for a response in milliseconds
+  timeout?: number;
+  // how many times a request is retried after a transport failure, the methods that aren't safe
+  // to repeat, e.g. `lp_set_limit_order`, are only retried if it's given for the request
+  retries?: number;
+  // how long to wait before the given retry in milliseconds
+  backoff?: (attempt: number) => number;
+};
+
+export type RequestOptions = ClientOptions & { signal?: AbortSignal };
+
+export type SendResult =
+  | { success: true; result: unknown }
+  | { success: false; error: Error; retry?: boolean };
+
+const rpcError = (
+  { method, params }: JsonRpcRequest<JsonRpcMethod>,
+  { error }: Extract<JsonRpcResponse, { error: unknown }>,
+) => new RpcError(error.code, error.message, error.data, method, params);
+
+const validate = <T>(
+  parser: z.ZodType<T, z.ZodTypeDef, unknown>,
+  value: unknown,
+  message: string,
+) => {
+  const result = parser.safeParse(value);
+  if (!result.success) throw new ResponseValidationError(message, result.error.issues);
+  return result.data;
+};
+
+const serializeParams = (method: JsonRpcMethod, params: unknown[]) => {
+  const parsers: readonly z.ZodTypeAny[] =
+    method in rpcParams ? rpcParams[method as keyof typeof rpcParams] : [];
+
+  return params.map((param, index) => {
+    const parser = parsers.at(index);
+
+    if (parser === undefined || param === null || param === undefined) return param;
+
+    const result = parser.safeParse(param);
+
+    if (!result.success) {
+      throw new ParamValidationError(
+        `Invalid params for ${method}`,
+        result.error.issues.map((issue) => ({ ...issue, path: [index, ...issue.path] })),
+      );
+    }
+
+    return result.data as unknown;
+  });
+};
+
+// how long the spec version of the node is cached, a runtime upgrade is picked up after it expires
+const SPEC_VERSION_TTL = 60_000;
 
 export default abstract class Client {
-  constructor(protected readonly url: string) {}
+  private requestId = 0;
+  private readonly options: Required<ClientOptions>;
+
+  private specVersion?: { value: Promise<number>; expiresAt: number };
 
-  protected abstract send<const T extends RpcMethod>(
-    data: JsonRpcRequest<T>,
-  ): Promise<{ success: true; result: unknown } | { success: false; error: Error }>;
+  constructor(
+    protected readonly url: string,
+    { timeout = 30_000, retries = 0, backoff = () => 0 }: ClientOptions = {},
+  ) {
+    this.options = { timeout, retries, backoff };
+  }
+
+  // makes a single attempt, failures with `retry` set are retried by the caller
+  protected abstract send(
+    data: JsonRpcPayload,
+    options: { timeout: number; signal?: AbortSignal },
+  ): Promise<SendResult>;
+
+  private async sendWithRetries(
+    data: JsonRpcPayload,
+    {
+      timeout = this.options.timeout,
+      retries = [data].flat().some(({ method }) => nonRetryableMethods.has(method))
+        ? 0
+        : this.options.retries,
+      backoff = this.options.backoff,
+      signal,
+    }: RequestOptions,
+  ): Promise<SendResult> {
+    for (let attempt = 0; ; attempt += 1) {
+      if (signal?.aborted) return { success: false, error: new TransportError('aborted') };
+
+      const response = await this.send(data, { timeout, signal });
+
+      if (response.success || !response.retry) return response;
+
+      if (attempt === retries) {
+        return retries === 0
+          ? response
+          : { success: false, error: new TransportError('max retries exceeded') };
+      }
+
+      await sleep(backoff(attempt + 1), { signal });
+    }
+  }
 
   protected getRequestId() {
-    return '1';
+    this.requestId += 1;
+    return String(this.requestId);
   }
 
-  private formatRequest<T extends RpcMethod>(method: T, params: RpcRequest[T]): JsonRpcRequest<T> {
-    return { jsonrpc: '2.0', id: this.getRequestId(), method, params } as const;
+  private formatRequest<T extends JsonRpcMethod>(
+    method: T,
+    params: JsonRpcRequest<T>['params'],
+  ): JsonRpcRequest<T> {
+    return {
+      jsonrpc: '2.0',
+      id: this.getRequestId(),
+      method,
+      params: serializeParams(method, params) as JsonRpcRequest<T>['params'],
+    } as const;
+  }
+
+  protected async request<const T extends JsonRpcMethod>(
+    method: T,
+    params: JsonRpcRequest<T>['params'],
+    options: RequestOptions = {},
+  ): Promise<unknown> {
+    const request = this.formatRequest(method, params);
+
+    const response = await this.sendWithRetries(request, options);
+
+    if (!response.success) throw response.error;
+
+    const data = validate(rpcResponse, response.result, 'Malformed RPC response received');
+
+    if ('error' in data) throw rpcError(request, data);
+
+    return data.result as unknown;
+  }
+
+  // resolves to `Infinity`, i.e. the latest parsers, if the node can't tell its version, the
+  // lookup is then tried again with the next request
+  private getSpecVersion(options: RequestOptions): Promise<number> {
+    if (this.specVersion && this.specVersion.expiresAt > Date.now()) return this.specVersion.value;
+
+    const value = this.requestWithOptions(options, 'state_getRuntimeVersion', []).then(
+      ({ specVersion }) => specVersion,
+      () => {
+        this.specVersion = undefined;
+        return Infinity;
+      },
+    );
+
+    this.specVersion = { value, expiresAt: Date.now() + SPEC_VERSION_TTL };
+
+    return value;
+  }
+
+  // only looks up the spec version of the node if one of the methods needs it
+  private async getParsers(methods: RpcMethod[], options: RequestOptions) {
+    const specVersion = methods.some(isVersioned) ? await this.getSpecVersion(options) : Infinity;
+
+    return methods.map((method) => getResultParser(method, specVersion));
+  }
+
+  // returns a view of the client that uses the given options for its requests
+  withOptions(options: RequestOptions): Pick<Client, 'sendRequest' | 'sendBatch'> {
+    return {
+      sendRequest: (method, ...params) => this.requestWithOptions(options, method, params),
+      sendBatch: (batch) => this.batchWithOptions(options, batch),
+    };
   }
 
   async sendRequest<const T extends RpcMethod>(
     method: T,
     ...params: RpcRequest[T]
   ): Promise<RpcResult<T>> {
-    const response = await this.send(this.formatRequest(method, params));
+    return this.requestWithOptions({}, method, params);
+  }
+
+  private async requestWithOptions<const T extends RpcMethod>(
+    options: RequestOptions,
+    method: T,
+    params: RpcRequest[T],
+  ): Promise<RpcResult<T>> {
+    const [result, [parser]] = await Promise.all([
+      this.request(method, params as JsonRpcRequest<T>['params'], options),
+      this.getParsers([method], options),
+    ]);
+
+    return validate(
+      parser as z.ZodType<RpcResult<T>, z.ZodTypeDef, unknown>,
+      result,
+      `Invalid response for ${method}`,
+    );
+  }
+
+  async sendBatch<const T extends readonly RpcBatchRequest[]>(
+    batch: T,
+  ): Promise<RpcBatchResult<T>> {
+    return this.batchWithOptions({}, batch);
+  }
+
+  private async batchWithOptions<const T extends readonly RpcBatchRequest[]>(
+    options: RequestOptions,
+    batch: T,
+  ): Promise<RpcBatchResult<T>> {
+    if (batch.length === 0) return [] as RpcBatchResult<T>;
+
+    const requests = batch.map(({ method, params }) => this.formatRequest(method, params));
+
+    const [response, parsers] = await Promise.all([
+      this.sendWithRetries(requests, options),
+      this.getParsers(
+        batch.map(({ method }) => method),
+        options,
+      ),
+    ]);
 
     if (!response.success) throw response.error;
 
-    const parseResult = rpcResponse.safeParse(response.result);
+    const data = validate(z.array(rpcResponse), response.result, 'Malformed RPC response received');
 
-    assert(parseResult.success, 'Malformed RPC response received');
+    const responses = new Map(data.map((res) => [res.id, res]));
 
-    if ('error' in parseResult.data) {
-      throw new Error(
-        `RPC error [${parseResult.data.error.code}]: ${parseResult.data.error.message}`,
-      );
-    }
+    return requests.map((request, index) => {
+      const res = responses.get(request.id);
+
+      if (!res) {
+        return { success: false, error: new ResponseValidationError('No response received') };
+      }
+
+      if ('error' in res) return { success: false, error: rpcError(request, res) };
 
-    return rpcResult[method].parse(parseResult.data.result);
+      try {
+        const message = `Invalid response for ${request.method}`;
+        return { success: true, result: validate(parsers[index], res.result, message) };
+      } catch (error) {
+        return { success: false, error: error as ResponseValidationError };
+      }
+    }) as RpcBatchResult<T>;
   }
 
   methods(): RpcMethod[] {
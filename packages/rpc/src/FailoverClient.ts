@@ -0,0 +1,141 @@
+import { sleep } from '@chainflip/utils/async';
+import type Client from './Client';
+import { ParamValidationError, ResponseValidationError, RpcError } from './errors';
+import {
+  RpcBatchRequest,
+  RpcBatchResult,
+  RpcMethod,
+  RpcRequest,
+  RpcResult,
+  nonRetryableMethods,
+} from './common';
+
+type Endpoint = {
+  client: Pick<Client, 'sendRequest' | 'sendBatch'>;
+  // `null` if the endpoint failed its last health check or request
+  height: number | null;
+};
+
+export type FailoverClientOptions = {
+  // how often the block heights of the endpoints are compared
+  healthCheckInterval?: number;
+  // how many blocks an endpoint can be behind the highest one and still be considered healthy
+  maxBlockLag?: number;
+  // how long an endpoint has to report its block height before it is considered unhealthy
+  healthCheckTimeout?: number;
+};
+
+export default class FailoverClient {
+  private readonly endpoints: Endpoint[];
+  private readonly healthCheckInterval: number;
+  private readonly maxBlockLag: number;
+  private readonly healthCheckTimeout: number;
+  private lastHealthCheck = -Infinity;
+  private healthCheck?: Promise<void>;
+
+  constructor(
+    clients: Pick<Client, 'sendRequest' | 'sendBatch'>[],
+    {
+      healthCheckInterval = 30_000,
+      maxBlockLag = 2,
+      healthCheckTimeout = 2_000,
+    }: FailoverClientOptions = {},
+  ) {
+    if (clients.length === 0) throw new Error('at least one client is required');
+
+    this.endpoints = clients.map((client) => ({ client, height: 0 }));
+    this.healthCheckInterval = healthCheckInterval;
+    this.maxBlockLag = maxBlockLag;
+    this.healthCheckTimeout = healthCheckTimeout;
+  }
+
+  private async getHeight({ client }: Endpoint): Promise<number | null> {
+    const controller = new AbortController();
+
+    return Promise.race([
+      client.sendRequest('chain_getHeader').then(
+        (header) => header.number,
+        () => null,
+      ),
+      sleep(this.healthCheckTimeout, { signal: controller.signal }).then(() => null),
+    ]).finally(() => {
+      controller.abort();
+    });
+  }
+
+  // only the first health check holds up requests, afterwards requests are routed with the
+  // heights of the last one while the next one runs in the background
+  private async checkHealth(): Promise<void> {
+    if (Date.now() - this.lastHealthCheck < this.healthCheckInterval) return;
+
+    const firstCheck = this.lastHealthCheck === -Infinity;
+
+    this.healthCheck ??= Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        endpoint.height = await this.getHeight(endpoint);
+      }),
+    ).then(() => {
+      this.lastHealthCheck = Date.now();
+      this.healthCheck = undefined;
+    });
+
+    if (firstCheck) await this.healthCheck;
+  }
+
+  // healthy endpoints come first, followed by lagging and then failing ones,
+  // otherwise the order the clients were given in is kept
+  private async getEndpoints(): Promise<Endpoint[]> {
+    await this.checkHealth();
+
+    const highest = Math.max(...this.endpoints.map((e) => e.height ?? -Infinity));
+
+    const rank = ({ height }: Endpoint) => {
+      if (height === null) return 2;
+      return height < highest - this.maxBlockLag ? 1 : 0;
+    };
+
+    return [...this.endpoints].sort((a, b) => rank(a) - rank(b));
+  }
+
+  private async withFailover<T>(
+    retryable: boolean,
+    fn: (client: Endpoint['client']) => Promise<T>,
+  ): Promise<T> {
+    const endpoints = await this.getEndpoints();
+
+    let error: unknown;
+
+    for (const endpoint of retryable ? endpoints : endpoints.slice(0, 1)) {
+      try {
+        return await fn(endpoint.client);
+      } catch (err) {
+        // the endpoint responded, so another endpoint would most likely respond the same way
+        if (err instanceof RpcError || err instanceof ResponseValidationError) throw err;
+        // the params are invalid no matter which endpoint they are sent to
+        if (err instanceof ParamValidationError) throw err;
+        endpoint.height = null;
+        error = err;
+      }
+    }
+
+    throw error;
+  }
+
+  async sendRequest<const T extends RpcMethod>(
+    method: T,
+    ...params: RpcRequest[T]
+  ): Promise<RpcResult<T>> {
+    return this.withFailover(!nonRetryableMethods.has(method), (client) =>
+      client.sendRequest(method, ...params),
+    );
+  }
+
+  async sendBatch<const T extends readonly RpcBatchRequest[]>(
+    batch: T,
+  ): Promise<RpcBatchResult<T>> {
+    return this.withFailover(
+      batch.every(({ method }) => !nonRetryableMethods.has(method)),
+      (client) => client.sendBatch(batch),
+    );
+  }
+}
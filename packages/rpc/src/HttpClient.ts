@@ -1,27 +1,64 @@
-import Client from './Client';
-import { JsonRpcRequest, RpcMethod } from './common';
+import Client, { SendResult } from './Client';
+import { JsonRpcPayload } from './common';
+import { TransportError } from './errors';
 
 export default class HttpClient extends Client {
-  protected async send<const T extends RpcMethod>(
-    request: JsonRpcRequest<T>,
-  ): Promise<{ success: true; result: unknown } | { success: false; error: Error }> {
-    const res = await fetch(this.url, {
-      body: JSON.stringify(request),
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+  protected async send(
+    request: JsonRpcPayload,
+    { timeout, signal }: { timeout: number; signal?: AbortSignal },
+  ): Promise<SendResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    signal?.addEventListener('abort', () => controller.abort(), { signal: controller.signal });
+
+    const result = await this.fetch(request, controller.signal);
+
+    clearTimeout(timer);
+
+    // the abort is reported instead of whichever error it caused
+    if (controller.signal.aborted) {
+      return { success: false, error: new TransportError(signal?.aborted ? 'aborted' : 'timeout') };
+    }
+
+    // removes the listener from the signal of the caller
+    controller.abort();
+
+    return result;
+  }
+
+  private async fetch(request: JsonRpcPayload, signal: AbortSignal): Promise<SendResult> {
+    let res;
+
+    try {
+      res = await fetch(this.url, {
+        body: JSON.stringify(request),
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        signal,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: new TransportError(`HTTP error: ${(error as Error).message}`),
+        retry: true,
+      };
+    }
 
     if (!res.ok) {
-      return { success: false, error: new Error(`HTTP error: ${res.status}`) };
+      return {
+        success: false,
+        error: new TransportError(`HTTP error: ${res.status}`, res.status),
+        retry: res.status >= 500,
+      };
     }
 
     try {
       const result = (await res.json()) as unknown;
       return { success: true, result };
     } catch (error) {
-      return { success: false, error: new Error('Invalid JSON response') };
+      return { success: false, error: new TransportError('Invalid JSON response', res.status) };
     }
   }
 }
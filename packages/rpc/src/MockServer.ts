@@ -0,0 +1,242 @@
+import { sleep } from '@chainflip/utils/async';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { promisify } from 'util';
+import { type WebSocket, WebSocketServer } from 'ws';
+import type { z } from 'zod';
+import {
+  getUnsubscribeMethod,
+  JsonRpcMethod,
+  JsonRpcRequest,
+  RpcMethod,
+  RpcRequest,
+  RpcResponse,
+  rpcSubscriptionResult,
+  RpcSubscriptionMethod,
+  RpcSubscriptionRequest,
+} from './common';
+
+export type MockRpcError = { code: number; message: string; data?: unknown };
+
+export type MockHandler<T extends RpcMethod> = (
+  ...params: RpcRequest[T]
+) => RpcResponse<T> | Promise<RpcResponse<T>>;
+
+type Response = { result: unknown } | { error: MockRpcError };
+
+const subscriptionMethods = new Set<string>(Object.keys(rpcSubscriptionResult));
+
+const unsubscribeMethods = new Set<string>(
+  Object.keys(rpcSubscriptionResult).map((method) =>
+    getUnsubscribeMethod(method as RpcSubscriptionMethod),
+  ),
+);
+
+// an in-process node that serves the registered fixtures over HTTP and websockets
+export default class MockServer {
+  private readonly server = createServer((req, res) => {
+    void this.handleHttpRequest(req, res);
+  });
+  private readonly wss = new WebSocketServer({ server: this.server });
+  private readonly handlers = new Map<string, (params: unknown[]) => Promise<unknown>>();
+  private readonly errors = new Map<string, MockRpcError>();
+  private readonly subscriptions = new Map<
+    string,
+    { method: RpcSubscriptionMethod; params: unknown[]; socket: WebSocket }
+  >();
+  private subscriptionCount = 0;
+  private httpFailure?: number | 'drop';
+
+  // every request that was received, in order
+  readonly requests: { method: string; params: unknown[] }[] = [];
+
+  // how long to wait before responding in milliseconds
+  latency = 0;
+
+  constructor() {
+    this.wss.on('connection', (socket) => {
+      socket.on('message', (data: Buffer) => {
+        void this.handlePayload(data.toString(), socket).then((response) => {
+          socket.send(JSON.stringify(response));
+        });
+      });
+
+      socket.on('close', () => {
+        this.subscriptions.forEach((subscription, id) => {
+          if (subscription.socket === socket) this.subscriptions.delete(id);
+        });
+      });
+    });
+  }
+
+  async start(): Promise<this> {
+    await new Promise<void>((resolve) => {
+      this.server.listen(0, '127.0.0.1', resolve);
+    });
+
+    return this;
+  }
+
+  private get port() {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  get httpUrl() {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  get wsUrl() {
+    return `ws://127.0.0.1:${this.port}`;
+  }
+
+  async close(): Promise<void> {
+    this.disconnect();
+    this.wss.close();
+    await promisify(this.server.close.bind(this.server))();
+  }
+
+  // responds to the method with a fixture or the return value of a handler
+  mock<T extends RpcMethod>(method: T, fixture: RpcResponse<T> | MockHandler<T>): this {
+    this.errors.delete(method);
+    this.handlers.set(method, (params) =>
+      Promise.resolve(
+        typeof fixture === 'function' ? fixture(...(params as RpcRequest[T])) : fixture,
+      ),
+    );
+    return this;
+  }
+
+  // responds to the method with a JSON-RPC error
+  fail(method: RpcMethod, error: MockRpcError): this {
+    this.errors.set(method, error);
+    return this;
+  }
+
+  // answers every HTTP request with the status code or closes its connection without answering,
+  // e.g. to test failover, until it's reset with `undefined`
+  failHttp(failure: number | 'drop' | undefined): this {
+    this.httpFailure = failure;
+    return this;
+  }
+
+  // drops all open websocket connections, e.g. to test reconnects
+  disconnect(): void {
+    this.wss.clients.forEach((socket) => {
+      socket.terminate();
+    });
+    this.subscriptions.clear();
+  }
+
+  // the params of every request for the method, in order
+  received<T extends JsonRpcMethod>(method: T): JsonRpcRequest<T>['params'][] {
+    return this.requests
+      .filter((request) => request.method === method)
+      .map((request) => request.params as JsonRpcRequest<T>['params']);
+  }
+
+  // sends a notification to every subscriber of the method and returns how many there were
+  notify<T extends RpcSubscriptionMethod>(
+    method: T,
+    result: z.input<(typeof rpcSubscriptionResult)[T]>,
+  ): number {
+    let count = 0;
+
+    this.subscriptions.forEach((subscription, id) => {
+      if (subscription.method !== method) return;
+      count += 1;
+      subscription.socket.send(
+        JSON.stringify({ jsonrpc: '2.0', method, params: { subscription: id, result } }),
+      );
+    });
+
+    return count;
+  }
+
+  // the params of the active subscriptions for the method
+  subscribers<T extends RpcSubscriptionMethod>(method: T): RpcSubscriptionRequest[T][] {
+    return [...this.subscriptions.values()]
+      .filter((subscription) => subscription.method === method)
+      .map((subscription) => subscription.params as RpcSubscriptionRequest[T]);
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+    if (this.httpFailure === 'drop') {
+      req.socket.destroy();
+      return;
+    }
+
+    if (this.httpFailure !== undefined) {
+      res.writeHead(this.httpFailure);
+      res.end();
+      return;
+    }
+
+    let body = '';
+
+    for await (const chunk of req) body += chunk as string;
+
+    const response = await this.handlePayload(body);
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  }
+
+  private async handlePayload(data: string, socket?: WebSocket): Promise<unknown> {
+    let payload;
+
+    try {
+      payload = JSON.parse(data) as unknown;
+    } catch {
+      return { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+    }
+
+    await sleep(this.latency);
+
+    if (!Array.isArray(payload)) return this.handleRequest(payload, socket);
+
+    return Promise.all(payload.map((request) => this.handleRequest(request, socket)));
+  }
+
+  private async handleRequest(request: unknown, socket?: WebSocket) {
+    const { id, method, params } = request as { id: unknown; method: unknown; params: unknown };
+
+    if (typeof method !== 'string' || !Array.isArray(params)) {
+      return { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid Request' } };
+    }
+
+    this.requests.push({ method, params });
+
+    return { jsonrpc: '2.0', id, ...(await this.getResponse(method, params, socket)) };
+  }
+
+  private async getResponse(
+    method: string,
+    params: unknown[],
+    socket?: WebSocket,
+  ): Promise<Response> {
+    const error = this.errors.get(method);
+
+    if (error) return { error };
+
+    if (socket && subscriptionMethods.has(method)) {
+      this.subscriptionCount += 1;
+      const id = `mock-subscription-${this.subscriptionCount}`;
+      this.subscriptions.set(id, { method: method as RpcSubscriptionMethod, params, socket });
+      return { result: id };
+    }
+
+    if (socket && unsubscribeMethods.has(method)) {
+      return { result: this.subscriptions.delete(params[0] as string) };
+    }
+
+    const handler = this.handlers.get(method);
+
+    if (!handler) return { error: { code: -32601, message: 'Method not found' } };
+
+    try {
+      return { result: await handler(params) };
+    } catch (err) {
+      return { error: { code: -32603, message: (err as Error).message } };
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { DeferredPromise, deferredPromise } from '@chainflip/utils/async';
+import {
+  RpcSubscriptionMethod,
+  RpcSubscriptionRequest,
+  RpcSubscriptionResult,
+  rpcSubscriptionResult,
+} from './common';
+import { ResponseValidationError } from './errors';
+
+export default class Subscription<T extends RpcSubscriptionMethod>
+  implements AsyncIterableIterator<RpcSubscriptionResult<T>>
+{
+  // the id assigned by the node, it changes when the subscription is renewed after a reconnect
+  id?: string | number;
+
+  private buffer: RpcSubscriptionResult<T>[] = [];
+  private pending?: DeferredPromise<IteratorResult<RpcSubscriptionResult<T>>>;
+  private error?: Error;
+  private done = false;
+
+  constructor(
+    readonly method: T,
+    readonly params: RpcSubscriptionRequest[T],
+    private readonly onUnsubscribe: () => Promise<void>,
+  ) {}
+
+  push(result: unknown) {
+    if (this.done) return;
+
+    const parseResult = rpcSubscriptionResult[this.method].safeParse(result);
+
+    if (!parseResult.success) {
+      this.fail(
+        new ResponseValidationError(
+          `Invalid notification for ${this.method}`,
+          parseResult.error.issues,
+        ),
+      );
+      // the subscription is of no use anymore, so it isn't renewed after a reconnect either
+      this.onUnsubscribe().catch(() => undefined);
+      return;
+    }
+
+    const value = parseResult.data as RpcSubscriptionResult<T>;
+
+    if (this.pending) {
+      this.pending.resolve({ value, done: false });
+      this.pending = undefined;
+    } else {
+      this.buffer.push(value);
+    }
+  }
+
+  fail(error: Error) {
+    if (this.done) return;
+    this.done = true;
+    this.error = error;
+    this.pending?.reject(error);
+    this.pending = undefined;
+  }
+
+  complete() {
+    this.done = true;
+    this.pending?.resolve({ value: undefined, done: true });
+    this.pending = undefined;
+  }
+
+  next(): Promise<IteratorResult<RpcSubscriptionResult<T>>> {
+    if (this.buffer.length !== 0) {
+      return Promise.resolve({
+        value: this.buffer.shift() as RpcSubscriptionResult<T>,
+        done: false,
+      });
+    }
+
+    if (this.error) return Promise.reject(this.error);
+
+    if (this.done) return Promise.resolve({ value: undefined, done: true });
+
+    this.pending = deferredPromise();
+
+    return this.pending.promise;
+  }
+
+  async unsubscribe(): Promise<void> {
+    if (this.done) return;
+    this.complete();
+    await this.onUnsubscribe();
+  }
+
+  async return(): Promise<IteratorResult<RpcSubscriptionResult<T>>> {
+    await this.unsubscribe();
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
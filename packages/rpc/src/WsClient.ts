@@ -1,22 +1,42 @@
 import { DeferredPromise, deferredPromise, once, sleep } from '@chainflip/utils/async';
 import { randomUUID } from 'crypto';
-import Client from './Client';
-import { JsonRpcRequest, RpcMethod, rpcResponse } from './common';
+import { z } from 'zod';
+import Client, { ClientOptions, SendResult } from './Client';
+import {
+  getUnsubscribeMethod,
+  JsonRpcPayload,
+  RpcSubscriptionMethod,
+  RpcSubscriptionRequest,
+  rpcNotification,
+  rpcResponse,
+} from './common';
+import { TransportError } from './errors';
+import { subscriptionId } from './parsers';
+import Subscription from './Subscription';
 
 const READY = 'READY';
 const DISCONNECT = 'DISCONNECT';
+// how long notifications for a subscription id that isn't known yet are kept
+const UNCLAIMED_NOTIFICATION_TTL = 5_000;
 
 export default class WsClient extends Client {
   private ws?: WebSocket;
   private reconnectAttempts = 0;
   private emitter = new EventTarget();
   private requestMap: Map<string | number, DeferredPromise<unknown>> = new Map();
+  private subscriptions: Map<string | number, Subscription<any>> = new Map();
+  // the node can send notifications before the subscription is registered
+  private unclaimedNotifications: Map<string | number, { results: unknown[]; expiresAt: number }> =
+    new Map();
+  private readonly timeout: number;
 
   constructor(
     url: string,
     private readonly WebSocket: typeof globalThis.WebSocket = globalThis.WebSocket,
+    options: ClientOptions = {},
   ) {
-    super(url);
+    super(url, { retries: 4, ...options });
+    this.timeout = options.timeout ?? 30_000;
   }
 
   protected override getRequestId() {
@@ -24,9 +44,82 @@ export default class WsClient extends Client {
   }
 
   async close() {
+    this.subscriptions.forEach((subscription) => {
+      subscription.complete();
+    });
+    this.subscriptions.clear();
+    this.unclaimedNotifications.clear();
     await this.handleClose();
   }
 
+  async subscribe<const T extends RpcSubscriptionMethod>(
+    method: T,
+    ...params: RpcSubscriptionRequest[T]
+  ): Promise<Subscription<T>> {
+    const subscription: Subscription<T> = new Subscription(method, params, () =>
+      this.unsubscribe(subscription),
+    );
+
+    await this.startSubscription(subscription);
+
+    return subscription;
+  }
+
+  private async startSubscription(subscription: Subscription<any>) {
+    const id = subscriptionId.parse(await this.request(subscription.method, subscription.params));
+
+    subscription.id = id;
+    this.subscriptions.set(id, subscription);
+
+    const unclaimed = this.unclaimedNotifications.get(id);
+    this.unclaimedNotifications.delete(id);
+    unclaimed?.results.forEach((result) => {
+      subscription.push(result);
+    });
+  }
+
+  private bufferNotification(id: string | number, result: unknown) {
+    const now = Date.now();
+
+    this.unclaimedNotifications.forEach((unclaimed, unclaimedId) => {
+      if (unclaimed.expiresAt <= now) this.unclaimedNotifications.delete(unclaimedId);
+    });
+
+    const unclaimed = this.unclaimedNotifications.get(id);
+
+    if (unclaimed) {
+      unclaimed.results.push(result);
+    } else {
+      this.unclaimedNotifications.set(id, {
+        results: [result],
+        expiresAt: now + UNCLAIMED_NOTIFICATION_TTL,
+      });
+    }
+  }
+
+  private async unsubscribe(subscription: { method: RpcSubscriptionMethod; id?: string | number }) {
+    const id = subscription.id as string | number;
+
+    this.subscriptions.delete(id);
+
+    z.boolean().parse(await this.request(getUnsubscribeMethod(subscription.method), [id]));
+  }
+
+  // the node forgets about subscriptions when the connection drops
+  private async resubscribe() {
+    const subscriptions = [...this.subscriptions.values()];
+
+    this.subscriptions.clear();
+
+    await Promise.all(
+      subscriptions.map((subscription) =>
+        this.startSubscription(subscription).catch((error: unknown) => {
+          subscription.fail(error as Error);
+        }),
+      ),
+    );
+  }
+
   private async handleClose() {
     if (!this.ws) return;
     this.ws.removeEventListener('close', this.handleDisconnect);
@@ -36,12 +129,12 @@ export default class WsClient extends Client {
     }
   }
 
-  private async connectionReady(): Promise<WebSocket> {
+  private async connectionReady(signal?: AbortSignal): Promise<WebSocket> {
     if (!this.ws) {
       return this.connect();
     }
     if (this.ws.readyState !== this.WebSocket.OPEN) {
-      await once(this.emitter, READY, { timeout: 30_000 });
+      await once(this.emitter, READY, { timeout: this.timeout, signal });
     }
     return this.ws;
   }
@@ -50,7 +143,7 @@ export default class WsClient extends Client {
     this.emitter.dispatchEvent(new Event(DISCONNECT));
 
     this.requestMap.forEach((request) => {
-      request.reject(new Error('disconnected'));
+      request.reject(new TransportError('disconnected'));
     });
 
     this.requestMap.clear();
@@ -59,17 +152,50 @@ export default class WsClient extends Client {
 
     await sleep(backoff);
 
-    await this.connect().catch(() => {
-      this.reconnectAttempts = Math.min(this.reconnectAttempts + 1, 6);
-    });
+    await this.connect().then(
+      () => this.resubscribe(),
+      () => {
+        this.reconnectAttempts = Math.min(this.reconnectAttempts + 1, 6);
+      },
+    );
   };
 
   private handleMessage = (data: MessageEvent<string>) => {
     const parsedData = JSON.parse(data.data) as unknown;
 
+    // a batch is resolved as a whole by the id of any of its responses
+    if (Array.isArray(parsedData)) {
+      for (const entry of parsedData) {
+        const entryResponse = rpcResponse.safeParse(entry);
+        const request = entryResponse.success && this.requestMap.get(entryResponse.data.id);
+
+        if (request) {
+          request.resolve(parsedData);
+          return;
+        }
+      }
+
+      return;
+    }
+
     const response = rpcResponse.safeParse(parsedData);
 
-    if (!response.success) return;
+    if (!response.success) {
+      const notification = rpcNotification.safeParse(parsedData);
+
+      if (notification.success) {
+        const { subscription, result } = notification.data.params;
+        const target = this.subscriptions.get(subscription);
+
+        if (target) {
+          target.push(result);
+        } else {
+          this.bufferNotification(subscription, result);
+        }
+      }
+
+      return;
+    }
 
     const { id } = response.data;
 
@@ -86,7 +212,7 @@ export default class WsClient extends Client {
     // logic will be funnelled through here
     this.ws.addEventListener('close', this.handleDisconnect, { once: true });
 
-    await once(this.ws, 'open', { timeout: 30_000 });
+    await once(this.ws, 'open', { timeout: this.timeout });
 
     this.ws.addEventListener('error', () => {
       socket.close();
@@ -99,45 +225,42 @@ export default class WsClient extends Client {
     return socket;
   }
 
-  protected async send<const T extends RpcMethod>(
-    data: JsonRpcRequest<T>,
-  ): Promise<{ success: true; result: unknown } | { success: false; error: Error }> {
-    let requestId = data.id;
-
-    for (let i = 0; i < 5; i += 1) {
-      let socket;
-      try {
-        socket = await this.connectionReady();
-      } catch (err) {
-        // retry
-        continue;
-      }
-
-      socket.send(JSON.stringify({ ...data, id: requestId }));
-
-      const request = deferredPromise<unknown>();
-
-      this.requestMap.set(requestId, request);
-
-      const controller = new AbortController();
-      const result = await Promise.race([
-        sleep(30_000, { signal: controller.signal }).then(
-          () => ({ success: false, retry: false, error: new Error('timeout') }) as const,
-        ),
-        request.promise.then(
-          (result) => ({ success: true, result }) as const,
-          (error) => ({ success: false, error: error as Error, retry: true }) as const,
-        ),
-      ]).finally(() => {
-        this.requestMap.delete(requestId);
-        controller.abort();
-      });
-
-      if (result.success || !result.retry) return result;
-
-      requestId = this.getRequestId();
+  protected async send(
+    data: JsonRpcPayload,
+    { timeout, signal }: { timeout: number; signal?: AbortSignal },
+  ): Promise<SendResult> {
+    const requestIds = Array.isArray(data) ? data.map(({ id }) => id) : [data.id];
+
+    let socket;
+    try {
+      socket = await this.connectionReady(signal);
+    } catch (err) {
+      return { success: false, error: new TransportError('failed to connect'), retry: true };
     }
 
-    return { success: false, error: new Error('max retries exceeded') };
+    socket.send(JSON.stringify(data));
+
+    const request = deferredPromise<unknown>();
+
+    requestIds.forEach((id) => this.requestMap.set(id, request));
+
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { signal: controller.signal });
+
+    return Promise.race([
+      sleep(timeout, { signal: controller.signal }).then(
+        (): SendResult => ({
+          success: false,
+          error: new TransportError(signal?.aborted ? 'aborted' : 'timeout'),
+        }),
+      ),
+      request.promise.then(
+        (result): SendResult => ({ success: true, result }),
+        (error): SendResult => ({ success: false, error: error as Error, retry: true }),
+      ),
+    ]).finally(() => {
+      requestIds.forEach((id) => this.requestMap.delete(id));
+      controller.abort();
+    });
   }
 }
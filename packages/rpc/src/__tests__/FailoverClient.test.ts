@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import FailoverClient from '../FailoverClient';
+import { ParamValidationError, RpcError } from '../errors';
+
+const createClient = (height: number | null) => ({
+  sendRequest: vi.fn((method: string): Promise<unknown> => {
+    if (height === null) return Promise.reject(new Error('HTTP error: 502'));
+    if (method === 'chain_getHeader') return Promise.resolve({ number: height });
+    return Promise.resolve(`result from ${height}`);
+  }),
+  sendBatch: vi.fn(() =>
+    height === null
+      ? Promise.reject(new Error('HTTP error: 502'))
+      : Promise.resolve([{ success: true, result: `result from ${height}` }]),
+  ),
+});
+
+describe(FailoverClient, () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requires a client', () => {
+    expect(() => new FailoverClient([])).toThrowError('at least one client is required');
+  });
+
+  it('routes requests to the most up to date endpoint', async () => {
+    const lagging = createClient(90);
+    const healthy = createClient(100);
+    const client = new FailoverClient([lagging, healthy] as never[]);
+
+    await expect(client.sendRequest('cf_environment')).resolves.toBe('result from 100');
+    expect(lagging.sendRequest).not.toHaveBeenCalledWith('cf_environment');
+  });
+
+  it('keeps the order of the endpoints within the allowed lag', async () => {
+    const first = createClient(99);
+    const second = createClient(100);
+    const client = new FailoverClient([first, second] as never[]);
+
+    await expect(client.sendRequest('cf_environment')).resolves.toBe('result from 99');
+  });
+
+  it('retries on the next endpoint', async () => {
+    const primary = createClient(100);
+    const secondary = createClient(100);
+    const client = new FailoverClient([primary, secondary] as never[]);
+    primary.sendRequest.mockRejectedValueOnce(new Error('HTTP error: 502'));
+    primary.sendRequest.mockRejectedValueOnce(new Error('HTTP error: 502'));
+
+    await expect(client.sendRequest('cf_environment')).resolves.toBe('result from 100');
+    expect(secondary.sendRequest).toHaveBeenCalledWith('cf_environment');
+
+    // the failing endpoint is deprioritised until the next health check
+    await client.sendRequest('cf_supported_assets');
+    expect(primary.sendRequest).not.toHaveBeenCalledWith('cf_supported_assets');
+  });
+
+  it('does not retry errors returned by the node', async () => {
+    const primary = createClient(100);
+    const secondary = createClient(100);
+    const client = new FailoverClient([primary, secondary] as never[]);
+    const error = new RpcError(-32602, 'invalid parameter type', undefined, 'cf_swap_rate', []);
+    primary.sendRequest.mockImplementationOnce(() => Promise.resolve({ number: 100 }));
+    primary.sendRequest.mockRejectedValueOnce(error);
+
+    await expect(client.sendRequest('cf_environment')).rejects.toBe(error);
+    expect(secondary.sendRequest).not.toHaveBeenCalledWith('cf_environment');
+
+    await client.sendRequest('cf_supported_assets');
+    expect(primary.sendRequest).toHaveBeenCalledWith('cf_supported_assets');
+  });
+
+  it('does not retry invalid params', async () => {
+    const primary = createClient(100);
+    const secondary = createClient(100);
+    const client = new FailoverClient([primary, secondary] as never[]);
+    const error = new ParamValidationError('Invalid params for cf_swap_rate', []);
+    primary.sendRequest.mockImplementationOnce(() => Promise.resolve({ number: 100 }));
+    primary.sendRequest.mockRejectedValueOnce(error);
+
+    await expect(client.sendRequest('cf_environment')).rejects.toBe(error);
+    expect(secondary.sendRequest).not.toHaveBeenCalledWith('cf_environment');
+    expect(client['endpoints'].map((e) => e.height)).toEqual([100, 100]);
+  });
+
+  it('throws the last error if all endpoints fail', async () => {
+    const client = new FailoverClient([createClient(null), createClient(null)] as never[]);
+
+    await expect(client.sendRequest('cf_environment')).rejects.toThrowError('HTTP error: 502');
+  });
+
+  it('does not retry opening deposit channels', async () => {
+    const params = [
+      { chain: 'Ethereum', asset: 'ETH' },
+      { chain: 'Bitcoin', asset: 'BTC' },
+      'bc1q',
+      0,
+    ] as const;
+    const setup = () => {
+      const primary = createClient(100);
+      const secondary = createClient(100);
+      primary.sendRequest.mockImplementation((method: string) =>
+        method === 'chain_getHeader'
+          ? Promise.resolve({ number: 100 })
+          : Promise.reject(new Error('timeout')),
+      );
+      primary.sendBatch.mockRejectedValue(new Error('timeout'));
+      return { secondary, client: new FailoverClient([primary, secondary] as never[]) };
+    };
+
+    const request = setup();
+    await expect(
+      request.client.sendRequest('broker_requestSwapDepositAddress', ...params),
+    ).rejects.toThrowError('timeout');
+    expect(request.secondary.sendRequest).toHaveBeenCalledTimes(1);
+
+    const batch = setup();
+    await expect(
+      batch.client.sendBatch([{ method: 'broker_requestSwapDepositAddress', params: [...params] }]),
+    ).rejects.toThrowError('timeout');
+    expect(batch.secondary.sendBatch).not.toHaveBeenCalled();
+  });
+
+  it('does not retry submitting extrinsics for liquidity providers', async () => {
+    const primary = createClient(100);
+    const secondary = createClient(100);
+    primary.sendRequest.mockImplementation((method: string) =>
+      method === 'chain_getHeader'
+        ? Promise.resolve({ number: 100 })
+        : Promise.reject(new Error('timeout')),
+    );
+    const client = new FailoverClient([primary, secondary] as never[]);
+
+    await expect(
+      client.sendRequest('lp_transfer_asset', '0x1', { chain: 'Ethereum', asset: 'ETH' }, 'cFL'),
+    ).rejects.toThrowError('timeout');
+    expect(secondary.sendRequest).toHaveBeenCalledTimes(1);
+
+    await client.sendRequest('lp_total_balances');
+    expect(secondary.sendRequest).toHaveBeenCalledWith('lp_total_balances');
+  });
+
+  it('fails over batches', async () => {
+    const client = new FailoverClient([createClient(null), createClient(100)] as never[]);
+
+    await expect(client.sendBatch([{ method: 'cf_environment', params: [] }])).resolves.toEqual([
+      { success: true, result: 'result from 100' },
+    ]);
+  });
+
+  it('checks the health of the endpoints periodically', async () => {
+    vi.useFakeTimers();
+    const endpoint = createClient(100);
+    const client = new FailoverClient([endpoint] as never[], { healthCheckInterval: 1000 });
+
+    await Promise.all([client.sendRequest('cf_environment'), client.sendRequest('cf_environment')]);
+    await vi.advanceTimersByTimeAsync(500);
+    await client.sendRequest('cf_environment');
+    expect(endpoint.sendRequest.mock.calls.filter(([m]) => m === 'chain_getHeader')).toHaveLength(
+      1,
+    );
+
+    await vi.advanceTimersByTimeAsync(500);
+    await client.sendRequest('cf_environment');
+    expect(endpoint.sendRequest.mock.calls.filter(([m]) => m === 'chain_getHeader')).toHaveLength(
+      2,
+    );
+  });
+
+  it('does not wait for hung endpoints', async () => {
+    vi.useFakeTimers();
+    const healthy = createClient(100);
+    const hung = createClient(100);
+    hung.sendRequest.mockImplementation(() => new Promise(() => undefined));
+    const client = new FailoverClient([healthy, hung] as never[], {
+      healthCheckInterval: 1000,
+      healthCheckTimeout: 500,
+    });
+
+    const request = client.sendRequest('cf_environment');
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(request).resolves.toBe('result from 100');
+    expect(client['endpoints'].map((e) => e.height)).toEqual([100, null]);
+
+    // later health checks run in the background
+    await vi.advanceTimersByTimeAsync(1000);
+    healthy.sendRequest.mockImplementation((method: string) =>
+      method === 'chain_getHeader' ? new Promise(() => undefined) : Promise.resolve('result'),
+    );
+    await expect(client.sendRequest('cf_environment')).resolves.toBe('result');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(client['endpoints'].map((e) => e.height)).toEqual([null, null]);
+  });
+});
@@ -2,26 +2,26 @@ import { HexString } from '@chainflip/utils/types';
 import { Server } from 'http';
 import { AddressInfo } from 'net';
 import { promisify } from 'util';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { z } from 'zod';
 import HttpClient from '../HttpClient';
-import { JsonRpcRequest, RpcMethod } from '../common';
+import MockServer from '../MockServer';
+import { ParamValidationError, ResponseValidationError, TransportError } from '../errors';
+import { JsonRpcRequest, RpcMethod, RpcRequest as RpcParams } from '../common';
 import {
   AssetAndChain,
-  broker,
   brokerRequestSwapDepositAddress,
-  cfEnvironment,
-  cfIngressEgressEnvironment,
   cfPoolOrders,
   cfPoolPriceV2,
-  cfPoolsEnvironment,
   cfSwapRateV2,
   cfSwappingEnvironment,
-  liquidityProvider,
+  legacy,
   unregistered,
   validator,
+  type cfFreeBalances,
   type cfFundingEnvironment,
   type cfSwapRate,
+  type stateGetRuntimeVersion,
 } from '../parsers';
 
 const supportedAssets = [
@@ -36,7 +36,8 @@ const supportedAssets = [
   // { chain: 'Solana', asset: 'SOL' },
 ];
 
-const ingressEgressEnvironment: z.input<typeof cfIngressEgressEnvironment> = {
+// the test server runs an older runtime, so its responses lack the Solana entries
+const ingressEgressEnvironment: z.input<typeof legacy.cfIngressEgressEnvironment> = {
   minimum_deposit_amounts: {
     Ethereum: { ETH: '0x0', FLIP: '0x0', USDC: '0x0', USDT: '0x0' },
     Polkadot: { DOT: '0x0' },
@@ -88,7 +89,7 @@ const ingressEgressEnvironment: z.input<typeof cfIngressEgressEnvironment> = {
   },
 };
 
-const swappingEnvironment: z.input<typeof cfSwappingEnvironment> = {
+const swappingEnvironment: z.input<typeof legacy.cfSwappingEnvironment> = {
   maximum_swap_amounts: {
     Ethereum: {
       ETH: '0x10000',
@@ -118,7 +119,7 @@ const fundingEnvironment: z.input<typeof cfFundingEnvironment> = {
   minimum_funding_amount: '0x8ac7230489e80000',
 };
 
-const poolsEnvironment: z.input<typeof cfPoolsEnvironment> = {
+const poolsEnvironment: z.input<typeof legacy.cfPoolsEnvironment> = {
   fees: {
     Ethereum: {
       ETH: {
@@ -327,14 +328,14 @@ const poolsEnvironment: z.input<typeof cfPoolsEnvironment> = {
   },
 };
 
-const environment: z.input<typeof cfEnvironment> = {
+const environment: z.input<typeof legacy.cfEnvironment> = {
   ingress_egress: ingressEgressEnvironment,
   swapping: swappingEnvironment,
   funding: fundingEnvironment,
   pools: poolsEnvironment,
 };
 
-const runtimeVersion = {
+const runtimeVersion: z.input<typeof stateGetRuntimeVersion> = {
   specName: 'chainflip-node',
   implName: 'chainflip-node',
   authoringVersion: 1,
@@ -386,7 +387,10 @@ const unregisteredAccount: z.input<typeof unregistered> = {
   flip_balance: '0x0',
 };
 
-const liquidityProviderAccount: z.input<typeof liquidityProvider> = {
+const liquidityProviderAccount: Extract<
+  z.input<typeof legacy.cfAccountInfo>,
+  { role: 'liquidity_provider' }
+> = {
   role: 'liquidity_provider',
   balances: {
     Ethereum: { ETH: '0x0', FLIP: '0x0', USDC: '0x0', USDT: '0x0' },
@@ -441,7 +445,7 @@ const liquidityProviderAccount: z.input<typeof liquidityProvider> = {
   },
 };
 
-const brokerAccount: z.input<typeof broker> = {
+const brokerAccount: Extract<z.input<typeof legacy.cfAccountInfo>, { role: 'broker' }> = {
   role: 'broker',
   flip_balance: '0x123dd89c5bb3f5009',
   earned_fees: {
@@ -545,24 +549,53 @@ describe(HttpClient, () => {
   it('returns all methods', () => {
     expect(new HttpClient('http://localhost:8080').methods()).toMatchInlineSnapshot(`
       [
+        "broker_affiliate_withdrawal_request",
+        "broker_get_affiliates",
+        "broker_register_account",
+        "broker_register_affiliate",
         "broker_requestSwapDepositAddress",
+        "broker_request_swap_parameter_encoding",
+        "broker_withdraw_fees",
         "cf_account_info",
         "cf_accounts",
+        "cf_asset_balances",
+        "cf_authority_emission_per_block",
         "cf_boost_pool_details",
         "cf_boost_pool_pending_fees",
         "cf_boost_pools_depth",
         "cf_environment",
+        "cf_epoch_state",
+        "cf_flip_supply",
+        "cf_free_balances",
         "cf_funding_environment",
         "cf_ingress_egress_environment",
+        "cf_lp_total_balances",
+        "cf_penalties",
         "cf_pool_depth",
+        "cf_pool_liquidity",
+        "cf_pool_orderbook",
         "cf_pool_orders",
         "cf_pool_price_v2",
         "cf_pools_environment",
+        "cf_required_asset_ratio_for_range_order",
+        "cf_scheduled_swaps",
         "cf_supported_assets",
+        "cf_suspensions",
         "cf_swap_rate",
         "cf_swap_rate_v2",
         "cf_swapping_environment",
         "chain_getBlockHash",
+        "chain_getHeader",
+        "lp_liquidity_deposit",
+        "lp_register_account",
+        "lp_register_liquidity_refund_address",
+        "lp_set_limit_order",
+        "lp_set_range_order",
+        "lp_total_balances",
+        "lp_transfer_asset",
+        "lp_update_limit_order",
+        "lp_update_range_order",
+        "lp_withdraw_asset",
         "state_getMetadata",
         "state_getRuntimeVersion",
       ]
@@ -593,9 +626,41 @@ describe(HttpClient, () => {
           length += chunk.length;
         }
 
-        const body = JSON.parse(
-          Buffer.concat(chunks, length).toString(),
-        ) as JsonRpcRequest<RpcMethod>;
+        const parsedBody = JSON.parse(Buffer.concat(chunks, length).toString()) as
+          | JsonRpcRequest<RpcMethod>
+          | JsonRpcRequest<RpcMethod>[];
+
+        if (Array.isArray(parsedBody)) {
+          const specialBatchMethod = parsedBody[0].method as string;
+
+          if (specialBatchMethod === 'malformed_response') {
+            return res.end(JSON.stringify({ jsonrpc: '2.0', result: 1 }));
+          } else if (specialBatchMethod === 'non_200') {
+            return res.writeHead(404).end();
+          }
+
+          const results = {
+            cf_environment: { result: environment },
+            cf_pool_price_v2: { result: poolPriceV2 },
+            cf_boost_pools_depth: { result: [{ asset: 'BTC' }] },
+            cf_supported_assets: { error: { code: -32601, message: 'Method not found' } },
+          };
+
+          return res.end(
+            JSON.stringify(
+              parsedBody
+                .filter(({ method }) => method in results)
+                .map(({ id, method }) => ({
+                  id,
+                  jsonrpc: '2.0',
+                  ...results[method as keyof typeof results],
+                }))
+                .reverse(),
+            ),
+          );
+        }
+
+        const body = parsedBody;
 
         const specialMethod = body.method as string;
 
@@ -605,6 +670,10 @@ describe(HttpClient, () => {
           return res.writeHead(404).end();
         } else if (specialMethod === 'malformed_json') {
           return res.end('{');
+        } else if (specialMethod === 'unavailable') {
+          return res.writeHead(503).end();
+        } else if (specialMethod === 'no_response') {
+          return undefined;
         }
 
         const respond = (result: unknown) =>
@@ -649,6 +718,12 @@ describe(HttpClient, () => {
             }
           case 'broker_requestSwapDepositAddress':
             return respond(swapDepositAddress);
+          case 'broker_request_swap_parameter_encoding':
+            return respond({
+              chain: 'Bitcoin',
+              nulldata_payload: '0x6a',
+              deposit_address: 'bc1q',
+            });
           case 'cf_boost_pools_depth':
             return respond(boostPoolsDepth);
           case 'cf_environment':
@@ -671,6 +746,14 @@ describe(HttpClient, () => {
             return respond(swappingEnvironment);
           case 'chain_getBlockHash':
             return respond('0x5678');
+          case 'chain_getHeader':
+            return respond({
+              parentHash: '0x1234',
+              number: '0x10',
+              stateRoot: '0x01',
+              extrinsicsRoot: '0x02',
+              digest: { logs: [] },
+            });
           case 'state_getMetadata':
             return respond('0x1234');
           case 'state_getRuntimeVersion':
@@ -785,6 +868,13 @@ describe(HttpClient, () => {
       expect(await client.sendRequest('chain_getBlockHash')).toEqual('0x5678');
     });
 
+    it('gets the block header', async () => {
+      expect(await client.sendRequest('chain_getHeader')).toMatchObject({
+        parentHash: '0x1234',
+        number: 16,
+      });
+    });
+
     it('gets the runtime version', async () => {
       expect(await client.sendRequest('state_getRuntimeVersion')).toEqual(runtimeVersion);
     });
@@ -910,17 +1000,156 @@ describe(HttpClient, () => {
       `);
     });
 
+    it('sends bigints as hex strings', async () => {
+      const spy = vi.spyOn(global, 'fetch');
+
+      await expect(
+        client.sendRequest(
+          'broker_request_swap_parameter_encoding',
+          { asset: 'BTC', chain: 'Bitcoin' },
+          { asset: 'ETH', chain: 'Ethereum' },
+          '0x4567',
+          100,
+          { chain: 'Bitcoin', min_output_amount: 1_000_000_000_000_000_000n, retry_duration: 10 },
+          { message: '0x', gas_budget: 0n },
+        ),
+      ).resolves.toEqual({ chain: 'Bitcoin', nulldata_payload: '0x6a', deposit_address: 'bc1q' });
+
+      const body = JSON.parse(spy.mock.calls[0][1]?.body as string) as JsonRpcRequest<RpcMethod>;
+      expect(body.params.slice(4)).toEqual([
+        { chain: 'Bitcoin', min_output_amount: '0xde0b6b3a7640000', retry_duration: 10 },
+        { message: '0x', gas_budget: '0x0' },
+      ]);
+      spy.mockRestore();
+    });
+
+    it('converts amounts and assets into the form the node expects', async () => {
+      const spy = vi.spyOn(global, 'fetch');
+
+      await client.sendRequest(
+        'cf_swap_rate_v2',
+        { chain: 'Bitcoin', asset: 'Btc' },
+        { chain: 'Ethereum', asset: 'USDC' },
+        '1000000',
+        [
+          {
+            LimitOrder: {
+              base_asset: { chain: 'Ethereum', asset: 'Eth' },
+              quote_asset: { chain: 'Ethereum', asset: 'Usdc' },
+              side: 'buy',
+              tick: -200,
+              sell_amount: 100,
+            },
+          },
+        ],
+        '0x1234',
+      );
+
+      const body = JSON.parse(spy.mock.calls[0][1]?.body as string) as JsonRpcRequest<RpcMethod>;
+      expect(body.params).toEqual([
+        { chain: 'Bitcoin', asset: 'BTC' },
+        { chain: 'Ethereum', asset: 'USDC' },
+        '0xf4240',
+        [
+          {
+            LimitOrder: {
+              base_asset: { chain: 'Ethereum', asset: 'ETH' },
+              quote_asset: { chain: 'Ethereum', asset: 'USDC' },
+              side: 'buy',
+              tick: -200,
+              sell_amount: '0x64',
+            },
+          },
+        ],
+        '0x1234',
+      ]);
+      spy.mockRestore();
+    });
+
+    it.each([
+      [
+        'amounts below zero',
+        [
+          'cf_swap_rate',
+          { chain: 'Bitcoin', asset: 'BTC' },
+          { chain: 'Ethereum', asset: 'ETH' },
+          -1n,
+        ],
+        [2],
+      ],
+      [
+        'amounts above the max U256',
+        ['lp_transfer_asset', 2n ** 256n, { chain: 'Bitcoin', asset: 'BTC' }, 'cFL'],
+        [0],
+      ],
+      [
+        'unknown assets',
+        [
+          'cf_pool_price_v2',
+          { chain: 'Bitcoin', asset: 'ETH' },
+          { chain: 'Ethereum', asset: 'USDC' },
+        ],
+        [0],
+      ],
+      [
+        'commissions above 100%',
+        [
+          'broker_requestSwapDepositAddress',
+          { chain: 'Bitcoin', asset: 'BTC' },
+          { chain: 'Ethereum', asset: 'ETH' },
+          '0x4567',
+          10_001,
+        ],
+        [3],
+      ],
+      [
+        'ticks out of bounds',
+        [
+          'cf_pool_depth',
+          { chain: 'Bitcoin', asset: 'BTC' },
+          { chain: 'Ethereum', asset: 'USDC' },
+          { start: -887_273, end: 0 },
+        ],
+        [2, 'start'],
+      ],
+    ])('rejects %s', async (_, [method, ...params], path) => {
+      const spy = vi.spyOn(global, 'fetch');
+
+      const error = await client
+        .sendRequest(method as 'cf_swap_rate', ...(params as RpcParams['cf_swap_rate']))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ParamValidationError);
+      expect((error as ParamValidationError).message).toBe(
+        `Invalid params for ${method as string}`,
+      );
+      expect((error as ParamValidationError).issues[0].path.slice(0, path.length)).toEqual(path);
+      expect(spy).not.toHaveBeenCalled();
+      spy.mockRestore();
+    });
+
     it('throws on invalid response', async () => {
       const method = 'malformed_response' as RpcMethod;
 
       await expect(client.sendRequest(method)).rejects.toThrowErrorMatchingInlineSnapshot(
-        `[Error: Malformed RPC response received]`,
+        `[ResponseValidationError: Malformed RPC response received]`,
       );
     });
 
     it('throws on a non-200 response', async () => {
       const method = 'non_200' as RpcMethod;
-      await expect(client.sendRequest(method)).rejects.toThrow('HTTP error: 404');
+      await expect(client.sendRequest(method)).rejects.toThrow(
+        expect.objectContaining({ name: 'TransportError', status: 404 }),
+      );
+    });
+
+    it('throws a transport error if the request fails', async () => {
+      const spy = vi.spyOn(global, 'fetch').mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      await expect(client.sendRequest('cf_environment')).rejects.toThrow(
+        new TransportError('HTTP error: fetch failed'),
+      );
+      spy.mockRestore();
     });
 
     it('returns the rejected error message', async () => {
@@ -933,7 +1162,7 @@ describe(HttpClient, () => {
           1 as unknown as HexString,
         ),
       ).rejects.toThrowErrorMatchingInlineSnapshot(
-        `[Error: RPC error [-32602]: invalid parameter type]`,
+        `[RpcError: RPC error [-32602]: invalid parameter type]`,
       );
     });
 
@@ -941,5 +1170,274 @@ describe(HttpClient, () => {
       const method = 'malformed_json' as RpcMethod;
       await expect(client.sendRequest(method)).rejects.toThrow('Invalid JSON response');
     });
+
+    describe('request options', () => {
+      it('times out', async () => {
+        const request = client
+          .withOptions({ timeout: 50 })
+          .sendRequest('no_response' as 'cf_environment');
+
+        await expect(request).rejects.toThrow(new TransportError('timeout'));
+      });
+
+      it('aborts the request', async () => {
+        const controller = new AbortController();
+        const request = client
+          .withOptions({ signal: controller.signal })
+          .sendRequest('no_response' as 'cf_environment');
+
+        controller.abort();
+
+        await expect(request).rejects.toThrow(new TransportError('aborted'));
+      });
+
+      it('does not send a request with an aborted signal', async () => {
+        const spy = vi.spyOn(global, 'fetch');
+
+        await expect(
+          client
+            .withOptions({ signal: AbortSignal.abort() })
+            .sendBatch([{ method: 'cf_environment', params: [] }]),
+        ).rejects.toThrow(new TransportError('aborted'));
+        expect(spy).not.toHaveBeenCalled();
+        spy.mockRestore();
+      });
+
+      it('retries transport failures with a backoff', async () => {
+        const spy = vi
+          .spyOn(global, 'fetch')
+          .mockRejectedValueOnce(new TypeError('fetch failed'))
+          .mockRejectedValueOnce(new TypeError('fetch failed'));
+        const backoff = vi.fn((attempt: number) => attempt * 10);
+
+        await expect(
+          client.withOptions({ retries: 2, backoff }).sendRequest('cf_funding_environment'),
+        ).resolves.toBeDefined();
+        expect(spy).toHaveBeenCalledTimes(3);
+        expect(backoff.mock.calls).toEqual([[1], [2]]);
+        spy.mockRestore();
+      });
+
+      it('only retries methods with side effects if asked to for the request', async () => {
+        const spy = vi.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+        const retryingClient = new HttpClient(client['url'], { retries: 2 });
+
+        await expect(retryingClient.sendRequest('lp_register_account')).rejects.toThrow(
+          TransportError,
+        );
+        expect(spy).toHaveBeenCalledTimes(1);
+
+        await expect(
+          retryingClient.withOptions({ retries: 1 }).sendRequest('lp_register_account'),
+        ).rejects.toThrow(new TransportError('max retries exceeded'));
+        expect(spy).toHaveBeenCalledTimes(3);
+        spy.mockRestore();
+      });
+
+      it('gives up after the configured retries', async () => {
+        const spy = vi.spyOn(global, 'fetch');
+        const retryingClient = new HttpClient(client['url'], { retries: 2 });
+
+        await expect(retryingClient.sendRequest('unavailable' as 'cf_environment')).rejects.toThrow(
+          new TransportError('max retries exceeded'),
+        );
+        expect(spy).toHaveBeenCalledTimes(3);
+        spy.mockRestore();
+      });
+
+      it('does not retry client errors', async () => {
+        const spy = vi.spyOn(global, 'fetch');
+
+        await expect(
+          client.withOptions({ retries: 2 }).sendRequest('non_200' as 'cf_environment'),
+        ).rejects.toThrow('HTTP error: 404');
+        expect(spy).toHaveBeenCalledTimes(1);
+        spy.mockRestore();
+      });
+    });
+
+    describe('batches', () => {
+      it('matches the responses to the requests', async () => {
+        const [env, price, depth, assets, rate] = await client.sendBatch([
+          { method: 'cf_environment', params: [] },
+          {
+            method: 'cf_pool_price_v2',
+            params: [
+              { chain: 'Bitcoin', asset: 'BTC' },
+              { chain: 'Ethereum', asset: 'USDC' },
+            ],
+          },
+          { method: 'cf_boost_pools_depth', params: [] },
+          { method: 'cf_supported_assets', params: [] },
+          {
+            method: 'cf_swap_rate',
+            params: [
+              { chain: 'Bitcoin', asset: 'BTC' },
+              { chain: 'Ethereum', asset: 'USDC' },
+              '0x1',
+            ],
+          },
+        ]);
+
+        expect(env).toEqual({ success: true, result: legacy.cfEnvironment.parse(environment) });
+        expect(price).toEqual({ success: true, result: cfPoolPriceV2.parse(poolPriceV2) });
+        expect(!depth.success && depth.error).toBeInstanceOf(ResponseValidationError);
+        expect(!assets.success && assets.error).toMatchObject({
+          code: -32601,
+          method: 'cf_supported_assets',
+          params: [],
+        });
+        expect(rate).toEqual({
+          success: false,
+          error: new ResponseValidationError('No response received'),
+        });
+      });
+
+      it('uses a new id for every request', async () => {
+        const spy = vi.spyOn(global, 'fetch');
+
+        await client.sendBatch([
+          { method: 'cf_environment', params: [] },
+          { method: 'cf_environment', params: [] },
+        ]);
+
+        const body = JSON.parse(spy.mock.calls[0][1]?.body as string) as { id: string }[];
+        expect(new Set(body.map(({ id }) => id)).size).toBe(2);
+        spy.mockRestore();
+      });
+
+      it('returns an empty array for an empty batch', async () => {
+        await expect(client.sendBatch([])).resolves.toEqual([]);
+      });
+
+      it('throws on a malformed response', async () => {
+        await expect(
+          client.sendBatch([{ method: 'malformed_response' as 'cf_environment', params: [] }]),
+        ).rejects.toThrowError('Malformed RPC response received');
+      });
+
+      it('throws on a non-200 response', async () => {
+        await expect(
+          client.sendBatch([{ method: 'non_200' as 'cf_environment', params: [] }]),
+        ).rejects.toThrowError('HTTP error: 404');
+      });
+    });
+  });
+
+  describe('runtime versions', () => {
+    let server: MockServer;
+    let client: HttpClient;
+
+    const latestSwappingEnvironment: z.input<typeof cfSwappingEnvironment> = {
+      ...swappingEnvironment,
+      maximum_swap_amounts: {
+        ...swappingEnvironment.maximum_swap_amounts,
+        Solana: { SOL: '0x10', USDC: null },
+      },
+    };
+
+    const mockSpecVersion = (specVersion: number) =>
+      server.mock('state_getRuntimeVersion', { ...runtimeVersion, specVersion });
+
+    // responds like a runtime before 1.6, without the Solana entries
+    const mockLegacyResponse = () =>
+      server.mock(
+        'cf_swapping_environment',
+        swappingEnvironment as z.input<typeof cfSwappingEnvironment>,
+      );
+
+    beforeEach(async () => {
+      server = await new MockServer().start();
+      client = new HttpClient(server.httpUrl);
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      await server.close();
+    });
+
+    it('fills in the missing entries for older runtimes', async () => {
+      mockSpecVersion(150);
+      mockLegacyResponse();
+
+      const result = await client.sendRequest('cf_swapping_environment');
+
+      expect(result.maximum_swap_amounts.Solana).toEqual({ SOL: null, USDC: null });
+    });
+
+    it('requires every entry from newer runtimes', async () => {
+      mockSpecVersion(160);
+      mockLegacyResponse();
+
+      await expect(client.sendRequest('cf_swapping_environment')).rejects.toThrowError(
+        ResponseValidationError,
+      );
+
+      server.mock('cf_swapping_environment', latestSwappingEnvironment);
+
+      const result = await client.sendRequest('cf_swapping_environment');
+
+      expect(result.maximum_swap_amounts.Solana).toEqual({ SOL: 16n, USDC: null });
+    });
+
+    it('requires every entry of the balances from newer runtimes', async () => {
+      mockSpecVersion(160).mock(
+        'cf_free_balances',
+        liquidityProviderAccount.balances as z.input<typeof cfFreeBalances>,
+      );
+
+      await expect(client.sendRequest('cf_free_balances', LP_ACCOUNT_ID)).rejects.toThrowError(
+        ResponseValidationError,
+      );
+
+      mockSpecVersion(150);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 60_000);
+
+      await expect(client.sendRequest('cf_free_balances', LP_ACCOUNT_ID)).resolves.toMatchObject({
+        Solana: { SOL: 0n, USDC: 0n },
+      });
+    });
+
+    it('looks up the spec version once', async () => {
+      mockSpecVersion(150).mock('cf_funding_environment', fundingEnvironment);
+      mockLegacyResponse();
+
+      await client.sendRequest('cf_swapping_environment');
+      await client.sendBatch([{ method: 'cf_swapping_environment', params: [] }]);
+      await client.sendRequest('cf_funding_environment');
+
+      expect(server.received('state_getRuntimeVersion')).toHaveLength(1);
+    });
+
+    it('looks up the spec version again after it expired', async () => {
+      mockSpecVersion(150);
+      mockLegacyResponse();
+
+      await client.sendRequest('cf_swapping_environment');
+
+      mockSpecVersion(160);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 60_000);
+
+      await expect(client.sendRequest('cf_swapping_environment')).rejects.toThrowError(
+        ResponseValidationError,
+      );
+      expect(server.received('state_getRuntimeVersion')).toHaveLength(2);
+    });
+
+    it('uses the latest parsers if the spec version is unavailable', async () => {
+      server
+        .fail('state_getRuntimeVersion', { code: -32603, message: 'unavailable' })
+        .mock('cf_swapping_environment', latestSwappingEnvironment);
+
+      await expect(client.sendRequest('cf_swapping_environment')).resolves.toBeDefined();
+
+      mockSpecVersion(150);
+      mockLegacyResponse();
+
+      await expect(client.sendRequest('cf_swapping_environment')).resolves.toBeDefined();
+      expect(server.received('state_getRuntimeVersion')).toHaveLength(2);
+    });
   });
 });
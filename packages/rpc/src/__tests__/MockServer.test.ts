@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import FailoverClient from '../FailoverClient';
+import HttpClient from '../HttpClient';
+import MockServer from '../MockServer';
+import WsClient from '../WsClient';
+
+const header = (number: number) => ({
+  parentHash: '0x1234',
+  number: `0x${number.toString(16)}`,
+  stateRoot: '0x01',
+  extrinsicsRoot: '0x02',
+  digest: { logs: [] },
+});
+
+describe(MockServer, () => {
+  let server: MockServer;
+
+  beforeEach(async () => {
+    server = await new MockServer().start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const createWsClient = () =>
+    new WsClient(server.wsUrl, WebSocket as unknown as typeof globalThis.WebSocket);
+
+  it('serves fixtures and handlers over HTTP', async () => {
+    server
+      .mock('chain_getBlockHash', (height) => `0x${(height ?? 0).toString(16)}`)
+      .mock('state_getMetadata', '0x1234');
+    const client = new HttpClient(server.httpUrl);
+
+    await expect(client.sendRequest('chain_getBlockHash', 16)).resolves.toBe('0x10');
+    await expect(client.sendRequest('state_getMetadata')).resolves.toBe('0x1234');
+    expect(server.received('chain_getBlockHash')).toEqual([[16]]);
+  });
+
+  it('answers batches', async () => {
+    server.mock('state_getMetadata', '0x1234');
+    const client = new HttpClient(server.httpUrl);
+
+    const [metadata, hash] = await client.sendBatch([
+      { method: 'state_getMetadata', params: [] },
+      { method: 'chain_getBlockHash', params: [] },
+    ]);
+
+    expect(metadata).toEqual({ success: true, result: '0x1234' });
+    expect(!hash.success && hash.error).toMatchObject({ code: -32601, codeName: 'MethodNotFound' });
+  });
+
+  it('responds with injected and thrown errors', async () => {
+    server
+      .mock('state_getMetadata', '0x1234')
+      .fail('state_getMetadata', { code: 1010, message: 'Invalid Transaction' })
+      .mock('chain_getBlockHash', () => {
+        throw new Error('boom');
+      });
+    const client = new HttpClient(server.httpUrl);
+
+    await expect(client.sendRequest('state_getMetadata')).rejects.toThrowError(
+      'RPC error [1010]: Invalid Transaction',
+    );
+    await expect(client.sendRequest('chain_getBlockHash')).rejects.toThrowError(
+      'RPC error [-32603]: boom',
+    );
+
+    server.mock('state_getMetadata', '0x5678');
+    await expect(client.sendRequest('state_getMetadata')).resolves.toBe('0x5678');
+  });
+
+  it('injects HTTP failures', async () => {
+    server.mock('state_getMetadata', '0x1234').failHttp(503);
+    const client = new HttpClient(server.httpUrl);
+
+    await expect(client.sendRequest('state_getMetadata')).rejects.toThrowError('HTTP error: 503');
+
+    server.failHttp('drop');
+    await expect(client.sendRequest('state_getMetadata')).rejects.toThrowError(
+      'HTTP error: fetch failed',
+    );
+
+    server.failHttp(undefined);
+    await expect(client.sendRequest('state_getMetadata')).resolves.toBe('0x1234');
+    expect(server.received('state_getMetadata')).toEqual([[]]);
+  });
+
+  it('rejects invalid payloads', async () => {
+    const send = (body: string) =>
+      fetch(server.httpUrl, { method: 'POST', body }).then((res) => res.json());
+
+    await expect(send('{')).resolves.toMatchObject({ error: { code: -32700 } });
+    await expect(send('{"id":1}')).resolves.toMatchObject({ id: 1, error: { code: -32600 } });
+  });
+
+  it('delays responses by the latency', async () => {
+    server.mock('state_getMetadata', '0x1234');
+    server.latency = 100;
+    const client = new HttpClient(server.httpUrl);
+
+    await expect(
+      client.withOptions({ timeout: 50 }).sendRequest('state_getMetadata'),
+    ).rejects.toThrowError('timeout');
+  });
+
+  it('serves subscriptions over websockets', async () => {
+    const client = createWsClient();
+    const subscription = await client.subscribe('chain_subscribeNewHeads');
+
+    expect(server.subscribers('chain_subscribeNewHeads')).toEqual([[]]);
+    expect(server.notify('chain_subscribeNewHeads', header(1))).toBe(1);
+    expect(server.notify('chain_subscribeFinalizedHeads', header(1))).toBe(0);
+    await expect(subscription.next()).resolves.toMatchObject({ value: { number: 1 } });
+
+    await subscription.unsubscribe();
+    expect(server.subscribers('chain_subscribeNewHeads')).toEqual([]);
+    await client.close();
+  });
+
+  it('drops connections', async () => {
+    server.mock('state_getMetadata', '0x1234');
+    const client = createWsClient();
+    const subscription = await client.subscribe('chain_subscribeNewHeads');
+
+    server.disconnect();
+    expect(server.subscribers('chain_subscribeNewHeads')).toEqual([]);
+
+    // the client reconnects and renews its subscription
+    await expect(client.sendRequest('state_getMetadata')).resolves.toBe('0x1234');
+    await vi.waitFor(() => {
+      expect(server.subscribers('chain_subscribeNewHeads')).toEqual([[]]);
+    });
+    expect(subscription.id).toBe('mock-subscription-2');
+    await client.close();
+  });
+
+  it('forgets the subscriptions of closed connections', async () => {
+    const client = createWsClient();
+    const other = createWsClient();
+    await client.subscribe('chain_subscribeNewHeads');
+    await other.subscribe('chain_subscribeFinalizedHeads');
+
+    await client.close();
+
+    await vi.waitFor(() => {
+      expect(server.subscribers('chain_subscribeNewHeads')).toEqual([]);
+    });
+    expect(server.subscribers('chain_subscribeFinalizedHeads')).toEqual([[]]);
+    await other.close();
+  });
+
+  it('does not fail over on RPC errors', async () => {
+    const backup = await new MockServer().start();
+    server.mock('chain_getHeader', header(100)).fail('cf_environment', {
+      code: -32603,
+      message: 'Internal error',
+    });
+    backup.mock('chain_getHeader', header(90)).mock('state_getMetadata', '0x1234');
+    const client = new FailoverClient([
+      new HttpClient(backup.httpUrl),
+      new HttpClient(server.httpUrl),
+    ]);
+
+    await expect(client.sendRequest('state_getMetadata')).rejects.toThrowError('Method not found');
+    expect(backup.received('state_getMetadata')).toEqual([]);
+
+    await backup.close();
+  });
+
+  it.each([503, 'drop'] as const)('can be used to test failover (%s)', async (failure) => {
+    const backup = await new MockServer().start();
+    server.mock('chain_getHeader', header(100)).mock('state_getMetadata', '0x1234');
+    backup.mock('chain_getHeader', header(100)).mock('state_getMetadata', '0x5678');
+    const client = new FailoverClient([
+      new HttpClient(server.httpUrl),
+      new HttpClient(backup.httpUrl),
+    ]);
+
+    await expect(client.sendRequest('state_getMetadata')).resolves.toBe('0x1234');
+
+    server.failHttp(failure);
+    await expect(client.sendRequest('state_getMetadata')).resolves.toBe('0x5678');
+    expect(backup.received('state_getMetadata')).toEqual([[]]);
+
+    // the failing endpoint is deprioritised until the next health check
+    server.failHttp(undefined);
+    await expect(client.sendRequest('state_getMetadata')).resolves.toBe('0x5678');
+
+    await backup.close();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import Subscription from '../Subscription';
+
+const header = {
+  parentHash: '0x01',
+  number: '0x1',
+  stateRoot: '0x02',
+  extrinsicsRoot: '0x03',
+  digest: { logs: [] },
+};
+
+describe(Subscription, () => {
+  const createSubscription = () =>
+    new Subscription('chain_subscribeNewHeads', [], vi.fn().mockResolvedValue(undefined));
+
+  it('buffers notifications until they are consumed', async () => {
+    const subscription = createSubscription();
+
+    subscription.push(header);
+
+    await expect(subscription.next()).resolves.toEqual({
+      value: { ...header, number: 1 },
+      done: false,
+    });
+  });
+
+  it('ignores notifications after it failed', async () => {
+    const subscription = createSubscription();
+
+    subscription.fail(new Error('test'));
+    subscription.fail(new Error('another'));
+    subscription.push(header);
+
+    await expect(subscription.next()).rejects.toThrowError('test');
+  });
+
+  it('unsubscribes after a malformed notification', async () => {
+    const onUnsubscribe = vi.fn().mockRejectedValue(new Error('disconnected'));
+    const subscription = new Subscription('chain_subscribeNewHeads', [], onUnsubscribe);
+
+    subscription.push({ number: 1 });
+    await subscription.unsubscribe();
+
+    expect(onUnsubscribe).toHaveBeenCalledTimes(1);
+    await expect(subscription.next()).rejects.toThrowError('Invalid notification');
+  });
+
+  it('only unsubscribes once', async () => {
+    const onUnsubscribe = vi.fn().mockResolvedValue(undefined);
+    const subscription = new Subscription('chain_subscribeFinalizedHeads', [], onUnsubscribe);
+
+    await subscription.unsubscribe();
+    await subscription.return();
+
+    expect(onUnsubscribe).toHaveBeenCalledTimes(1);
+    expect(subscription[Symbol.asyncIterator]()).toBe(subscription);
+  });
+});
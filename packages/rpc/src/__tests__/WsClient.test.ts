@@ -2,12 +2,15 @@ import { once } from 'events';
 import { Mock, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { AddressInfo, WebSocket, WebSocketServer } from 'ws';
 import WsClient from '../WsClient';
-import { JsonRpcRequest, RpcMethod } from '../common';
+import { JsonRpcMethod, JsonRpcRequest, RpcRequest } from '../common';
 
 describe(WsClient, () => {
   let serverClosed = false;
   let server: WebSocketServer;
   let serverFn: Mock | undefined;
+  let subscriptionCount = 0;
+  let rejectSubscriptions = false;
+  let initialHead: unknown;
 
   const closeServer = () => {
     server.close();
@@ -27,7 +30,28 @@ describe(WsClient, () => {
 
     server.on('connection', (ws) => {
       ws.on('message', (data) => {
-        const rpcRequest = JSON.parse(data.toString()) as JsonRpcRequest<RpcMethod>;
+        const payload = JSON.parse(data.toString()) as
+          | JsonRpcRequest<JsonRpcMethod>
+          | JsonRpcRequest<JsonRpcMethod>[];
+
+        if (Array.isArray(payload)) {
+          // responses to unknown requests are ignored
+          ws.send(JSON.stringify([{}, { id: 'unknown', jsonrpc: '2.0', result: true }]));
+          ws.send(
+            JSON.stringify(
+              payload
+                .map(({ id }) => ({
+                  id,
+                  jsonrpc: '2.0',
+                  result: { intermediary: null, output: '0x1' },
+                }))
+                .reverse(),
+            ),
+          );
+          return;
+        }
+
+        const rpcRequest = payload;
 
         if (rpcRequest.method === 'cf_swap_rate') {
           ws.send(
@@ -56,6 +80,32 @@ describe(WsClient, () => {
           serverFn?.();
           ws.send(JSON.stringify({}));
         }
+
+        if (rpcRequest.method === 'chain_subscribeNewHeads') {
+          serverFn?.(rpcRequest);
+          subscriptionCount += 1;
+          ws.send(
+            JSON.stringify(
+              rejectSubscriptions
+                ? { id: rpcRequest.id, jsonrpc: '2.0', error: { code: -1, message: 'nope' } }
+                : { id: rpcRequest.id, jsonrpc: '2.0', result: `sub-${subscriptionCount}` },
+            ),
+          );
+          if (initialHead) {
+            ws.send(
+              JSON.stringify({
+                jsonrpc: '2.0',
+                method: 'chain_newHead',
+                params: { subscription: `sub-${subscriptionCount}`, result: initialHead },
+              }),
+            );
+          }
+        }
+
+        if (rpcRequest.method === 'chain_unsubscribeNewHeads') {
+          serverFn?.(rpcRequest);
+          ws.send(JSON.stringify({ id: rpcRequest.id, jsonrpc: '2.0', result: true }));
+        }
       });
     });
 
@@ -69,6 +119,9 @@ describe(WsClient, () => {
 
   afterEach(async () => {
     serverFn = undefined;
+    subscriptionCount = 0;
+    rejectSubscriptions = false;
+    initialHead = undefined;
     await client.close();
     server.close();
     if (!serverClosed) await once(server, 'close');
@@ -215,7 +268,170 @@ describe(WsClient, () => {
     expect(serverFn).toHaveBeenCalledTimes(1);
   });
 
+  it('uses the configured timeout', async () => {
+    const address = server.address() as AddressInfo;
+    const fastClient = new WsClient(
+      `ws://127.0.0.1:${address.port}`,
+      WebSocket as unknown as typeof globalThis.WebSocket,
+      { timeout: 50 },
+    );
+
+    await expect(fastClient.sendRequest('cf_supported_assets')).rejects.toThrowError('timeout');
+    await fastClient.close();
+  });
+
+  it('aborts pending requests', async () => {
+    const controller = new AbortController();
+    serverFn = vi.fn(() => {
+      controller.abort();
+    });
+
+    await expect(
+      client.withOptions({ signal: controller.signal }).sendRequest('cf_supported_assets'),
+    ).rejects.toThrowError('aborted');
+    expect(client['requestMap'].size).toBe(0);
+  });
+
   it('uses the global websocket if none is provided', () => {
     expect(new WsClient('ws://hello.world')['WebSocket']).toBe(globalThis.WebSocket);
   });
+
+  it('sends batches', async () => {
+    const params: RpcRequest['cf_swap_rate'] = [
+      { asset: 'USDC', chain: 'Ethereum' },
+      { asset: 'FLIP', chain: 'Ethereum' },
+      '0x1',
+    ];
+
+    await expect(
+      client.sendBatch([
+        { method: 'cf_swap_rate', params },
+        { method: 'cf_swap_rate', params },
+      ]),
+    ).resolves.toEqual([
+      { success: true, result: { intermediary: null, output: 1n } },
+      { success: true, result: { intermediary: null, output: 1n } },
+    ]);
+    expect(client['requestMap'].size).toBe(0);
+  });
+
+  describe('subscriptions', () => {
+    const header = (number: number) => ({
+      parentHash: '0x01',
+      number: `0x${number.toString(16)}`,
+      stateRoot: '0x02',
+      extrinsicsRoot: '0x03',
+      digest: { logs: [] },
+    });
+
+    const notify = (subscription: string, result: unknown) => {
+      server.clients.forEach((c) => {
+        c.send(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'chain_newHead',
+            params: { subscription, result },
+          }),
+        );
+      });
+    };
+
+    it('yields parsed notifications until unsubscribed', async () => {
+      serverFn = vi.fn();
+      const subscription = await client.subscribe('chain_subscribeNewHeads');
+      expect(subscription.id).toBe('sub-1');
+
+      notify('sub-1', header(1));
+      notify('sub-1', header(2));
+
+      const numbers = [];
+      for await (const head of subscription) {
+        numbers.push(head.number);
+        if (head.number === 2) setTimeout(() => notify('sub-1', header(3)), 10);
+        if (head.number === 3) break;
+      }
+
+      expect(numbers).toEqual([1, 2, 3]);
+      expect(serverFn).toHaveBeenLastCalledWith(
+        expect.objectContaining({ method: 'chain_unsubscribeNewHeads', params: ['sub-1'] }),
+      );
+      expect(client['subscriptions'].size).toBe(0);
+      await expect(subscription.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+
+    it('yields notifications sent right after the subscription response', async () => {
+      initialHead = header(1);
+
+      const subscription = await client.subscribe('chain_subscribeNewHeads');
+
+      await expect(subscription.next()).resolves.toMatchObject({ value: { number: 1 } });
+      expect(client['unclaimedNotifications'].size).toBe(0);
+    });
+
+    it('drops unclaimed notifications after a while', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const subscription = await client.subscribe('chain_subscribeNewHeads');
+
+      notify('sub-0', header(1));
+      notify('sub-0', header(2));
+      await vi.waitFor(() =>
+        expect(client['unclaimedNotifications'].get('sub-0')?.results).toHaveLength(2),
+      );
+
+      vi.advanceTimersByTime(5_000);
+      notify('sub-2', header(3));
+      notify('sub-1', header(4));
+
+      await expect(subscription.next()).resolves.toMatchObject({ value: { number: 4 } });
+      expect([...client['unclaimedNotifications'].keys()]).toEqual(['sub-2']);
+    });
+
+    it('resubscribes after a reconnect', async () => {
+      const subscription = await client.subscribe('chain_subscribeNewHeads');
+
+      serverFn = vi.fn();
+      killConnections();
+      await vi.waitFor(() => expect(serverFn).toHaveBeenCalled());
+      await vi.waitFor(() => expect(subscription.id).toBe('sub-2'));
+
+      notify('sub-1', header(1));
+      notify('sub-2', header(2));
+
+      await expect(subscription.next()).resolves.toMatchObject({ value: { number: 2 } });
+    });
+
+    it('fails the subscription if resubscribing fails', async () => {
+      const subscription = await client.subscribe('chain_subscribeNewHeads');
+      const next = subscription.next();
+
+      rejectSubscriptions = true;
+      killConnections();
+
+      await expect(next).rejects.toThrowError('RPC error [-1]: nope');
+    });
+
+    it('fails the subscription on malformed notifications and unsubscribes', async () => {
+      const subscription = await client.subscribe('chain_subscribeNewHeads');
+      serverFn = vi.fn();
+
+      notify('sub-1', { number: 1 });
+
+      await expect(subscription.next()).rejects.toThrowError();
+      await vi.waitFor(() =>
+        expect(serverFn).toHaveBeenCalledWith(
+          expect.objectContaining({ method: 'chain_unsubscribeNewHeads', params: ['sub-1'] }),
+        ),
+      );
+      expect(client['subscriptions'].size).toBe(0);
+    });
+
+    it('completes the subscriptions when the client is closed', async () => {
+      const subscription = await client.subscribe('chain_subscribeNewHeads');
+      const next = subscription.next();
+
+      await client.close();
+
+      await expect(next).resolves.toEqual({ value: undefined, done: true });
+    });
+  });
 });
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { RpcError } from '../errors';
+
+describe(RpcError, () => {
+  it('names known error codes', () => {
+    const error = new RpcError(-32601, 'Method not found', undefined, 'cf_foo', []);
+
+    expect(error.message).toBe('RPC error [-32601]: Method not found');
+    expect(error.codeName).toBe('MethodNotFound');
+    expect(error.dispatchError).toBeUndefined();
+  });
+
+  it('leaves unknown error codes unnamed', () => {
+    expect(new RpcError(-1, 'oops', undefined, 'cf_foo', []).codeName).toBeUndefined();
+  });
+
+  it.each([
+    ['the message', 'Dispatch error: Swapping::InvalidDestinationAddress', undefined],
+    ['the data', 'Dispatch error', 'Module error: Swapping::InvalidDestinationAddress'],
+  ])('decodes dispatch errors from %s', (_, message, data) => {
+    const error = new RpcError(-32603, message, data, 'broker_requestSwapDepositAddress', []);
+
+    expect(error.dispatchError).toEqual({ pallet: 'Swapping', error: 'InvalidDestinationAddress' });
+  });
+});
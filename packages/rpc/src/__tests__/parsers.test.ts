@@ -7,6 +7,25 @@ import {
   cfPoolsEnvironment,
   cfPoolDepth,
   cfAccounts,
+  cfSubscribeScheduledSwaps,
+  cfAssetBalances,
+  cfEpochState,
+  cfFlipSupply,
+  cfFreeBalances,
+  cfPenalties,
+  cfPoolLiquidity,
+  cfPoolOrderbook,
+  cfRequiredAssetRatioForRangeOrder,
+  cfSuspensions,
+  lpLimitOrders,
+  lpRangeOrders,
+  lpWithdrawAsset,
+  brokerRequestSwapParameterEncoding,
+  brokerWithdrawFees,
+  u256Param,
+  ccmMetadataParam,
+  vaultSwapExtraParam,
+  legacy,
 } from '../parsers';
 
 describe('parsers', () => {
@@ -16,6 +35,57 @@ describe('parsers', () => {
     });
   });
 
+  describe('u256Param', () => {
+    it.each([255n, 255, '255', '0xff'])('turns %s into a hex string', (value) => {
+      expect(u256Param.parse(value)).toBe('0xff');
+    });
+
+    it.each([-1, 1.5, '-1', '1e3', 'ff', 2 ** 53])('rejects %s', (value) => {
+      expect(u256Param.safeParse(value).success).toBe(false);
+    });
+
+    it('accepts large values as bigints and strings', () => {
+      expect(u256Param.parse(2n ** 53n)).toBe('0x20000000000000');
+      expect(u256Param.parse('9007199254740993')).toBe('0x20000000000001');
+    });
+  });
+
+  describe('vaultSwapExtraParam', () => {
+    it('passes unknown fields through to the node', () => {
+      expect(
+        vaultSwapExtraParam.parse({
+          chain: 'Ethereum',
+          input_amount: 100n,
+          refund_parameters: {
+            retry_duration: 10,
+            refund_address: '0x1234',
+            min_price: 1,
+            unknown_field: 'refund',
+          },
+          unknown_field: true,
+        }),
+      ).toEqual({
+        chain: 'Ethereum',
+        input_amount: '0x64',
+        refund_parameters: {
+          retry_duration: 10,
+          refund_address: '0x1234',
+          min_price: '0x1',
+          unknown_field: 'refund',
+        },
+        unknown_field: true,
+      });
+    });
+  });
+
+  describe('ccmMetadataParam', () => {
+    it('passes unknown fields through to the node', () => {
+      expect(
+        ccmMetadataParam.parse({ message: '0x', gas_budget: 1, cf_parameters: '0x12' }),
+      ).toEqual({ message: '0x', gas_budget: '0x1', cf_parameters: '0x12' });
+    });
+  });
+
   describe('cfBoostPoolDetails', () => {
     it('parses boost pool details', () => {
       cfBoostPoolDetails.parse([
@@ -99,8 +169,8 @@ describe('parsers', () => {
   });
 
   describe('cfEnvironment', () => {
-    it('parses the cfEnvironment response', () => {
-      cfEnvironment.parse({
+    it('parses the cfEnvironment response of older runtimes', () => {
+      const response = {
         ingress_egress: {
           minimum_deposit_amounts: {
             Ethereum: {
@@ -417,13 +487,22 @@ describe('parsers', () => {
             },
           },
         },
-      });
+      };
+
+      expect(legacy.cfEnvironment.parse(response).ingress_egress.minimum_deposit_amounts.Solana)
+        .toMatchInlineSnapshot(`
+        {
+          "SOL": 0n,
+          "USDC": 0n,
+        }
+      `);
+      expect(cfEnvironment.safeParse(response).success).toBe(false);
     });
   });
 
   describe('cfPoolsEnvironment', () => {
-    it('parses the cfPoolsEnvironment response', () => {
-      const result = cfPoolsEnvironment.parse({
+    it('parses the cfPoolsEnvironment response of older runtimes', () => {
+      const response = {
         fees: {
           Ethereum: {
             ETH: {
@@ -606,10 +685,15 @@ describe('parsers', () => {
             SOL: null,
           },
         },
-      });
+      };
+
+      const result = legacy.cfPoolsEnvironment.parse(response);
 
       expect(result.fees.Solana.SOL).not.toBeNull();
       expect(result.fees.Solana.USDC).not.toBeNull();
+      expect(result.fees.Solana.SOL.range_order_total_fees_earned).toEqual({ base: 0n, quote: 0n });
+      expect(result.fees.Solana.USDC.limit_total_swap_inputs).toEqual({ base: 0n, quote: 0n });
+      expect(cfPoolsEnvironment.safeParse(response).success).toBe(false);
     });
   });
 
@@ -663,4 +747,465 @@ describe('parsers', () => {
       expect(result[1]).toEqual(['cFNYfLm7YEjWenMB7pBRGMTaawyhYLcRxgrNUqsvZBrKNXvfw', '']);
     });
   });
+
+  describe('cfSubscribeScheduledSwaps', () => {
+    it('parses the scheduled swaps notification', () => {
+      expect(
+        cfSubscribeScheduledSwaps.parse({
+          block_hash: '0x4a84b7e8a7f4e0d1f3b7c5e6a9d8f0e1c2b3a4d5e6f7a8b9c0d1e2f3a4b5c6d7',
+          block_number: 1234,
+          data: {
+            swaps: [
+              {
+                swap_id: '0x1',
+                base_asset: { chain: 'Ethereum', asset: 'ETH' },
+                quote_asset: { chain: 'Ethereum', asset: 'USDC' },
+                side: 'sell',
+                amount: '0x64',
+                source_asset: { chain: 'Bitcoin', asset: 'BTC' },
+                source_amount: '0xa',
+                execute_at: 1236,
+              },
+            ],
+          },
+        }),
+      ).toMatchInlineSnapshot(`
+        {
+          "block_hash": "0x4a84b7e8a7f4e0d1f3b7c5e6a9d8f0e1c2b3a4d5e6f7a8b9c0d1e2f3a4b5c6d7",
+          "block_number": 1234,
+          "data": {
+            "swaps": [
+              {
+                "amount": 100n,
+                "base_asset": {
+                  "asset": "ETH",
+                  "chain": "Ethereum",
+                },
+                "execute_at": 1236,
+                "quote_asset": {
+                  "asset": "USDC",
+                  "chain": "Ethereum",
+                },
+                "side": "sell",
+                "source_amount": 10n,
+                "source_asset": {
+                  "asset": "BTC",
+                  "chain": "Bitcoin",
+                },
+                "swap_id": 1n,
+              },
+            ],
+          },
+        }
+      `);
+    });
+  });
+
+  describe('cfPoolLiquidity', () => {
+    it('parses the liquidity of a pool', () => {
+      expect(
+        cfPoolLiquidity.parse({
+          limit_orders: {
+            asks: [{ tick: -196_000, amount: '0x2386f26fc10000' }],
+            bids: [],
+          },
+          range_orders: [
+            { tick: -887_272, liquidity: '0x3e8' },
+            { tick: 887_272, liquidity: '0x0' },
+          ],
+        }),
+      ).toMatchInlineSnapshot(`
+        {
+          "limit_orders": {
+            "asks": [
+              {
+                "amount": 10000000000000000n,
+                "tick": -196000,
+              },
+            ],
+            "bids": [],
+          },
+          "range_orders": [
+            {
+              "liquidity": 1000n,
+              "tick": -887272,
+            },
+            {
+              "liquidity": 0n,
+              "tick": 887272,
+            },
+          ],
+        }
+      `);
+    });
+  });
+
+  describe('cfRequiredAssetRatioForRangeOrder', () => {
+    it('parses the asset ratio', () => {
+      expect(cfRequiredAssetRatioForRangeOrder.parse({ base: '0x1', quote: '0xbb8' })).toEqual({
+        base: 1n,
+        quote: 3000n,
+      });
+    });
+  });
+
+  describe('cfPoolOrderbook', () => {
+    it('parses the orderbook', () => {
+      expect(
+        cfPoolOrderbook.parse({
+          asks: [{ amount: '0x64', sqrt_price: '0x1000000000000000000000000' }],
+          bids: [{ amount: '0xc8', sqrt_price: '0xfffffffffffffffffffffff' }],
+        }),
+      ).toMatchInlineSnapshot(`
+        {
+          "asks": [
+            {
+              "amount": 100n,
+              "sqrt_price": 79228162514264337593543950336n,
+            },
+          ],
+          "bids": [
+            {
+              "amount": 200n,
+              "sqrt_price": 4951760157141521099596496895n,
+            },
+          ],
+        }
+      `);
+    });
+  });
+
+  describe('cfFreeBalances', () => {
+    it('defaults the balances of Solana assets of older runtimes', () => {
+      const response = {
+        Bitcoin: { BTC: '0x0' },
+        Ethereum: { ETH: '0x1', USDC: 2, FLIP: '0x3', USDT: '0x4' },
+        Polkadot: { DOT: '0x5' },
+        Arbitrum: { ETH: '0x6', USDC: '0x7' },
+      };
+
+      expect(cfFreeBalances.safeParse(response).success).toBe(false);
+      expect(legacy.cfFreeBalances.parse(response)).toMatchInlineSnapshot(`
+        {
+          "Arbitrum": {
+            "ETH": 6n,
+            "USDC": 7n,
+          },
+          "Bitcoin": {
+            "BTC": 0n,
+          },
+          "Ethereum": {
+            "ETH": 1n,
+            "FLIP": 3n,
+            "USDC": 2n,
+            "USDT": 4n,
+          },
+          "Polkadot": {
+            "DOT": 5n,
+          },
+          "Solana": {
+            "SOL": 0n,
+            "USDC": 0n,
+          },
+        }
+      `);
+    });
+  });
+
+  describe('cfAssetBalances', () => {
+    it('parses the asset balances', () => {
+      expect(
+        cfAssetBalances.parse([
+          { chain: 'Ethereum', asset: 'FLIP', balance: '0xde0b6b3a7640000' },
+          { chain: 'Bitcoin', asset: 'BTC', balance: 0 },
+        ]),
+      ).toMatchInlineSnapshot(`
+        [
+          {
+            "asset": "FLIP",
+            "balance": 1000000000000000000n,
+            "chain": "Ethereum",
+          },
+          {
+            "asset": "BTC",
+            "balance": 0n,
+            "chain": "Bitcoin",
+          },
+        ]
+      `);
+    });
+  });
+
+  describe('cfPenalties', () => {
+    it('parses the penalties', () => {
+      expect(
+        cfPenalties.parse([
+          ['MissedHeartbeat', { reputation_points: 2, suspension_duration_blocks: 0 }],
+          [
+            'FailedToBroadcastTransaction',
+            { reputation_points: 10, suspension_duration_blocks: 0 },
+          ],
+        ]),
+      ).toMatchInlineSnapshot(`
+        [
+          [
+            "MissedHeartbeat",
+            {
+              "reputation_points": 2,
+              "suspension_duration_blocks": 0,
+            },
+          ],
+          [
+            "FailedToBroadcastTransaction",
+            {
+              "reputation_points": 10,
+              "suspension_duration_blocks": 0,
+            },
+          ],
+        ]
+      `);
+    });
+  });
+
+  describe('cfSuspensions', () => {
+    it('parses the suspensions', () => {
+      expect(
+        cfSuspensions.parse([
+          ['MissedAuthorshipSlot', [[1234, 'cFKzr7DwLCRtSkou5H5moKri7g9WwJ4tAbVJv6dZGhLb811Tc']]],
+          ['MissedHeartbeat', []],
+        ]),
+      ).toMatchInlineSnapshot(`
+        [
+          [
+            "MissedAuthorshipSlot",
+            [
+              [
+                1234,
+                "cFKzr7DwLCRtSkou5H5moKri7g9WwJ4tAbVJv6dZGhLb811Tc",
+              ],
+            ],
+          ],
+          [
+            "MissedHeartbeat",
+            [],
+          ],
+        ]
+      `);
+    });
+  });
+
+  describe('cfEpochState', () => {
+    it('parses the epoch state', () => {
+      expect(
+        cfEpochState.parse({
+          blocks_per_epoch: 100_800,
+          current_epoch_started_at: 4_939_200,
+          current_epoch_index: 152,
+          min_active_bid: '0x2d35bfef3c51d1c18c9',
+          rotation_phase: 'Idle',
+        }),
+      ).toMatchInlineSnapshot(`
+        {
+          "blocks_per_epoch": 100800,
+          "current_epoch_index": 152,
+          "current_epoch_started_at": 4939200,
+          "min_active_bid": 13343624969021464254665n,
+          "rotation_phase": "Idle",
+        }
+      `);
+    });
+  });
+
+  describe('cfFlipSupply', () => {
+    it('names the total and offchain supply', () => {
+      expect(cfFlipSupply.parse(['0x52b7d2dcc80cd2e4000000', 1000])).toEqual({
+        totalSupply: 100_000_000_000_000_000_000_000_000n,
+        offchainSupply: 1000n,
+      });
+    });
+  });
+
+  describe('lpWithdrawAsset', () => {
+    it('parses the transaction hash', () => {
+      expect(lpWithdrawAsset.parse('0x1234')).toBe('0x1234');
+    });
+
+    it('parses the egress id', () => {
+      expect(lpWithdrawAsset.parse({ tx_hash: '0x1234', response: ['Ethereum', 12] }))
+        .toMatchInlineSnapshot(`
+          {
+            "response": [
+              "Ethereum",
+              12,
+            ],
+            "tx_hash": "0x1234",
+          }
+        `);
+    });
+  });
+
+  describe('lpLimitOrders', () => {
+    it('parses the updated limit orders', () => {
+      expect(
+        lpLimitOrders.parse({
+          tx_hash: '0x1234',
+          response: [
+            {
+              base_asset: { chain: 'Ethereum', asset: 'ETH' },
+              quote_asset: { chain: 'Ethereum', asset: 'USDC' },
+              side: 'sell',
+              id: '0x1',
+              tick: -200,
+              sell_amount_total: '0x64',
+              collected_fees: '0x0',
+              bought_amount: '0x0',
+              sell_amount_change: { Increase: '0x64' },
+            },
+          ],
+        }),
+      ).toMatchInlineSnapshot(`
+        {
+          "response": [
+            {
+              "base_asset": {
+                "asset": "ETH",
+                "chain": "Ethereum",
+              },
+              "bought_amount": 0n,
+              "collected_fees": 0n,
+              "id": "1",
+              "quote_asset": {
+                "asset": "USDC",
+                "chain": "Ethereum",
+              },
+              "sell_amount_change": {
+                "Increase": 100n,
+              },
+              "sell_amount_total": 100n,
+              "side": "sell",
+              "tick": -200,
+            },
+          ],
+          "tx_hash": "0x1234",
+        }
+      `);
+    });
+  });
+
+  describe('lpRangeOrders', () => {
+    it('parses the updated range orders', () => {
+      expect(
+        lpRangeOrders.parse({
+          tx_hash: '0x1234',
+          response: [
+            {
+              base_asset: { chain: 'Bitcoin', asset: 'BTC' },
+              quote_asset: { chain: 'Ethereum', asset: 'USDC' },
+              id: 2,
+              range: { start: -100, end: 100 },
+              liquidity_total: '0x3e8',
+              collected_fees: { base: '0x1', quote: '0x2' },
+              size_change: {
+                Decrease: { liquidity: '0xa', amounts: { base: '0x5', quote: '0x6' } },
+              },
+            },
+          ],
+        }),
+      ).toMatchInlineSnapshot(`
+        {
+          "response": [
+            {
+              "base_asset": {
+                "asset": "BTC",
+                "chain": "Bitcoin",
+              },
+              "collected_fees": {
+                "base": 1n,
+                "quote": 2n,
+              },
+              "id": "2",
+              "liquidity_total": 1000n,
+              "quote_asset": {
+                "asset": "USDC",
+                "chain": "Ethereum",
+              },
+              "range": {
+                "end": 100,
+                "start": -100,
+              },
+              "size_change": {
+                "Decrease": {
+                  "amounts": {
+                    "base": 5n,
+                    "quote": 6n,
+                  },
+                  "liquidity": 10n,
+                },
+              },
+            },
+          ],
+          "tx_hash": "0x1234",
+        }
+      `);
+    });
+  });
+
+  describe('brokerWithdrawFees', () => {
+    it('parses the withdrawal details', () => {
+      expect(
+        brokerWithdrawFees.parse({
+          tx_hash: '0x1234',
+          egress_id: ['Ethereum', 42],
+          egress_amount: '0xf4240',
+          egress_fee: '0x3e8',
+          destination_address: '0xcafe',
+        }),
+      ).toMatchInlineSnapshot(`
+        {
+          "destination_address": "0xcafe",
+          "egress_amount": 1000000n,
+          "egress_fee": 1000n,
+          "egress_id": [
+            "Ethereum",
+            42,
+          ],
+          "tx_hash": "0x1234",
+        }
+      `);
+    });
+  });
+
+  describe('brokerRequestSwapParameterEncoding', () => {
+    it.each([
+      { chain: 'Bitcoin', nulldata_payload: '0x6a', deposit_address: 'bc1q' },
+      {
+        chain: 'Ethereum',
+        calldata: '0xdd68734c',
+        value: '0x64',
+        to: '0xf5e1',
+        source_token_address: null,
+      },
+      {
+        chain: 'Arbitrum',
+        calldata: '0xdd68734c',
+        value: '0x0',
+        to: '0xf5e1',
+        source_token_address: '0xaf88',
+      },
+      {
+        chain: 'Solana',
+        program_id: 'J88B7gmadHzTNGiy54c9Ms8BsEXNdB2fntFyhKpk3qoT',
+        accounts: [
+          {
+            pubkey: 'HuM1uLUAB1ysrXVKpwAEQXCkZUALBCzGTAaxkyRGnuQc',
+            is_signer: true,
+            is_writable: true,
+          },
+        ],
+        data: '0xa3265ce2',
+      },
+    ])('parses the vault swap of $chain', (details) => {
+      expect(brokerRequestSwapParameterEncoding.parse(details)).toMatchSnapshot();
+    });
+  });
 });
@@ -1,10 +1,16 @@
 import { HexString } from '@chainflip/utils/types';
-import type { z } from 'zod';
+import { z } from 'zod';
 import {
   AssetAndChain,
   cfBoostPoolDetails,
   cfBoostPoolPendingFees,
+  brokerAffiliateWithdrawalRequest,
+  brokerGetAffiliates,
+  brokerRegisterAccount,
+  brokerRegisterAffiliate,
   brokerRequestSwapDepositAddress,
+  brokerRequestSwapParameterEncoding,
+  brokerWithdrawFees,
   cfAccountInfo,
   cfBoostPoolsDepth,
   cfEnvironment,
@@ -14,6 +20,7 @@ import {
   cfPoolPriceV2,
   cfPoolsEnvironment,
   cfSupportedAssets,
+  legacy,
   cfSwapRate,
   cfSwapRateV2,
   cfSwappingEnvironment,
@@ -23,6 +30,41 @@ import {
   stateGetRuntimeVersion,
   cfPoolDepth,
   cfAccounts,
+  chainHeader,
+  cfSubscribePoolPriceV2,
+  cfSubscribeScheduledSwaps,
+  cfAssetBalances,
+  cfAuthorityEmissionPerBlock,
+  cfEpochState,
+  cfFlipSupply,
+  cfFreeBalances,
+  cfLpTotalBalances,
+  cfPenalties,
+  cfPoolLiquidity,
+  cfPoolOrderbook,
+  cfRequiredAssetRatioForRangeOrder,
+  cfScheduledSwaps,
+  cfSuspensions,
+  lpLimitOrders,
+  lpLiquidityDeposit,
+  lpRangeOrders,
+  lpRegisterAccount,
+  lpRegisterLiquidityRefundAddress,
+  lpTotalBalances,
+  lpTransferAsset,
+  lpWithdrawAsset,
+  additionalOrdersParam,
+  affiliateFeesParam,
+  assetParam,
+  bpsParam,
+  ccmMetadataParam,
+  fillOrKillParam,
+  increaseOrDecreaseParam,
+  rangeOrderSizeParam,
+  tickParam,
+  tickRangeParam,
+  u256Param,
+  vaultSwapExtraParam,
 } from './parsers';
 
 type Nullish<T> = T | null | undefined;
@@ -35,7 +77,48 @@ export type Chain = AssetAndChain['chain'];
 
 type AssetSymbol = AssetAndChain['asset'];
 
-type UncheckedAssetAndChain = { asset: AssetSymbol; chain: Chain };
+// the client sends the asset in upper case
+type UncheckedAssetAndChain = {
+  asset: AssetSymbol | Capitalize<Lowercase<AssetSymbol>>;
+  chain: Chain;
+};
+
+// the client sends amounts as hex strings
+type Amount = HexString | `${bigint}` | bigint | number;
+
+type CcmMetadata = {
+  message: HexString;
+  gas_budget: Amount;
+};
+
+type AffiliateFees = { account: string; bps: number }[];
+
+type DcaParams = {
+  number_of_chunks: number;
+  chunk_interval: number;
+};
+
+type RefundParameters = {
+  retry_duration: number;
+  refund_address: string;
+  min_price: Amount;
+};
+
+type VaultSwapExtraParameters =
+  | { chain: 'Bitcoin'; min_output_amount: Amount; retry_duration: number }
+  | {
+      chain: 'Ethereum' | 'Arbitrum';
+      input_amount: Amount;
+      refund_parameters: RefundParameters;
+    }
+  | {
+      chain: 'Solana';
+      from: string;
+      event_data_account: string;
+      input_amount: Amount;
+      refund_parameters: RefundParameters;
+      from_token_account?: Nullish<string>;
+    };
 
 type AdditionalOrder = {
   LimitOrder: {
@@ -43,31 +126,113 @@ type AdditionalOrder = {
     quote_asset: UncheckedAssetAndChain;
     side: 'buy' | 'sell';
     tick: number;
-    sell_amount: `0x${string}`;
+    sell_amount: Amount;
   };
 };
 
+type WaitFor = 'NoWait' | 'InBlock' | 'Finalized';
+
+type IncreaseOrDecrease<T> = { Increase: T } | { Decrease: T };
+
+type TickRange = { start: number; end: number };
+
+type RangeOrderSize =
+  | {
+      AssetAmounts: {
+        maximum: { base: Amount; quote: Amount };
+        minimum: { base: Amount; quote: Amount };
+      };
+    }
+  | { Liquidity: { liquidity: Amount } };
+
+type LpRequest = {
+  lp_register_account: [];
+  lp_liquidity_deposit: [
+    asset: UncheckedAssetAndChain,
+    waitFor?: Nullish<WaitFor>,
+    boostFee?: Nullish<number>,
+  ];
+  lp_register_liquidity_refund_address: [chain: Chain, address: string];
+  lp_withdraw_asset: [
+    amount: Amount,
+    asset: UncheckedAssetAndChain,
+    destinationAddress: string,
+    waitFor?: Nullish<WaitFor>,
+  ];
+  lp_set_limit_order: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+    side: 'buy' | 'sell',
+    id: Amount,
+    tick: Nullish<number>,
+    sellAmount: Amount,
+    dispatchAt?: Nullish<number>,
+    waitFor?: Nullish<WaitFor>,
+  ];
+  lp_update_limit_order: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+    side: 'buy' | 'sell',
+    id: Amount,
+    tick: Nullish<number>,
+    amountChange: IncreaseOrDecrease<Amount>,
+    dispatchAt?: Nullish<number>,
+    waitFor?: Nullish<WaitFor>,
+  ];
+  lp_set_range_order: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+    id: Amount,
+    tickRange: Nullish<TickRange>,
+    size: RangeOrderSize,
+    waitFor?: Nullish<WaitFor>,
+  ];
+  lp_update_range_order: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+    id: Amount,
+    tickRange: Nullish<TickRange>,
+    sizeChange: IncreaseOrDecrease<RangeOrderSize>,
+    waitFor?: Nullish<WaitFor>,
+  ];
+  lp_total_balances: [];
+  lp_transfer_asset: [amount: Amount, asset: UncheckedAssetAndChain, destinationAccount: string];
+};
+
+type BrokerRequest = {
+  broker_register_account: [];
+  broker_withdraw_fees: [asset: UncheckedAssetAndChain, destinationAddress: string];
+  broker_request_swap_parameter_encoding: [
+    sourceAsset: UncheckedAssetAndChain,
+    destinationAsset: UncheckedAssetAndChain,
+    destinationAddress: string,
+    brokerCommission: number,
+    extraParameters: VaultSwapExtraParameters,
+    channelMetadata?: Nullish<CcmMetadata>,
+    boostFee?: Nullish<number>,
+    affiliateFees?: Nullish<AffiliateFees>,
+    dcaParams?: Nullish<DcaParams>,
+  ];
+  broker_register_affiliate: [withdrawalAddress: HexString];
+  broker_get_affiliates: [affiliate?: Nullish<string>];
+  broker_affiliate_withdrawal_request: [affiliateAccountId: string];
+};
+
 export type RpcRequest = WithHash<{
   broker_requestSwapDepositAddress: [
     sourceAsset: UncheckedAssetAndChain,
     destinationAsset: UncheckedAssetAndChain,
     destinationAddress: string,
     brokerCommission: number,
-    ccmMetadata?: Nullish<{
-      message: HexString;
-      gas_budget: HexString;
-    }>,
+    ccmMetadata?: Nullish<CcmMetadata>,
     boostFee?: Nullish<number>,
-    affiliateFees?: Nullish<{ account: string; bps: number }[]>,
+    affiliateFees?: Nullish<AffiliateFees>,
     fillOrKillParams?: Nullish<{
       refund_address: string;
       retry_duration_blocks: number;
-      min_price: string;
-    }>,
-    dcaParams?: Nullish<{
-      number_of_chunks: number;
-      chunk_interval: number;
+      min_price: Amount;
     }>,
+    dcaParams?: Nullish<DcaParams>,
   ];
   cf_account_info: [accountId: string];
   cf_accounts: [];
@@ -86,12 +251,12 @@ export type RpcRequest = WithHash<{
   cf_swap_rate: [
     fromAsset: UncheckedAssetAndChain,
     toAsset: UncheckedAssetAndChain,
-    amount: `0x${string}`,
+    amount: Amount,
   ];
   cf_swap_rate_v2: [
     fromAsset: UncheckedAssetAndChain,
     toAsset: UncheckedAssetAndChain,
-    amount: `0x${string}`,
+    amount: Amount,
     additionalOrders?: Nullish<AdditionalOrder[]>,
   ];
   cf_boost_pools_depth: [];
@@ -100,49 +265,275 @@ export type RpcRequest = WithHash<{
   cf_pool_depth: [
     fromAsset: UncheckedAssetAndChain,
     toAsset: UncheckedAssetAndChain,
-    tick_range: { start: number; end: number },
+    tick_range: TickRange,
   ];
+  cf_pool_liquidity: [baseAsset: UncheckedAssetAndChain, quoteAsset: UncheckedAssetAndChain];
+  cf_required_asset_ratio_for_range_order: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+    tickRange: TickRange,
+  ];
+  cf_pool_orderbook: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+    orders: number,
+  ];
+  cf_scheduled_swaps: [baseAsset: UncheckedAssetAndChain, quoteAsset: UncheckedAssetAndChain];
+  cf_lp_total_balances: [accountId: string];
+  cf_asset_balances: [accountId: string];
+  cf_free_balances: [accountId: string];
+  cf_penalties: [];
+  cf_suspensions: [];
+  cf_epoch_state: [];
+  cf_authority_emission_per_block: [];
+  cf_flip_supply: [];
   state_getMetadata: [];
   state_getRuntimeVersion: [];
 }> & {
   chain_getBlockHash: [blockHeight?: number];
-};
+  chain_getHeader: [blockHash?: Nullish<string>];
+} & LpRequest &
+  BrokerRequest;
+
+/**
+ * the parser for the current runtime and the ones for older runtimes, keyed by the spec
+ * version that replaced them
+ */
+class Versioned<Z extends z.ZodTypeAny> {
+  constructor(
+    readonly latest: Z,
+    readonly previous: Record<number, z.ZodType<z.output<Z>, z.ZodTypeDef, unknown>>,
+  ) {}
+
+  forSpec(specVersion: number): z.ZodTypeAny {
+    const previous = Object.entries(this.previous).find(
+      ([replacedIn]) => specVersion < Number(replacedIn),
+    );
+
+    return previous?.[1] ?? this.latest;
+  }
+}
+
+const versioned = <Z extends z.ZodTypeAny>(latest: Z, previous: Versioned<Z>['previous']) =>
+  new Versioned(latest, previous);
 
 export const rpcResult = {
   broker_requestSwapDepositAddress: brokerRequestSwapDepositAddress,
+  broker_register_account: brokerRegisterAccount,
+  broker_withdraw_fees: brokerWithdrawFees,
+  broker_request_swap_parameter_encoding: brokerRequestSwapParameterEncoding,
+  broker_register_affiliate: brokerRegisterAffiliate,
+  broker_get_affiliates: brokerGetAffiliates,
+  broker_affiliate_withdrawal_request: brokerAffiliateWithdrawalRequest,
   cf_accounts: cfAccounts,
-  cf_account_info: cfAccountInfo,
+  cf_account_info: versioned(cfAccountInfo, { 160: legacy.cfAccountInfo }),
   cf_pool_depth: cfPoolDepth,
   cf_boost_pools_depth: cfBoostPoolsDepth,
-  cf_environment: cfEnvironment,
+  cf_environment: versioned(cfEnvironment, { 160: legacy.cfEnvironment }),
   cf_funding_environment: cfFundingEnvironment,
-  cf_ingress_egress_environment: cfIngressEgressEnvironment,
+  cf_ingress_egress_environment: versioned(cfIngressEgressEnvironment, {
+    160: legacy.cfIngressEgressEnvironment,
+  }),
   cf_pool_orders: cfPoolOrders,
   cf_pool_price_v2: cfPoolPriceV2,
-  cf_pools_environment: cfPoolsEnvironment,
+  cf_pools_environment: versioned(cfPoolsEnvironment, { 160: legacy.cfPoolsEnvironment }),
   cf_supported_assets: cfSupportedAssets,
   cf_swap_rate: cfSwapRate,
   cf_swap_rate_v2: cfSwapRateV2,
-  cf_swapping_environment: cfSwappingEnvironment,
+  cf_swapping_environment: versioned(cfSwappingEnvironment, {
+    160: legacy.cfSwappingEnvironment,
+  }),
   chain_getBlockHash: chainGetBlockHash,
+  chain_getHeader: chainHeader,
   cf_boost_pool_details: cfBoostPoolDetails,
   cf_boost_pool_pending_fees: cfBoostPoolPendingFees,
+  cf_pool_liquidity: cfPoolLiquidity,
+  cf_required_asset_ratio_for_range_order: cfRequiredAssetRatioForRangeOrder,
+  cf_pool_orderbook: cfPoolOrderbook,
+  cf_scheduled_swaps: cfScheduledSwaps,
+  cf_lp_total_balances: versioned(cfLpTotalBalances, { 160: legacy.cfLpTotalBalances }),
+  cf_asset_balances: cfAssetBalances,
+  cf_free_balances: versioned(cfFreeBalances, { 160: legacy.cfFreeBalances }),
+  cf_penalties: cfPenalties,
+  cf_suspensions: cfSuspensions,
+  cf_epoch_state: cfEpochState,
+  cf_authority_emission_per_block: cfAuthorityEmissionPerBlock,
+  cf_flip_supply: cfFlipSupply,
   state_getMetadata: stateGetMetadata,
   state_getRuntimeVersion: stateGetRuntimeVersion,
-} as const satisfies { [K in keyof RpcRequest]: z.ZodTypeAny };
+  lp_register_account: lpRegisterAccount,
+  lp_liquidity_deposit: lpLiquidityDeposit,
+  lp_register_liquidity_refund_address: lpRegisterLiquidityRefundAddress,
+  lp_withdraw_asset: lpWithdrawAsset,
+  lp_set_limit_order: lpLimitOrders,
+  lp_update_limit_order: lpLimitOrders,
+  lp_set_range_order: lpRangeOrders,
+  lp_update_range_order: lpRangeOrders,
+  lp_total_balances: versioned(lpTotalBalances, { 160: legacy.lpTotalBalances }),
+  lp_transfer_asset: lpTransferAsset,
+} as const satisfies { [K in keyof RpcRequest]: z.ZodTypeAny | Versioned<z.ZodTypeAny> };
 
 export type RpcMethod = keyof RpcRequest;
 
-export type RpcResponse<T extends RpcMethod> = z.input<(typeof rpcResult)[T]>;
-export type RpcResult<T extends RpcMethod> = z.output<(typeof rpcResult)[T]>;
+// retrying these could have side effects, e.g. opening two deposit channels or
+// submitting the same order twice
+export const nonRetryableMethods = new Set<JsonRpcMethod>([
+  'broker_requestSwapDepositAddress',
+  'broker_register_account',
+  'broker_withdraw_fees',
+  'broker_register_affiliate',
+  'broker_affiliate_withdrawal_request',
+  'lp_register_account',
+  'lp_liquidity_deposit',
+  'lp_register_liquidity_refund_address',
+  'lp_withdraw_asset',
+  'lp_set_limit_order',
+  'lp_update_limit_order',
+  'lp_set_range_order',
+  'lp_update_range_order',
+  'lp_transfer_asset',
+]);
+
+type LatestParser<P> = P extends Versioned<infer Z> ? Z : P;
+
+export type RpcResponse<T extends RpcMethod> = z.input<LatestParser<(typeof rpcResult)[T]>>;
+export type RpcResult<T extends RpcMethod> = z.output<LatestParser<(typeof rpcResult)[T]>>;
+
+export const isVersioned = (method: RpcMethod) => rpcResult[method] instanceof Versioned;
+
+export const getResultParser = (
+  method: RpcMethod,
+  specVersion: number,
+): z.ZodType<unknown, z.ZodTypeDef, unknown> => {
+  const parser: z.ZodTypeAny | Versioned<z.ZodTypeAny> = rpcResult[method];
+
+  return (parser instanceof Versioned ? parser.forSpec(specVersion) : parser) as z.ZodType<
+    unknown,
+    z.ZodTypeDef,
+    unknown
+  >;
+};
+
+export type RpcSubscriptionRequest = {
+  chain_subscribeNewHeads: [];
+  chain_subscribeFinalizedHeads: [];
+  cf_subscribe_pool_price_v2: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+  ];
+  cf_subscribe_scheduled_swaps: [
+    baseAsset: UncheckedAssetAndChain,
+    quoteAsset: UncheckedAssetAndChain,
+  ];
+};
 
-export type JsonRpcRequest<T extends RpcMethod> = {
+export const rpcSubscriptionResult = {
+  chain_subscribeNewHeads: chainHeader,
+  chain_subscribeFinalizedHeads: chainHeader,
+  cf_subscribe_pool_price_v2: cfSubscribePoolPriceV2,
+  cf_subscribe_scheduled_swaps: cfSubscribeScheduledSwaps,
+} as const satisfies { [K in keyof RpcSubscriptionRequest]: z.ZodTypeAny };
+
+export type RpcSubscriptionMethod = keyof RpcSubscriptionRequest;
+
+export type RpcSubscriptionResult<T extends RpcSubscriptionMethod> = z.output<
+  (typeof rpcSubscriptionResult)[T]
+>;
+
+// e.g. `chain_subscribeNewHeads` is cancelled with `chain_unsubscribeNewHeads`
+export type RpcUnsubscribeMethod<T extends RpcSubscriptionMethod = RpcSubscriptionMethod> =
+  T extends `${infer P}subscribe${infer S}` ? `${P}unsubscribe${S}` : never;
+
+export const getUnsubscribeMethod = <T extends RpcSubscriptionMethod>(method: T) =>
+  method.replace('subscribe', 'unsubscribe') as RpcUnsubscribeMethod<T>;
+
+type JsonRpcParams = RpcRequest &
+  RpcSubscriptionRequest & {
+    [K in RpcUnsubscribeMethod]: [subscriptionId: string | number];
+  };
+
+export type JsonRpcMethod = keyof JsonRpcParams;
+
+const pair = [assetParam, assetParam] as const;
+
+const unchecked = z.unknown();
+
+/**
+ * converts the params of a method into the form the node expects, positions without a
+ * parser and nullish params are sent as they are
+ */
+export const rpcParams = {
+  broker_requestSwapDepositAddress: [
+    ...pair,
+    unchecked,
+    bpsParam,
+    ccmMetadataParam,
+    bpsParam,
+    affiliateFeesParam,
+    fillOrKillParam,
+  ],
+  broker_withdraw_fees: [assetParam],
+  broker_request_swap_parameter_encoding: [
+    ...pair,
+    unchecked,
+    bpsParam,
+    vaultSwapExtraParam,
+    ccmMetadataParam,
+    bpsParam,
+    affiliateFeesParam,
+  ],
+  cf_pool_orders: pair,
+  cf_pool_price_v2: pair,
+  cf_swap_rate: [...pair, u256Param],
+  cf_swap_rate_v2: [...pair, u256Param, additionalOrdersParam],
+  cf_boost_pool_details: [assetParam],
+  cf_boost_pool_pending_fees: [assetParam],
+  cf_pool_depth: [...pair, tickRangeParam],
+  cf_pool_liquidity: pair,
+  cf_required_asset_ratio_for_range_order: [...pair, tickRangeParam],
+  cf_pool_orderbook: pair,
+  cf_scheduled_swaps: pair,
+  cf_subscribe_pool_price_v2: pair,
+  cf_subscribe_scheduled_swaps: pair,
+  lp_liquidity_deposit: [assetParam, unchecked, bpsParam],
+  lp_withdraw_asset: [u256Param, assetParam],
+  lp_set_limit_order: [...pair, unchecked, u256Param, tickParam, u256Param],
+  lp_update_limit_order: [
+    ...pair,
+    unchecked,
+    u256Param,
+    tickParam,
+    increaseOrDecreaseParam(u256Param),
+  ],
+  lp_set_range_order: [...pair, u256Param, tickRangeParam, rangeOrderSizeParam],
+  lp_update_range_order: [
+    ...pair,
+    u256Param,
+    tickRangeParam,
+    increaseOrDecreaseParam(rangeOrderSizeParam),
+  ],
+  lp_transfer_asset: [u256Param, assetParam],
+} as const satisfies { [K in JsonRpcMethod]?: readonly z.ZodTypeAny[] };
+
+export type JsonRpcRequest<T extends JsonRpcMethod> = {
   jsonrpc: '2.0';
   id: string;
   method: T;
-  params: RpcRequest[T];
+  params: JsonRpcParams[T];
 };
 
+export type JsonRpcPayload = JsonRpcRequest<JsonRpcMethod> | JsonRpcRequest<JsonRpcMethod>[];
+
 export type JsonRpcResponse = z.output<typeof rpcResponse>;
 
-export { rpcResponse } from './parsers';
+export type RpcBatchRequest = {
+  [M in RpcMethod]: { method: M; params: RpcRequest[M] };
+}[RpcMethod];
+
+export type RpcBatchResult<T extends readonly RpcBatchRequest[]> = {
+  -readonly [K in keyof T]:
+    | { success: true; result: RpcResult<T[K]['method']> }
+    | { success: false; error: Error };
+};
+
+export { rpcResponse, rpcNotification } from './parsers';
@@ -0,0 +1,83 @@
+import type { z } from 'zod';
+
+const knownErrorCodes: Record<number, string> = {
+  // JSON-RPC 2.0
+  [-32700]: 'ParseError',
+  [-32600]: 'InvalidRequest',
+  [-32601]: 'MethodNotFound',
+  [-32602]: 'InvalidParams',
+  [-32603]: 'InternalError',
+  // Substrate author and transaction pool
+  1001: 'BadFormat',
+  1002: 'VerificationError',
+  1010: 'InvalidTransaction',
+  1011: 'UnknownTransaction',
+  1012: 'TemporarilyBanned',
+  1013: 'AlreadyImported',
+  1014: 'TooLowPriority',
+  1015: 'CycleDetected',
+  1016: 'ImmediatelyDropped',
+  1017: 'Unactionable',
+};
+
+export class RpcError extends Error {
+  override name = 'RpcError';
+
+  // the name of the error code, e.g. `InvalidParams`
+  readonly codeName?: string;
+
+  // the pallet error that caused an extrinsic to fail, e.g. `Swapping::InvalidDestinationAddress`
+  readonly dispatchError?: { pallet: string; error: string };
+
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data: unknown,
+    readonly method: string,
+    readonly params: unknown[],
+  ) {
+    super(`RPC error [${code}]: ${message}`);
+    this.codeName = knownErrorCodes[code];
+
+    const dispatchError = /\b([A-Z]\w*)::([A-Z]\w*)\b/.exec(
+      typeof data === 'string' ? `${message} ${data}` : message,
+    );
+
+    if (dispatchError) this.dispatchError = { pallet: dispatchError[1], error: dispatchError[2] };
+  }
+}
+
+export class TransportError extends Error {
+  override name = 'TransportError';
+
+  constructor(
+    message: string,
+    // the HTTP status code of the response, if there was one
+    readonly status?: number,
+  ) {
+    super(message);
+  }
+}
+
+export class ResponseValidationError extends Error {
+  override name = 'ResponseValidationError';
+
+  constructor(
+    message: string,
+    readonly issues: z.ZodIssue[] = [],
+  ) {
+    super(message);
+  }
+}
+
+export class ParamValidationError extends Error {
+  override name = 'ParamValidationError';
+
+  constructor(
+    message: string,
+    // the paths of the issues start with the index of the param
+    readonly issues: z.ZodIssue[],
+  ) {
+    super(message);
+  }
+}
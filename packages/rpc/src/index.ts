@@ -1,4 +1,7 @@
 export { default as HttpClient } from './HttpClient';
 export { default as WsClient } from './WsClient';
+export { default as FailoverClient, type FailoverClientOptions } from './FailoverClient';
+export { type ClientOptions, type RequestOptions } from './Client';
 export * from './types';
+export { RpcError, TransportError, ResponseValidationError, ParamValidationError } from './errors';
 export * as constants from './constants';
@@ -10,35 +10,65 @@ export const u256 = hexString.transform((value) => BigInt(value));
 
 export const numberOrHex = z.union([z.number().transform((n) => BigInt(n)), u256]);
 
-const chainAssetMapFactory = <Z extends z.ZodTypeAny>(parser: Z, defaultValue: z.input<Z>) =>
+// whether the entries that runtimes before 1.6 don't return, e.g. the ones for Solana, are
+// required or filled in with defaults for older runtimes
+type Added = 'required' | 'defaulted';
+
+type AddedParser<Z extends z.ZodTypeAny, A extends Added> = A extends 'defaulted'
+  ? z.ZodDefault<Z>
+  : Z;
+
+const added = <Z extends z.ZodTypeAny, A extends Added>(
+  parser: Z,
+  defaultValue: z.util.noUndefined<z.input<Z>>,
+  mode: A,
+) => (mode === 'defaulted' ? parser.default(defaultValue) : parser) as AddedParser<Z, A>;
+
+const chainAssetMapFactory = <Z extends z.ZodTypeAny, A extends Added>(
+  parser: Z,
+  defaultValue: z.util.noUndefined<z.input<Z>>,
+  mode: A,
+) =>
   z.object({
     Bitcoin: z.object({ BTC: parser }),
     Ethereum: z.object({ ETH: parser, USDC: parser, FLIP: parser, USDT: parser }),
     Polkadot: z.object({ DOT: parser }),
     Arbitrum: z.object({ ETH: parser, USDC: parser }),
-    Solana: z
-      .object({ SOL: parser.default(defaultValue), USDC: parser.default(defaultValue) })
-      .default({ SOL: defaultValue, USDC: defaultValue }),
+    Solana: added(
+      z.object({ SOL: added(parser, defaultValue, mode), USDC: added(parser, defaultValue, mode) }),
+      { SOL: defaultValue, USDC: defaultValue },
+      mode,
+    ),
   });
 
-const chainBaseAssetMapFactory = <Z extends z.ZodTypeAny>(parser: Z, defaultValue: z.input<Z>) =>
+const chainBaseAssetMapFactory = <Z extends z.ZodTypeAny, A extends Added>(
+  parser: Z,
+  defaultValue: z.util.noUndefined<z.input<Z>>,
+  mode: A,
+) =>
   z.object({
     Bitcoin: z.object({ BTC: parser }),
     Ethereum: z.object({ ETH: parser, FLIP: parser, USDT: parser }),
     Polkadot: z.object({ DOT: parser }),
     Arbitrum: z.object({ ETH: parser, USDC: parser }),
-    Solana: z
-      .object({ SOL: parser.default(defaultValue), USDC: parser.default(defaultValue) })
-      .default({ SOL: defaultValue, USDC: defaultValue }),
+    Solana: added(
+      z.object({ SOL: added(parser, defaultValue, mode), USDC: added(parser, defaultValue, mode) }),
+      { SOL: defaultValue, USDC: defaultValue },
+      mode,
+    ),
   });
 
-const chainMapFactory = <Z extends z.ZodTypeAny>(parser: Z, defaultValue: z.input<Z>) =>
+const chainMapFactory = <Z extends z.ZodTypeAny, A extends Added>(
+  parser: Z,
+  defaultValue: z.util.noUndefined<z.input<Z>>,
+  mode: A,
+) =>
   z.object({
     Bitcoin: parser,
     Ethereum: parser,
     Polkadot: parser,
     Arbitrum: parser,
-    Solana: parser.default(defaultValue),
+    Solana: added(parser, defaultValue, mode),
   });
 
 const rpcAssetSchema = z.union([
@@ -80,11 +110,20 @@ const nonNullish = z.any().refine(isNotNullish, { message: 'Value must not be nu
 const rpcSuccessResponse = rpcBaseResponse.extend({ result: nonNullish });
 
 const rpcErrorResponse = rpcBaseResponse.extend({
-  error: z.object({ code: z.number(), message: z.string() }),
+  error: z.object({ code: z.number(), message: z.string(), data: z.unknown().optional() }),
 });
 
 export const rpcResponse = z.union([rpcSuccessResponse, rpcErrorResponse]);
 
+export const rpcNotification = z.object({
+  jsonrpc: z.literal('2.0'),
+  method: z.string(),
+  params: z.object({
+    subscription: z.union([z.string(), z.number()]),
+    result: z.unknown(),
+  }),
+});
+
 // rpc responses
 
 export const cfSwapRate = z.object({
@@ -117,25 +156,32 @@ export const stateGetRuntimeVersion = z.object({
   stateVersion: z.number(),
 });
 
-export const cfIngressEgressEnvironment = z
-  .object({
-    minimum_deposit_amounts: chainAssetMapFactory(numberOrHex, 0),
-    ingress_fees: chainAssetMapFactory(numberOrHex.nullable(), null),
-    egress_fees: chainAssetMapFactory(numberOrHex.nullable(), null),
-    witness_safety_margins: chainMapFactory(z.number().nullable(), null),
-    egress_dust_limits: chainAssetMapFactory(numberOrHex, 0),
-    channel_opening_fees: chainMapFactory(numberOrHex, 0),
-    // TODO(1.6): no longer optional
-    max_swap_retry_duration_blocks: chainMapFactory(z.number(), 0)
-      .optional()
-      .default({ Arbitrum: 0, Bitcoin: 0, Ethereum: 0, Polkadot: 0, Solana: 0 }),
-  })
-  .transform(rename({ egress_dust_limits: 'minimum_egress_amounts' }));
+const ingressEgressEnvironment = <A extends Added>(mode: A) =>
+  z
+    .object({
+      minimum_deposit_amounts: chainAssetMapFactory(numberOrHex, 0, mode),
+      ingress_fees: chainAssetMapFactory(numberOrHex.nullable(), null, mode),
+      egress_fees: chainAssetMapFactory(numberOrHex.nullable(), null, mode),
+      witness_safety_margins: chainMapFactory(z.number().nullable(), null, mode),
+      egress_dust_limits: chainAssetMapFactory(numberOrHex, 0, mode),
+      channel_opening_fees: chainMapFactory(numberOrHex, 0, mode),
+      max_swap_retry_duration_blocks: added(
+        chainMapFactory(z.number(), 0, mode),
+        { Arbitrum: 0, Bitcoin: 0, Ethereum: 0, Polkadot: 0, Solana: 0 },
+        mode,
+      ),
+    })
+    .transform(rename({ egress_dust_limits: 'minimum_egress_amounts' }));
 
-export const cfSwappingEnvironment = z.object({
-  maximum_swap_amounts: chainAssetMapFactory(numberOrHex.nullable(), null),
-  network_fee_hundredth_pips: z.number(),
-});
+export const cfIngressEgressEnvironment = ingressEgressEnvironment('required');
+
+const swappingEnvironment = <A extends Added>(mode: A) =>
+  z.object({
+    maximum_swap_amounts: chainAssetMapFactory(numberOrHex.nullable(), null, mode),
+    network_fee_hundredth_pips: z.number(),
+  });
+
+export const cfSwappingEnvironment = swappingEnvironment('required');
 
 export const cfFundingEnvironment = z.object({
   redemption_tax: numberOrHex,
@@ -153,30 +199,36 @@ const defaultFeeInfo = () =>
     quote_asset: { chain: 'Ethereum', asset: 'USDC' },
   }) as const;
 
-export const cfPoolsEnvironment = z.object({
-  fees: chainBaseAssetMapFactory(
-    z
-      .object({
-        limit_order_fee_hundredth_pips: z.number(),
-        range_order_fee_hundredth_pips: z.number(),
-        range_order_total_fees_earned: z.object({ base: u256, quote: u256 }),
-        limit_order_total_fees_earned: z.object({ base: u256, quote: u256 }),
-        range_total_swap_inputs: z.object({ base: u256, quote: u256 }),
-        limit_total_swap_inputs: z.object({ base: u256, quote: u256 }),
-        quote_asset: z.object({ chain: z.literal('Ethereum'), asset: z.literal('USDC') }),
-      })
-      .nullable()
-      .transform((info) => info ?? defaultFeeInfo()),
-    defaultFeeInfo(),
-  ),
+const feeInfo = z.object({
+  limit_order_fee_hundredth_pips: z.number(),
+  range_order_fee_hundredth_pips: z.number(),
+  range_order_total_fees_earned: z.object({ base: u256, quote: u256 }),
+  limit_order_total_fees_earned: z.object({ base: u256, quote: u256 }),
+  range_total_swap_inputs: z.object({ base: u256, quote: u256 }),
+  limit_total_swap_inputs: z.object({ base: u256, quote: u256 }),
+  quote_asset: z.object({ chain: z.literal('Ethereum'), asset: z.literal('USDC') }),
 });
 
-export const cfEnvironment = z.object({
-  ingress_egress: cfIngressEgressEnvironment,
-  swapping: cfSwappingEnvironment,
-  funding: cfFundingEnvironment,
-  pools: cfPoolsEnvironment,
-});
+const poolsEnvironment = <A extends Added>(mode: A) =>
+  z.object({
+    fees: chainBaseAssetMapFactory(
+      feeInfo.nullable().transform((info) => info ?? feeInfo.parse(defaultFeeInfo())),
+      defaultFeeInfo(),
+      mode,
+    ),
+  });
+
+export const cfPoolsEnvironment = poolsEnvironment('required');
+
+const environment = <A extends Added>(mode: A) =>
+  z.object({
+    ingress_egress: ingressEgressEnvironment(mode),
+    swapping: swappingEnvironment(mode),
+    funding: cfFundingEnvironment,
+    pools: poolsEnvironment(mode),
+  });
+
+export const cfEnvironment = environment('required');
 
 export const cfBoostPoolsDepth = z.array(
   z.intersection(rpcAssetSchema, z.object({ tier: z.number(), available_amount: u256 })),
@@ -216,11 +268,14 @@ export const unregistered = z.object({
   flip_balance: numberOrHex,
 });
 
-export const broker = z.object({
-  role: z.literal('broker'),
-  flip_balance: numberOrHex,
-  earned_fees: chainAssetMapFactory(numberOrHex, 0),
-});
+const brokerAccount = <A extends Added>(mode: A) =>
+  z.object({
+    role: z.literal('broker'),
+    flip_balance: numberOrHex,
+    earned_fees: chainAssetMapFactory(numberOrHex, 0, mode),
+  });
+
+export const broker = brokerAccount('required');
 
 const boostBalances = z.array(
   z.object({
@@ -232,14 +287,17 @@ const boostBalances = z.array(
   }),
 );
 
-export const liquidityProvider = z.object({
-  role: z.literal('liquidity_provider'),
-  balances: chainAssetMapFactory(numberOrHex, '0x0'),
-  refund_addresses: chainMapFactory(z.string().nullable(), null),
-  flip_balance: numberOrHex,
-  earned_fees: chainAssetMapFactory(numberOrHex, 0),
-  boost_balances: chainAssetMapFactory(boostBalances, []),
-});
+const liquidityProviderAccount = <A extends Added>(mode: A) =>
+  z.object({
+    role: z.literal('liquidity_provider'),
+    balances: chainAssetMapFactory(numberOrHex, '0x0', mode),
+    refund_addresses: chainMapFactory(z.string().nullable(), null, mode),
+    flip_balance: numberOrHex,
+    earned_fees: chainAssetMapFactory(numberOrHex, 0, mode),
+    boost_balances: chainAssetMapFactory(boostBalances, [], mode),
+  });
+
+export const liquidityProvider = liquidityProviderAccount('required');
 
 export const validator = z.object({
   role: z.literal('validator'),
@@ -260,6 +318,23 @@ export const validator = z.object({
 
 export const cfAccountInfo = z.union([unregistered, broker, liquidityProvider, validator]);
 
+// the parsers for the responses of runtimes before 1.6
+export const legacy = {
+  cfIngressEgressEnvironment: ingressEgressEnvironment('defaulted'),
+  cfSwappingEnvironment: swappingEnvironment('defaulted'),
+  cfPoolsEnvironment: poolsEnvironment('defaulted'),
+  cfEnvironment: environment('defaulted'),
+  cfAccountInfo: z.union([
+    unregistered,
+    brokerAccount('defaulted'),
+    liquidityProviderAccount('defaulted'),
+    validator,
+  ]),
+  cfLpTotalBalances: chainAssetMapFactory(numberOrHex, 0, 'defaulted'),
+  cfFreeBalances: chainAssetMapFactory(numberOrHex, 0, 'defaulted'),
+  lpTotalBalances: chainAssetMapFactory(numberOrHex, '0x0', 'defaulted'),
+};
+
 export const cfAccounts = z.array(z.tuple([z.string(), z.string()]));
 
 export const cfPoolPriceV2 = z.object({
@@ -353,3 +428,291 @@ export const cfBoostPoolPendingFees = z.array(
     }),
   ),
 );
+
+const askBidMap = <Z extends z.ZodTypeAny>(parser: Z) => z.object({ asks: parser, bids: parser });
+
+export const cfPoolLiquidity = z.object({
+  limit_orders: askBidMap(z.array(z.object({ tick: z.number(), amount: u256 }))),
+  range_orders: z.array(z.object({ tick: z.number(), liquidity: u256 })),
+});
+
+export const cfRequiredAssetRatioForRangeOrder = z.object({ base: u256, quote: u256 });
+
+export const cfPoolOrderbook = askBidMap(z.array(z.object({ amount: u256, sqrt_price: u256 })));
+
+const scheduledSwap = z.object({
+  swap_id: numberOrHex,
+  base_asset: rpcAssetSchema,
+  quote_asset: rpcAssetSchema,
+  side: z.enum(['buy', 'sell']),
+  amount: numberOrHex,
+  source_asset: rpcAssetSchema.nullish(),
+  source_amount: numberOrHex.nullish(),
+  execute_at: z.number(),
+});
+
+export const cfScheduledSwaps = z.array(scheduledSwap);
+
+export const cfLpTotalBalances = chainAssetMapFactory(numberOrHex, 0, 'required');
+
+export const cfAssetBalances = z.array(
+  z.intersection(rpcAssetSchema, z.object({ balance: numberOrHex })),
+);
+
+export const cfFreeBalances = chainAssetMapFactory(numberOrHex, 0, 'required');
+
+export const cfPenalties = z.array(
+  z.tuple([
+    z.string(),
+    z.object({ reputation_points: z.number(), suspension_duration_blocks: z.number() }),
+  ]),
+);
+
+// the validators that are suspended for each kind of offence, with the block the
+// suspension ends at
+export const cfSuspensions = z.array(
+  z.tuple([z.string(), z.array(z.tuple([z.number(), z.string()]))]),
+);
+
+export const cfEpochState = z.object({
+  blocks_per_epoch: z.number(),
+  current_epoch_started_at: z.number(),
+  current_epoch_index: z.number(),
+  min_active_bid: numberOrHex.nullable(),
+  rotation_phase: z.string(),
+});
+
+export const cfAuthorityEmissionPerBlock = numberOrHex;
+
+export const cfFlipSupply = z
+  .tuple([numberOrHex, numberOrHex])
+  .transform(([totalSupply, offchainSupply]) => ({ totalSupply, offchainSupply }));
+
+// lp and broker api responses
+
+const egressId = z.tuple([
+  z.enum(['Ethereum', 'Polkadot', 'Bitcoin', 'Arbitrum', 'Solana']),
+  z.number(),
+]);
+
+// the hash of the submitted extrinsic, unless the lp api was asked to wait for its result
+const waitForResult = <Z extends z.ZodTypeAny>(parser: Z) =>
+  z.union([hexString, z.object({ tx_hash: hexString, response: parser })]);
+
+const increaseOrDecrease = <Z extends z.ZodTypeAny>(parser: Z) =>
+  z.union([z.object({ Increase: parser }), z.object({ Decrease: parser })]);
+
+const baseAndQuote = z.object({ base: u256, quote: u256 });
+
+export const lpRegisterAccount = hexString;
+
+export const lpLiquidityDeposit = waitForResult(z.string());
+
+export const lpRegisterLiquidityRefundAddress = hexString;
+
+export const lpWithdrawAsset = waitForResult(egressId);
+
+export const lpLimitOrders = waitForResult(
+  z.array(
+    z.object({
+      base_asset: rpcAssetSchema,
+      quote_asset: rpcAssetSchema,
+      side: z.enum(['buy', 'sell']),
+      id: orderId,
+      tick: z.number(),
+      sell_amount_total: u256,
+      collected_fees: u256,
+      bought_amount: u256,
+      sell_amount_change: increaseOrDecrease(u256).nullable(),
+    }),
+  ),
+);
+
+export const lpRangeOrders = waitForResult(
+  z.array(
+    z.object({
+      base_asset: rpcAssetSchema,
+      quote_asset: rpcAssetSchema,
+      id: orderId,
+      range: z.object({ start: z.number(), end: z.number() }),
+      liquidity_total: u256,
+      collected_fees: baseAndQuote,
+      size_change: increaseOrDecrease(
+        z.object({ liquidity: u256, amounts: baseAndQuote }),
+      ).nullable(),
+    }),
+  ),
+);
+
+export const lpTotalBalances = chainAssetMapFactory(numberOrHex, '0x0', 'required');
+
+export const lpTransferAsset = hexString;
+
+export const brokerRegisterAccount = hexString;
+
+const withdrawFeesDetail = z.object({
+  tx_hash: hexString,
+  egress_id: egressId,
+  egress_amount: u256,
+  egress_fee: u256,
+  destination_address: z.string(),
+});
+
+export const brokerWithdrawFees = withdrawFeesDetail;
+
+const evmVaultSwap = z.object({
+  calldata: hexString,
+  value: u256,
+  to: hexString,
+  source_token_address: hexString.nullish(),
+});
+
+// the transaction that has to be sent to the vault of the source chain to start the swap
+export const brokerRequestSwapParameterEncoding = z.discriminatedUnion('chain', [
+  z.object({
+    chain: z.literal('Bitcoin'),
+    nulldata_payload: hexString,
+    deposit_address: z.string(),
+  }),
+  evmVaultSwap.extend({ chain: z.literal('Ethereum') }),
+  evmVaultSwap.extend({ chain: z.literal('Arbitrum') }),
+  z.object({
+    chain: z.literal('Solana'),
+    program_id: z.string(),
+    accounts: z.array(
+      z.object({ pubkey: z.string(), is_signer: z.boolean(), is_writable: z.boolean() }),
+    ),
+    data: hexString,
+  }),
+]);
+
+export const brokerRegisterAffiliate = z.string();
+
+export const brokerGetAffiliates = z.array(
+  z.tuple([z.string(), z.object({ short_id: z.number(), withdrawal_address: hexString })]),
+);
+
+export const brokerAffiliateWithdrawalRequest = withdrawFeesDetail;
+
+// rpc subscriptions
+
+export const subscriptionId = z.union([z.string(), z.number()]);
+
+export const chainHeader = z.object({
+  parentHash: hexString,
+  number: hexString.transform((n) => Number(n)),
+  stateRoot: hexString,
+  extrinsicsRoot: hexString,
+  digest: z.object({ logs: z.array(hexString) }),
+});
+
+const blockUpdate = <Z extends z.ZodTypeAny>(parser: Z) =>
+  z.object({
+    block_hash: hexString,
+    block_number: z.number(),
+    data: parser,
+  });
+
+export const cfSubscribePoolPriceV2 = blockUpdate(cfPoolPriceV2);
+
+export const cfSubscribeScheduledSwaps = blockUpdate(z.object({ swaps: z.array(scheduledSwap) }));
+
+// rpc params
+
+const MAX_U256 = 2n ** 256n - 1n;
+
+const MAX_TICK = 887_272;
+
+// accepts bigints, safe integers, decimal and hex strings and sends them as hex, larger values
+// have to be bigints or strings to not lose precision
+export const u256Param = z
+  .union([z.bigint(), z.number().int().safe(), z.string().regex(/^\d+$/), hexString])
+  .transform((value) => BigInt(value))
+  .refine((n) => n >= 0n && n <= MAX_U256, { message: 'Value is out of range for a U256' })
+  .transform((n) => `0x${n.toString(16)}` as const);
+
+export const bpsParam = z.number().int().min(0).max(10_000);
+
+export const tickParam = z.number().int().min(-MAX_TICK).max(MAX_TICK);
+
+export const tickRangeParam = z.object({ start: tickParam, end: tickParam });
+
+// e.g. `Btc` is sent as `BTC`
+export const assetParam = z
+  .object({ chain: z.string(), asset: z.string() })
+  .transform(({ chain, asset }) => ({ chain, asset: asset.toUpperCase() }))
+  .pipe(rpcAssetSchema);
+
+// unknown fields of the objects are passed through to the node
+export const ccmMetadataParam = z
+  .object({ message: z.string(), gas_budget: u256Param })
+  .passthrough();
+
+export const affiliateFeesParam = z.array(z.object({ account: z.string(), bps: bpsParam }));
+
+export const fillOrKillParam = z
+  .object({
+    refund_address: z.string(),
+    retry_duration_blocks: z.number(),
+    min_price: u256Param,
+  })
+  .passthrough();
+
+const refundParameters = z
+  .object({
+    retry_duration: z.number(),
+    refund_address: z.string(),
+    min_price: u256Param,
+  })
+  .passthrough();
+
+export const vaultSwapExtraParam = z.discriminatedUnion('chain', [
+  z
+    .object({
+      chain: z.literal('Bitcoin'),
+      min_output_amount: u256Param,
+      retry_duration: z.number(),
+    })
+    .passthrough(),
+  z
+    .object({
+      chain: z.enum(['Ethereum', 'Arbitrum']),
+      input_amount: u256Param,
+      refund_parameters: refundParameters,
+    })
+    .passthrough(),
+  z
+    .object({
+      chain: z.literal('Solana'),
+      from: z.string(),
+      event_data_account: z.string(),
+      input_amount: u256Param,
+      refund_parameters: refundParameters,
+      from_token_account: z.string().nullish(),
+    })
+    .passthrough(),
+]);
+
+export const additionalOrdersParam = z.array(
+  z.object({
+    LimitOrder: z.object({
+      base_asset: assetParam,
+      quote_asset: assetParam,
+      side: z.enum(['buy', 'sell']),
+      tick: tickParam,
+      sell_amount: u256Param,
+    }),
+  }),
+);
+
+export const increaseOrDecreaseParam = <Z extends z.ZodTypeAny>(parser: Z) =>
+  z.union([z.object({ Increase: parser }), z.object({ Decrease: parser })]);
+
+const baseAndQuoteParam = z.object({ base: u256Param, quote: u256Param });
+
+export const rangeOrderSizeParam = z.union([
+  z.object({
+    AssetAmounts: z.object({ maximum: baseAndQuoteParam, minimum: baseAndQuoteParam }),
+  }),
+  z.object({ Liquidity: z.object({ liquidity: u256Param }) }),
+]);
@@ -18,6 +18,19 @@ export type CfSwapRate = RpcResult<'cf_swap_rate'>;
 export type CfSwapRateV2 = RpcResult<'cf_swap_rate_v2'>;
 export type CfPoolDepth = RpcResult<'cf_pool_depth'>;
 export type CfAccounts = RpcResult<'cf_accounts'>;
+export type CfPoolLiquidity = RpcResult<'cf_pool_liquidity'>;
+export type CfRequiredAssetRatioForRangeOrder =
+  RpcResult<'cf_required_asset_ratio_for_range_order'>;
+export type CfPoolOrderbook = RpcResult<'cf_pool_orderbook'>;
+export type CfScheduledSwaps = RpcResult<'cf_scheduled_swaps'>;
+export type CfLpTotalBalances = RpcResult<'cf_lp_total_balances'>;
+export type CfAssetBalances = RpcResult<'cf_asset_balances'>;
+export type CfFreeBalances = RpcResult<'cf_free_balances'>;
+export type CfPenalties = RpcResult<'cf_penalties'>;
+export type CfSuspensions = RpcResult<'cf_suspensions'>;
+export type CfEpochState = RpcResult<'cf_epoch_state'>;
+export type CfAuthorityEmissionPerBlock = RpcResult<'cf_authority_emission_per_block'>;
+export type CfFlipSupply = RpcResult<'cf_flip_supply'>;
 
 export type CfAccountInfoResponse = RpcResponse<'cf_account_info'>;
 export type CfBoostPoolDetailsResponse = RpcResponse<'cf_boost_pool_details'>;
@@ -35,6 +48,62 @@ export type CfSwapRateResponse = RpcResponse<'cf_swap_rate'>;
 export type CfSwapRateV2Response = RpcResponse<'cf_swap_rate_v2'>;
 export type CfPoolDepthResponse = RpcResponse<'cf_pool_depth'>;
 export type CfAccountsResponse = RpcResponse<'cf_accounts'>;
+export type CfPoolLiquidityResponse = RpcResponse<'cf_pool_liquidity'>;
+export type CfRequiredAssetRatioForRangeOrderResponse =
+  RpcResponse<'cf_required_asset_ratio_for_range_order'>;
+export type CfPoolOrderbookResponse = RpcResponse<'cf_pool_orderbook'>;
+export type CfScheduledSwapsResponse = RpcResponse<'cf_scheduled_swaps'>;
+export type CfLpTotalBalancesResponse = RpcResponse<'cf_lp_total_balances'>;
+export type CfAssetBalancesResponse = RpcResponse<'cf_asset_balances'>;
+export type CfFreeBalancesResponse = RpcResponse<'cf_free_balances'>;
+export type CfPenaltiesResponse = RpcResponse<'cf_penalties'>;
+export type CfSuspensionsResponse = RpcResponse<'cf_suspensions'>;
+export type CfEpochStateResponse = RpcResponse<'cf_epoch_state'>;
+export type CfAuthorityEmissionPerBlockResponse = RpcResponse<'cf_authority_emission_per_block'>;
+export type CfFlipSupplyResponse = RpcResponse<'cf_flip_supply'>;
+
+export type LpRegisterAccount = RpcResult<'lp_register_account'>;
+export type LpLiquidityDeposit = RpcResult<'lp_liquidity_deposit'>;
+export type LpRegisterLiquidityRefundAddress = RpcResult<'lp_register_liquidity_refund_address'>;
+export type LpWithdrawAsset = RpcResult<'lp_withdraw_asset'>;
+export type LpSetLimitOrder = RpcResult<'lp_set_limit_order'>;
+export type LpUpdateLimitOrder = RpcResult<'lp_update_limit_order'>;
+export type LpSetRangeOrder = RpcResult<'lp_set_range_order'>;
+export type LpUpdateRangeOrder = RpcResult<'lp_update_range_order'>;
+export type LpTotalBalances = RpcResult<'lp_total_balances'>;
+export type LpTransferAsset = RpcResult<'lp_transfer_asset'>;
+
+export type LpRegisterAccountResponse = RpcResponse<'lp_register_account'>;
+export type LpLiquidityDepositResponse = RpcResponse<'lp_liquidity_deposit'>;
+export type LpRegisterLiquidityRefundAddressResponse =
+  RpcResponse<'lp_register_liquidity_refund_address'>;
+export type LpWithdrawAssetResponse = RpcResponse<'lp_withdraw_asset'>;
+export type LpSetLimitOrderResponse = RpcResponse<'lp_set_limit_order'>;
+export type LpUpdateLimitOrderResponse = RpcResponse<'lp_update_limit_order'>;
+export type LpSetRangeOrderResponse = RpcResponse<'lp_set_range_order'>;
+export type LpUpdateRangeOrderResponse = RpcResponse<'lp_update_range_order'>;
+export type LpTotalBalancesResponse = RpcResponse<'lp_total_balances'>;
+export type LpTransferAssetResponse = RpcResponse<'lp_transfer_asset'>;
+
+export type BrokerRequestSwapDepositAddress = RpcResult<'broker_requestSwapDepositAddress'>;
+export type BrokerRegisterAccount = RpcResult<'broker_register_account'>;
+export type BrokerWithdrawFees = RpcResult<'broker_withdraw_fees'>;
+export type BrokerRequestSwapParameterEncoding =
+  RpcResult<'broker_request_swap_parameter_encoding'>;
+export type BrokerRegisterAffiliate = RpcResult<'broker_register_affiliate'>;
+export type BrokerGetAffiliates = RpcResult<'broker_get_affiliates'>;
+export type BrokerAffiliateWithdrawalRequest = RpcResult<'broker_affiliate_withdrawal_request'>;
+
+export type BrokerRequestSwapDepositAddressResponse =
+  RpcResponse<'broker_requestSwapDepositAddress'>;
+export type BrokerRegisterAccountResponse = RpcResponse<'broker_register_account'>;
+export type BrokerWithdrawFeesResponse = RpcResponse<'broker_withdraw_fees'>;
+export type BrokerRequestSwapParameterEncodingResponse =
+  RpcResponse<'broker_request_swap_parameter_encoding'>;
+export type BrokerRegisterAffiliateResponse = RpcResponse<'broker_register_affiliate'>;
+export type BrokerGetAffiliatesResponse = RpcResponse<'broker_get_affiliates'>;
+export type BrokerAffiliateWithdrawalRequestResponse =
+  RpcResponse<'broker_affiliate_withdrawal_request'>;
 
 export type CfUnregisteredAccount = z.output<typeof unregistered>;
 export type CfBrokerAccount = z.output<typeof broker>;
@@ -42,4 +111,16 @@ export type CfValidatorAccount = z.output<typeof validator>;
 export type CfLiquidityProviderAccount = z.output<typeof liquidityProvider>;
 
 export type { RpcLimitOrder, RpcRangeOrder } from './parsers';
-export type { RpcMethod, RpcRequest as RpcParams, RpcResult } from './common';
+export type {
+  RpcMethod,
+  RpcRequest as RpcParams,
+  RpcResult,
+  RpcBatchRequest,
+  RpcBatchResult,
+} from './common';
+export type {
+  RpcSubscriptionMethod,
+  RpcSubscriptionRequest as RpcSubscriptionParams,
+  RpcSubscriptionResult,
+} from './common';
+export type { default as Subscription } from './Subscription';